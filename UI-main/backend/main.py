@@ -1,18 +1,27 @@
 import os
 import io
+import asyncio
 import re
 import csv
 import json
 import time
+import threading
 import traceback
 import warnings
 import requests
-from typing import List, Optional, Dict, Any
+from typing import List, Optional, Dict, Any, Tuple
 from fastapi import FastAPI, HTTPException, UploadFile, File, Request, Body
 from fastapi.middleware.cors import CORSMiddleware
+from fastapi.responses import StreamingResponse
 from pydantic import BaseModel
 from fpdf import FPDF
 from docx import Document
+from pptx import Presentation
+from pptx.dml.color import RGBColor
+from pptx.enum.shapes import MSO_SHAPE
+from pptx.enum.text import MSO_AUTO_SIZE, PP_ALIGN
+from pptx.oxml.ns import qn
+from pptx.util import Inches, Pt
 from dotenv import load_dotenv
 from atlassian import Confluence
 import google.generativeai as genai
@@ -20,6 +29,8 @@ from bs4 import BeautifulSoup
 from io import BytesIO
 import difflib
 import base64
+import html
+from collections import OrderedDict
 
 # Load environment variables
 load_dotenv()
@@ -49,34 +60,76 @@ if not GEMINI_API_KEY:
 # Configure Gemini AI
 genai.configure(api_key=GEMINI_API_KEY)
 
+# The model every endpoint generates with; reported by GET / for report metadata
+GEMINI_MODEL = "models/gemini-1.5-flash-8b-latest"
+
 # Pydantic models for request/response
 class SearchRequest(BaseModel):
     space_key: str
     page_titles: List[str]
     query: str
+    # Ids of the pages in page_titles, in the same order; a page without one is looked up by title
+    page_ids: Optional[List[Optional[str]]] = None
 
 class VideoRequest(BaseModel):
     video_url: Optional[str] = None
     space_key: str
     page_title: str
+    page_id: Optional[str] = None
     question: Optional[str] = None
 
 class CodeRequest(BaseModel):
     space_key: str
     page_title: str
+    page_id: Optional[str] = None
     instruction: str
     target_language: Optional[str] = None
 
+class DiagramRequest(BaseModel):
+    space_key: str
+    page_title: str
+    page_id: Optional[str] = None
+    # flowchart, sequence, class or er
+    diagram_type: str = "flowchart"
+    # What to focus on, e.g. "the login flow"
+    instruction: Optional[str] = None
+
+class SaveDiagramRequest(BaseModel):
+    space_key: Optional[str] = None
+    page_title: str
+    page_id: Optional[str] = None
+    mermaid: str
+    # Base64 PNG of the rendered diagram, attached to the page
+    png: str
+    filename: str
+    title: Optional[str] = None
+    mode: Optional[str] = "append"
+    # Section targeting for the insert_after_heading and replace_section modes
+    heading: Optional[str] = None
+    marker: Optional[str] = None
+    # Title of the new page for create_child
+    child_title: Optional[str] = None
+    # The page version the preview showed; the save fails with 409 if the page has changed since
+    expected_version: Optional[int] = None
+
 class ImpactRequest(BaseModel):
     space_key: str
     old_page_title: str
     new_page_title: str
+    old_page_id: Optional[str] = None
+    new_page_id: Optional[str] = None
     question: Optional[str] = None
     enable_stack_overflow_check: Optional[bool] = True
 
 class DirectCodeImpactRequest(BaseModel):
-    old_code: str
-    new_code: str
+    # Each side is inline code, or else the code on a page in space_key
+    old_code: Optional[str] = None
+    new_code: Optional[str] = None
+    space_key: Optional[str] = None
+    old_page_title: Optional[str] = None
+    new_page_title: Optional[str] = None
+    old_page_id: Optional[str] = None
+    new_page_id: Optional[str] = None
     question: Optional[str] = None
     enable_stack_overflow_check: Optional[bool] = True
 
@@ -85,10 +138,15 @@ class PushToJiraConfluenceSlackRequest(BaseModel):
     video_title: str
 
 class TestRequest(BaseModel):
-    space_key: str
-    code_page_title: str
+    space_key: Optional[str] = None
+    code_page_title: Optional[str] = None
     test_input_page_title: Optional[str] = None
+    code_page_id: Optional[str] = None
+    test_input_page_id: Optional[str] = None
     question: Optional[str] = None
+    # Inline alternatives to the pages, e.g. code produced by an earlier Agent Mode step
+    code: Optional[str] = None
+    test_input: Optional[str] = None
 
 class ImageRequest(BaseModel):
     space_key: str
@@ -112,35 +170,106 @@ class ChartRequest(BaseModel):
     filename: str
     format: str
 
+class SlideBullet(BaseModel):
+    text: str
+    # 0 for a top-level bullet, 1 and 2 for nested ones
+    level: int = 0
+
+class SlideImage(BaseModel):
+    # Base64 PNG, JPEG or GIF, without a data: prefix
+    data: str
+    content_type: Optional[str] = "image/png"
+    caption: Optional[str] = None
+
+class ExportSlide(BaseModel):
+    title: str
+    bullets: List[SlideBullet] = []
+    image: Optional[SlideImage] = None
+    # Speaker notes, for text that doesn't fit on the slide
+    notes: Optional[str] = None
+
 class ExportRequest(BaseModel):
     content: str
     format: str
     filename: str
+    # The deck for format "pptx": a title slide from title, subtitle and details, then the slides.
+    # Without slides, each paragraph of content becomes a bullet.
+    title: Optional[str] = None
+    subtitle: Optional[str] = None
+    details: Optional[Dict[str, str]] = None
+    slides: Optional[List[ExportSlide]] = None
+
+class SaveAttachment(BaseModel):
+    filename: str
+    # Base64, without a data: prefix
+    data: str
+    content_type: Optional[str] = "image/png"
 
 class SaveToConfluenceRequest(BaseModel):
     space_key: Optional[str] = None
     page_title: str
+    page_id: Optional[str] = None
     content: str
+    # append, prepend, overwrite, insert_after_heading, replace_section or create_child
     mode: Optional[str] = "append"
+    # Section targeting for the insert_after_heading and replace_section modes
+    heading: Optional[str] = None
+    marker: Optional[str] = None
+    # Title of the new page for create_child
+    child_title: Optional[str] = None
+    # The page version the preview showed; the save fails with 409 if the page has changed since
+    expected_version: Optional[int] = None
+    # Files the content shows, e.g. rendered Mermaid diagrams, attached to the saved page
+    attachments: Optional[List[SaveAttachment]] = None
 
 class PreviewSaveToConfluenceRequest(BaseModel):
     space_key: Optional[str] = None
     page_title: str
+    page_id: Optional[str] = None
     content: str
     mode: str
+    # Section targeting for the insert_after_heading and replace_section modes
+    heading: Optional[str] = None
+    marker: Optional[str] = None
+    # Title of the new page for create_child
+    child_title: Optional[str] = None
 
 class PreviewSaveToConfluenceResponse(BaseModel):
     preview_content: str
+    # The page's storage format before the save, for the client's block diff
+    existing_content: str
     diff: str
+    # Why a section-targeted save can't go ahead yet, e.g. the heading isn't on the page; the preview is then unchanged
+    section_error: Optional[str] = None
+    # The page's version, to send back as expected_version when saving
+    version: Optional[int] = None
+
+class RollbackPageRequest(BaseModel):
+    page_id: str
+    # The version whose content is restored, as a new version
+    version: int
+    # The version the publish log recorded after the save; 409 if the page has changed since
+    expected_version: Optional[int] = None
 
 class AnalyzeGoalRequest(BaseModel):
     goal: str
     available_pages: list[str]
+    # Optional page title -> content type ("text", "code", "image", "video", "table", "mixed") from /pages-with-type
+    page_types: Optional[Dict[str, str]] = None
+
+class PlannedStep(BaseModel):
+    tool: str
+    pages: list[str]
+    instruction: str
+    rationale: str = ""
+    # 1-based number of an earlier step whose output this step takes as input
+    input_from: Optional[int] = None
 
 class AnalyzeGoalResponse(BaseModel):
     tools: list[str]
     pages: list[str]
     reasoning: str
+    steps: list[PlannedStep] = []
 
 class TableSummaryRequest(BaseModel):
     space_key: str
@@ -215,6 +344,125 @@ def create_html(text):
 def create_txt(text):
     return io.BytesIO(text.encode())
 
+PPTX_MIME = "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+# The deck template: 16:9, Confluence blue title slide and title bars
+SLIDE_WIDTH, SLIDE_HEIGHT = Inches(13.333), Inches(7.5)
+DECK_BLUE = RGBColor(0x00, 0x52, 0xCC)
+DECK_TEXT = RGBColor(0x17, 0x2B, 0x4D)
+DECK_MUTED = RGBColor(0x6B, 0x77, 0x8C)
+DECK_WHITE = RGBColor(0xFF, 0xFF, 0xFF)
+BULLET_SIZES = (Pt(20), Pt(17), Pt(15))
+
+def _deck_line(paragraph, text, size, color, bold=False):
+    """Sets a paragraph's text in the given font (on the run: PowerPoint ignores paragraph defaults)"""
+    run = paragraph.add_run()
+    run.text = text
+    run.font.size = size
+    run.font.bold = bold
+    run.font.color.rgb = color
+
+def _deck_text(slide, left, top, width, height, lines, size, color, bold=False):
+    """A text box with one paragraph per line"""
+    frame = slide.shapes.add_textbox(left, top, width, height).text_frame
+    frame.word_wrap = True
+    for index, line in enumerate(lines):
+        _deck_line(frame.paragraphs[0] if index == 0 else frame.add_paragraph(), line, size, color, bold)
+    return frame
+
+def _deck_footer(slide, deck_title, number, total):
+    _deck_text(slide, Inches(0.6), SLIDE_HEIGHT - Inches(0.55), Inches(9), Inches(0.4), [deck_title], Pt(11), DECK_MUTED)
+    frame = _deck_text(slide, SLIDE_WIDTH - Inches(2.1), SLIDE_HEIGHT - Inches(0.55), Inches(1.5), Inches(0.4), [f"{number} / {total}"], Pt(11), DECK_MUTED)
+    frame.paragraphs[0].alignment = PP_ALIGN.RIGHT
+
+def _bullet(paragraph, level):
+    """Gives a paragraph a bullet glyph and a hanging indent for its level"""
+    p_pr = paragraph._p.get_or_add_pPr()
+    p_pr.set("marL", str(Inches(0.35 + 0.4 * level)))
+    p_pr.set("indent", str(-Inches(0.3)))
+    bullet = p_pr.makeelement(qn("a:buChar"), {"char": "•" if level == 0 else "–"})
+    # The schema puts bullets before the tab list and run defaults
+    successor = p_pr.find(qn("a:tabLst"))
+    if successor is None:
+        successor = p_pr.find(qn("a:defRPr"))
+    if successor is None:
+        p_pr.append(bullet)
+    else:
+        successor.addprevious(bullet)
+
+def _deck_picture(slide, image, left, top, width, height):
+    """The image scaled to fit the box, centred in it, with its caption under it"""
+    caption_height = Inches(0.4) if image.caption else 0
+    picture = slide.shapes.add_picture(io.BytesIO(base64.b64decode(image.data)), left, top, width=width)
+    if picture.height > height - caption_height:
+        scale = (height - caption_height) / picture.height
+        picture.height = int(picture.height * scale)
+        picture.width = int(picture.width * scale)
+    picture.left = int(left + (width - picture.width) / 2)
+    if image.caption:
+        frame = _deck_text(slide, left, picture.top + picture.height + Inches(0.05), width, caption_height, [image.caption], Pt(12), DECK_MUTED)
+        frame.paragraphs[0].alignment = PP_ALIGN.CENTER
+
+def create_pptx(title, subtitle, details, slides):
+    """
+    A PowerPoint deck on the assistant's template: a title slide with the subtitle (tool and date) and
+    details (space, pages...), then one slide per ExportSlide with a blue title bar, its bullets, and its
+    image beside them (or filling the slide when it has no bullets). Notes go to the speaker notes.
+    """
+    deck = Presentation()
+    deck.slide_width, deck.slide_height = SLIDE_WIDTH, SLIDE_HEIGHT
+    blank = deck.slide_layouts[6]
+    total = len(slides) + 1
+
+    cover = deck.slides.add_slide(blank)
+    background = cover.shapes.add_shape(MSO_SHAPE.RECTANGLE, 0, 0, SLIDE_WIDTH, SLIDE_HEIGHT)
+    background.fill.solid()
+    background.fill.fore_color.rgb = DECK_BLUE
+    background.line.fill.background()
+    _deck_text(cover, Inches(0.8), Inches(0.6), Inches(11), Inches(0.5), ["Confluence AI Assistant"], Pt(16), DECK_WHITE, bold=True)
+    heading = _deck_text(cover, Inches(0.8), Inches(2.2), Inches(11.7), Inches(1.6), [title], Pt(40), DECK_WHITE, bold=True)
+    heading.auto_size = MSO_AUTO_SIZE.TEXT_TO_FIT_SHAPE
+    if subtitle:
+        _deck_text(cover, Inches(0.8), Inches(3.9), Inches(11.7), Inches(0.6), [subtitle], Pt(20), DECK_WHITE)
+    lines = [f"{label}: {value}" for label, value in (details or {}).items() if value]
+    if lines:
+        _deck_text(cover, Inches(0.8), Inches(4.8), Inches(11.7), Inches(2), lines, Pt(14), DECK_WHITE)
+
+    for number, content in enumerate(slides, start=2):
+        slide = deck.slides.add_slide(blank)
+        bar = slide.shapes.add_shape(MSO_SHAPE.RECTANGLE, 0, 0, SLIDE_WIDTH, Inches(1.1))
+        bar.fill.solid()
+        bar.fill.fore_color.rgb = DECK_BLUE
+        bar.line.fill.background()
+        bar_text = _deck_text(slide, Inches(0.6), Inches(0.15), SLIDE_WIDTH - Inches(1.2), Inches(0.8), [content.title], Pt(28), DECK_WHITE, bold=True)
+        bar_text.auto_size = MSO_AUTO_SIZE.TEXT_TO_FIT_SHAPE
+
+        top, height = Inches(1.4), SLIDE_HEIGHT - Inches(2.1)
+        body_width = SLIDE_WIDTH - Inches(1.2)
+        if content.image and content.bullets:
+            body_width = Inches(6)
+            _deck_picture(slide, content.image, Inches(6.9), top, Inches(5.8), height)
+        elif content.image:
+            _deck_picture(slide, content.image, Inches(0.6), top, body_width, height)
+        if content.bullets:
+            frame = slide.shapes.add_textbox(Inches(0.6), top, body_width, height).text_frame
+            frame.word_wrap = True
+            frame.auto_size = MSO_AUTO_SIZE.TEXT_TO_FIT_SHAPE
+            for index, bullet in enumerate(content.bullets):
+                level = max(0, min(bullet.level, 2))
+                paragraph = frame.paragraphs[0] if index == 0 else frame.add_paragraph()
+                _deck_line(paragraph, bullet.text, BULLET_SIZES[level], DECK_TEXT)
+                paragraph.level = level
+                paragraph.space_before = Pt(6)
+                _bullet(paragraph, level)
+        if content.notes:
+            slide.notes_slide.notes_text_frame.text = content.notes
+        _deck_footer(slide, title, number, total)
+
+    buffer = io.BytesIO()
+    deck.save(buffer)
+    buffer.seek(0)
+    return buffer
+
 
 def extract_timestamps_from_summary(summary):
     timestamps = []
@@ -254,6 +502,88 @@ def auto_detect_space(confluence, space_key: Optional[str] = None) -> str:
         return spaces[0]["key"]
     raise HTTPException(status_code=400, detail="Multiple spaces found. Please specify a space_key.")
 
+def find_page(confluence, space_key: str, page_title: Optional[str] = None, page_id: Optional[str] = None, expand: Optional[str] = None):
+    """The page with page_id, or else the page titled page_title in space_key; None if there is none.
+    Pages are fetched directly rather than found in a listing of the space, so any page can be used."""
+    if page_id:
+        try:
+            return confluence.get_page_by_id(page_id, expand=expand)
+        except Exception:
+            # A stale id, e.g. of a deleted page, falls back to the title
+            if not page_title:
+                return None
+    if page_title:
+        return confluence.get_page_by_title(space=space_key, title=page_title, expand=expand)
+    return None
+
+def get_page_storage(confluence, space_key: str, page_title: Optional[str], page_id: Optional[str] = None) -> str:
+    """Storage-format body of the page with page_id, or titled page_title. Raises 400 if there is no such page."""
+    page = find_page(confluence, space_key, page_title, page_id, expand="body.storage")
+    if not page:
+        raise HTTPException(status_code=400, detail=f"Page not found: {page_title or page_id}")
+    return page["body"]["storage"]["value"]
+
+DEFAULT_PAGE_SIZE = 50
+MAX_PAGE_SIZE = 200
+
+def encode_cursor(start: int) -> str:
+    return base64.urlsafe_b64encode(f"start:{start}".encode()).decode()
+
+def decode_cursor(cursor: Optional[str]) -> int:
+    """Offset to continue a listing from. Cursors are opaque to clients so the paging scheme can change."""
+    if not cursor:
+        return 0
+    try:
+        prefix, start = base64.urlsafe_b64decode(cursor.encode()).decode().split(":", 1)
+        if prefix != "start" or int(start) < 0:
+            raise ValueError(cursor)
+        return int(start)
+    except Exception:
+        raise HTTPException(status_code=400, detail="Invalid cursor")
+
+def page_size(limit: Optional[int]) -> int:
+    return max(1, min(limit or DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE))
+
+def next_cursor(start: int, limit: int, returned: int) -> Optional[str]:
+    # A full batch means there may be more; the next request finds out
+    return encode_cursor(start + returned) if returned >= limit else None
+
+def iter_space_pages(confluence, space_key: str, expand: Optional[str] = None):
+    """Every page of a space, fetched in batches"""
+    start = 0
+    while True:
+        batch = confluence.get_all_pages_from_space(space=space_key, start=start, limit=MAX_PAGE_SIZE, expand=expand)
+        yield from batch
+        if len(batch) < MAX_PAGE_SIZE:
+            return
+        start += len(batch)
+
+def parse_page_ids(page_ids: str) -> List[str]:
+    """Ids from a comma-separated page_ids parameter; up to MAX_PAGE_SIZE of them, since they're fetched in one request"""
+    ids = [page_id.strip() for page_id in page_ids.split(",") if page_id.strip()]
+    if not ids or len(ids) > MAX_PAGE_SIZE or not all(page_id.isdigit() for page_id in ids):
+        raise HTTPException(status_code=400, detail=f"page_ids must be up to {MAX_PAGE_SIZE} numeric page ids")
+    return ids
+
+def get_pages_by_id(confluence, space_key: str, ids: List[str], expand: Optional[str] = None) -> list:
+    """The pages of space_key with the given ids, in one CQL content search; ids of other or deleted pages are left out"""
+    cql = f'space = {cql_quote(space_key)} and type = page and id in ({",".join(ids)})'
+    return confluence.get("rest/api/content/search", params={"cql": cql, "limit": len(ids), "expand": expand}).get("results", [])
+
+def cql_quote(value: str) -> str:
+    return '"' + value.replace("\\", "\\\\").replace('"', '\\"') + '"'
+
+def extract_page_code(content: str) -> str:
+    """The code blocks of a storage-format page, or all of its text if it has none."""
+    soup = BeautifulSoup(content, 'html.parser')
+    code_blocks = soup.find_all('ac:structured-macro', {'ac:name': 'code'})
+    if code_blocks:
+        return '\n'.join(
+            block.find('ac:plain-text-body').text
+            for block in code_blocks if block.find('ac:plain-text-body')
+        )
+    return soup.get_text(separator="\n").strip()
+
 def search_web_google(query, num_results=5):
     import os
     GOOGLE_API_KEY = os.getenv("GOOGLE_API_KEY")
@@ -504,7 +834,7 @@ def hybrid_rag(prompt, api_key=None):
         # fallback to default
         from os import getenv
         genai.configure(api_key=getenv('GENAI_API_KEY_1'))
-    model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+    model = genai.GenerativeModel(GEMINI_MODEL)
     web_context = search_web_google(prompt)
     if not web_context.strip():
         response = model.generate_content(prompt)
@@ -535,62 +865,200 @@ Answer:
 # API Endpoints
 @app.get("/")
 async def root():
-    return {"message": "Confluence AI Assistant API", "status": "running"}
+    return {"message": "Confluence AI Assistant API", "status": "running", "model": GEMINI_MODEL.removeprefix("models/")}
 
 @app.get("/spaces")
-async def get_spaces():
-    """Get all available Confluence spaces"""
+async def get_spaces(cursor: Optional[str] = None, limit: Optional[int] = None):
+    """Get one batch of the available Confluence spaces; pass next_cursor back to get the next"""
     try:
         confluence = init_confluence()
+        start = decode_cursor(cursor)
+        limit = page_size(limit)
         
-        spaces = confluence.get_all_spaces(start=0, limit=100)["results"]
+        spaces = confluence.get_all_spaces(start=start, limit=limit)["results"]
         space_options = [{"name": s['name'], "key": s['key']} for s in spaces]
         
-        return {"spaces": space_options}
+        return {"spaces": space_options, "next_cursor": next_cursor(start, limit, len(spaces))}
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.get("/pages/{space_key}")
-async def get_pages(space_key: Optional[str] = None):
-    """Get all pages from a specific space (auto-detect if not provided)"""
+async def get_pages(space_key: Optional[str] = None, cursor: Optional[str] = None, limit: Optional[int] = None, query: Optional[str] = None):
+    """Get one batch of a space's pages (auto-detect the space if not provided), as ids and titles.
+    With a query, only pages whose title matches it, found with a CQL title search."""
+    try:
+        confluence = init_confluence()
+        space_key = auto_detect_space(confluence, space_key)
+        start = decode_cursor(cursor)
+        limit = page_size(limit)
+        
+        if query and query.strip():
+            # "~" matches words in the title; the wildcard also matches a word being typed
+            cql = f'space = {cql_quote(space_key)} and type = page and title ~ {cql_quote(query.strip() + "*")}'
+            results = confluence.cql(cql, start=start, limit=limit).get("results", [])
+            pages = [r["content"] for r in results if r.get("content")]
+            returned = len(results)
+        else:
+            pages = confluence.get_all_pages_from_space(space=space_key, start=start, limit=limit)
+            returned = len(pages)
+        
+        return {
+            "pages": [{"id": p["id"], "title": p["title"]} for p in pages],
+            "next_cursor": next_cursor(start, limit, returned),
+        }
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+# A plain def, so FastAPI runs it in its threadpool and the Confluence requests don't hold up other tools
+@app.get("/page-tree/{space_key}")
+def get_page_tree(space_key: Optional[str] = None, page_ids: Optional[str] = None):
+    """Pages of a space with their parent page, for showing the page hierarchy. Pass page_ids
+    (comma-separated) to get just those pages, e.g. the ones a picker has listed, instead of the whole space."""
+    try:
+        confluence = init_confluence()
+        space_key = auto_detect_space(confluence, space_key)
+        
+        if page_ids:
+            pages = get_pages_by_id(confluence, space_key, parse_page_ids(page_ids), expand="ancestors")
+        else:
+            pages = iter_space_pages(confluence, space_key, expand="ancestors")
+        
+        results = []
+        for page in pages:
+            # Ancestors run from the space root down, so the last one is the direct parent
+            ancestors = page.get("ancestors") or []
+            parent_id = ancestors[-1]["id"] if ancestors else None
+            results.append({"id": page["id"], "title": page["title"], "parent_id": parent_id})
+        
+        return {"pages": results}
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+IMAGE_EXTENSIONS = (".png", ".jpg", ".jpeg", ".gif", ".bmp", ".webp", ".svg")
+VIDEO_EXTENSIONS = (".mp4", ".mov", ".webm", ".avi", ".mkv")
+SPREADSHEET_EXTENSIONS = (".xlsx", ".xls", ".csv")
+
+# Latest classification of each page as (version, classification), so a page is only re-parsed after
+# it is edited. Least recently used pages are dropped beyond PAGE_TYPE_CACHE_SIZE.
+PAGE_TYPE_CACHE_SIZE = 5000
+page_type_cache: "OrderedDict[str, Tuple[int, dict]]" = OrderedDict()
+# /pages-with-type runs in the threadpool, so requests can use the cache at the same time
+page_type_cache_lock = threading.Lock()
+
+# Everything classify_page needs, so each batch takes one Confluence request
+PAGE_TYPE_EXPAND = "version,body.storage,children.attachment"
+
+def classify_page(storage: str, attachment_titles: list[str]) -> dict:
+    """Content type and asset counts for a page, from its storage body and attachment names.
+    A page with one kind of asset is that kind; more than one is "mixed"; none is "text"."""
+    soup = BeautifulSoup(storage or "", "html.parser")
+    lower_titles = [t.lower() for t in attachment_titles]
+    image_attachments = sum(1 for t in lower_titles if t.endswith(IMAGE_EXTENSIONS))
+    counts = {
+        "code_blocks": len(soup.find_all("ac:structured-macro", {"ac:name": "code"})),
+        # Embedded images usually are attachments too, so count whichever is larger
+        "images": max(len(soup.find_all("ac:image")), image_attachments),
+        "videos": sum(1 for t in lower_titles if t.endswith(VIDEO_EXTENSIONS))
+            + len(soup.find_all("ac:structured-macro", {"ac:name": ["multimedia", "widget"]})),
+        "tables": len(soup.find_all("table")),
+        "spreadsheets": sum(1 for t in lower_titles if t.endswith(SPREADSHEET_EXTENSIONS)),
+    }
+    kinds = [
+        kind for kind, present in (
+            ("code", counts["code_blocks"]),
+            ("image", counts["images"]),
+            ("video", counts["videos"]),
+            ("table", counts["tables"] + counts["spreadsheets"]),
+        ) if present
+    ]
+    content_type = kinds[0] if len(kinds) == 1 else "mixed" if kinds else "text"
+    return {"content_type": content_type, "counts": counts}
+
+def page_with_type(page) -> dict:
+    """Id, title, version and classification of a page fetched with PAGE_TYPE_EXPAND"""
+    version = (page.get("version") or {}).get("number", 0)
+    with page_type_cache_lock:
+        cached = page_type_cache.get(page["id"])
+        if cached and cached[0] == version:
+            page_type_cache.move_to_end(page["id"])
+    if cached and cached[0] == version:
+        classification = cached[1]
+    else:
+        # Parsed outside the lock, so one large page doesn't hold up the others
+        storage = ((page.get("body") or {}).get("storage") or {}).get("value", "")
+        attachments = ((page.get("children") or {}).get("attachment") or {}).get("results", [])
+        classification = classify_page(storage, [att.get("title", "") for att in attachments])
+        with page_type_cache_lock:
+            page_type_cache[page["id"]] = (version, classification)
+            page_type_cache.move_to_end(page["id"])
+            if len(page_type_cache) > PAGE_TYPE_CACHE_SIZE:
+                page_type_cache.popitem(last=False)
+    return {"id": page["id"], "title": page["title"], "version": version, **classification}
+
+# A plain def, so FastAPI runs it in its threadpool and the Confluence requests don't hold up other tools
+@app.get("/pages-with-type/{space_key}")
+def get_pages_with_type(space_key: Optional[str] = None, cursor: Optional[str] = None, limit: Optional[int] = None, page_ids: Optional[str] = None):
+    """One batch of a space's pages with their content type (text, code, image, video, table or mixed)
+    and asset counts; pass next_cursor back to get the next. Pass page_ids (comma-separated) to
+    classify just those pages instead, e.g. the ones a picker shows."""
     try:
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, space_key)
         
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-        page_titles = [p["title"] for p in pages]
+        if page_ids:
+            pages = get_pages_by_id(confluence, space_key, parse_page_ids(page_ids), expand=PAGE_TYPE_EXPAND)
+            return {"pages": [page_with_type(page) for page in pages], "next_cursor": None}
         
-        return {"pages": page_titles}
+        start = decode_cursor(cursor)
+        limit = page_size(limit)
+        pages = confluence.get_all_pages_from_space(space=space_key, start=start, limit=limit, expand=PAGE_TYPE_EXPAND)
+        return {"pages": [page_with_type(page) for page in pages], "next_cursor": next_cursor(start, limit, len(pages))}
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+def load_search_context(request: SearchRequest):
+    """Fetch the selected pages and build the plain-text context used by /search and /search/stream"""
+    confluence = init_confluence()
+    space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
+    
+    full_context = ""
+    
+    # Get pages
+    page_ids = request.page_ids or []
+    selected_pages = []
+    for index, title in enumerate(request.page_titles):
+        page_id = page_ids[index] if index < len(page_ids) else None
+        page = find_page(confluence, space_key, title, page_id, expand="body.storage")
+        if page:
+            selected_pages.append(page)
+    
+    if not selected_pages:
+        raise HTTPException(status_code=400, detail="No pages found")
+    
+    # Extract content from selected pages
+    for page in selected_pages:
+        raw_html = page["body"]["storage"]["value"]
+        text_content = clean_html(raw_html)
+        full_context += f"\n\nTitle: {page['title']}\n{text_content}"
+    
+    return selected_pages, full_context
+
 @app.post("/search")
 async def ai_powered_search(request: SearchRequest, req: Request):
     """AI Powered Search functionality"""
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
-        confluence = init_confluence()
-        space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
-        
-        full_context = ""
-        selected_pages = []
-        
-        # Get pages
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-        selected_pages = [p for p in pages if p["title"] in request.page_titles]
-        
-        if not selected_pages:
-            raise HTTPException(status_code=400, detail="No pages found")
-        
-        # Extract content from selected pages
-        for page in selected_pages:
-            page_id = page["id"]
-            page_data = confluence.get_page_by_id(page_id, expand="body.storage")
-            raw_html = page_data["body"]["storage"]["value"]
-            text_content = clean_html(raw_html)
-            full_context += f"\n\nTitle: {page['title']}\n{text_content}"
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
+        selected_pages, full_context = load_search_context(request)
         
         # Generate AI response
         prompt = (
@@ -656,6 +1124,72 @@ async def ai_powered_search(request: SearchRequest, req: Request):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+def sse_event(data: dict, event: Optional[str] = None) -> str:
+    """Format one Server-Sent Events message"""
+    prefix = f"event: {event}\n" if event else ""
+    return f"{prefix}data: {json.dumps(data)}\n\n"
+
+@app.post("/search/stream")
+async def ai_powered_search_stream(request: SearchRequest, req: Request):
+    """Streaming variant of /search. Emits Server-Sent Events:
+    `meta` (pages analyzed), unnamed events with a `token` chunk, then `done` or `error`."""
+    try:
+        api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
+        genai.configure(api_key=api_key)
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
+        selected_pages, full_context = load_search_context(request)
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+    # Plain markdown instead of the JSON envelope used by /search, so chunks can be shown as they arrive
+    prompt = (
+        f"Answer the following question using the provided Confluence page content as context.\n"
+        f"Context:\n{full_context}\n\n"
+        f"Question: {request.query}\n"
+        f"Instructions: Begin with the answer based on the context above. Then, if applicable, supplement with general knowledge. "
+        f"Format the answer as markdown."
+    )
+
+    def event_stream():
+        yield sse_event({
+            "pages_analyzed": len(selected_pages),
+            "page_titles": [p["title"] for p in selected_pages],
+        }, event="meta")
+        try:
+            for chunk in ai_model.generate_content(prompt, stream=True):
+                text = getattr(chunk, "text", "")
+                if text:
+                    yield sse_event({"token": text})
+            yield sse_event({"source": "llm"}, event="done")
+        except Exception as e:
+            yield sse_event({"detail": str(e)}, event="error")
+
+    # Sync generator: Starlette iterates it in a threadpool, so the blocking Gemini stream does not stall the loop
+    return StreamingResponse(
+        event_stream(),
+        media_type="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
+ACTION_ITEMS_HEADING = re.compile(r"^\W*action items\W*$", re.I)
+QUOTES_HEADING = re.compile(r"^\W*quotes\W*$", re.I)
+
+def split_quotes_and_actions(text: str) -> Tuple[List[str], List[str]]:
+    """Quote lines and action item lines of a response with QUOTES: and ACTION ITEMS: sections.
+    Without an ACTION ITEMS: line, every line is taken as a quote."""
+    quotes, actions = [], []
+    current = quotes
+    for line in text.split("\n"):
+        if ACTION_ITEMS_HEADING.match(line.strip()):
+            current = actions
+        elif QUOTES_HEADING.match(line.strip()):
+            current = quotes
+        else:
+            current.append(line)
+    return quotes, actions
+
 @app.post("/video-summarizer")
 async def video_summarizer(request: VideoRequest, req: Request):
     """Video Summarizer functionality using AssemblyAI and Gemini"""
@@ -667,8 +1201,7 @@ async def video_summarizer(request: VideoRequest, req: Request):
     space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
 
     # Get page info
-    pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-    selected_page = next((p for p in pages if p["title"] == request.page_title), None)
+    selected_page = find_page(confluence, space_key, request.page_title, request.page_id)
     if not selected_page:
         raise HTTPException(status_code=400, detail="Page not found")
     page_id = selected_page["id"]
@@ -746,7 +1279,10 @@ async def video_summarizer(request: VideoRequest, req: Request):
                 break
             elif status == "error":
                 raise HTTPException(status_code=500, detail="Transcription failed")
-            time.sleep(3)
+            # Stop polling AssemblyAI once the frontend has cancelled the request
+            if await req.is_disconnected():
+                raise HTTPException(status_code=499, detail="Client closed request; transcription polling stopped")
+            await asyncio.sleep(3)
         transcript_data = polling_response.json()
         transcript_text = transcript_data.get("text", "")
         if not transcript_text:
@@ -755,7 +1291,7 @@ async def video_summarizer(request: VideoRequest, req: Request):
         # Initialize Gemini AI model for text generation
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         
         # Q&A
         if request.question:
@@ -767,15 +1303,24 @@ async def video_summarizer(request: VideoRequest, req: Request):
             qa_response = ai_model.generate_content(qa_prompt)
             return {"answer": qa_response.text.strip()}
         
-        # Generate quotes
+        # Generate quotes, and in the same call the action items: follow-ups, decisions and tasks,
+        # with owners where the video names them
         quote_prompt = (
             "Extract 3-5 powerful or interesting quotes from the transcript.\n"
-            "Format each quote on a new line starting with a dash (-).\n"
+            "Then list the action items from the transcript: tasks, follow-ups and decisions someone has to act on.\n"
+            "Name the owner when the transcript does, e.g. 'Priya: update the release notes'.\n"
+            "Return a line reading QUOTES:, the quotes, then a line reading ACTION ITEMS:, then the action items.\n"
+            "Format each quote and action item on a new line starting with a dash (-). If there are no action items, write NONE under ACTION ITEMS:.\n"
             f"Transcript:\n{transcript_text[:3000]}"
         )
         quotes_response = ai_model.generate_content(quote_prompt).text.strip()
+        quote_lines, action_lines = split_quotes_and_actions(quotes_response)
         # Split quotes into individual items
-        quotes = [quote.strip().lstrip("- ").strip() for quote in quotes_response.split('\n') if quote.strip()]
+        quotes = [quote.strip().lstrip("- ").strip() for quote in quote_lines if quote.strip()]
+        action_items = [
+            item.strip().lstrip("-* ").strip() for item in action_lines
+            if item.strip() and item.strip().upper() != "NONE"
+        ]
         
         # Generate summary WITHOUT timestamps
         summary_prompt = (
@@ -800,6 +1345,7 @@ async def video_summarizer(request: VideoRequest, req: Request):
         return {
             "summary": summary,
             "quotes": quotes,
+            "action_items": action_items,
             "timestamps": timestamps,
             "qa": [],
             "page_title": request.page_title,
@@ -814,20 +1360,17 @@ async def code_assistant(request: CodeRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
         
         # Get page content
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-        selected_page = next((p for p in pages if p["title"] == request.page_title), None)
+        selected_page = find_page(confluence, space_key, request.page_title, request.page_id, expand="body.storage")
         
         if not selected_page:
             raise HTTPException(status_code=400, detail="Page not found")
         
-        page_id = selected_page["id"]
-        page_content = confluence.get_page_by_id(page_id, expand="body.storage")
-        context = page_content["body"]["storage"]["value"]
+        context = selected_page["body"]["storage"]["value"]
         
         # Extract visible code
         soup = BeautifulSoup(context, "html.parser")
@@ -901,41 +1444,117 @@ async def code_assistant(request: CodeRequest, req: Request):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+# Mermaid diagram types /diagram can draw, with the syntax each starts with and what it should show
+DIAGRAM_TYPES = {
+    "flowchart": ("flowchart TD", "the main components and the flow of control or data between them"),
+    "sequence": ("sequenceDiagram", "the interactions between the participants, in order"),
+    "class": ("classDiagram", "the classes or modules with their key fields, methods and relationships"),
+    "er": ("erDiagram", "the entities with their attributes and relationships"),
+}
+
+def strip_mermaid_fence(raw: str) -> str:
+    match = re.search(r"```(?:mermaid)?\s*\n(.*?)```", raw, flags=re.DOTALL)
+    return (match.group(1) if match else raw).strip()
+
+@app.post("/diagram")
+async def generate_diagram(request: DiagramRequest, req: Request):
+    """Mermaid diagram of the code, or else the text, on a page"""
+    try:
+        if request.diagram_type not in DIAGRAM_TYPES:
+            raise HTTPException(status_code=400, detail=f"Invalid diagram type. Use one of: {', '.join(DIAGRAM_TYPES)}")
+        api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
+        genai.configure(api_key=api_key)
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
+        confluence = init_confluence()
+        space_key = auto_detect_space(confluence, request.space_key)
+        storage = get_page_storage(confluence, space_key, request.page_title, request.page_id)
+
+        soup = BeautifulSoup(storage, "html.parser")
+        has_code = bool(soup.find('ac:structured-macro', {'ac:name': 'code'}) or soup.find(['pre', 'code']))
+        source = extract_page_code(storage) if has_code else soup.get_text(separator="\n").strip()
+        if not source:
+            raise HTTPException(status_code=400, detail="The page has no code or text to draw")
+
+        header, subject = DIAGRAM_TYPES[request.diagram_type]
+        focus = f"Focus on: {request.instruction}\n" if request.instruction else ""
+        prompt = (
+            f"The following is {'source code' if has_code else 'a design document'} from a Confluence page:\n\n{source}\n\n"
+            f"Draw a Mermaid diagram of {subject}. {focus}"
+            f"Start with `{header}`. Use only valid Mermaid syntax, keep labels short and quote labels with special characters. "
+            "Return only the Mermaid source, with no explanation."
+        )
+        response = ai_model.generate_content(prompt)
+        return {
+            "mermaid": strip_mermaid_fence(response.text),
+            "diagram_type": request.diagram_type,
+            "source_kind": "code" if has_code else "text",
+        }
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+@app.post("/save-diagram-to-confluence")
+async def save_diagram_to_confluence(request: SaveDiagramRequest, req: Request):
+    """
+    Attach a diagram's PNG to a page and show it there, with its Mermaid source
+    in an expand macro so it can be edited again later.
+    """
+    try:
+        confluence = init_confluence()
+        space_key = auto_detect_space(confluence, request.space_key)
+        page = find_page(confluence, space_key, request.page_title, request.page_id, expand="body.storage,version")
+        if not page:
+            raise HTTPException(status_code=404, detail="Page not found")
+        mode = request.mode or "append"
+        check_save_mode(mode, request.child_title)
+
+        filename = attachment_filename(request.filename, "diagram", ".png")
+        png = decode_attachment(filename, request.png)
+        heading = f"<h2>{html.escape(request.title)}</h2>" if request.title else ""
+        # CDATA can't hold "]]>", so split it across two sections
+        source = request.mermaid.replace("]]>", "]]]]><![CDATA[>")
+        diagram = (
+            f"{heading}<p><ac:image><ri:attachment ri:filename=\"{html.escape(filename)}\" /></ac:image></p>"
+            '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">Mermaid source</ac:parameter>'
+            '<ac:rich-text-body><ac:structured-macro ac:name="code"><ac:parameter ac:name="language">text</ac:parameter>'
+            f"<ac:plain-text-body><![CDATA[{source}]]></ac:plain-text-body></ac:structured-macro>"
+            "</ac:rich-text-body></ac:structured-macro>"
+        )
+        saved = save_page_content(
+            confluence, space_key, page, diagram, mode, request.heading, request.marker, request.child_title,
+            request.expected_version
+        )
+        # Attached to whichever page now shows it
+        errors = attach_files(confluence, saved["id"], [(filename, png, "image/png")], "Diagram generated by the Confluence AI Assistant")
+        return {**attached_response("Diagram saved", saved, mode, errors), "filename": filename}
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
 @app.post("/impact-analyzer")
 async def impact_analyzer(request: ImpactRequest, req: Request):
     """Impact Analyzer functionality"""
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
         
         # Get pages
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-        old_page = next((p for p in pages if p["title"] == request.old_page_title), None)
-        new_page = next((p for p in pages if p["title"] == request.new_page_title), None)
+        old_page = find_page(confluence, space_key, request.old_page_title, request.old_page_id, expand="body.storage")
+        new_page = find_page(confluence, space_key, request.new_page_title, request.new_page_id, expand="body.storage")
         
         if not old_page or not new_page:
             raise HTTPException(status_code=400, detail="One or both pages not found")
         
         # Extract content from pages
-        def extract_content(content):
-            soup = BeautifulSoup(content, 'html.parser')
-            # Try to find code blocks first
-            code_blocks = soup.find_all('ac:structured-macro', {'ac:name': 'code'})
-            if code_blocks:
-                return '\n'.join(
-                    block.find('ac:plain-text-body').text
-                    for block in code_blocks if block.find('ac:plain-text-body')
-                )
-            # If no code blocks, extract all text content
-            return soup.get_text(separator="\n").strip()
-        
-        old_raw = confluence.get_page_by_id(old_page["id"], expand="body.storage")["body"]["storage"]["value"]
-        new_raw = confluence.get_page_by_id(new_page["id"], expand="body.storage")["body"]["storage"]["value"]
-        old_content = extract_content(old_raw)
-        new_content = extract_content(new_raw)
+        old_raw = old_page["body"]["storage"]["value"]
+        new_raw = new_page["body"]["storage"]["value"]
+        old_content = extract_page_code(old_raw)
+        new_content = extract_page_code(new_raw)
         
         if not old_content or not new_content:
             raise HTTPException(status_code=400, detail="No content found in one or both pages")
@@ -1083,18 +1702,26 @@ async def direct_code_impact_analyzer(request: DirectCodeImpactRequest, req: Req
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
-        
-        old_content = request.old_code
-        new_content = request.new_code
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
+        
+        old_content = request.old_code or ""
+        new_content = request.new_code or ""
+        # Sides given as page titles are read from Confluence
+        if (not old_content and request.old_page_title) or (not new_content and request.new_page_title):
+            confluence = init_confluence()
+            space_key = auto_detect_space(confluence, request.space_key)
+            if not old_content and request.old_page_title:
+                old_content = extract_page_code(get_page_storage(confluence, space_key, request.old_page_title, request.old_page_id))
+            if not new_content and request.new_page_title:
+                new_content = extract_page_code(get_page_storage(confluence, space_key, request.new_page_title, request.new_page_id))
         
         if not old_content or not new_content:
-            raise HTTPException(status_code=400, detail="Both old and new code must be provided")
+            raise HTTPException(status_code=400, detail="Both old and new code must be provided, inline or as page titles")
         
         # Generate diff
         old_lines = old_content.splitlines()
         new_lines = new_content.splitlines()
-        diff = difflib.unified_diff(old_lines, new_lines, fromfile="original_code", tofile="modified_code", lineterm='')
+        diff = difflib.unified_diff(old_lines, new_lines, fromfile=request.old_page_title or "original_code", tofile=request.new_page_title or "modified_code", lineterm='')
         full_diff_text = '\n'.join(diff)
         
         # Calculate metrics
@@ -1209,6 +1836,8 @@ async def direct_code_impact_analyzer(request: DirectCodeImpactRequest, req: Req
             "stack_overflow_risks": stack_overflow_risks
         }
         
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
@@ -1218,7 +1847,7 @@ async def push_to_jira_confluence_slack(request: PushToJiraConfluenceSlackReques
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         
         
         CONFLUENCE_USER_EMAIL = os.getenv("CONFLUENCE_USER_EMAIL")
@@ -1409,22 +2038,23 @@ async def test_support(request: TestRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         print(f"Test support request: {request}")  # Debug log
-        confluence = init_confluence()
-        space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
-        
-        # Get code page
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=50)
-        code_page = next((p for p in pages if p["title"] == request.code_page_title), None)
-        
-        if not code_page:
-            raise HTTPException(status_code=400, detail="Code page not found")
-        
-        print(f"Found code page: {code_page['title']}")  # Debug log
-        
-        code_data = confluence.get_page_by_id(code_page["id"], expand="body.storage")
-        code_content = code_data["body"]["storage"]["value"]
+        if not request.code and not request.code_page_title:
+            raise HTTPException(status_code=400, detail="Provide code or a code page title")
+        
+        # Confluence is only needed for inputs given as page titles
+        confluence = None
+        space_key = None
+        if not request.code or (request.test_input_page_title and not request.test_input):
+            confluence = init_confluence()
+            space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
+        
+        if request.code:
+            code_content = request.code
+        else:
+            code_content = get_page_storage(confluence, space_key, request.code_page_title, request.code_page_id)
+            print(f"Found code page: {request.code_page_title}")  # Debug log
         
         print(f"Code content length: {len(code_content)}")  # Debug log
         
@@ -1553,21 +2183,23 @@ Respond **exactly** in this format with dynamic insights, no extra text outside
         
         print(f"Cross-platform generated: {len(cross_text)} chars")  # Debug log
         
-        # Sensitivity analysis if test input page provided
+        # Sensitivity analysis if test input provided
         sensitivity_text = None
-        if request.test_input_page_title:
-            test_input_page = next((p for p in pages if p["title"] == request.test_input_page_title), None)
-            if test_input_page:
-                test_data = confluence.get_page_by_id(test_input_page["id"], expand="body.storage")
-                test_input_content = test_data["body"]["storage"]["value"]
-                
-                prompt_sensitivity = f"""You are a data privacy expert. Classify sensitive fields (PII, credentials, financial) and provide masking suggestions.Also, don't include comments if any code is present.\n\nData:\n{test_input_content[:2000]}"""
+        test_input_content = request.test_input
+        if not test_input_content and request.test_input_page_title:
+            try:
+                test_input_content = get_page_storage(confluence, space_key, request.test_input_page_title, request.test_input_page_id)
+            except HTTPException:
+                # A missing test input page only skips the sensitivity analysis
+                test_input_content = None
+        if test_input_content:
+            prompt_sensitivity = f"""You are a data privacy expert. Classify sensitive fields (PII, credentials, financial) and provide masking suggestions.Also, don't include comments if any code is present.\n\nData:\n{test_input_content[:2000]}"""
 
 
 
-                response_sensitivity = ai_model.generate_content(prompt_sensitivity)
-                sensitivity_text = response_sensitivity.text.strip()
-                print(f"Sensitivity generated: {len(sensitivity_text)} chars")  # Debug log
+            response_sensitivity = ai_model.generate_content(prompt_sensitivity)
+            sensitivity_text = response_sensitivity.text.strip()
+            print(f"Sensitivity generated: {len(sensitivity_text)} chars")  # Debug log
         
         # Q&A if question provided
         ai_response = None
@@ -1591,20 +2223,21 @@ Respond **exactly** in this format with dynamic insights, no extra text outside
         print(f"Returning result: {result}")  # Debug log
         return result
         
+    except HTTPException:
+        raise
     except Exception as e:
         print(f"Test support error: {str(e)}")  # Debug log
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.get("/images/{space_key}/{page_title}")
-async def get_images(space_key: Optional[str] = None, page_title: str = ""):
+async def get_images(space_key: Optional[str] = None, page_title: str = "", page_id: Optional[str] = None):
     """Get all images, tables, and Excel attachments from a specific page"""
     try:
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, space_key)
         
         # Get page content
-        pages = confluence.get_all_pages_from_space(space=space_key, start=0, limit=100)
-        page = next((p for p in pages if p["title"].strip().lower() == page_title.strip().lower()), None)
+        page = find_page(confluence, space_key, page_title.strip(), page_id)
         
         if not page:
             raise HTTPException(status_code=404, detail=f"Page '{page_title}' not found")
@@ -1650,7 +2283,7 @@ async def image_summary(request: ImageRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
         
@@ -1694,7 +2327,7 @@ async def image_qa(request: ImageSummaryRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
         # If image_url is provided and non-empty, use image logic
@@ -1747,7 +2380,7 @@ async def create_chart(request: ChartRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, getattr(request, 'space_key', None))
         import pandas as pd
@@ -1857,13 +2490,22 @@ async def create_chart(request: ChartRequest, req: Request):
             plt.pie(data, labels=df[label_col], autopct="%1.1f%%", startangle=140)
             plt.title("Pie Chart (Total Responses)")
             plt.tight_layout()
-        # Save chart to bytes
+        # Save chart to bytes; a PowerPoint export is the PNG on a slide
+        chart_format = request.format.lower()
         buf = io.BytesIO()
-        plt.savefig(buf, format=request.format.lower(), bbox_inches="tight")
+        plt.savefig(buf, format="png" if chart_format == "pptx" else chart_format, bbox_inches="tight")
         buf.seek(0)
         chart_bytes = buf.getvalue()
         # Convert to base64 for response
         chart_base64 = base64.b64encode(chart_bytes).decode()
+        if chart_format == "pptx":
+            chart_title = f"{request.chart_type} Chart"
+            deck = create_pptx(chart_title, request.page_title, None, [ExportSlide(title=chart_title, image=SlideImage(data=chart_base64))])
+            return {
+                "chart_data": base64.b64encode(deck.getvalue()).decode(),
+                "mime_type": PPTX_MIME,
+                "filename": f"{request.filename}.pptx"
+            }
         return {
             "chart_data": chart_base64,
             "mime_type": f"image/{request.format.lower()}",
@@ -1878,7 +2520,7 @@ async def export_content(request: ExportRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         if request.format == "pdf":
             buffer = create_pdf(request.content)
             file_data = buffer.getvalue()
@@ -1895,6 +2537,17 @@ async def export_content(request: ExportRequest, req: Request):
             buffer = create_json(request.content)
             file_data = buffer.getvalue()
             return {"file": file_data.decode('utf-8'), "mime": "application/json", "filename": f"{request.filename}.json"}
+        elif request.format == "pptx":
+            slides = request.slides
+            if not slides:
+                paragraphs = [p.strip() for p in request.content.split("\n\n") if p.strip()]
+                slides = [
+                    ExportSlide(title=request.title or request.filename, bullets=[SlideBullet(text=p) for p in paragraphs[i:i + 6]])
+                    for i in range(0, len(paragraphs), 6)
+                ]
+            buffer = create_pptx(request.title or request.filename, request.subtitle, request.details, slides)
+            file_data = buffer.getvalue()
+            return {"file": base64.b64encode(file_data).decode('utf-8'), "mime": PPTX_MIME, "filename": f"{request.filename}.pptx"}
         elif request.format == "html":
             buffer = create_html(request.content)
             file_data = buffer.getvalue()
@@ -1906,6 +2559,196 @@ async def export_content(request: ExportRequest, req: Request):
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+SAVE_MODES = ("append", "prepend", "overwrite", "insert_after_heading", "replace_section", "create_child")
+DEFAULT_SAVE_MARKER = "ai-summary"
+
+HEADING_TAG = re.compile(r"<h([1-6])\b[^>]*>(.*?)</h\1\s*>", re.S | re.I)
+# A section also ends where the layout cell holding its heading does
+SECTION_BOUNDARY = re.compile(r"<h([1-6])\b|</ac:layout-cell>", re.I)
+
+def heading_key(text: str) -> str:
+    """Heading text as the save modes compare it: tags stripped, entities decoded, whitespace collapsed, lowercased"""
+    return " ".join(html.unescape(re.sub(r"<[^>]+>", "", text)).split()).lower()
+
+def find_heading(storage: str, heading: str):
+    """First heading of the page whose text is heading, or None"""
+    key = heading_key(heading)
+    return next((match for match in HEADING_TAG.finditer(storage) if heading_key(match.group(2)) == key), None)
+
+def section_end(storage: str, heading) -> int:
+    """Where the section under heading ends: at the next heading of the same or a higher level"""
+    level = int(heading.group(1))
+    for boundary in SECTION_BOUNDARY.finditer(storage, heading.end()):
+        if not boundary.group(1) or int(boundary.group(1)) <= level:
+            return boundary.start()
+    return len(storage)
+
+def anchor_macro(name: str) -> str:
+    return f'<ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">{html.escape(name)}</ac:parameter></ac:structured-macro>'
+
+def find_anchor(storage: str, name: str, start: int = 0):
+    pattern = re.compile(
+        r'<ac:structured-macro\s+[^>]*ac:name="anchor"[^>]*>\s*<ac:parameter\s+ac:name="">\s*'
+        + re.escape(html.escape(name))
+        + r"\s*</ac:parameter>.*?</ac:structured-macro>",
+        re.S,
+    )
+    return pattern.search(storage, start)
+
+def apply_save_mode(existing: str, content: str, mode: str, heading: Optional[str] = None, marker: Optional[str] = None) -> str:
+    """
+    The page body after saving content with one of the in-page save modes.
+    The body is edited as text so macros and other storage markup the parser doesn't know come through untouched.
+    replace_section replaces what follows a heading up to the next heading of its level, or what sits between a
+    marker's anchor macros (`marker` and `marker-end`); a marker not on the page yet is appended, so later saves replace it.
+    """
+    if mode == "append":
+        return existing + "<hr/>" + content
+    if mode == "prepend":
+        return content + "<hr/>" + existing
+    if mode == "overwrite":
+        return content
+    if mode == "replace_section" and not heading:
+        name = (marker or DEFAULT_SAVE_MARKER).strip()
+        start = find_anchor(existing, name)
+        end = find_anchor(existing, f"{name}-end", start.end()) if start else None
+        if not start or not end:
+            return existing + "<hr/>" + anchor_macro(name) + content + anchor_macro(f"{name}-end")
+        return existing[:start.end()] + content + existing[end.start():]
+    if mode in ("insert_after_heading", "replace_section"):
+        if not heading:
+            raise HTTPException(status_code=400, detail=f"The {mode} mode needs a heading")
+        match = find_heading(existing, heading)
+        if not match:
+            raise HTTPException(status_code=400, detail=f"Heading not found on the page: {heading}")
+        end = section_end(existing, match) if mode == "replace_section" else match.end()
+        return existing[:match.end()] + content + existing[end:]
+    raise HTTPException(status_code=400, detail=f"Invalid mode. Use one of: {', '.join(SAVE_MODES)}")
+
+def check_save_mode(mode: str, child_title: Optional[str]):
+    if mode not in SAVE_MODES:
+        raise HTTPException(status_code=400, detail=f"Invalid mode. Use one of: {', '.join(SAVE_MODES)}")
+    if mode == "create_child" and not (child_title or "").strip():
+        raise HTTPException(status_code=400, detail="The create_child mode needs a child_title")
+
+def page_version(page) -> Optional[int]:
+    return (page.get("version") or {}).get("number")
+
+def check_page_version(page, expected_version: Optional[int]):
+    """
+    Raises 409 if the page is no longer at expected_version, i.e. someone edited it since the client last saw it.
+    The detail is an object so the client can say who changed it and when.
+    """
+    current = page_version(page)
+    if expected_version is None or current is None or current == expected_version:
+        return
+    version = page.get("version") or {}
+    raise HTTPException(status_code=409, detail={
+        "message": f"The page was edited after version {expected_version} and is now at version {current}",
+        "page_id": page["id"],
+        "page_title": page["title"],
+        "expected_version": expected_version,
+        "current_version": current,
+        "modified_by": (version.get("by") or {}).get("displayName"),
+        "modified_at": version.get("when"),
+    })
+
+def save_page_content(confluence, space_key: str, page, content: str, mode: str,
+                      heading: Optional[str] = None, marker: Optional[str] = None, child_title: Optional[str] = None,
+                      expected_version: Optional[int] = None) -> Dict[str, Any]:
+    """
+    Saves content to page with a save mode; create_child makes a new page under it instead.
+    Returns the page written to with its version before and after (None before for a new page).
+    expected_version only guards edits to the page itself; a new child page leaves it untouched.
+    """
+    check_save_mode(mode, child_title)
+    if mode == "create_child":
+        title = child_title.strip()
+        if confluence.get_page_by_title(space=space_key, title=title):
+            raise HTTPException(status_code=409, detail=f"A page titled '{title}' already exists")
+        child = confluence.create_page(
+            space=space_key,
+            title=title,
+            body=content,
+            parent_id=page["id"],
+            representation="storage"
+        )
+        return {"id": child["id"], "title": title, "version_before": None, "version_after": page_version(child) or 1}
+    check_page_version(page, expected_version)
+    updated_body = apply_save_mode(page["body"]["storage"]["value"], content, mode, heading, marker)
+    updated = confluence.update_page(
+        page_id=page["id"],
+        title=page["title"],
+        body=updated_body,
+        representation="storage"
+    )
+    version_before = page_version(page)
+    return {
+        "id": page["id"],
+        "title": page["title"],
+        "version_before": version_before,
+        "version_after": page_version(updated or {}) or version_before,
+    }
+
+def saved_response(message: str, saved: Dict[str, Any], mode: str) -> Dict[str, Any]:
+    return {
+        "message": message,
+        "page_id": saved["id"],
+        "page_title": saved["title"],
+        "version_before": saved["version_before"],
+        "version_after": saved["version_after"],
+        "mode": mode,
+    }
+
+def attachment_filename(name: str, fallback: str, extension: str = "") -> str:
+    filename = re.sub(r"[^\w.-]+", "_", name).strip("_") or fallback
+    if extension and not filename.lower().endswith(extension):
+        filename += extension
+    return filename
+
+def decode_attachment(filename: str, data: str) -> bytes:
+    try:
+        return base64.b64decode(data, validate=True)
+    except ValueError:
+        raise HTTPException(status_code=400, detail=f"Attachment {filename} is not valid base64")
+
+def attach_files(confluence, page_id: str, files: List[Tuple[str, bytes, str]], comment: str) -> List[Dict[str, str]]:
+    """
+    Attach (filename, content, content type) files to a page, replacing attachments of the same name.
+    The page is saved by then, so failed uploads are returned, not raised, for the response to report.
+    """
+    errors = []
+    for filename, content, content_type in files:
+        try:
+            confluence.attach_content(content, name=filename, content_type=content_type, page_id=page_id, comment=comment)
+        except Exception as e:
+            print(f"[attachments] Failed to attach {filename} to page {page_id}: {e}")
+            errors.append({"filename": filename, "detail": str(e)})
+    return errors
+
+def attached_response(message: str, saved: Dict[str, Any], mode: str, errors: List[Dict[str, str]]) -> Dict[str, Any]:
+    """saved_response, noting any attachments that failed to upload"""
+    if errors:
+        count = f"{len(errors)} attachment{'s' if len(errors) > 1 else ''}"
+        message = f"{message}, but {count} failed to upload"
+    return {**saved_response(message, saved, mode), "attachment_errors": errors}
+
+# A plain def, so FastAPI runs it in its threadpool
+@app.get("/page-version/{space_key}/{page_title}")
+def get_page_version(space_key: Optional[str] = None, page_title: str = "", page_id: Optional[str] = None):
+    """The page's current version, for the client to send back as expected_version when it saves without a preview"""
+    try:
+        confluence = init_confluence()
+        space_key = auto_detect_space(confluence, space_key)
+        page = find_page(confluence, space_key, page_title.strip(), page_id, expand="version")
+        if not page:
+            raise HTTPException(status_code=404, detail=f"Page '{page_title}' not found")
+        return {"page_id": page["id"], "page_title": page["title"], "version": page_version(page)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
 @app.post("/save-to-confluence")
 async def save_to_confluence(request: SaveToConfluenceRequest, req: Request):
     """
@@ -1914,39 +2757,39 @@ async def save_to_confluence(request: SaveToConfluenceRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, request.space_key)
-        # Get page by title, expand body.storage
-        page = confluence.get_page_by_title(space=space_key, title=request.page_title, expand='body.storage')
+        # Get the page by id, or by title without one, expand body.storage
+        page = find_page(confluence, space_key, request.page_title, request.page_id, expand="body.storage,version")
         if not page:
             raise HTTPException(status_code=404, detail="Page not found")
-        page_id = page["id"]
-        
-        # Handle different save modes
-        existing_content = page["body"]["storage"]["value"]
         mode = request.mode or "append"
-        
-        if mode == "append":
-            # Append new content to existing content
-            updated_body = existing_content + "<hr/>" + request.content
-        elif mode == "overwrite":
-            # Replace entire content
-            updated_body = request.content
-        else:
-            raise HTTPException(status_code=400, detail="Invalid mode. Use 'append' or 'overwrite'")
-        
-        # Update page
-        confluence.update_page(
-            page_id=page_id,
-            title=request.page_title,
-            body=updated_body,
-            representation="storage"
+        # Decoded before saving, so a bad attachment leaves the page as it was
+        files = []
+        for attachment in request.attachments or []:
+            filename = attachment_filename(attachment.filename, "attachment")
+            files.append((filename, decode_attachment(filename, attachment.data), attachment.content_type or "application/octet-stream"))
+        saved = save_page_content(
+            confluence, space_key, page, request.content, mode,
+            request.heading, request.marker, request.child_title, request.expected_version
         )
-        return {"message": "Page updated successfully"}
+        # The content refers to its attachments by name, on whichever page now shows it
+        errors = attach_files(confluence, saved["id"], files, "Generated by the Confluence AI Assistant")
+        return attached_response("Page updated successfully", saved, mode, errors)
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+STORAGE_BLOCK_START = re.compile(r"(?=<(?:p|h[1-6]|table|ul|ol|pre|blockquote|hr|ac:structured-macro|ac:layout-section)\b)")
+
+def storage_diff(old: str, new: str) -> str:
+    """Unified diff of two storage-format bodies, one block (paragraph, heading, table, macro...) per line"""
+    def blocks(storage: str) -> list[str]:
+        return [block.strip() for block in STORAGE_BLOCK_START.split(storage) if block.strip()]
+    return "\n".join(difflib.unified_diff(blocks(old), blocks(new), "current", "updated", lineterm=""))
+
 @app.post("/preview-save-to-confluence")
 async def preview_save_to_confluence(request: PreviewSaveToConfluenceRequest, req: Request):
     """
@@ -1955,77 +2798,192 @@ async def preview_save_to_confluence(request: PreviewSaveToConfluenceRequest, re
     try:
         confluence = init_confluence()
         space_key = auto_detect_space(confluence, request.space_key)
-        # Get page by title, expand body.storage
-        page = confluence.get_page_by_title(space=space_key, title=request.page_title, expand='body.storage')
+        # Get the page by id, or by title without one, expand body.storage
+        page = find_page(confluence, space_key, request.page_title, request.page_id, expand="body.storage,version")
         if not page:
             raise HTTPException(status_code=404, detail="Page not found")
         
-        # Handle different save modes for preview
-        existing_content = page["body"]["storage"]["value"]
-        
-        if request.mode == "append":
-            # Preview append mode
-            preview_content = existing_content + "<hr/>" + request.content
-            diff = f"<div style='color: green;'>+ {request.content}</div>"
-        elif request.mode == "overwrite":
-            # Preview overwrite mode
+        check_save_mode(request.mode, request.child_title)
+        section_error = None
+        if request.mode == "create_child":
+            # The content becomes a page of its own
+            existing_content = ""
             preview_content = request.content
-            diff = f"<div style='color: red;'>- {existing_content}</div><div style='color: green;'>+ {request.content}</div>"
         else:
-            raise HTTPException(status_code=400, detail="Invalid mode. Use 'append' or 'overwrite'")
-        
+            existing_content = page["body"]["storage"]["value"]
+            try:
+                preview_content = apply_save_mode(existing_content, request.content, request.mode, request.heading, request.marker)
+            except HTTPException as e:
+                # Still show the page, so a heading can be picked from its outline
+                section_error = e.detail
+                preview_content = existing_content
+
         return {
             "preview_content": preview_content,
-            "diff": diff
+            "existing_content": existing_content,
+            "diff": storage_diff(existing_content, preview_content),
+            "section_error": section_error,
+            "version": page_version(page),
         }
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+# Tools Agent Mode can run, with the description the planner chooses from
+AGENT_PLANNER_TOOLS = {
+    "ai_powered_search": "answers questions about, or summarizes, the text of one page",
+    "code_assistant": "summarizes, optimizes, refactors, documents, debugs or converts the code on one page",
+    "image_insights": "summarizes the images and charts on one page",
+    "video_summarizer": "summarizes the video on one page",
+    "impact_analyzer": "compares two versions of a page (old page first, new page second) and rates the risk of the change",
+    "test_support": "writes a test strategy for the code on the first page, optionally using the second page as test input",
+    "push_to_jira": "creates Jira issues from the action items in an earlier step's output (takes no pages)",
+}
+TWO_PAGE_TOOLS = {"impact_analyzer", "test_support"}
+# How a step uses an earlier step's output (input_from) in place of a page
+CHAINED_INPUTS = {
+    "test_support": "the code to test; pages then only hold the optional test input page",
+    "impact_analyzer": "the new code; pages then only hold the old page",
+    "ai_powered_search": "extra context for the page",
+    "push_to_jira": "the text to take action items from (required)",
+}
+
+def strip_code_fence(raw: str) -> str:
+    raw = raw.strip()
+    if raw.startswith('```json'):
+        raw = raw[7:]
+    if raw.startswith('```'):
+        raw = raw[3:]
+    if raw.endswith('```'):
+        raw = raw[:-3]
+    return raw.strip()
+
+def normalize_plan_steps(raw_steps, available_pages: list[str], goal: str) -> list[dict]:
+    """Keeps only steps Agent Mode can run: known tools, pages from the available list,
+    one page per single-page tool and two pages for Impact Analyzer. A step's page
+    taken by an earlier step's output (input_from) is left out, and input_from is
+    renumbered to the kept steps."""
+    by_lower = {p.lower(): p for p in available_pages}
+    steps = []
+    # Raw step number -> number of the last kept step it produced
+    kept_numbers = {}
+    raw_list = raw_steps if isinstance(raw_steps, list) else []
+    for raw_number, raw in enumerate(raw_list, start=1):
+        if not isinstance(raw, dict):
+            continue
+        tool = str(raw.get('tool', '')).strip()
+        if tool not in AGENT_PLANNER_TOOLS:
+            continue
+        input_from = None
+        if tool in CHAINED_INPUTS:
+            try:
+                input_from = kept_numbers.get(int(raw.get('input_from')))
+            except (TypeError, ValueError):
+                input_from = None
+        raw_pages = raw.get('pages') or raw.get('page') or []
+        if isinstance(raw_pages, str):
+            raw_pages = [raw_pages]
+        pages = [by_lower[str(p).strip().lower()] for p in raw_pages if str(p).strip().lower() in by_lower]
+        instruction = str(raw.get('instruction') or goal).strip()
+        rationale = str(raw.get('rationale') or '').strip()
+        chained = {"input_from": input_from} if input_from else {}
+        kept_before = len(steps)
+        if tool == 'push_to_jira':
+            if not input_from:
+                continue
+            steps.append({"tool": tool, "pages": [], "instruction": instruction, "rationale": rationale, **chained})
+        elif input_from and tool in TWO_PAGE_TOOLS:
+            if tool == 'impact_analyzer' and not pages:
+                continue
+            steps.append({"tool": tool, "pages": pages[:1], "instruction": instruction, "rationale": rationale, **chained})
+        elif tool in TWO_PAGE_TOOLS:
+            if len(pages) < 2 and not (tool == 'test_support' and pages):
+                continue
+            steps.append({"tool": tool, "pages": pages[:2], "instruction": instruction, "rationale": rationale})
+        else:
+            for page in pages:
+                steps.append({"tool": tool, "pages": [page], "instruction": instruction, "rationale": rationale, **chained})
+        if len(steps) > kept_before:
+            kept_numbers[raw_number] = len(steps)
+    return steps
+
+@app.post("/rollback-page")
+async def rollback_page(request: RollbackPageRequest, req: Request):
+    """
+    Restore an earlier version of a page, e.g. the one before an AI save. Confluence keeps
+    every version, so the rollback is itself a new version and can be undone the same way.
+    """
+    try:
+        confluence = init_confluence()
+        page = find_page(confluence, "", page_id=request.page_id, expand="version")
+        if not page:
+            raise HTTPException(status_code=404, detail="Page not found")
+        check_page_version(page, request.expected_version)
+        old = confluence.get_page_by_id(request.page_id, expand="body.storage", status="historical", version=request.version)
+        if not old or "body" not in old:
+            raise HTTPException(status_code=404, detail=f"Version {request.version} of the page was not found")
+        updated = confluence.update_page(
+            page_id=page["id"],
+            title=page["title"],
+            body=old["body"]["storage"]["value"],
+            representation="storage",
+            version_comment=f"Rolled back to version {request.version}"
+        )
+        version_before = page_version(page)
+        return saved_response(
+            f"Restored version {request.version}",
+            {"id": page["id"], "title": page["title"], "version_before": version_before,
+             "version_after": page_version(updated or {}) or version_before},
+            "rollback",
+        )
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.post("/analyze-goal", response_model=AnalyzeGoalResponse)
 async def analyze_goal(request: AnalyzeGoalRequest, req: Request):
-    """Analyze a user goal and return which tools and pages to use, using Gemini."""
+    """Plan an Agent Mode run with Gemini: which tool to run on which page(s), with what instruction and why."""
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
+        page_types = request.page_types or {}
+        pages_text = "\n".join(f"- {title} ({page_types.get(title, 'unknown')})" for title in request.available_pages)
+        tools_text = "\n".join(f"- {key}: {description}" for key, description in AGENT_PLANNER_TOOLS.items())
+        chained_text = "\n".join(f"- {key}: {description}" for key, description in CHAINED_INPUTS.items())
         prompt = (
-            "You are an expert AI agent orchestrator. "
-            "Given the following user goal and a list of available Confluence page titles, decide which of these tools should be used to accomplish it: "
-            "AI Powered Search, Impact Analyzer, Code Assistant, Video Summarizer, Test Support Tool, Image Insights, Chart Builder. "
-            "Also, select the most relevant page titles from the provided list that should be used to achieve the goal. "
-            "Return a JSON object with three fields: 'tools' (a list of tool names to use, using these exact keys: 'ai_powered_search', 'impact_analyzer', 'code_assistant', 'video_summarizer', 'test_support', 'image_insights', 'chart_builder'), 'pages' (a list of relevant page titles from the provided list), and 'reasoning' (a short explanation of your choices). "
-            "Return ONLY valid JSON, no extra text or explanation. Output your answer as a JSON object in a single code block. "
-            f"Available pages: {request.available_pages}\n"
-            f"User goal: '{request.goal}'"
+            "You are an expert AI agent orchestrator planning work over Confluence pages.\n"
+            f"Tools:\n{tools_text}\n\n"
+            f"Available pages (content type in brackets):\n{pages_text}\n\n"
+            f"User goal: '{request.goal}'\n\n"
+            "Break the goal into steps. Each step runs one tool on the page(s) it needs, with a self-contained instruction for that tool. "
+            "Choose tools by what the goal asks for and what the page contains, not by keywords: fixing wording on a text page is AI Powered Search, not Code Assistant. "
+            "Only use page titles from the list, exactly as written. Do not add steps the goal does not need.\n"
+            "When a step should work on what an earlier step produced (e.g. test the refactored code), set input_from to that step's number, counting from 1. "
+            f"Only these tools take an input:\n{chained_text}\n"
+            "Return ONLY a JSON object, no extra text: "
+            '{"steps": [{"tool": "<tool key>", "pages": ["<page title>"], "instruction": "<what the tool should do>", "rationale": "<why this tool and page>", "input_from": <earlier step number or null>}], '
+            '"reasoning": "<one or two sentences on the overall plan>"}'
         )
         response = ai_model.generate_content(prompt)
-        # Try to parse the response as JSON
         try:
-            # Remove code block markers if present
-            raw = response.text.strip()
-            if raw.startswith('```json'):
-                raw = raw[7:]
-            if raw.startswith('```'):
-                raw = raw[3:]
-            if raw.endswith('```'):
-                raw = raw[:-3]
-            result = json.loads(raw)
-            tools = result.get('tools', [])
-            # Patch: handle dict for tools
-            if isinstance(tools, dict):
-                tools = [k for k, v in tools.items() if v is True or v == 1 or (isinstance(v, str) and v.lower() == 'true')]
-            elif not isinstance(tools, list):
-                raise ValueError(f"Gemini returned tools in an unexpected format: {tools}")
-            pages = result.get('pages', [])
-            reasoning = result.get('reasoning', '')
-        except Exception as e:
+            result = json.loads(strip_code_fence(response.text))
+        except Exception:
             print(f"[analyze-goal] Failed to parse Gemini response as JSON. Raw response:\n{response.text}")
-            tools = []
-            pages = []
-            reasoning = response.text.strip()
-        if not tools or not pages:
-            raise HTTPException(status_code=400, detail=f"Gemini did not return valid tools/pages. Raw output:\n{response.text}")
-        return {"tools": tools, "pages": pages, "reasoning": reasoning}
+            result = {}
+        if not isinstance(result, dict):
+            print(f"[analyze-goal] Gemini returned JSON that is not an object. Raw response:\n{response.text}")
+            result = {}
+        steps = normalize_plan_steps(result.get('steps'), request.available_pages, request.goal)
+        if not steps:
+            raise HTTPException(status_code=400, detail=f"Gemini did not return a usable plan. Raw output:\n{response.text}")
+        tools = list(dict.fromkeys(step['tool'] for step in steps))
+        pages = list(dict.fromkeys(page for step in steps for page in step['pages']))
+        return {"tools": tools, "pages": pages, "reasoning": str(result.get('reasoning', '')), "steps": steps}
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
@@ -2035,7 +2993,7 @@ async def table_summary(request: TableSummaryRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         import pandas as pd
         from io import StringIO
         # Parse HTML table to DataFrame
@@ -2063,7 +3021,7 @@ async def excel_summary(request: ExcelSummaryRequest, req: Request):
     try:
         api_key = get_actual_api_key_from_identifier(req.headers.get('x-api-key'))
         genai.configure(api_key=api_key)
-        ai_model = genai.GenerativeModel("models/gemini-1.5-flash-8b-latest")
+        ai_model = genai.GenerativeModel(GEMINI_MODEL)
         import pandas as pd
         import tempfile
         import requests
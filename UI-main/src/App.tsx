@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import ModeSelector from './components/ModeSelector';
 import AgentMode from './components/AgentMode';
 import AIPoweredSearch from './components/AIPoweredSearch';
@@ -7,60 +7,97 @@ import CodeAssistant from './components/CodeAssistant';
 import ImpactAnalyzer from './components/ImpactAnalyzer';
 import TestSupportTool from './components/TestSupportTool';
 import ImageInsights from './components/ImageInsights';
+import DiagramGenerator from './components/DiagramGenerator';
 import CircularLauncher from './components/CircularLauncher';
+import WorkspaceProvider from './components/WorkspaceProvider';
+import CommandPalette from './components/CommandPalette';
+import ReportTray from './components/ReportTray';
+import { loadConfigProfiles } from './services/connectionProfiles';
+import { useRoute } from './hooks/useRoute';
+import { useCommands } from './hooks/useCommands';
+import { CLOSED_ROUTE } from './utils/appRoute';
 
-export type FeatureType = 'search' | 'video' | 'code' | 'impact' | 'test' | 'image' | null;
+export type FeatureType = 'search' | 'video' | 'code' | 'impact' | 'test' | 'image' | 'diagram' | null;
 export type AppMode = 'agent' | 'tool' | null;
 
+const FEATURE_NAMES: Record<Exclude<FeatureType, null>, string> = {
+  search: 'AI Powered Search',
+  video: 'Video Summarizer',
+  code: 'Code Assistant',
+  impact: 'Impact Analyzer',
+  test: 'Test Support Tool',
+  image: 'Chart Builder',
+  diagram: 'Diagram Generator',
+};
+
 function App() {
-  const [activeFeature, setActiveFeature] = useState<FeatureType>(null);
-  const [isAppOpen, setIsAppOpen] = useState(false);
-  const [autoSpaceKey, setAutoSpaceKey] = useState<string | null>(null);
-  const [appMode, setAppMode] = useState<AppMode>(null);
+  // Which mode and tool are open comes from the URL, so links and back/forward work
+  const { route, navigate } = useRoute();
+  const { open: isAppOpen, mode: appMode, tool: activeFeature } = route;
 
-  // Extract space key from URL parameter
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    const spaceKey = urlParams.get('space');
-    if (spaceKey) {
-      setAutoSpaceKey(spaceKey);
-    }
+    loadConfigProfiles();
   }, []);
 
+  // Switching mode or tool keeps the space and pages; the query and entry belong to the tool left behind
+  const setAppMode = (mode: AppMode) => {
+    navigate({ ...route, open: true, mode, tool: mode === 'tool' ? activeFeature || 'search' : null, query: undefined, entry: undefined });
+  };
+
+  const setActiveFeature = (feature: FeatureType) => {
+    navigate({ ...route, open: true, mode: 'tool', tool: feature, query: undefined, entry: undefined });
+  };
+
+  useCommands([
+    ...(Object.keys(FEATURE_NAMES) as Array<Exclude<FeatureType, null>>).map(feature => ({
+      id: `nav.${feature}`,
+      title: `Open ${FEATURE_NAMES[feature]}`,
+      group: 'Tools',
+      keywords: 'switch tool go to',
+      disabled: appMode === 'tool' && activeFeature === feature,
+      run: () => setActiveFeature(feature),
+    })),
+    { id: 'nav.agent', title: 'Switch to Agent Mode', group: 'Modes', keywords: 'goal plan', disabled: appMode === 'agent', run: () => setAppMode('agent') },
+    { id: 'nav.tool', title: 'Switch to Tool Mode', group: 'Modes', disabled: appMode === 'tool', run: () => setActiveFeature(activeFeature || 'search') },
+    { id: 'nav.modes', title: 'Choose a mode', group: 'Modes', keywords: 'home start', disabled: !appMode, run: () => navigate({ ...route, mode: null, tool: null, query: undefined, entry: undefined }) },
+    { id: 'nav.close', title: 'Close the assistant', group: 'Modes', keywords: 'exit quit', run: () => navigate(CLOSED_ROUTE) },
+  ]);
+
   const renderActiveFeature = () => {
     switch (activeFeature) {
       case 'search':
-        return <AIPoweredSearch onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <AIPoweredSearch onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       case 'video':
-        return <VideoSummarizer onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <VideoSummarizer onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       case 'code':
-        return <CodeAssistant onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <CodeAssistant onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       case 'impact':
-        return <ImpactAnalyzer onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <ImpactAnalyzer onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       case 'test':
-        return <TestSupportTool onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <TestSupportTool onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       case 'image':
-        return <ImageInsights onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <ImageInsights onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
+      case 'diagram':
+        return <DiagramGenerator onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
       default:
-        return <AIPoweredSearch onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />;
+        return <AIPoweredSearch onClose={() => setActiveFeature(null)} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />;
     }
   };
 
   const handleLauncherClick = () => {
-    setIsAppOpen(true);
     // Don't set a default feature, let user choose mode first
+    navigate({ ...CLOSED_ROUTE, open: true });
   };
 
   const handleAppClose = () => {
-    setIsAppOpen(false);
-    setActiveFeature(null);
-    setAppMode(null);
+    navigate(CLOSED_ROUTE);
   };
 
   const handleModeSelect = (mode: AppMode) => {
-    setAppMode(mode);
     if (mode === 'tool') {
       setActiveFeature('search'); // Default to search for tool mode
+    } else {
+      setAppMode(mode);
     }
   };
 
@@ -70,18 +107,21 @@ function App() {
         <CircularLauncher onClick={handleLauncherClick} />
       )}
       
+      {/* Spaces, pages and the selection are shared by every tool, and outlive switching between them */}
       {isAppOpen && (
-        <div>
+        <WorkspaceProvider>
           {!appMode ? (
             <ModeSelector onModeSelect={handleModeSelect} onClose={handleAppClose} />
           ) : appMode === 'agent' ? (
-            <AgentMode onClose={handleAppClose} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />
+            <AgentMode onClose={handleAppClose} onModeSelect={setAppMode} />
           ) : appMode === 'tool' && activeFeature ? (
             renderActiveFeature()
           ) : appMode === 'tool' ? (
-            <AIPoweredSearch onClose={handleAppClose} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} autoSpaceKey={autoSpaceKey} isSpaceAutoConnected={!!autoSpaceKey} />
+            <AIPoweredSearch onClose={handleAppClose} onFeatureSelect={setActiveFeature} onModeSelect={setAppMode} />
           ) : null}
-        </div>
+          <ReportTray />
+          <CommandPalette />
+        </WorkspaceProvider>
       )}
     </div>
   );
@@ -1,78 +1,88 @@
 import React, { useState, useEffect } from 'react';
-import { Search, BarChart3, Download, Save, FileText, X, ChevronDown, Loader2, Settings, Video, Code, TrendingUp, TestTube, Image, CheckCircle, ChevronUp, Check } from 'lucide-react';
+import { Search, BarChart3, Download, Save, FileText, X, ChevronDown, Loader2, Settings, Video, Code, TrendingUp, TestTube, Image, ChevronUp, Check, Square, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService, Space } from '../services/api';
+import { apiService, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
 import CustomScrollbar from './CustomScrollbar';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import HistoryPanel from './HistoryPanel';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useStreamingSearch } from '../hooks/useStreamingSearch';
+import { useHistory } from '../hooks/useHistory';
+import type { HistoryRecord } from '../services/historyStore';
+import { copyText } from '../utils/clipboard';
+import { markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, exportReport } from '../utils/reportExport';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import PinButton from './PinButton';
+import MarkdownView from './MarkdownView';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import SaveConflictDialog from './SaveConflictDialog';
+
+interface SearchHistoryPayload {
+  response: string;
+  responseSource: string;
+}
 
 interface AIPoweredSearchProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({ 
   onClose, 
   onFeatureSelect, 
-  onModeSelect,
-  autoSpaceKey, 
-  isSpaceAutoConnected 
+  onModeSelect
 }) => {
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [selectedPages, setSelectedPages] = useState<string[]>([]);
-  const [isPageDropdownOpen, setIsPageDropdownOpen] = useState(false);
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    selectedPages,
+    setSelectedPages,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
   const [query, setQuery] = useState('');
   const [response, setResponse] = useState('');
   const [responseSource, setResponseSource] = useState('');
   // --- History feature ---
-  const [history, setHistory] = useState<Array<{query: string, response: string, responseSource: string}>>([]);
-  const [currentHistoryIndex, setCurrentHistoryIndex] = useState<number | null>(null);
+  const history = useHistory<SearchHistoryPayload>('search');
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showRawContent, setShowRawContent] = useState(false);
-  const [exportFormat, setExportFormat] = useState('markdown');
-  const [spaces, setSpaces] = useState<Space[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [error, setError] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('search');
+  const { pin, pinned } = usePinToReport('AI Powered Search');
+  const { runStream, stop: stopStreaming, isStreaming } = useStreamingSearch();
   const [showToast, setShowToast] = useState(false);
-  const [pageSearch, setPageSearch] = useState('');
   const [exportFormatSearch, setExportFormatSearch] = useState('');
   const [isExportFormatDropdownOpen, setIsExportFormatDropdownOpen] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const [isGoogleChatLoading, setIsGoogleChatLoading] = useState(false);
-  const exportFormats = [
-    { value: 'markdown', label: 'Markdown' },
-    { value: 'pdf', label: 'PDF' },
-    { value: 'docx', label: 'Word Document' }
-  ];
-
-  const toggleSelectAllPages = () => {
-    if (selectedPages.length === pages.length) {
-      setSelectedPages([]);
-    } else {
-      setSelectedPages([...pages]);
-    } 
-  };
-
-  const handlePageSelection = (page: string) => {
-    setSelectedPages(prev =>
-      prev.includes(page)
-        ? prev.filter(p => p !== page)
-        : [...prev, page]
-    );
-  };
-  const selectAllPages = () => {
-    setSelectedPages(pages);
-  };
-  const clearAllPages = () => {
-    setSelectedPages([]);
-  };
 
   const features = [
     { id: 'search' as const, label: 'AI Powered Search', icon: Search },
@@ -81,126 +91,148 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3},
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
-  // Load spaces on component mount
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
-  useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSelectedSpace(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
-
-  // Load pages when space is selected
-  useEffect(() => {
-    if (selectedSpace) {
-      loadPages();
-    }
-  }, [selectedSpace]);
-
-  // Sync "Select All" checkbox state
-
-  // Only auto-select page from URL if no page is already selected
-  useEffect(() => {
-    if (pages.length > 0 && selectedPages.length === 0) {
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && pages.includes(page)) {
-        setSelectedPages([page]);
-      }
-    }
-  }, [pages, selectedPages]);
-
-  const loadSpaces = async () => {
-    try {
-      setError('');
-      const result = await apiService.getSpaces();
-      setSpaces(result.spaces);
-    } catch (err) {
-      setError('Failed to load spaces. Please check your backend connection.');
-      console.error('Error loading spaces:', err);
-    }
-  };
-
-  const loadPages = async () => {
-    try {
-      setError('');
-      const result = await apiService.getPages(selectedSpace);
-      setPages(result.pages);
-      // Auto-select page if present in URL
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && result.pages.includes(page)) {
-        setSelectedPages([page]);
-      }
-    } catch (err) {
-      setError('Failed to load pages. Please check your space key.');
-      console.error('Error loading pages:', err);
-    }
-  };
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
-  const handleSearch = async () => {
-    if (!selectedSpace || selectedPages.length === 0 || !query.trim()) {
+  const runSearch = async (searchQuery: string) => {
+    if (!selectedSpace || selectedPages.length === 0 || !searchQuery.trim()) {
       setError('Please fill in all required fields.');
       return;
     }
 
     setIsLoading(true);
     setError('');
+    setResponse('');
+    setResponseSource('');
 
     try {
-      const result = await apiService.search({
+      // Tokens are rendered as they arrive; falls back to /search on older backends
+      const result = await runStream({
         space_key: selectedSpace,
         page_titles: selectedPages,
-        query: query
-      });
+        page_ids: selectedPages.map(page => pageIds[page]),
+        query: searchQuery
+      }, setResponse, getSignal());
 
-      setResponse(result.response);
-      setResponseSource(result.source || '');
+      setResponseSource(result.source);
       // Add to history
-      setHistory(prev => [{ query, response: result.response, responseSource: result.source || '' }, ...prev]);
-      setCurrentHistoryIndex(0);
+      if (result.text) {
+        const entry = await history.addEntry({
+          title: searchQuery,
+          spaceKey: selectedSpace,
+          pageTitles: selectedPages,
+          payload: { response: result.text, responseSource: result.source },
+          text: result.text,
+        });
+        setCurrentHistoryId(entry?.id ?? null);
+        updateRoute({ query: searchQuery, entry: entry?.id });
+      }
     } catch (err) {
-      setError('Failed to generate AI response. Please try again.');
+      setError(toToolError(err, 'Failed to generate AI response'));
       console.error('Error generating response:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // When currentHistoryIndex changes, update displayed response/query/source
-  useEffect(() => {
-    if (currentHistoryIndex !== null && history[currentHistoryIndex]) {
-      setResponse(history[currentHistoryIndex].response);
-      setQuery(history[currentHistoryIndex].query);
-      setResponseSource(history[currentHistoryIndex].responseSource);
+  const handleSearch = () => runSearch(query);
+
+  const rerunLastSearch = () => {
+    if (!history.latest) return;
+    setQuery(history.latest.title);
+    runSearch(history.latest.title);
+  };
+
+  const loadHistoryEntry = (entry: HistoryRecord<SearchHistoryPayload>) => {
+    setCurrentHistoryId(entry.id);
+    setResponse(entry.payload.response);
+    setQuery(entry.title);
+    setResponseSource(entry.payload.responseSource);
+    updateRoute({ query: entry.title, entry: entry.id });
+  };
+
+  useRouteResult('search', currentHistoryId, setQuery, loadHistoryEntry);
+
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
+    }
+    await publish(page, async expectedVersion => {
+      const saved = await apiService.saveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        ...(await prepareMarkdownSave(response || '')),
+        ...saveOptions,
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to save to Confluence')));
+  };
+
+  const previewSave = async (options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const { storage } = markdownToStorage(response || '');
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: storage,
+        ...options,
+      }, { signal: getSignal() });
+      notePreview(page, preview);
+      setPreviewStorage(storage);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
     }
-  }, [currentHistoryIndex]);
+  };
 
-  const exportResponse = async (format: string) => {
+  const exportResponse = async (format: ExportFormat) => {
     if (!response) return;
 
     try {
-      const blob = await apiService.exportContent({
-        content: response,
-        format: format,
-        filename: 'ai-search-response'
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `ai-search-response.${format}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportReport({
+        title: query.trim() || undefined,
+        tool: 'AI Powered Search',
+        markdown: response,
+        details: {
+          Space: spaces.find(space => space.key === selectedSpace)?.name || selectedSpace,
+          Pages: selectedPages.join(', '),
+        },
+      }, format, 'ai-search-response', { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export file. Please try again.');
+      setError(toToolError(err, 'Failed to export file'));
       console.error('Error exporting:', err);
     }
   };
 
+  const pinResponse = () => pin({
+    title: query.trim() || undefined,
+    markdown: response,
+    pages: selectedPages,
+  }, err => setError(toToolError(err, 'Failed to pin the response')));
+
   function cleanPreviewContent(html: string, numBlocks = 2): string {
     try {
       const parser = new DOMParser();
@@ -221,6 +253,16 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
     }
   }
 
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Generate AI response', group: 'AI Powered Search', disabled: isLoading, run: handleSearch },
+    { id: TOOL_COMMANDS.rerun, title: 'Re-run the last search', group: 'AI Powered Search', disabled: isLoading || !history.latest, run: rerunLastSearch },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the AI response', group: 'AI Powered Search', disabled: !response, run: () => copyText(response) },
+    { id: TOOL_COMMANDS.export, title: 'Export the AI response', group: 'AI Powered Search', disabled: !response, run: () => exportResponse(exportFormat) },
+    { id: TOOL_COMMANDS.save, title: 'Save the AI response to Confluence', group: 'AI Powered Search', disabled: !response, run: saveToHostPage },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the AI response to the report', group: 'AI Powered Search', disabled: !response, run: pinResponse },
+    { id: TOOL_COMMANDS.history, title: 'Show or hide search history', group: 'AI Powered Search', disabled: history.totalCount === 0, run: () => setShowHistoryPanel(show => !show) },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
@@ -235,6 +277,7 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -276,11 +319,7 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-          {error && (
-            <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
-              {error}
-            </div>
-          )}
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Left Column - Search Configuration */}
@@ -316,91 +355,7 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Select Pages to Analyze ({selectedPages.length} selected)
                   </label>
-                  <div className="relative z-50">
-                    <button
-                      type="button"
-                      onClick={() => setIsPageDropdownOpen(!isPageDropdownOpen)}
-                      disabled={!selectedSpace}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                    >
-                      <span className={selectedPages.length === 0 ? 'text-gray-500' : 'text-gray-700'}>
-                        {selectedPages.length === 0
-                          ? 'Choose pages...'
-                          : selectedPages.length === 1
-                            ? selectedPages[0]
-                            : `${selectedPages.length} pages selected`
-                        }
-                      </span>
-                      {isPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {/* Dropdown */}
-                    {isPageDropdownOpen && selectedSpace && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        {/* Header with Select All/Clear All and Search */}
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <div className="flex justify-between items-center mb-2">
-                            <button
-                              onClick={selectAllPages}
-                              className="text-sm text-confluence-blue hover:text-confluence-blue/80 font-medium"
-                            >
-                              Select All
-                            </button>
-                            <button
-                              onClick={clearAllPages}
-                              className="text-sm text-gray-500 hover:text-gray-700 font-medium"
-                            >
-                              Clear All
-                            </button>
-                          </div>
-                          <input
-                            type="text"
-                            value={pageSearch}
-                            onChange={e => setPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        {/* Page List */}
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found in this space
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase())).map(page => (
-                              <label
-                                key={page}
-                                className="flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0"
-                              >
-                                <div className="relative">
-                                  <input
-                                    type="checkbox"
-                                    checked={selectedPages.includes(page)}
-                                    onChange={() => handlePageSelection(page)}
-                                    className="sr-only"
-                                  />
-                                  <div className={`w-5 h-5 border-2 rounded flex items-center justify-center transition-colors ${
-                                    selectedPages.includes(page)
-                                      ? 'bg-confluence-blue border-confluence-blue'
-                                      : 'border-gray-300 hover:border-confluence-blue/50'
-                                  }`}>
-                                    {selectedPages.includes(page) && (
-                                      <CheckCircle className="w-3 h-3 text-white" />
-                                    )}
-                                  </div>
-                                </div>
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                              </label>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker multiple value={selectedPages} onChange={setSelectedPages} />
                 </div>
                {/* Removed duplicate Select All Pages checkbox below dropdown */}
                 <div className="h-4" />
@@ -435,33 +390,55 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                     </>
                   )}
                 </button>
+                {isLoading && <CancelButton onClick={cancelRequests} className="w-full mt-2" />}
               </div>
             </div>
 
             {/* Right Column - Results */}
             <div className="space-y-6 z-40">
               {/* --- History Dropdown --- */}
-              {history.length > 0 && (
-                <div className="mb-2 flex items-center space-x-2">
-                  <label className="text-sm font-medium text-gray-700">History:</label>
-                  <select
-                    className="border border-gray-300 rounded px-2 py-1 text-sm"
-                    value={currentHistoryIndex ?? 0}
-                    onChange={e => setCurrentHistoryIndex(Number(e.target.value))}
-                  >
-                    {history.map((item, idx) => (
-                      <option key={idx} value={idx}>
-                        {item.query.length > 40 ? item.query.slice(0, 40) + '...' : item.query}
-                      </option>
-                    ))}
-                  </select>
-                  {currentHistoryIndex !== null && currentHistoryIndex !== 0 && (
+              {history.totalCount > 0 && (
+                <div className="mb-2">
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm font-medium text-gray-700">History:</label>
+                    <select
+                      className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      value={currentHistoryId ?? ''}
+                      onChange={e => {
+                        const entry = history.entries.find(h => h.id === e.target.value);
+                        if (entry) loadHistoryEntry(entry);
+                      }}
+                    >
+                      <option value="" disabled>Previous searches</option>
+                      {history.entries.map(item => (
+                        <option key={item.id} value={item.id}>
+                          {item.title.length > 40 ? item.title.slice(0, 40) + '...' : item.title}
+                        </option>
+                      ))}
+                    </select>
+                    {history.latest && currentHistoryId !== history.latest.id && (
+                      <button
+                        className="text-xs text-confluence-blue underline ml-2"
+                        onClick={() => history.latest && loadHistoryEntry(history.latest)}
+                      >
+                        Go to Latest
+                      </button>
+                    )}
                     <button
                       className="text-xs text-confluence-blue underline ml-2"
-                      onClick={() => setCurrentHistoryIndex(0)}
+                      onClick={() => setShowHistoryPanel(!showHistoryPanel)}
                     >
-                      Go to Latest
+                      {showHistoryPanel ? 'Hide' : 'Search'} History
                     </button>
+                  </div>
+                  {showHistoryPanel && (
+                    <HistoryPanel
+                      history={history}
+                      selectedId={currentHistoryId}
+                      onSelect={loadHistoryEntry}
+                      spaces={spaces}
+                      className="mt-3 bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg"
+                    />
                   )}
                 </div>
               )}
@@ -478,6 +455,16 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                       </span>
                     )}
                     <div className="flex items-center space-x-2">
+                      {isStreaming && (
+                        <button
+                          onClick={stopStreaming}
+                          className="flex items-center space-x-1 text-sm text-red-600 hover:underline"
+                          title="Stop generating and keep the answer so far"
+                        >
+                          <Square className="w-3 h-3" />
+                          <span>Stop</span>
+                        </button>
+                      )}
                       <button
                         onClick={() => setShowRawContent(!showRawContent)}
                         className="text-sm text-confluence-blue hover:underline"
@@ -491,22 +478,10 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                     {showRawContent ? (
                       <pre className="text-sm text-gray-700 whitespace-pre-wrap">{response}</pre>
                     ) : (
-                      <div className="prose prose-sm max-w-none">
-                        {response.split('\n').map((line, index) => {
-                          if (line.startsWith('## ')) {
-                            return <h2 key={index} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(3)}</h2>;
-                          } else if (line.startsWith('- **')) {
-                            const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                            if (match) {
-                              return <p key={index} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                            }
-                          } else if (line.startsWith('- ')) {
-                            return <p key={index} className="mb-1 ml-4">• {line.substring(2)}</p>;
-                          } else if (line.trim()) {
-                            return <p key={index} className="mb-2 text-gray-700">{line}</p>;
-                          }
-                          return <br key={index} />;
-                        })}
+                      <div className="prose prose-sm max-w-none text-gray-700">
+                        {/* Partial markdown renders fine mid-stream; unclosed syntax settles once the rest arrives */}
+                        <MarkdownView>{response}</MarkdownView>
+                        {isStreaming && <span className="inline-block w-2 h-4 bg-confluence-blue/70 animate-pulse align-middle" />}
                       </div>
                     )}
                   </div>
@@ -521,7 +496,7 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                           onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                           className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                         >
-                          <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                          <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                           {isExportFormatDropdownOpen ? (
                             <ChevronUp className="w-4 h-4 text-gray-400" />
                           ) : (
@@ -540,10 +515,10 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                               />
                             </div>
                             <div className="max-h-32 overflow-y-auto">
-                              {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                              {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                                 <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                               ) : (
-                                exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                                EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                                   <button
                                     key={f.value}
                                     type="button"
@@ -561,18 +536,7 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                       </div>
                     </div>
                     
-                    <div className="flex items-center space-x-2 mb-2">
-                      <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                      <select
-                        id="save-mode"
-                        value={saveMode}
-                        onChange={e => setSaveMode(e.target.value)}
-                        className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                      >
-                        <option value="append">Append</option>
-                        <option value="overwrite">Overwrite</option>
-                      </select>
-                    </div>
+                    <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
 
                     <div className="flex space-x-2">
                       <button
@@ -582,55 +546,15 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                         <Download className="w-4 h-4" />
                         <span>Export</span>
                       </button>
+                      <PinButton onClick={pinResponse} pinned={pinned} />
                       <button
-                        onClick={async () => {
-                          setIsPreviewLoading(true);
-                          setShowPreview(false);
-                          try {
-                            const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                            if (!space || !page) {
-                              alert('Confluence space or page not specified in macro src URL.');
-                              return;
-                            }
-                            const preview = await apiService.previewSaveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: response || '',
-                              mode: saveMode,
-                            });
-                            setPreviewContent(preview.preview_content);
-                            setPreviewDiff(preview.diff);
-                            setShowPreview(true);
-                          } catch (err: any) {
-                            alert('Failed to generate preview: ' + (err.message || err));
-                          } finally {
-                            setIsPreviewLoading(false);
-                          }
-                        }}
+                        onClick={() => previewSave()}
                         className="flex items-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                       >
                         {isPreviewLoading ? "Loading..." : "Preview"}
                       </button>
                       <button
-                        onClick={async () => {
-                          const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                          if (!space || !page) {
-                            alert('Confluence space or page not specified in macro src URL.');
-                            return;
-                          }
-                          try {
-                            await apiService.saveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: response || '',
-                              mode: saveMode,
-                            });
-                            setShowToast(true);
-                            setTimeout(() => setShowToast(false), 3000);
-                          } catch (err: any) {
-                            alert('Failed to save to Confluence: ' + (err.message || err));
-                          }
-                        }}
+                        onClick={saveToHostPage}
                         className="flex items-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                       >
                         <Save className="w-4 h-4" />
@@ -641,9 +565,9 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
                           if (!response) return;
                           setIsGoogleChatLoading(true);
                           try {
-                            await apiService.sendToGoogleChat(response);
-                          } catch (err: any) {
-                            // Optionally handle error
+                            await apiService.sendToGoogleChat(response, { signal: getSignal() });
+                          } catch (err) {
+                            setError(toToolError(err, 'Failed to share to Google Chat'));
                           } finally {
                             setIsGoogleChatLoading(false);
                           }
@@ -680,31 +604,27 @@ const AIPoweredSearch: React.FC<AIPoweredSearchProps> = ({
           </div>
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} onReview={() => previewSave()} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+          onSave={saveToHostPage}
+        />
       )}
     </div>
   );
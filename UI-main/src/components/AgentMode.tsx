@@ -1,23 +1,61 @@
-import React, { useState, useEffect } from 'react';
-import { Zap, X, Send, Download, RotateCcw, FileText, Brain, CheckCircle, Loader2, Plus, ChevronDown, TrendingUp, TestTube } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Zap, X, Send, Download, RotateCcw, FileText, Brain, CheckCircle, Loader2, Plus, ChevronDown, TrendingUp, TestTube, Ban, Square, MessageSquare, BookOpen, Trash2, CornerDownRight, XCircle, SkipForward } from 'lucide-react';
 import type { AppMode } from '../App';
-import { apiService, getPagesWithType, PageWithType } from '../services/api';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import { apiService, analyzeGoal, AnalyzeGoalResponse, PageWithType, PlannedStep, ImpactResponse, TestResponse } from '../services/api';
+import type { HistoryRecord } from '../services/historyStore';
+import { Playbook, getPlaybooks, savePlaybook, deletePlaybook, applyPlaybook, subscribeToPlaybooks } from '../services/playbooks';
+import { ToolError, toToolError, isCancelledError, describeError } from '../services/apiErrors';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { anySignal } from '../utils/abort';
+import { toolLabels, TWO_PAGE_TOOLS, isRunnableStep, compactStep, filterSteps } from '../utils/agentPlan';
+import { runStepGraph, withDependents } from '../utils/stepGraph';
 import { formatAIPoweredSearchOutput, formatCodeAssistantOutput, formatImageInsightsOutput, formatVideoSummarizerOutput } from '../utils/toolOutputFormatters';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { copyText } from '../utils/clipboard';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import HistoryPanel from './HistoryPanel';
+import PlanReview from './PlanReview';
+import CopyLinkButton from './CopyLinkButton';
+import MarkdownView from './MarkdownView';
+import CodeBlock from './CodeBlock';
+import PinButton from './PinButton';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { useStreamingSearch } from '../hooks/useStreamingSearch';
+import { useHistory } from '../hooks/useHistory';
+import { usePageTypes } from '../hooks/usePageTypes';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
+import { usePinToReport } from '../hooks/usePinToReport';
 
 interface AgentModeProps {
   onClose: () => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 interface PlanStep {
   id: number;
   title: string;
-  status: 'pending' | 'running' | 'completed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
   details?: string;
+  // Why the planner picked this tool and page
+  rationale?: string;
+  // Title of the earlier step whose output this step takes as input
+  inputFrom?: string;
+  // Why the step failed or was skipped
+  statusNote?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+// Steps run at once when the user hasn't chosen, to stay inside Gemini and Confluence rate limits
+const DEFAULT_CONCURRENCY = 3;
+const CONCURRENCY_KEY = 'agentConcurrency';
+
+function formatElapsed(ms: number): string {
+  return `${(Math.max(0, ms) / 1000).toFixed(1)}s`;
 }
 
 interface OutputTab {
@@ -68,23 +106,506 @@ function splitRelatedActions(instruction: string): string[] {
     .filter(instr => instr.length > 0);
 }
 
+// Offline fallback for the planner: splits the goal on separators and routes
+// each piece by keywords and page content type. Misroutes easily, so it only
+// runs when /analyze-goal is unreachable or returns nothing usable.
+function routeWithKeywords(goal: string, selectedPages: string[], pageTypes: Record<string, PageWithType>): PlannedStep[] {
+  const instructions = splitInstructions(goal);
+  
+  // Analyze instructions to determine required tools
+  const requiredTools = new Set<string>();
+  const instructionTools: { instruction: string, tools: string[] }[] = [];
+  
+  for (const instruction of instructions) {
+    const lowerInstruction = instruction.toLowerCase();
+    const tools: string[] = [];
+    
+    // Detect video-related instructions
+    if (/video|summarize.*video|transcribe|video.*summarize/.test(lowerInstruction)) {
+      tools.push('video_summarizer');
+    }
+    
+    // Detect image-related instructions (more specific)
+    if (/image|chart|diagram|visual|image.*summarize|summarize.*image|analyze.*image|image.*analyze/.test(lowerInstruction)) {
+      tools.push('image_insights');
+    }
+    
+    // Detect code-related instructions (more specific)
+    if (/convert.*language|language.*convert|debug|refactor|fix|bug|error|optimize|performance|documentation|docs|comment|dead code|unused|logging|log|code.*convert|convert.*code/.test(lowerInstruction)) {
+      tools.push('code_assistant');
+    }
+    
+    // Detect text-related instructions (more specific)
+    if (/text|summarize.*text|text.*summarize|summarize.*page|page.*summarize|summarize/.test(lowerInstruction)) {
+      tools.push('ai_powered_search');
+    }
+    
+    // Detect special tools
+    if (/impact|change|difference|diff/.test(lowerInstruction)) {
+      tools.push('impact_analyzer');
+    }
+    if (/test|qa|test case|unit test/.test(lowerInstruction)) {
+      tools.push('test_support');
+    }
+    
+    // If no specific tool detected, default to AI Powered Search
+    if (tools.length === 0) {
+      tools.push('ai_powered_search');
+    }
+    
+    tools.forEach(tool => requiredTools.add(tool));
+    instructionTools.push({ instruction, tools });
+  }
+  
+  // Get content types for each page
+  const pageContentTypes = new Map<string, string>();
+  for (const page of selectedPages) {
+    const type = pageTypes[page]?.content_type || 'text';
+    pageContentTypes.set(page, type);
+  }
+  
+  // Improved instruction-to-page matching algorithm
+  const pageInstructions: { page: string, instruction: string, tool: string, rationale: string }[] = [];
+  const usedInstructions = new Set<string>();
+  
+  // First pass: Try to match instructions that explicitly mention page names
+  for (const page of selectedPages) {
+    const pageType = pageContentTypes.get(page) || 'text';
+    let matchedInstruction: string | null = null;
+    let matchedTool: string | null = null;
+    let rationale = '';
+    
+    // Look for instructions that explicitly mention this page name
+    for (const { instruction, tools } of instructionTools) {
+      const lowerInstruction = instruction.toLowerCase();
+      const lowerPageName = page.toLowerCase();
+      
+      // Check if instruction mentions this specific page
+      if (lowerInstruction.includes(lowerPageName) || 
+          lowerInstruction.includes(lowerPageName.replace(/\s+/g, '_')) ||
+          lowerInstruction.includes(lowerPageName.replace(/\s+/g, '-'))) {
+        
+        // Find the best tool for this instruction and page type
+        let bestTool = 'ai_powered_search';
+        
+        if (pageType === 'video' && tools.includes('video_summarizer')) {
+          bestTool = 'video_summarizer';
+        } else if (pageType === 'image' && tools.includes('image_insights')) {
+          bestTool = 'image_insights';
+        } else if (pageType === 'code' && tools.includes('code_assistant')) {
+          bestTool = 'code_assistant';
+        } else if (pageType === 'text' && tools.includes('ai_powered_search')) {
+          bestTool = 'ai_powered_search';
+        } else if (tools.length > 0) {
+          bestTool = tools[0];
+        }
+        
+        matchedInstruction = instruction;
+        matchedTool = bestTool;
+        rationale = 'The instruction names this page.';
+        usedInstructions.add(instruction);
+        break;
+      }
+    }
+    
+    // If no explicit page name match, try content type matching
+    if (!matchedInstruction) {
+      for (const { instruction, tools } of instructionTools) {
+        if (usedInstructions.has(instruction)) continue;
+        
+        const lowerInstruction = instruction.toLowerCase();
+        let bestTool = 'ai_powered_search';
+        
+        // Match based on content type and instruction keywords
+        if (pageType === 'video' && tools.includes('video_summarizer')) {
+          bestTool = 'video_summarizer';
+        } else if (pageType === 'image' && tools.includes('image_insights')) {
+          bestTool = 'image_insights';
+        } else if (pageType === 'code' && tools.includes('code_assistant')) {
+          bestTool = 'code_assistant';
+        } else if (pageType === 'text' && tools.includes('ai_powered_search')) {
+          bestTool = 'ai_powered_search';
+        } else if (tools.length > 0) {
+          bestTool = tools[0];
+        }
+        
+        // Additional keyword matching for better accuracy
+        if (pageType === 'image' && /image|chart|diagram|visual/.test(lowerInstruction)) {
+          bestTool = 'image_insights';
+        } else if (pageType === 'code' && /convert|debug|refactor|fix|bug|error|optimize|performance|documentation|docs|comment|dead code|unused|logging|log|code/.test(lowerInstruction)) {
+          bestTool = 'code_assistant';
+        } else if (pageType === 'video' && /video|summarize.*video|transcribe/.test(lowerInstruction)) {
+          bestTool = 'video_summarizer';
+        }
+        
+        matchedInstruction = instruction;
+        matchedTool = bestTool;
+        rationale = `Matched by keywords to this ${pageType} page.`;
+        usedInstructions.add(instruction);
+        break;
+      }
+    }
+    
+    // If still no match, use the first available instruction
+    if (!matchedInstruction) {
+      for (const { instruction, tools } of instructionTools) {
+        if (usedInstructions.has(instruction)) continue;
+        
+        let bestTool = 'ai_powered_search';
+        if (tools.length > 0) {
+          bestTool = tools[0];
+        }
+        
+        matchedInstruction = instruction;
+        matchedTool = bestTool;
+        rationale = 'Next instruction not yet assigned to a page.';
+        usedInstructions.add(instruction);
+        break;
+      }
+    }
+    
+    // If no instruction available, use a default one
+    if (!matchedInstruction) {
+      matchedInstruction = instructions[0] || 'Analyze this content';
+      matchedTool = 'ai_powered_search';
+      rationale = 'No instruction matched this page.';
+    }
+    
+    pageInstructions.push({ 
+      page, 
+      instruction: matchedInstruction, 
+      tool: matchedTool || 'ai_powered_search',
+      rationale,
+    });
+  }
+  
+  // Special cases for Impact Analyzer and Test Strategy, which compare two pages
+  const hasImpactInstruction = selectedPages.length === 2 && instructions.some(instruction => /impact|compare|difference|diff/i.test(instruction));
+  const hasTestInstruction = selectedPages.length === 2 && instructions.some(instruction => /test|qa|test case|unit test/i.test(instruction));
+
+  const steps: PlannedStep[] = [
+    ...pageInstructions.map(({ page, instruction, tool, rationale }) => ({ tool, pages: [page], instruction, rationale })),
+    ...(hasImpactInstruction ? [{ tool: 'impact_analyzer', pages: selectedPages.slice(0, 2), instruction: goal, rationale: 'Two pages are selected and the goal asks for a comparison.' }] : []),
+    ...(hasTestInstruction ? [{ tool: 'test_support', pages: selectedPages.slice(0, 2), instruction: goal, rationale: 'Two pages are selected and the goal mentions testing.' }] : []),
+  ];
+
+  // Chained steps: test the code a Code Assistant step produced, and push a video's action items to Jira
+  const codeStep = steps.map(step => step.tool).lastIndexOf('code_assistant');
+  if (codeStep >= 0 && !hasTestInstruction && instructions.some(instruction => /test|qa|test case|unit test/i.test(instruction))) {
+    steps.push({ tool: 'test_support', pages: [], instruction: goal, rationale: 'The goal asks for tests of the code the Code Assistant step produces.', input_from: codeStep + 1 });
+  }
+  const videoStep = steps.map(step => step.tool).lastIndexOf('video_summarizer');
+  if (videoStep >= 0 && instructions.some(instruction => /jira|action item/i.test(instruction))) {
+    steps.push({ tool: 'push_to_jira', pages: [], instruction: goal, rationale: 'The goal asks to push the video\'s action items to Jira.', input_from: videoStep + 1 });
+  }
+  return steps;
+}
+// Turns the /analyze-goal response into runnable steps over the selected pages.
+// Backends without structured plans only return `tools` and `pages`, so each tool runs on each page.
+function planFromAnalysis(analysis: AnalyzeGoalResponse, goal: string, selectedPages: string[]): PlannedStep[] {
+  const steps = analysis.steps?.length ? analysis.steps : analysis.tools.flatMap(tool => (
+    TWO_PAGE_TOOLS.includes(tool)
+      ? [{ tool, pages: analysis.pages.slice(0, 2), instruction: goal, rationale: analysis.reasoning }]
+      : analysis.pages.map(page => ({ tool, pages: [page], instruction: goal, rationale: analysis.reasoning }))
+  ));
+  const onSelectedPages = steps.map(step => ({ ...step, pages: step.pages.filter(page => selectedPages.includes(page)) }));
+  return filterSteps(onSelectedPages, isRunnableStep);
+}
+
+function stepTitle({ tool, pages }: PlannedStep): string {
+  const label = toolLabels[tool] || tool;
+  return pages.length ? `${label}: ${pages.join(tool === 'impact_analyzer' ? ' vs ' : ' & ')}` : label;
+}
+
+// The final answer is a /search over the selected pages, primed with what the tools found
+function buildFinalAnswerQuery(goal: string, pageResults: Record<string, Array<{ tool: string, outputs: string[] }>>): string {
+  const findings = Object.entries(pageResults)
+    .flatMap(([page, results]) => results.map(r => `### ${page} (${toolLabels[r.tool] || r.tool})\n${r.outputs.join('\n\n')}`))
+    .join('\n\n');
+  if (!findings) return goal;
+  return `${goal}\n\nAnswer the goal above directly, using these findings from the tools that already ran on the pages:\n\n${findings.slice(0, 12000)}`;
+}
+
+// A proposed plan waiting for approval in plan review
+interface DraftPlan {
+  steps: PlannedStep[];
+  // Who proposed it: the Gemini planner, keyword routing or a playbook
+  planner: string;
+  reasoning: string;
+}
+
 // Extend OutputTab type for results
 interface OutputTabWithResults extends OutputTab {
   results?: Array<any>;
 }
 
-interface HistoryEntry {
-  id: string;
+// Impact and test results are kept as the raw responses and rendered on
+// display, so a run's tabs can be stored in history and rendered again later
+interface ImpactAnalysisData {
+  oldPage: string;
+  newPage: string;
+  result: ImpactResponse;
+}
+
+interface TestStrategyData {
+  codePage: string;
+  testInputPage?: string;
+  result: TestResponse;
+}
+
+// Components can't be stored, so history keeps tabs without their icon
+type StoredOutputTab = Omit<OutputTabWithResults, 'icon'>;
+
+const tabIcons: Record<string, OutputTab['icon']> = {
+  'final-answer': MessageSquare,
+  'per-page-results': FileText,
+  reasoning: Brain,
+  'selected-pages': FileText,
+};
+
+interface AgentHistoryPayload {
+  outputTabs: StoredOutputTab[];
+}
+
+function toStoredTab(tab: OutputTabWithResults): StoredOutputTab {
+  return { id: tab.id, label: tab.label, content: tab.content, results: tab.results };
+}
+
+function fromStoredTab(tab: StoredOutputTab): OutputTabWithResults {
+  return { ...tab, icon: tabIcons[tab.id] || FileText };
+}
+
+// Everything a run produced, for full-text search over history
+function historySearchText(tabs: OutputTabWithResults[]): string {
+  return tabs.flatMap(tab => [
+    tab.content,
+    ...(tab.results || []).flatMap(r => {
+      if ('impactAnalyzerResult' in r) return [r.impactAnalyzerResult.result.impact_analysis || ''];
+      if ('testStrategyResult' in r) return [r.testStrategyResult.result.test_strategy || ''];
+      return (r.results || []).map((pr: { formattedOutput: string }) => pr.formattedOutput);
+    }),
+  ]).join('\n');
+}
+
+// A tab as markdown, for pinning to the report. Page results are written out
+// as the cards show them; other tabs are markdown already.
+function tabMarkdown(tab: OutputTabWithResults): string {
+  if (tab.id !== 'per-page-results' || !tab.results) return tab.content;
+  return tab.results.map(r => {
+    if ('impactAnalyzerResult' in r) {
+      const { oldPage, newPage, result } = r.impactAnalyzerResult as ImpactAnalysisData;
+      return [
+        `## Impact Analysis: ${oldPage} → ${newPage}`,
+        `**Risk:** ${result.risk_level} (${result.risk_score}/10)`,
+        result.impact_analysis,
+        result.recommendations && `### Recommendations\n\n${result.recommendations}`,
+        result.risk_analysis && `### Risk Analysis\n\n${result.risk_analysis}`,
+      ].filter(Boolean).join('\n\n');
+    }
+    if ('testStrategyResult' in r) {
+      const { codePage, result } = r.testStrategyResult as TestStrategyData;
+      return [
+        `## Test Strategy: ${codePage}`,
+        result.test_strategy,
+        result.cross_platform_testing && `### Cross-Platform Testing\n\n${result.cross_platform_testing}`,
+        result.sensitivity_analysis && `### Sensitivity Analysis\n\n${result.sensitivity_analysis}`,
+      ].filter(Boolean).join('\n\n');
+    }
+    return [
+      `## ${r.page}`,
+      ...(r.results || []).map((pr: PageResult) => `### ${pr.instruction}\n\n${pr.formattedOutput}`),
+    ].join('\n\n');
+  }).join('\n\n');
+}
+
+interface PageResult {
+  instruction: string;
+  tool: string;
+  outputs: string[];
+  formattedOutput: string;
+}
+
+// What one plan step produced. Steps finish in any order when they run
+// concurrently, so results are kept by plan index and read in plan order.
+interface StepResult {
+  toolName: string;
+  whyUsed: string;
+  howDerived: string;
+  // Text handed to steps that take this step's output as input
+  output?: string;
+  impact?: ImpactAnalysisData;
+  test?: TestStrategyData;
+  page?: string;
+  pageResult?: PageResult;
+}
+
+// An executed plan, kept after the run so a failed step can be retried and the tabs rebuilt
+interface PlanRun {
   goal: string;
-  timestamp: Date;
-  outputTabs: OutputTabWithResults[];
-  selectedSpace: string;
-  selectedPages: string[];
+  spaceKey: string;
+  plan: PlannedStep[];
+  planner: string;
+  reasoning: string;
+  // Every page the plan touches, which the final answer reads
+  planPages: string[];
+  // Page ids of the space when the run started, so a retry after switching spaces still sends the right ones
+  pageIds: Record<string, string>;
+  results: Array<StepResult | undefined>;
 }
 
+function collectPageResults(results: Array<StepResult | undefined>): Record<string, PageResult[]> {
+  const pageResults: Record<string, PageResult[]> = {};
+  results.forEach(result => {
+    if (!result?.page || !result.pageResult) return;
+    if (!pageResults[result.page]) pageResults[result.page] = [];
+    pageResults[result.page].push(result.pageResult);
+  });
+  return pageResults;
+}
 
+function buildRunTabs(run: PlanRun, finalAnswer: string): OutputTabWithResults[] {
+  const { goal, plan, planner, reasoning: planReasoning, planPages } = run;
+  const results = run.results.filter((result): result is StepResult => !!result);
+  const pageResults = collectPageResults(run.results);
+  // The result cards show one impact analysis and one test strategy: the last in plan order
+  const impactAnalyzerResult = [...results].reverse().find(result => result.impact)?.impact;
+  const testStrategyResult = [...results].reverse().find(result => result.test)?.test;
+  const pageTabs = Object.keys(pageResults).length > 0 || impactAnalyzerResult || testStrategyResult ? [
+    {
+      id: 'per-page-results',
+      label: 'Page Results',
+      icon: FileText,
+      content: '',
+      results: [
+        ...(impactAnalyzerResult ? [{ impactAnalyzerResult }] : []),
+        ...(testStrategyResult ? [{ testStrategyResult }] : []),
+        ...Object.entries(pageResults).map(([page, results]) => ({ page, results })),
+      ],
+    }
+  ] : [];
+  return [
+    {
+      id: 'final-answer',
+      label: 'Final Answer',
+      icon: MessageSquare,
+      content: finalAnswer,
+    },
+    ...pageTabs,
+    {
+      id: 'reasoning',
+      label: 'Reasoning',
+      icon: Brain,
+      content: `# Analysis Summary
 
-const AgentMode: React.FC<AgentModeProps> = ({ onClose, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
+## Goal
+${goal}
+
+## Selected Pages
+${planPages.join(', ')}
+
+## Tools Used
+${[...new Set(results.map(result => result.toolName))].join(', ')}
+
+## Plan
+
+Planned by ${planner}.${planReasoning ? ` ${planReasoning}` : ''}
+
+${plan.map((step, index) => `${index + 1}. ${toolLabels[step.tool] || step.tool}${step.pages.length ? ` on "${step.pages.join('", "')}"` : ''}${step.input_from ? ` with the output of step ${step.input_from}` : ''}: ${step.instruction}${step.rationale ? ` (${step.rationale})` : ''}`).join('\n')}
+
+## Why These Tools Were Chosen
+
+${results.map(result => result.whyUsed).map((reason, index) => `${index + 1}. ${reason}`).join('\n')}
+
+## How Results Were Derived
+
+${results.map(result => result.howDerived).map((method, index) => `${index + 1}. ${method}`).join('\n')}
+
+## Processing Summary
+
+- **Plan Steps:** ${plan.length}
+- **Pages Analyzed:** ${planPages.length}
+- **Analysis Completed:** ${new Date().toLocaleString()}
+
+---
+
+The AI assistant planned your request and selected the most appropriate tools based on the content type of each page and the nature of your instructions. Each tool was chosen to provide the most relevant and accurate results for your specific needs.`,
+    },
+    {
+      id: 'selected-pages',
+      label: 'Selected Pages',
+      icon: FileText,
+      content: planPages.join(', '),
+    },
+  ];
+}
+
+const ImpactAnalysisCard: React.FC<ImpactAnalysisData> = ({ oldPage, newPage, result: res }) => (
+  <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg max-w-4xl mx-auto">
+    <h3 className="font-semibold text-gray-800 mb-4 flex items-center">
+      <TrendingUp className="w-5 h-5 mr-2 text-orange-500" />
+      Impact Analysis: {oldPage} vs {newPage}
+    </h3>
+    <div className="mb-6">
+      <h4 className="font-semibold text-gray-800 mb-3">Change Metrics</h4>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="bg-green-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
+          <div className="font-semibold text-green-800 text-lg">+{res.lines_added || 0}</div>
+          <div className="text-green-600 text-xs">Lines Added</div>
+        </div>
+        <div className="bg-red-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
+          <div className="font-semibold text-red-800 text-lg">-{res.lines_removed || 0}</div>
+          <div className="text-red-600 text-xs">Lines Removed</div>
+        </div>
+        <div className="bg-blue-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
+          <div className="font-semibold text-blue-800 text-lg">{res.files_changed || 1}</div>
+          <div className="text-blue-600 text-xs">Files Changed</div>
+        </div>
+        <div className="bg-purple-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
+          <div className="font-semibold text-purple-800 text-lg">{res.percentage_change || 0}%</div>
+          <div className="text-purple-600 text-xs">Percentage Changed</div>
+        </div>
+      </div>
+    </div>
+    <div className="mb-6">
+      <h4 className="font-semibold text-gray-800 mb-3">Risk Assessment</h4>
+      <div className={`p-4 rounded-lg flex items-center space-x-3 border ${res.risk_level === 'low' ? 'text-green-700 bg-green-100/80 border-green-200/50' : res.risk_level === 'medium' ? 'text-yellow-700 bg-yellow-100/80 border-yellow-200/50' : 'text-red-700 bg-red-100/80 border-red-200/50'}`}>
+        <span className="text-2xl">{res.risk_level === 'low' ? '🟢' : res.risk_level === 'medium' ? '🟡' : '⚠️'}</span>
+        <div>
+          <div className="font-semibold capitalize text-lg">{res.risk_level || 'low'} Risk</div>
+          <div className="text-sm">Risk Score: {res.risk_score || 0}/10</div>
+        </div>
+      </div>
+    </div>
+    <div className="mb-6">
+      <h3 className="font-semibold text-gray-800 mb-4">Code Diff</h3>
+      <div className="overflow-auto max-h-80">
+        {res.diff && <CodeBlock code={res.diff} language="diff" />}
+      </div>
+    </div>
+    <div className="mb-6">
+      <h3 className="font-semibold text-gray-800 mb-4">AI Impact Summary</h3>
+      <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+        {res.impact_analysis && <MarkdownView>{res.impact_analysis}</MarkdownView>}
+      </div>
+    </div>
+  </div>
+);
+
+const TestStrategyCard: React.FC<TestStrategyData> = ({ codePage, testInputPage, result: res }) => (
+  <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg max-w-4xl mx-auto">
+    <h3 className="font-semibold text-gray-800 mb-4 flex items-center">
+      <TestTube className="w-5 h-5 mr-2 text-orange-500" />
+      Test Strategy: {codePage}{testInputPage && ` & ${testInputPage}`}
+    </h3>
+    <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+      {res.test_strategy && <MarkdownView>{res.test_strategy}</MarkdownView>}
+    </div>
+  </div>
+);
+
+
+
+const AgentMode: React.FC<AgentModeProps> = ({ onClose, onModeSelect }) => {
   const [goal, setGoal] = useState('');
   const [isPlanning, setIsPlanning] = useState(false);
   const [isExecuting] = useState(false);
@@ -95,639 +616,541 @@ const AgentMode: React.FC<AgentModeProps> = ({ onClose, onModeSelect, autoSpaceK
   const [showFollowUp, setShowFollowUp] = useState(false);
   const [outputTabs, setOutputTabs] = useState<OutputTabWithResults[]>([]);
 
-  // Add new state for space/page selection and API results
-  const [spaces, setSpaces] = useState<{ name: string; key: string }[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [selectedPages, setSelectedPages] = useState<string[]>([]);
-  const [error, setError] = useState('');
-  const [selectAllPages, setSelectAllPages] = useState(false);
-  const [pageTypes, setPageTypes] = useState<PageWithType[]>([]);
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    pages,
+    hasMorePages,
+    searchPages,
+    selectedPages,
+    setSelectedPages,
+    pageIds,
+    loadError,
+  } = useWorkspace();
+  // Pages are listed a batch at a time, so also count those found by search or selected
+  const knownPages = useMemo(
+    () => [...new Set([...pages, ...Object.keys(pageIds), ...selectedPages])],
+    [pages, pageIds, selectedPages]
+  );
+  const { updateRoute } = useRoute();
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  // One controller per running plan step, so a single step can be cancelled
+  const stepControllersRef = useRef(new Map<number, AbortController>());
+  const { runStream, stop: stopStreaming, isStreaming } = useStreamingSearch();
+  const { pin, pinned } = usePinToReport('Agent Mode');
 
   // Add progressPercent state for live progress bar
   const [progressPercent, setProgressPercent] = useState(0);
   const [activeResult, setActiveResult] = useState<{ type: string, key: string, page?: string, instructionIndex?: number } | null>(null);
 
   // History state variables
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const history = useHistory<AgentHistoryPayload>('agent');
   const [showHistory, setShowHistory] = useState(false);
-  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [currentHistoryEntry, setCurrentHistoryEntry] = useState<HistoryRecord<AgentHistoryPayload> | null>(null);
+  const currentHistoryId = currentHistoryEntry?.id ?? null;
 
-  // Auto-detect and auto-select space and page if only one exists, or from URL if provided
-  useEffect(() => {
-    const loadSpacesAndPages = async () => {
-      try {
-        const result = await apiService.getSpaces();
-        setSpaces(result.spaces);
-        // Auto-select space from URL if provided
-        if (autoSpaceKey && isSpaceAutoConnected) {
-          setSelectedSpace(autoSpaceKey);
-          const pagesResult = await apiService.getPages(autoSpaceKey);
-          setPages(pagesResult.pages);
-          // Auto-select page from URL if present
-          const { page } = getConfluenceSpaceAndPageFromUrl();
-          if (page && pagesResult.pages.includes(page)) {
-            setSelectedPages([page]);
-          }
-        } else if (result.spaces.length === 1) {
-          const onlySpace = result.spaces[0];
-          setSelectedSpace(onlySpace.key);
-          const pagesResult = await apiService.getPages(onlySpace.key);
-          setPages(pagesResult.pages);
-          if (pagesResult.pages.length === 1) {
-            setSelectedPages([pagesResult.pages[0]]);
-          }
-        }
-      } catch {
-        setError('Failed to auto-detect Confluence space and page.');
-      }
-    };
-    loadSpacesAndPages();
-  }, [autoSpaceKey, isSpaceAutoConnected]);
+  const [draftPlan, setDraftPlan] = useState<DraftPlan | null>(null);
+  // The planner needs the selected pages' types, and plan review shows those of the planned pages
+  const typedPages = useMemo(
+    () => [...selectedPages, ...(draftPlan?.steps.flatMap(step => step.pages) || [])],
+    [selectedPages, draftPlan]
+  );
+  const pageTypes = usePageTypes(selectedSpace, typedPages);
+  // The last executed plan, for retrying its failed steps
+  const planRunRef = useRef<PlanRun | null>(null);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(CONCURRENCY_KEY)) || DEFAULT_CONCURRENCY);
+  // Ticks while a step runs, so its elapsed time counts up
+  const [now, setNow] = useState(() => Date.now());
+  const hasRunningStep = planSteps.some(step => step.status === 'running');
+  const [playbooks, setPlaybooks] = useState<Playbook[]>(getPlaybooks);
+
+  useEffect(() => subscribeToPlaybooks(() => setPlaybooks(getPlaybooks())), []);
 
-  // Load pages when space is selected, and auto-select page if only one exists or from URL
   useEffect(() => {
-    if (selectedSpace) {
-      const loadPages = async () => {
-        try {
-          const result = await apiService.getPages(selectedSpace);
-          setPages(result.pages);
-          // Auto-select page from URL if present
-          const { page } = getConfluenceSpaceAndPageFromUrl();
-          if (page && result.pages.includes(page)) {
-            setSelectedPages([page]);
-          } else if (result.pages.length === 1) {
-            setSelectedPages([result.pages[0]]);
-          }
-        } catch {
-          setError('Failed to load pages.');
-        }
-      };
-      loadPages();
-    }
-  }, [selectedSpace]);
+    if (!hasRunningStep) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [hasRunningStep]);
 
-  // Fetch page types when space or pages change
+  // Planning fills the first half of the progress bar, the plan's steps the second
   useEffect(() => {
-    const fetchPageTypes = async () => {
-      if (selectedSpace) {
-        try {
-          const result = await getPagesWithType(selectedSpace);
-          setPageTypes(result.pages);
-        } catch {
-          // fallback: just set empty
-          setPageTypes([]);
-        }
-      }
-    };
-    fetchPageTypes();
-  }, [selectedSpace, pages.length]);
+    const executionSteps = planSteps.filter(step => step.id > 1);
+    if (executionSteps.length === 0) return;
+    const finished = executionSteps.filter(step => step.status !== 'pending' && step.status !== 'running').length;
+    setProgressPercent(50 + Math.round((finished / executionSteps.length) * 50));
+  }, [planSteps]);
 
-  // Sync "Select All" checkbox state
+  // The workspace picks the URL's space and page, or the only space and page when there's one
   useEffect(() => {
-    setSelectAllPages(pages.length > 0 && selectedPages.length === pages.length);
-  }, [selectedPages, pages]);
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
-  const toggleSelectAllPages = () => {
-    if (selectAllPages) {
-      setSelectedPages([]);
-    } else {
-      setSelectedPages([...pages]);
+  const updateStepStatus = (stepId: number, status: PlanStep['status'], statusNote?: string) => {
+    const at = Date.now();
+    setPlanSteps((steps) => steps.map((s) => s.id === stepId ? {
+      ...s,
+      status,
+      statusNote,
+      startedAt: status === 'running' ? at : s.startedAt,
+      finishedAt: status === 'running' ? undefined : at,
+    } : s));
+  };
+
+  const changeConcurrency = (value: number) => {
+    setConcurrency(value);
+    localStorage.setItem(CONCURRENCY_KEY, String(value));
+  };
+
+  // Runs one plan step under its own AbortController, linked to the whole run.
+  // Cancelling just the step resolves to undefined so the plan moves on;
+  // cancelling the run rethrows and stops everything. A failure marks the step
+  // failed, with the reason, and rethrows for the caller to decide.
+  const runStep = async <T,>(stepId: number, runSignal: AbortSignal, task: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> => {
+    const controller = new AbortController();
+    const linked = anySignal([runSignal, controller.signal]);
+    stepControllersRef.current.set(stepId, controller);
+    updateStepStatus(stepId, 'running');
+    try {
+      const result = await task(linked.signal);
+      updateStepStatus(stepId, 'completed');
+      return result;
+    } catch (err) {
+      if (isCancelledError(err) && !runSignal.aborted) {
+        updateStepStatus(stepId, 'cancelled');
+        return undefined;
+      }
+      if (!isCancelledError(err)) {
+        const { title, message } = describeError(toToolError(err, 'Step failed'));
+        updateStepStatus(stepId, 'failed', message || title);
+      }
+      throw err;
+    } finally {
+      linked.dispose();
+      stepControllersRef.current.delete(stepId);
     }
-    setSelectAllPages(!selectAllPages);
   };
 
-  const handleGoalSubmit = async () => {
-    if (!goal.trim() || !selectedSpace || !selectedPages.length) {
+  const cancelStep = (stepId: number) => {
+    stepControllersRef.current.get(stepId)?.abort();
+  };
+
+  const planGoal = async (goalText: string) => {
+    if (!goalText.trim() || !selectedSpace || !selectedPages.length) {
       setError('Please enter a goal, select a space, and at least one page.');
       return;
     }
     setIsPlanning(true);
     setError('');
+    updateRoute({ query: goalText, entry: undefined });
     setPlanSteps([
       { id: 1, title: 'Analyzing Goal', status: 'pending' },
-      { id: 2, title: 'Executing', status: 'pending' },
     ]);
+    const runSignal = getSignal();
     setOutputTabs([]);
     setCurrentStep(0);
-    setActiveTab('final-answer');
     setProgressPercent(0);
-    setCurrentHistoryId(null);
+    setCurrentHistoryEntry(null);
     setShowHistory(false);
-    let impactAnalyzerResult: React.ReactNode | null = null;
-    let testStrategyResult: React.ReactNode | null = null;
-    const toolsTriggered: string[] = [];
-    const whyUsed: string[] = [];
-    const howDerived: string[] = [];
+    setDraftPlan(null);
     try {
-      setPlanSteps((steps) => steps.map((s) => s.id === 1 ? { ...s, status: 'running' } : s));
-      setCurrentStep(0);
-      // Split instructions
-      const instructions = splitInstructions(goal);
-      // Map each instruction to the correct page/tool based on content type and intent
-      const pageResults: Record<string, Array<{ instruction: string, tool: string, outputs: string[], formattedOutput: string }>> = {};
-      
-      // Analyze instructions to determine required tools
-      const requiredTools = new Set<string>();
-      const instructionTools: { instruction: string, tools: string[] }[] = [];
-      
-      for (const instruction of instructions) {
-        const lowerInstruction = instruction.toLowerCase();
-        const tools: string[] = [];
-        
-        // Detect video-related instructions
-        if (/video|summarize.*video|transcribe|video.*summarize/.test(lowerInstruction)) {
-          tools.push('video_summarizer');
-        }
-        
-        // Detect image-related instructions (more specific)
-        if (/image|chart|diagram|visual|image.*summarize|summarize.*image|analyze.*image|image.*analyze/.test(lowerInstruction)) {
-          tools.push('image_insights');
-        }
-        
-        // Detect code-related instructions (more specific)
-        if (/convert.*language|language.*convert|debug|refactor|fix|bug|error|optimize|performance|documentation|docs|comment|dead code|unused|logging|log|code.*convert|convert.*code/.test(lowerInstruction)) {
-          tools.push('code_assistant');
-        }
-        
-        // Detect text-related instructions (more specific)
-        if (/text|summarize.*text|text.*summarize|summarize.*page|page.*summarize|summarize/.test(lowerInstruction)) {
-          tools.push('ai_powered_search');
-        }
-        
-        // Detect special tools
-        if (/impact|change|difference|diff/.test(lowerInstruction)) {
-          tools.push('impact_analyzer');
-        }
-        if (/test|qa|test case|unit test/.test(lowerInstruction)) {
-          tools.push('test_support');
-        }
-        
-        // If no specific tool detected, default to AI Powered Search
-        if (tools.length === 0) {
-          tools.push('ai_powered_search');
+      // Ask the backend planner first; keyword routing is only the offline fallback
+      let plan: PlannedStep[] = [];
+      let planner = 'Gemini planner';
+      let planReasoning = '';
+      try {
+        const knownTypes = Object.fromEntries(selectedPages.filter(page => pageTypes[page]).map(page => [page, pageTypes[page].content_type]));
+        const analysis = await runStep(1, runSignal, (signal) => analyzeGoal(goalText, selectedPages, knownTypes, { signal }));
+        if (analysis) {
+          plan = planFromAnalysis(analysis, goalText, selectedPages);
+          planReasoning = analysis.reasoning;
         }
-        
-        tools.forEach(tool => requiredTools.add(tool));
-        instructionTools.push({ instruction, tools });
+      } catch (err) {
+        if (isCancelledError(err)) throw err;
+        console.warn('Planner unavailable, falling back to keyword routing:', err);
       }
-      
-      // Get content types for each page
-      const pageContentTypes = new Map<string, string>();
-      for (const page of selectedPages) {
-        const type = (pageTypes.find(p => p.title === page)?.content_type) || 'text';
-        pageContentTypes.set(page, type);
+      if (plan.length === 0) {
+        plan = routeWithKeywords(goalText, selectedPages, pageTypes);
+        planner = 'keyword routing (planner unavailable)';
+        planReasoning = '';
       }
-      
-      // Improved instruction-to-page matching algorithm
-      const pageInstructions: { page: string, instruction: string, tool: string }[] = [];
-      const usedInstructions = new Set<string>();
-      
-      // First pass: Try to match instructions that explicitly mention page names
-      for (const page of selectedPages) {
-        const pageType = pageContentTypes.get(page) || 'text';
-        let matchedInstruction: string | null = null;
-        let matchedTool: string | null = null;
-        
-        // Look for instructions that explicitly mention this page name
-        for (const { instruction, tools } of instructionTools) {
-          const lowerInstruction = instruction.toLowerCase();
-          const lowerPageName = page.toLowerCase();
-          
-          // Check if instruction mentions this specific page
-          if (lowerInstruction.includes(lowerPageName) || 
-              lowerInstruction.includes(lowerPageName.replace(/\s+/g, '_')) ||
-              lowerInstruction.includes(lowerPageName.replace(/\s+/g, '-'))) {
-            
-            // Find the best tool for this instruction and page type
-            let bestTool = 'ai_powered_search';
-            
-            if (pageType === 'video' && tools.includes('video_summarizer')) {
-              bestTool = 'video_summarizer';
-            } else if (pageType === 'image' && tools.includes('image_insights')) {
-              bestTool = 'image_insights';
-            } else if (pageType === 'code' && tools.includes('code_assistant')) {
-              bestTool = 'code_assistant';
-            } else if (pageType === 'text' && tools.includes('ai_powered_search')) {
-              bestTool = 'ai_powered_search';
-            } else if (tools.length > 0) {
-              bestTool = tools[0];
-            }
-            
-            matchedInstruction = instruction;
-            matchedTool = bestTool;
-            usedInstructions.add(instruction);
-            break;
-          }
-        }
-        
-        // If no explicit page name match, try content type matching
-        if (!matchedInstruction) {
-          for (const { instruction, tools } of instructionTools) {
-            if (usedInstructions.has(instruction)) continue;
-            
-            const lowerInstruction = instruction.toLowerCase();
-            let bestTool = 'ai_powered_search';
-            
-            // Match based on content type and instruction keywords
-            if (pageType === 'video' && tools.includes('video_summarizer')) {
-              bestTool = 'video_summarizer';
-            } else if (pageType === 'image' && tools.includes('image_insights')) {
-              bestTool = 'image_insights';
-            } else if (pageType === 'code' && tools.includes('code_assistant')) {
-              bestTool = 'code_assistant';
-            } else if (pageType === 'text' && tools.includes('ai_powered_search')) {
-              bestTool = 'ai_powered_search';
-            } else if (tools.length > 0) {
-              bestTool = tools[0];
-            }
-            
-            // Additional keyword matching for better accuracy
-            if (pageType === 'image' && /image|chart|diagram|visual/.test(lowerInstruction)) {
-              bestTool = 'image_insights';
-            } else if (pageType === 'code' && /convert|debug|refactor|fix|bug|error|optimize|performance|documentation|docs|comment|dead code|unused|logging|log|code/.test(lowerInstruction)) {
-              bestTool = 'code_assistant';
-            } else if (pageType === 'video' && /video|summarize.*video|transcribe/.test(lowerInstruction)) {
-              bestTool = 'video_summarizer';
-            }
-            
-            matchedInstruction = instruction;
-            matchedTool = bestTool;
-            usedInstructions.add(instruction);
-            break;
-          }
-        }
-        
-        // If still no match, use the first available instruction
-        if (!matchedInstruction) {
-          for (const { instruction, tools } of instructionTools) {
-            if (usedInstructions.has(instruction)) continue;
-            
-            let bestTool = 'ai_powered_search';
-            if (tools.length > 0) {
-              bestTool = tools[0];
-            }
-            
-            matchedInstruction = instruction;
-            matchedTool = bestTool;
-            usedInstructions.add(instruction);
-            break;
-          }
-        }
-        
-        // If no instruction available, use a default one
-        if (!matchedInstruction) {
-          matchedInstruction = instructions[0] || 'Analyze this content';
-          matchedTool = 'ai_powered_search';
+      // Nothing runs until the plan is approved in review
+      setDraftPlan({ steps: plan, planner, reasoning: planReasoning });
+    } catch (err) {
+      setError(toToolError(err, 'Failed to plan the goal'));
+    }
+    setPlanSteps([]);
+    setIsPlanning(false);
+  };
+
+  const handleGoalSubmit = () => planGoal(goal);
+
+  const rerunLastGoal = () => {
+    if (!history.latest) return;
+    setGoal(history.latest.title);
+    planGoal(history.latest.title);
+  };
+
+
+  const handleSavePlaybook = (name: string) => {
+    if (draftPlan) {
+      savePlaybook(name, goal, draftPlan.steps.map(compactStep), selectedSpace);
+    }
+  };
+
+  // Playbooks go through plan review too, since their pages may not exist in this space
+  const loadPlaybook = async (playbook: Playbook) => {
+    setGoal(playbook.goal);
+    setError('');
+    setCurrentHistoryEntry(null);
+    // A page not listed yet may still be in the space; look it up by title.
+    // If the lookup fails, keep the title rather than retarget the step.
+    const spacePages = new Set(knownPages);
+    if (hasMorePages) {
+      const signal = getSignal();
+      const unlisted = [...new Set(playbook.steps.flatMap(step => step.pages))].filter(title => title && !spacePages.has(title));
+      const found = await Promise.all(unlisted.map(title => searchPages(title, signal).catch(() => [title])));
+      if (signal.aborted) return;
+      found.flat().forEach(title => spacePages.add(title));
+    }
+    setDraftPlan({
+      steps: applyPlaybook(playbook, [...spacePages], selectedPages),
+      planner: `playbook "${playbook.name}"`,
+      reasoning: '',
+    });
+  };
+
+  const handleDeletePlaybook = (playbook: Playbook) => {
+    if (window.confirm(`Delete the playbook "${playbook.name}"?`)) {
+      deletePlaybook(playbook.id);
+    }
+  };
+
+  // Runs one tool for a plan step and returns what it produced. `input` is the
+  // output of the step it reads from, if it has one.
+  const runTool = async (run: PlanRun, index: number, input: string | undefined, signal: AbortSignal): Promise<StepResult> => {
+    const { tool, pages: stepPages, instruction, input_from: inputFrom } = run.plan[index];
+    const { spaceKey, pageIds: ids } = run;
+    const inputLabel = inputFrom ? `output of step ${inputFrom}` : '';
+
+    if (tool === 'impact_analyzer') {
+      const oldPage = stepPages[0];
+      const newPage = input ? inputLabel : stepPages[1];
+      const res = input
+        ? await apiService.directCodeImpactAnalyzer({ space_key: spaceKey, old_page_title: oldPage, old_page_id: ids[oldPage], new_code: input, question: instruction }, { signal })
+        : await apiService.impactAnalyzer({ space_key: spaceKey, old_page_title: oldPage, new_page_title: newPage, old_page_id: ids[oldPage], new_page_id: ids[newPage], question: instruction }, { signal });
+      return {
+        toolName: 'Impact Analyzer',
+        whyUsed: `Impact Analyzer was used to compare the changes between "${oldPage}" and "${newPage}".`,
+        howDerived: `The analysis was performed by comparing code differences, calculating metrics, and assessing potential risks.`,
+        output: res.impact_analysis,
+        impact: { oldPage, newPage, result: res },
+      };
+    }
+
+    if (tool === 'test_support') {
+      const [codePage, testInputPage] = input ? [inputLabel, stepPages[0]] : stepPages;
+      const res = await apiService.testSupport(input
+        ? { space_key: spaceKey, code: input, test_input_page_title: testInputPage, test_input_page_id: ids[testInputPage], question: instruction }
+        : { space_key: spaceKey, code_page_title: codePage, code_page_id: ids[codePage], test_input_page_title: testInputPage, test_input_page_id: ids[testInputPage], question: instruction }, { signal });
+      return {
+        toolName: 'Test Support Tool',
+        whyUsed: `Test Support Tool was used to generate test strategies for "${codePage}"${testInputPage ? ` using "${testInputPage}" as input` : ''}.`,
+        howDerived: `The test strategy was generated by analyzing the code structure and test requirements using AI-powered testing methodologies.`,
+        output: res.test_strategy,
+        test: { codePage, testInputPage, result: res },
+      };
+    }
+
+    if (tool === 'push_to_jira') {
+      const source = run.plan[(inputFrom || 1) - 1];
+      const res = await apiService.pushToJiraConfluenceSlack({ summary: input || '', video_title: source.pages[0] || run.goal }, { signal });
+      const output = `Created ${res.jira_issues_created} Jira issue(s) from ${res.tasks_created} action item(s) in the ${inputLabel}.`;
+      return {
+        toolName: 'Push to Jira',
+        whyUsed: `Push to Jira was used to turn the action items in the ${inputLabel} into Jira issues.`,
+        howDerived: `The action items were extracted from the earlier step's output and created as Jira issues.`,
+        output,
+        page: 'Jira',
+        pageResult: { instruction, tool, outputs: [output], formattedOutput: output },
+      };
+    }
+
+    const page = stepPages[0];
+    const outputs: string[] = [];
+    let formattedOutput = '';
+    // Later steps work on this rather than on the labelled outputs
+    let stepOutput = '';
+    let toolName = '';
+    let whyUsed = '';
+    let howDerived = '';
+
+    if (tool === 'code_assistant') {
+      // Handle AI actions for code pages
+      const relatedActions = splitRelatedActions(instruction);
+      let lastOutput = '';
+      let aiActionOutput = '';
+      let conversionOutput = '';
+      let modificationOutput = '';
+      // Get the original code first to use in prompts (like Tool Mode does)
+      const initialResult = await apiService.codeAssistant({
+        space_key: spaceKey,
+        page_title: page,
+        page_id: ids[page],
+        instruction: ''
+      }, { signal });
+      const detectedCode = initialResult.original_code || '';
+      const actionPromptMap: Record<string, string> = {
+        "Summarize Code": `Summarize the following code in clear and concise language:\n\n${detectedCode}`,
+        "Optimize Performance": `Optimize the following code for performance without changing its functionality, return only the updated code:\n\n${detectedCode}`,
+        "Generate Documentation": `Generate inline documentation and function-level comments for the following code, return only the updated code by commenting the each line of the code.:\n\n${detectedCode}`,
+        "Refactor Structure": `Refactor the following code to improve structure, readability, and modularity, return only the updated code:\n\n${detectedCode}`,
+        "Identify dead code": `Analyze the following code for any unsued code or dead code, return only the updated code by removing the dead code:\n\n${detectedCode}`,
+        "Add Logging Statements": `Add appropriate logging statements to the following code for better traceability and debugging. Return only the updated code:\n\n${detectedCode}`,
+      };
+      for (const action of relatedActions) {
+        let prompt = action;
+        if (/optimize|performance/i.test(action)) {
+          prompt = actionPromptMap["Optimize Performance"];
+        } else if (/documentation|docs|comment/i.test(action)) {
+          prompt = actionPromptMap["Generate Documentation"];
+        } else if (/refactor|structure/i.test(action)) {
+          prompt = actionPromptMap["Refactor Structure"];
+        } else if (/dead code|unused/i.test(action)) {
+          prompt = actionPromptMap["Identify dead code"];
+        } else if (/logging|log/i.test(action)) {
+          prompt = actionPromptMap["Add Logging Statements"];
+        } else if (/summarize|summary/i.test(action)) {
+          prompt = actionPromptMap["Summarize Code"];
         }
-        
-        pageInstructions.push({ 
-          page, 
-          instruction: matchedInstruction, 
-          tool: matchedTool || 'ai_powered_search'
-        });
-      }
-      
-      for (const { page, instruction, tool } of pageInstructions) {
-        let outputs: string[] = [];
-        let formattedOutput = '';
-        
-        if (tool === 'code_assistant') {
-          // Handle AI actions for code pages
-          const relatedActions = splitRelatedActions(instruction);
-          let lastOutput = '';
-          let aiActionOutput = '';
-          let conversionOutput = '';
-          let modificationOutput = '';
-          // Get the original code first to use in prompts (like Tool Mode does)
-          const initialResult = await apiService.codeAssistant({
-            space_key: selectedSpace,
-            page_title: page,
-            instruction: ''
-          });
-          const detectedCode = initialResult.original_code || '';
-          const actionPromptMap: Record<string, string> = {
-            "Summarize Code": `Summarize the following code in clear and concise language:\n\n${detectedCode}`,
-            "Optimize Performance": `Optimize the following code for performance without changing its functionality, return only the updated code:\n\n${detectedCode}`,
-            "Generate Documentation": `Generate inline documentation and function-level comments for the following code, return only the updated code by commenting the each line of the code.:\n\n${detectedCode}`,
-            "Refactor Structure": `Refactor the following code to improve structure, readability, and modularity, return only the updated code:\n\n${detectedCode}`,
-            "Identify dead code": `Analyze the following code for any unsued code or dead code, return only the updated code by removing the dead code:\n\n${detectedCode}`,
-            "Add Logging Statements": `Add appropriate logging statements to the following code for better traceability and debugging. Return only the updated code:\n\n${detectedCode}`,
-          };
-          for (const action of relatedActions) {
-            let prompt = action;
-            if (/optimize|performance/i.test(action)) {
-              prompt = actionPromptMap["Optimize Performance"];
-            } else if (/documentation|docs|comment/i.test(action)) {
-              prompt = actionPromptMap["Generate Documentation"];
-            } else if (/refactor|structure/i.test(action)) {
-              prompt = actionPromptMap["Refactor Structure"];
-            } else if (/dead code|unused/i.test(action)) {
-              prompt = actionPromptMap["Identify dead code"];
-            } else if (/logging|log/i.test(action)) {
-              prompt = actionPromptMap["Add Logging Statements"];
-            } else if (/summarize|summary/i.test(action)) {
-              prompt = actionPromptMap["Summarize Code"];
-            }
-            const result = await apiService.codeAssistant({
-              space_key: selectedSpace,
-              page_title: page,
-              instruction: prompt
-            });
-            const output = result.modified_code || result.converted_code || result.original_code || 'AI action completed successfully.';
-            if (/optimize|refactor|dead code|docs|logging|summarize/i.test(action)) {
-              aiActionOutput = output;
-            } else if (/convert|language|to\s+\w+/i.test(action)) {
-              conversionOutput = output;
-            } else {
-              modificationOutput = output;
-            }
-            lastOutput = output;
-          }
-          if (aiActionOutput) outputs.push(`AI Action Output:\n${aiActionOutput}`);
-          if (conversionOutput) outputs.push(`Target Language Conversion Output:\n${conversionOutput}`);
-          if (modificationOutput) outputs.push(`Modification Output:\n${modificationOutput}`);
-          if (!aiActionOutput && !conversionOutput && !modificationOutput && lastOutput) {
-            outputs.push(`Processed Code:\n${lastOutput}`);
-          }
-          formattedOutput = formatCodeAssistantOutput(outputs);
-          toolsTriggered.push('Code Assistant');
-          whyUsed.push(`Code Assistant was used to ${instruction.toLowerCase()} for the code page "${page}".`);
-          howDerived.push(`The code was processed using AI-powered analysis and transformation techniques.`);
-        } else if (tool === 'image_insights') {
-          // Image summarization using ImageInsights tool (no web search)
-          const images = await apiService.getImages(selectedSpace, page);
-          let output = '';
-          if (images && images.images && images.images.length > 0) {
-            const summaries = await Promise.all(images.images.map((imgUrl: string) => apiService.imageSummary({ space_key: selectedSpace, page_title: page, image_url: imgUrl })));
-            output = summaries.map((s, i) => `Image ${i + 1}: ${s.summary}`).join('\n\n');
-          } else {
-            output = 'No images found on this page.';
-          }
-          outputs.push(output);
-          formattedOutput = formatImageInsightsOutput([{ name: page, summary: output }]);
-          toolsTriggered.push('Image Insights');
-          whyUsed.push(`Image Insights was used to analyze and summarize the images on page "${page}".`);
-          howDerived.push(`The images were processed using computer vision and AI analysis to extract meaningful insights and descriptions.`);
-        } else if (tool === 'ai_powered_search') {
-          // Only use AI Powered Search for text/code content, NOT for video/image
-          const res = await apiService.search({ space_key: selectedSpace, page_titles: [page], query: instruction });
-          outputs.push(res.response);
-          formattedOutput = formatAIPoweredSearchOutput(res.response);
-          toolsTriggered.push('AI Powered Search');
-          whyUsed.push(`AI Powered Search was used to analyze and summarize the content on page "${page}".`);
-          howDerived.push(`The content was processed using natural language processing to extract key information and provide comprehensive summaries.`);
-        } else if (tool === 'video_summarizer') {
-          // Video summarization using exact same logic as Tool Mode
-          const res = await apiService.videoSummarizer({ space_key: selectedSpace, page_title: page });
-          
-          // Create video content object similar to Tool Mode
-          const videoContent = {
-            id: Date.now().toString(),
-            name: page,
-            summary: res.summary,
-            quotes: res.quotes,
-            timestamps: res.timestamps,
-            qa: res.qa
-          };
-          
-          // Format output using the same structure as Tool Mode
-          const summaryText = videoContent.summary || 'No summary available.';
-          const quotesText = videoContent.quotes && videoContent.quotes.length > 0 
-            ? `\n\nKey Quotes:\n${videoContent.quotes.map(quote => `- "${quote}"`).join('\n')}`
-            : '';
-          const timestampsText = videoContent.timestamps && videoContent.timestamps.length > 0
-            ? `\n\nTimestamps:\n${videoContent.timestamps.map(ts => `- ${ts}`).join('\n')}`
-            : '';
-          
-          const fullOutput = `${summaryText}${quotesText}${timestampsText}`;
-          outputs.push(fullOutput);
-          
-          // Use the existing formatter function to maintain consistency
-          formattedOutput = formatVideoSummarizerOutput({
-            name: videoContent.name,
-            summary: videoContent.summary,
-            timestamps: videoContent.timestamps || [],
-            quotes: videoContent.quotes || []
-          });
-          
-          toolsTriggered.push('Video Summarizer');
-          whyUsed.push(`Video Summarizer was used to analyze and summarize the video content on page "${page}".`);
-          howDerived.push(`The video was processed using AI-powered analysis to extract key moments, timestamps, and comprehensive summaries.`);
+        const result = await apiService.codeAssistant({
+          space_key: spaceKey,
+          page_title: page,
+          page_id: ids[page],
+          instruction: prompt
+        }, { signal });
+        const output = result.modified_code || result.converted_code || result.original_code || 'AI action completed successfully.';
+        if (/optimize|refactor|dead code|docs|logging|summarize/i.test(action)) {
+          aiActionOutput = output;
+        } else if (/convert|language|to\s+\w+/i.test(action)) {
+          conversionOutput = output;
         } else {
-          // Fallback: use AI Powered Search for any other type (never web search)
-          const res = await apiService.search({ space_key: selectedSpace, page_titles: [page], query: instruction });
-          outputs.push(res.response);
-          formattedOutput = formatAIPoweredSearchOutput(res.response);
-          toolsTriggered.push('AI Powered Search');
-          whyUsed.push(`AI Powered Search was used as a fallback to analyze the content on page "${page}".`);
-          howDerived.push(`The content was processed using general AI analysis to provide relevant information.`);
+          modificationOutput = output;
         }
-        if (!pageResults[page]) pageResults[page] = [];
-        // Only push the result for this page/instruction pair
-        pageResults[page].push({ instruction, tool, outputs, formattedOutput });
+        lastOutput = output;
       }
-      
-      // Handle special cases for Impact Analyzer and Test Strategy
-      if (selectedPages.length === 2) {
-        const hasImpactInstruction = instructions.some(instruction => /impact|compare|difference|diff/i.test(instruction));
-        const hasTestInstruction = instructions.some(instruction => /test|qa|test case|unit test/i.test(instruction));
-        
-        if (hasImpactInstruction) {
-          const [oldPage, newPage] = selectedPages;
-          const res = await apiService.impactAnalyzer({ space_key: selectedSpace, old_page_title: oldPage, new_page_title: newPage, question: goal });
-          impactAnalyzerResult = (
-            <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg max-w-4xl mx-auto">
-              <h3 className="font-semibold text-gray-800 mb-4 flex items-center">
-                <TrendingUp className="w-5 h-5 mr-2 text-orange-500" />
-                Impact Analysis: {oldPage} vs {newPage}
-              </h3>
-              <div className="mb-6">
-                <h4 className="font-semibold text-gray-800 mb-3">Change Metrics</h4>
-                <div className="grid grid-cols-2 gap-3 text-sm">
-                  <div className="bg-green-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
-                    <div className="font-semibold text-green-800 text-lg">+{res.lines_added || 0}</div>
-                    <div className="text-green-600 text-xs">Lines Added</div>
-                  </div>
-                  <div className="bg-red-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
-                    <div className="font-semibold text-red-800 text-lg">-{res.lines_removed || 0}</div>
-                    <div className="text-red-600 text-xs">Lines Removed</div>
-                  </div>
-                  <div className="bg-blue-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
-                    <div className="font-semibold text-blue-800 text-lg">{res.files_changed || 1}</div>
-                    <div className="text-blue-600 text-xs">Files Changed</div>
-                  </div>
-                  <div className="bg-purple-100/80 backdrop-blur-sm p-3 rounded-lg text-center border border-white/20">
-                    <div className="font-semibold text-purple-800 text-lg">{res.percentage_change || 0}%</div>
-                    <div className="text-purple-600 text-xs">Percentage Changed</div>
-                  </div>
-                </div>
-              </div>
-              <div className="mb-6">
-                <h4 className="font-semibold text-gray-800 mb-3">Risk Assessment</h4>
-                <div className={`p-4 rounded-lg flex items-center space-x-3 border ${res.risk_level === 'low' ? 'text-green-700 bg-green-100/80 border-green-200/50' : res.risk_level === 'medium' ? 'text-yellow-700 bg-yellow-100/80 border-yellow-200/50' : 'text-red-700 bg-red-100/80 border-red-200/50'}`}>
-                  <span className="text-2xl">{res.risk_level === 'low' ? '🟢' : res.risk_level === 'medium' ? '🟡' : '⚠️'}</span>
-                  <div>
-                    <div className="font-semibold capitalize text-lg">{res.risk_level || 'low'} Risk</div>
-                    <div className="text-sm">Risk Score: {res.risk_score || 0}/10</div>
-                  </div>
-                </div>
-              </div>
-              <div className="mb-6">
-                <h3 className="font-semibold text-gray-800 mb-4">Code Diff</h3>
-                <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg p-4 overflow-auto max-h-80 border border-white/10">
-                  <pre className="text-sm">
-                    <code>
-                      {res.diff && res.diff.split('\n').map((line: string, idx: number) => (
-                        <div
-                          key={idx}
-                          className={
-                            line.startsWith('+') ? 'text-green-400' :
-                            line.startsWith('-') ? 'text-red-400' :
-                            line.startsWith('@@') ? 'text-blue-400' :
-                            'text-gray-300'
-                          }
-                        >
-                          {line}
-                        </div>
-                      ))}
-                    </code>
-                  </pre>
-                </div>
-              </div>
-              <div className="mb-6">
-                <h3 className="font-semibold text-gray-800 mb-4">AI Impact Summary</h3>
-                <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                  {res.impact_analysis && res.impact_analysis.split('\n').map((line: string, idx: number) => (
-                    <p key={idx} className="mb-2 text-gray-700">{line}</p>
-                  ))}
-                </div>
-              </div>
-            </div>
-          );
-          toolsTriggered.push('Impact Analyzer');
-          whyUsed.push(`Impact Analyzer was used to compare the changes between "${oldPage}" and "${newPage}".`);
-          howDerived.push(`The analysis was performed by comparing code differences, calculating metrics, and assessing potential risks.`);
-        }
-        
-        if (hasTestInstruction) {
-          const [codePage, testInputPage] = selectedPages;
-          const res = await apiService.testSupport({ space_key: selectedSpace, code_page_title: codePage, test_input_page_title: testInputPage, question: goal });
-          testStrategyResult = (
-            <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg max-w-4xl mx-auto">
-              <h3 className="font-semibold text-gray-800 mb-4 flex items-center">
-                <TestTube className="w-5 h-5 mr-2 text-orange-500" />
-                Test Strategy: {codePage} & {testInputPage}
-              </h3>
-              <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                {res.test_strategy && res.test_strategy.split('\n').map((line: string, idx: number) => {
-                  if (line.startsWith('### ')) {
-                    return <h3 key={idx} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(4)}</h3>;
-                  } else if (line.startsWith('## ')) {
-                    return <h2 key={idx} className="text-xl font-bold text-gray-800 mt-6 mb-3">{line.substring(3)}</h2>;
-                  } else if (line.startsWith('# ')) {
-                    return <h1 key={idx} className="text-2xl font-bold text-gray-800 mt-8 mb-4">{line.substring(2)}</h1>;
-                  } else if (line.startsWith('- **')) {
-                    const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                    if (match) {
-                      return <p key={idx} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                    }
-                  } else if (line.startsWith('- ')) {
-                    return <p key={idx} className="mb-1 ml-4">• {line.substring(2)}</p>;
-                  } else if (line.trim()) {
-                    return <p key={idx} className="mb-2 text-gray-700">{line}</p>;
-                  }
-                  return <br key={idx} />;
-                })}
-              </div>
-            </div>
-          );
-          toolsTriggered.push('Test Support Tool');
-          whyUsed.push(`Test Support Tool was used to generate test strategies for "${codePage}" using "${testInputPage}" as input.`);
-          howDerived.push(`The test strategy was generated by analyzing the code structure and test requirements using AI-powered testing methodologies.`);
-        }
+      if (aiActionOutput) outputs.push(`AI Action Output:\n${aiActionOutput}`);
+      if (conversionOutput) outputs.push(`Target Language Conversion Output:\n${conversionOutput}`);
+      if (modificationOutput) outputs.push(`Modification Output:\n${modificationOutput}`);
+      if (!aiActionOutput && !conversionOutput && !modificationOutput && lastOutput) {
+        outputs.push(`Processed Code:\n${lastOutput}`);
       }
-      
-      setPlanSteps((steps) => steps.map((s) => s.id === 1 ? { ...s, status: 'completed' } : s));
-      setCurrentStep(1);
-      setProgressPercent(50);
-      setPlanSteps((steps) => steps.map((s) => s.id === 2 ? { ...s, status: 'running' } : s));
-      setPlanSteps((steps) => steps.map((s) => s.id === 2 ? { ...s, status: 'completed' } : s));
-      setCurrentStep(2);
-      setProgressPercent(100);
-      // Prepare output tabs for new UI
-      const pageTabs = Object.keys(pageResults).length > 0 || impactAnalyzerResult || testStrategyResult ? [
-        {
-          id: 'per-page-results',
-          label: 'Page Results',
-          icon: FileText,
-          content: '',
-          results: [
-            ...(impactAnalyzerResult ? [{ impactAnalyzerResult }] : []),
-            ...(testStrategyResult ? [{ testStrategyResult }] : []),
-            ...Object.entries(pageResults).map(([page, results]) => ({ page, results })),
-          ],
-        }
-      ] : [];
-      const tabs = [
-        ...pageTabs,
-        {
-          id: 'reasoning',
-          label: 'Reasoning',
-          icon: Brain,
-          content: `# Analysis Summary
-
-## Goal
-${goal}
+      formattedOutput = formatCodeAssistantOutput(outputs);
+      // Later steps work on the resulting code, not the labelled outputs
+      stepOutput = lastOutput;
+      toolName = 'Code Assistant';
+      whyUsed = `Code Assistant was used to ${instruction.toLowerCase()} for the code page "${page}".`;
+      howDerived = `The code was processed using AI-powered analysis and transformation techniques.`;
+    } else if (tool === 'image_insights') {
+      // Image summarization using ImageInsights tool (no web search)
+      const images = await apiService.getImages(spaceKey, page, ids[page], { signal });
+      let output = '';
+      if (images && images.images && images.images.length > 0) {
+        const summaries = await Promise.all(images.images.map((imgUrl: string) => apiService.imageSummary({ space_key: spaceKey, page_title: page, image_url: imgUrl }, { signal })));
+        output = summaries.map((s, i) => `Image ${i + 1}: ${s.summary}`).join('\n\n');
+      } else {
+        output = 'No images found on this page.';
+      }
+      outputs.push(output);
+      stepOutput = output;
+      formattedOutput = formatImageInsightsOutput([{ name: page, summary: output }]);
+      toolName = 'Image Insights';
+      whyUsed = `Image Insights was used to analyze and summarize the images on page "${page}".`;
+      howDerived = `The images were processed using computer vision and AI analysis to extract meaningful insights and descriptions.`;
+    } else if (tool === 'ai_powered_search') {
+      // Only use AI Powered Search for text/code content, NOT for video/image
+      const query = input ? `${instruction}\n\nUse this ${inputLabel} as context:\n${input.slice(0, 8000)}` : instruction;
+      const res = await apiService.search({ space_key: spaceKey, page_titles: [page], page_ids: [ids[page]], query }, { signal });
+      outputs.push(res.response);
+      stepOutput = res.response;
+      formattedOutput = formatAIPoweredSearchOutput(res.response);
+      toolName = 'AI Powered Search';
+      whyUsed = `AI Powered Search was used to analyze and summarize the content on page "${page}".`;
+      howDerived = `The content was processed using natural language processing to extract key information and provide comprehensive summaries.`;
+    } else if (tool === 'video_summarizer') {
+      // Video summarization using exact same logic as Tool Mode
+      const res = await apiService.videoSummarizer({ space_key: spaceKey, page_title: page, page_id: ids[page] }, { signal });
 
-## Selected Pages
-${selectedPages.join(', ')}
+      // Create video content object similar to Tool Mode
+      const videoContent = {
+        id: Date.now().toString(),
+        name: page,
+        summary: res.summary,
+        quotes: res.quotes,
+        actionItems: res.action_items,
+        timestamps: res.timestamps,
+        qa: res.qa
+      };
 
-## Tools Used
-${[...new Set(toolsTriggered)].join(', ')}
+      // Format output using the same structure as Tool Mode
+      const summaryText = videoContent.summary || 'No summary available.';
+      const quotesText = videoContent.quotes && videoContent.quotes.length > 0 
+        ? `\n\nKey Quotes:\n${videoContent.quotes.map(quote => `- "${quote}"`).join('\n')}`
+        : '';
+      const actionItemsText = videoContent.actionItems && videoContent.actionItems.length > 0
+        ? `\n\nAction Items:\n${videoContent.actionItems.map(item => `- ${item}`).join('\n')}`
+        : '';
+      const timestampsText = videoContent.timestamps && videoContent.timestamps.length > 0
+        ? `\n\nTimestamps:\n${videoContent.timestamps.map(ts => `- ${ts}`).join('\n')}`
+        : '';
 
-## Why These Tools Were Chosen
+      const fullOutput = `${summaryText}${quotesText}${actionItemsText}${timestampsText}`;
+      outputs.push(fullOutput);
+      stepOutput = fullOutput;
 
-${whyUsed.map((reason, index) => `${index + 1}. ${reason}`).join('\n')}
+      // Use the existing formatter function to maintain consistency
+      formattedOutput = formatVideoSummarizerOutput({
+        name: videoContent.name,
+        summary: videoContent.summary,
+        timestamps: videoContent.timestamps || [],
+        quotes: videoContent.quotes || [],
+        actionItems: videoContent.actionItems || []
+      });
 
-## How Results Were Derived
+      toolName = 'Video Summarizer';
+      whyUsed = `Video Summarizer was used to analyze and summarize the video content on page "${page}".`;
+      howDerived = `The video was processed using AI-powered analysis to extract key moments, timestamps, and comprehensive summaries.`;
+    } else {
+      // Fallback: use AI Powered Search for any other type (never web search)
+      const res = await apiService.search({ space_key: spaceKey, page_titles: [page], page_ids: [ids[page]], query: instruction }, { signal });
+      outputs.push(res.response);
+      stepOutput = res.response;
+      formattedOutput = formatAIPoweredSearchOutput(res.response);
+      toolName = 'AI Powered Search';
+      whyUsed = `AI Powered Search was used as a fallback to analyze the content on page "${page}".`;
+      howDerived = `The content was processed using general AI analysis to provide relevant information.`;
+    }
+    return { toolName, whyUsed, howDerived, output: stepOutput, page, pageResult: { instruction, tool, outputs, formattedOutput } };
+  };
 
-${howDerived.map((method, index) => `${index + 1}. ${method}`).join('\n')}
+  // Runs one step of a run and records its result. A failed step is marked on
+  // its own and the rest of the plan carries on; only cancelling the run rejects.
+  const runPlanStep = async (run: PlanRun, index: number, runSignal: AbortSignal) => {
+    const stepId = index + 2;
+    const inputFrom = run.plan[index].input_from;
+    const input = inputFrom ? run.results[inputFrom - 1]?.output : undefined;
+    run.results[index] = undefined;
+    if (inputFrom && !input) {
+      // The step it reads from failed, was cancelled or produced nothing
+      updateStepStatus(stepId, 'skipped', `Step ${inputFrom} produced no output`);
+      return;
+    }
+    try {
+      run.results[index] = await runStep(stepId, runSignal, (signal) => runTool(run, index, input, signal));
+    } catch (err) {
+      if (runSignal.aborted) throw err;
+    }
+  };
 
-## Processing Summary
+  // Streams the final answer into its tab; Stop keeps what has arrived so far
+  const streamFinalAnswer = (run: PlanRun, runSignal: AbortSignal) => {
+    const setFinalAnswer = (text: string) => {
+      setOutputTabs(prev => prev.map(tab => tab.id === 'final-answer' ? { ...tab, content: text } : tab));
+    };
+    return runStep(run.plan.length + 2, runSignal, (signal) =>
+      runStream({ space_key: run.spaceKey, page_titles: run.planPages, page_ids: run.planPages.map(page => run.pageIds[page]), query: buildFinalAnswerQuery(run.goal, collectPageResults(run.results)) }, setFinalAnswer, signal)
+    );
+  };
 
-- **Total Instructions Processed:** ${instructions.length}
-- **Pages Analyzed:** ${selectedPages.length}
-- **Analysis Completed:** ${new Date().toLocaleString()}
+  const executePlan = async (draft: DraftPlan) => {
+    const plan = draft.steps.map(compactStep);
+    const run: PlanRun = {
+      goal,
+      spaceKey: selectedSpace,
+      plan,
+      planner: draft.planner,
+      reasoning: draft.reasoning,
+      // The final answer reads every page the approved plan touches, not just the initial selection
+      planPages: [...new Set([...selectedPages, ...plan.flatMap(step => step.pages)])],
+      pageIds,
+      results: [],
+    };
+    planRunRef.current = run;
+    setDraftPlan(null);
+    setIsPlanning(true);
+    setError('');
+    const runSignal = getSignal();
+    setOutputTabs([]);
+    setActiveTab('final-answer');
+    try {
+      setPlanSteps([
+        { id: 1, title: 'Analyzing Goal', status: 'completed', details: `Planned by ${run.planner}` },
+        ...plan.map((step, index) => ({
+          id: index + 2,
+          title: stepTitle(step),
+          status: 'pending' as const,
+          details: step.instruction,
+          rationale: step.rationale,
+          inputFrom: step.input_from ? stepTitle(plan[step.input_from - 1]) : undefined,
+        })),
+        { id: plan.length + 2, title: 'Final Answer', status: 'pending' },
+      ]);
+      setCurrentStep(1);
+      setProgressPercent(50);
 
----
+      // Independent steps run side by side, at most `concurrency` at a time
+      await runStepGraph(plan, concurrency, (index) => runPlanStep(run, index, runSignal));
 
-The AI assistant analyzed your request and automatically selected the most appropriate tools based on the content type of each page and the nature of your instructions. Each tool was chosen to provide the most relevant and accurate results for your specific needs.`,
-        },
-        {
-          id: 'selected-pages',
-          label: 'Selected Pages',
-          icon: FileText,
-          content: selectedPages.join(', '),
-        },
-      ];
-      setOutputTabs(tabs);
-      setActiveTab(pageTabs.length > 0 ? 'per-page-results' : 'reasoning');
+      setOutputTabs(buildRunTabs(run, ''));
+      setActiveTab('final-answer');
       setActiveResult(null);
-      
+      const finalAnswer = await streamFinalAnswer(run, runSignal);
+
       // Add to history
-      addToHistory(goal, tabs);
-    } catch {
-      setError('An error occurred during orchestration.');
+      addToHistory(run.goal, run.planPages, buildRunTabs(run, finalAnswer?.text || ''));
+    } catch (err) {
+      if (isCancelledError(err)) {
+        setPlanSteps((steps) => steps.map((s) => s.status === 'pending' || s.status === 'running' ? { ...s, status: 'cancelled' } : s));
+      }
+      setError(toToolError(err, 'An error occurred during orchestration'));
     }
     setIsPlanning(false);
     setCurrentStep(2);
     setProgressPercent(100);
   };
 
-
-
-
+  // Retries a failed step of the last run. Steps that were skipped because they
+  // read its output run again after it, and the result tabs are rebuilt. A
+  // retried final answer is saved to history like a completed run.
+  const retryStep = async (stepId: number) => {
+    const run = planRunRef.current;
+    if (!run || isPlanning) return;
+    setIsPlanning(true);
+    setError('');
+    const runSignal = getSignal();
+    try {
+      if (stepId === run.plan.length + 2) {
+        const finalAnswer = await streamFinalAnswer(run, runSignal);
+        if (finalAnswer) {
+          addToHistory(run.goal, run.planPages, buildRunTabs(run, finalAnswer.text));
+        }
+      } else {
+        const retried = withDependents(run.plan, stepId - 2);
+        setPlanSteps((steps) => steps.map((s) => retried.has(s.id - 2)
+          ? { ...s, status: 'pending', statusNote: undefined, startedAt: undefined, finishedAt: undefined }
+          : s));
+        await runStepGraph(run.plan, concurrency, (index) => runPlanStep(run, index, runSignal), retried);
+        setOutputTabs(prev => buildRunTabs(run, prev.find(tab => tab.id === 'final-answer')?.content || ''));
+      }
+    } catch (err) {
+      if (isCancelledError(err)) {
+        setPlanSteps((steps) => steps.map((s) => s.status === 'pending' || s.status === 'running' ? { ...s, status: 'cancelled' } : s));
+      }
+      setError(toToolError(err, 'Failed to retry the step'));
+    }
+    setIsPlanning(false);
+  };
 
   const handleFollowUp = async () => {
     if (!followUpQuestion.trim() || !selectedSpace || selectedPages.length === 0) return;
@@ -735,22 +1158,22 @@ The AI assistant analyzed your request and automatically selected the most appro
       const searchResult = await apiService.search({
         space_key: selectedSpace,
         page_titles: selectedPages,
+        page_ids: selectedPages.map(page => pageIds[page]),
         query: followUpQuestion,
-      });
+      }, { signal: getSignal() });
       const qaContent = outputTabs.find(tab => tab.id === 'qa')?.content || '';
       const updatedQA = `${qaContent}\n\n**Q: ${followUpQuestion}**\n\nA: ${searchResult.response}`;
       setOutputTabs(prev => prev.map(tab =>
         tab.id === 'qa' ? { ...tab, content: updatedQA } : tab
       ));
       setFollowUpQuestion('');
-    } catch {
-      setError('Failed to get follow-up answer.');
+    } catch (err) {
+      setError(toToolError(err, 'Failed to get follow-up answer'));
     }
   };
 
   const exportPlan = () => {
-    const isHistoryExport = currentHistoryId !== null;
-    const historyEntry = isHistoryExport ? history.find(h => h.id === currentHistoryId) : null;
+    const isHistoryExport = currentHistoryEntry !== null;
     
     const content = `# AI Agent Analysis Report${isHistoryExport ? ' (Historical)' : ''}
 
@@ -758,7 +1181,7 @@ The AI assistant analyzed your request and automatically selected the most appro
 ${goal}
 
 ${isHistoryExport ? `## Original Execution Date
-${historyEntry?.timestamp.toLocaleString()}
+${new Date(currentHistoryEntry.createdAt).toLocaleString()}
 
 ## Selected Space
 ${spaces.find(s => s.key === selectedSpace)?.name || selectedSpace}
@@ -813,42 +1236,42 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
     setError('');
     setProgressPercent(0);
     setActiveResult(null);
-    setCurrentHistoryId(null);
+    setCurrentHistoryEntry(null);
     setShowHistory(false);
+    setDraftPlan(null);
   };
 
   // History management functions
-  const addToHistory = (goal: string, outputTabs: OutputTabWithResults[]) => {
-    const historyEntry: HistoryEntry = {
-      id: Date.now().toString(),
-      goal,
-      timestamp: new Date(),
-      outputTabs,
-      selectedSpace,
-      selectedPages: [...selectedPages]
-    };
-    setHistory(prev => [historyEntry, ...prev]);
+  const addToHistory = (goal: string, pageTitles: string[], outputTabs: OutputTabWithResults[]) => {
+    history.addEntry({
+      title: goal,
+      spaceKey: selectedSpace,
+      pageTitles,
+      payload: { outputTabs: outputTabs.map(toStoredTab) },
+      text: historySearchText(outputTabs),
+    });
   };
 
-  const loadHistoryEntry = (historyId: string) => {
-    const entry = history.find(h => h.id === historyId);
-    if (entry) {
-      setOutputTabs(entry.outputTabs);
-      setSelectedSpace(entry.selectedSpace);
-      setSelectedPages(entry.selectedPages);
-      setGoal(entry.goal);
-      setCurrentHistoryId(historyId);
-      setActiveTab(entry.outputTabs.length > 0 ? entry.outputTabs[0].id : 'answer');
-      setPlanSteps([]);
-      setCurrentStep(0);
-      setProgressPercent(100);
-      setActiveResult(null);
-    }
+  const loadHistoryEntry = (entry: HistoryRecord<AgentHistoryPayload>) => {
+    const tabs = entry.payload.outputTabs.map(fromStoredTab);
+    setOutputTabs(tabs);
+    setSelectedSpace(entry.spaceKey);
+    setSelectedPages(entry.pageTitles);
+    setGoal(entry.title);
+    setCurrentHistoryEntry(entry);
+    setActiveTab(tabs.length > 0 ? tabs[0].id : 'answer');
+    setPlanSteps([]);
+    setCurrentStep(0);
+    setProgressPercent(100);
+    setActiveResult(null);
+    updateRoute({ query: entry.title, entry: entry.id });
   };
 
+  useRouteResult('agent', currentHistoryId, setGoal, loadHistoryEntry);
+
   const goToLatest = () => {
-    if (history.length > 0) {
-      loadHistoryEntry(history[0].id);
+    if (history.latest) {
+      loadHistoryEntry(history.latest);
     }
   };
 
@@ -856,6 +1279,35 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
     setShowHistory(!showHistory);
   };
 
+  const cycleTab = (step: number) => {
+    if (outputTabs.length === 0) return;
+    const index = outputTabs.findIndex(tab => tab.id === activeTab);
+    setActiveTab(outputTabs[(index + step + outputTabs.length) % outputTabs.length].id);
+  };
+  const activeTabContent = outputTabs.find(tab => tab.id === activeTab)?.content || '';
+
+  const pinActiveTab = () => {
+    const tab = outputTabs.find(t => t.id === activeTab);
+    if (!tab) return;
+    pin({
+      source: `Agent Mode · ${tab.label}`,
+      title: goal.trim() ? `${tab.label}: ${goal.trim()}` : undefined,
+      markdown: tabMarkdown(tab),
+      pages: selectedPages,
+    }, err => setError(toToolError(err, 'Failed to pin the output')));
+  };
+
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Plan the goal', group: 'Agent Mode', disabled: isPlanning, run: handleGoalSubmit },
+    { id: TOOL_COMMANDS.rerun, title: 'Re-run the last goal', group: 'Agent Mode', disabled: isPlanning || !history.latest, run: rerunLastGoal },
+    { id: TOOL_COMMANDS.nextTab, title: 'Next output tab', group: 'Agent Mode', disabled: outputTabs.length < 2, run: () => cycleTab(1) },
+    { id: TOOL_COMMANDS.previousTab, title: 'Previous output tab', group: 'Agent Mode', disabled: outputTabs.length < 2, run: () => cycleTab(-1) },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the current output tab', group: 'Agent Mode', disabled: !activeTabContent, run: () => copyText(activeTabContent) },
+    { id: TOOL_COMMANDS.export, title: 'Export the analysis', group: 'Agent Mode', disabled: outputTabs.length === 0, run: exportPlan },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the current output tab to the report', group: 'Agent Mode', disabled: outputTabs.length === 0, run: pinActiveTab },
+    { id: TOOL_COMMANDS.history, title: 'Show or hide history', group: 'Agent Mode', run: toggleHistory },
+  ]);
+
   return (
     <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#DFE1E6] rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden">
@@ -870,6 +1322,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-orange-100" />
               <button 
                 onClick={() => onModeSelect('tool')}
                 className="text-orange-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -885,7 +1338,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
           {/* Manual Space/Page Selection UI */}
-          {!planSteps.length && !isPlanning && (
+          {!planSteps.length && !isPlanning && !draftPlan && (
             <div className="max-w-4xl mx-auto mb-6">
               <div className="bg-white/60 backdrop-blur-xl rounded-xl p-6 border border-white/20 shadow-lg text-center">
                 <h3 className="text-xl font-bold text-gray-800 mb-4">Detected Confluence Context</h3>
@@ -894,7 +1347,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                     Auto-selected: Space <span className="font-bold">{spaces.find(s => s.key === selectedSpace)?.name || selectedSpace}</span> &nbsp;|&nbsp; Page <span className="font-bold">{selectedPages[0]}</span>
                   </div>
                 )}
-                {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                <ApiErrorBanner error={error} onDismiss={() => setError('')} className="mt-2 text-left" />
               </div>
               {/* Manual Space/Page Selection UI */}
               <div className="bg-white/60 backdrop-blur-xl rounded-xl p-6 border border-white/20 shadow-lg mt-6 text-left">
@@ -923,34 +1376,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Select Pages to Analyze
                   </label>
-                  <div className="space-y-2 max-h-40 overflow-y-auto border border-white/30 rounded-lg p-2 bg-white/50 backdrop-blur-sm">
-                    {pages.map(page => (
-                      <label key={page} className="flex items-center space-x-2 p-2 hover:bg-white/30 rounded cursor-pointer backdrop-blur-sm">
-                        <input
-                          type="checkbox"
-                          checked={selectedPages.includes(page)}
-                          onChange={(e) => {
-                            if (e.target.checked) {
-                              setSelectedPages([...selectedPages, page]);
-                            } else {
-                              setSelectedPages(selectedPages.filter(p => p !== page));
-                            }
-                          }}
-                          className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
-                        />
-                        <span className="text-sm text-gray-700">{page}</span>
-                      </label>
-                    ))}
-                  </div>
-                  <div className="flex items-center space-x-2 mb-2 mt-2">
-                    <input
-                      type="checkbox"
-                      checked={selectAllPages}
-                      onChange={toggleSelectAllPages}
-                      className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
-                    />
-                    <span className="text-sm text-gray-700 font-medium">Select All Pages</span>
-                  </div>
+                  <SpacePagePicker multiple value={selectedPages} onChange={setSelectedPages} />
                   <p className="text-sm text-gray-500 mt-1">
                     {selectedPages.length} page(s) selected
                   </p>
@@ -959,8 +1385,28 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
             </div>
           )}
 
+          {/* Plan Review */}
+          {draftPlan && !planSteps.length && !isPlanning && (
+            <PlanReview
+              goal={goal}
+              steps={draftPlan.steps}
+              onChange={(steps) => setDraftPlan({ ...draftPlan, steps })}
+              pages={knownPages}
+              allPagesListed={!hasMorePages}
+              pageTypes={pageTypes}
+              defaultPage={selectedPages[0] || ''}
+              planner={draftPlan.planner}
+              reasoning={draftPlan.reasoning}
+              onApprove={() => executePlan(draftPlan)}
+              onBack={() => setDraftPlan(null)}
+              onSavePlaybook={handleSavePlaybook}
+              concurrency={concurrency}
+              onConcurrencyChange={changeConcurrency}
+            />
+          )}
+
           {/* Goal Input Section */}
-          {!planSteps.length && !isPlanning && (
+          {!planSteps.length && !isPlanning && !draftPlan && (
             <div className="max-w-4xl mx-auto">
               <div className="bg-white/60 backdrop-blur-xl rounded-xl p-8 border border-white/20 shadow-lg text-center">
                 <h3 className="text-2xl font-bold text-gray-800 mb-6">What do you want the assistant to help you achieve?</h3>
@@ -992,19 +1438,56 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                     </div>
                   </div>
                 </div>
-                {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+                {playbooks.length > 0 && (
+                  <div className="mt-4 text-left">
+                    <div className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                      <BookOpen className="w-4 h-4 mr-2 text-orange-500" />
+                      Playbooks
+                    </div>
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {playbooks.map(playbook => (
+                        <div key={playbook.id} className="flex items-center justify-between p-3 rounded-lg bg-white/50 border border-white/30">
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-sm text-gray-800 truncate">{playbook.name}</div>
+                            <div className="text-xs text-gray-500 truncate">
+                              {playbook.steps.length} step(s) • saved in {spaces.find(s => s.key === playbook.spaceKey)?.name || playbook.spaceKey} • {playbook.goal}
+                            </div>
+                          </div>
+                          <div className="ml-2 flex items-center space-x-1 flex-shrink-0">
+                            <button
+                              onClick={() => loadPlaybook(playbook)}
+                              disabled={!selectedSpace}
+                              className="px-3 py-1 bg-orange-500/90 text-white rounded-lg hover:bg-orange-600 disabled:bg-gray-300 text-xs font-medium"
+                              title="Review this plan against the current space"
+                            >
+                              Use
+                            </button>
+                            <button
+                              onClick={() => handleDeletePlaybook(playbook)}
+                              className="p-1 rounded text-gray-400 hover:text-red-600"
+                              title="Delete playbook"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <ApiErrorBanner error={error} onDismiss={() => setError('')} className="mt-4 text-left" />
               </div>
             </div>
           )}
 
           {/* History Section */}
-          {history.length > 0 && !planSteps.length && !isPlanning && (
+          {history.totalCount > 0 && !planSteps.length && !isPlanning && !draftPlan && (
             <div className="max-w-4xl mx-auto mt-6">
               <div className="bg-white/60 backdrop-blur-xl rounded-xl p-6 border border-white/20 shadow-lg">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-semibold text-gray-800 flex items-center">
                     <FileText className="w-5 h-5 mr-2 text-orange-500" />
-                    Previous Instructions ({history.length})
+                    Previous Instructions ({history.totalCount})
                   </h3>
                   <div className="flex space-x-2">
                     <button
@@ -1023,35 +1506,12 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                 </div>
                 
                 {showHistory && (
-                  <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {history.map((entry) => (
-                      <div
-                        key={entry.id}
-                        onClick={() => loadHistoryEntry(entry.id)}
-                        className={`p-3 rounded-lg cursor-pointer transition-colors border ${
-                          currentHistoryId === entry.id
-                            ? 'bg-orange-100/80 border-orange-300 text-orange-800'
-                            : 'bg-white/50 border-white/30 hover:bg-white/70 text-gray-700'
-                        }`}
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="font-medium text-sm mb-1 line-clamp-2">
-                              {entry.goal.length > 100 ? `${entry.goal.substring(0, 100)}...` : entry.goal}
-                            </div>
-                            <div className="text-xs text-gray-500">
-                              {entry.selectedPages.join(', ')} • {entry.timestamp.toLocaleString()}
-                            </div>
-                          </div>
-                          {currentHistoryId === entry.id && (
-                            <div className="ml-2 text-orange-600">
-                              <CheckCircle className="w-4 h-4" />
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  <HistoryPanel
+                    history={history}
+                    selectedId={currentHistoryId}
+                    onSelect={loadHistoryEntry}
+                    spaces={spaces}
+                  />
                 )}
               </div>
             </div>
@@ -1077,6 +1537,11 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
             </div>
           )}
 
+          {/* Errors while planning, running and following up; the goal views show their own */}
+          {(planSteps.length > 0 || isPlanning || draftPlan) && (
+            <ApiErrorBanner error={error} onDismiss={() => setError('')} className="mb-6" />
+          )}
+
           {/* Execution Phase */}
           {(planSteps.length > 0 || (currentHistoryId && outputTabs.length > 0)) && (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -1111,7 +1576,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                       <div>
                         <div className="text-sm font-medium text-gray-700 mb-2">Execution Date</div>
                         <div className="text-sm text-gray-600">
-                          {history.find(h => h.id === currentHistoryId)?.timestamp.toLocaleString()}
+                          {currentHistoryEntry && new Date(currentHistoryEntry.createdAt).toLocaleString()}
                         </div>
                       </div>
                     </div>
@@ -1126,7 +1591,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                       </button>
                       <button
                         onClick={() => {
-                          setCurrentHistoryId(null);
+                          setCurrentHistoryEntry(null);
                           setOutputTabs([]);
                           setGoal('');
                           setActiveResult(null);
@@ -1140,7 +1605,10 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                 ) : (
                   // Progress Timeline
                   <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
-                    <h3 className="font-semibold text-gray-800 mb-4">Live Progress Log</h3>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-semibold text-gray-800">Live Progress Log</h3>
+                      {isPlanning && <CancelButton onClick={cancelRequests} label="Cancel plan" className="py-1" />}
+                    </div>
                     <div className="space-y-4">
                       {planSteps.map((step) => (
                         <div key={step.id} className="flex items-start space-x-3">
@@ -1149,16 +1617,59 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                               <CheckCircle className="w-5 h-5 text-green-500" />
                             ) : step.status === 'running' ? (
                               <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />
+                            ) : step.status === 'failed' ? (
+                              <XCircle className="w-5 h-5 text-red-500" />
+                            ) : step.status === 'skipped' ? (
+                              <SkipForward className="w-5 h-5 text-gray-400" />
+                            ) : step.status === 'cancelled' ? (
+                              <Ban className="w-5 h-5 text-gray-400" />
                             ) : (
                               <div className="w-5 h-5 border-2 border-gray-300 rounded-full" />
                             )}
                           </div>
                           <div className="flex-1">
-                            <div className="font-medium text-gray-800">{step.title}</div>
+                            <div className="flex items-center justify-between space-x-2">
+                              <div className={`font-medium ${step.status === 'cancelled' ? 'text-gray-400 line-through' : step.status === 'skipped' ? 'text-gray-400' : 'text-gray-800'}`}>{step.title}</div>
+                              {step.startedAt && (
+                                <span className="flex-shrink-0 text-xs text-gray-500 tabular-nums">{formatElapsed((step.finishedAt ?? now) - step.startedAt)}</span>
+                              )}
+                            </div>
+                            {step.statusNote && (
+                              <div className={`text-xs mt-1 ${step.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                                {step.status === 'failed' ? 'Failed' : 'Skipped'}: {step.statusNote}
+                              </div>
+                            )}
                             {step.details && (
                               <div className="text-sm text-gray-600 mt-1">{step.details}</div>
                             )}
+                            {step.rationale && (
+                              <div className="text-xs text-gray-500 italic mt-1">{step.rationale}</div>
+                            )}
+                            {step.inputFrom && (
+                              <div className="flex items-center space-x-1 text-xs text-orange-700 mt-1">
+                                <CornerDownRight className="w-3 h-3" />
+                                <span>Input: output of {step.inputFrom}</span>
+                              </div>
+                            )}
                           </div>
+                          {step.status === 'running' && step.id > 1 && (
+                            <button
+                              onClick={() => cancelStep(step.id)}
+                              className="flex-shrink-0 text-gray-400 hover:text-red-500"
+                              title="Cancel this step"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                          {step.status === 'failed' && step.id > 1 && !isPlanning && (
+                            <button
+                              onClick={() => retryStep(step.id)}
+                              className="flex-shrink-0 text-gray-400 hover:text-orange-500"
+                              title="Retry this step"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1194,8 +1705,8 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                 {outputTabs.length > 0 && (
                   <div className="bg-white/60 backdrop-blur-xl rounded-xl border border-white/20 shadow-lg overflow-hidden">
                     {/* Tab Headers */}
-                    <div className="border-b border-white/20 bg-white/40 backdrop-blur-sm">
-                      <div className="flex overflow-x-auto">
+                    <div className="flex items-center border-b border-white/20 bg-white/40 backdrop-blur-sm">
+                      <div className="flex flex-1 overflow-x-auto">
                         {outputTabs.map(tab => {
                           const Icon = tab.icon;
                           return (
@@ -1214,6 +1725,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                           );
                         })}
                       </div>
+                      <PinButton onClick={pinActiveTab} pinned={pinned} className="mx-2 flex-shrink-0 text-sm" />
                     </div>
 
                     {/* Tab Content */}
@@ -1280,7 +1792,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                                   {(() => {
                                     const impactData = (outputTabs.find(t => t.id === 'per-page-results')?.results || []).find((r: any) => 'impactAnalyzerResult' in r);
                                     if (!impactData || !('impactAnalyzerResult' in impactData)) return null;
-                                    return impactData.impactAnalyzerResult;
+                                    return <ImpactAnalysisCard {...impactData.impactAnalyzerResult} />;
                                   })()}
                                 </div>
                               )}
@@ -1290,7 +1802,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                                   {(() => {
                                     const testStrategyData = (outputTabs.find(t => t.id === 'per-page-results')?.results || []).find((r: any) => 'testStrategyResult' in r);
                                     if (!testStrategyData || !('testStrategyResult' in testStrategyData)) return null;
-                                    return testStrategyData.testStrategyResult;
+                                    return <TestStrategyCard {...testStrategyData.testStrategyResult} />;
                                   })()}
                                 </div>
                               )}
@@ -1328,9 +1840,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                                                 <span className="text-orange-600 font-semibold">📊</span>
                                                 <span className="text-lg font-semibold text-gray-800">Result</span>
                                               </div>
-                                              <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
-                                                {result.formattedOutput}
-                                              </div>
+                                              <MarkdownView>{result.formattedOutput}</MarkdownView>
                                             </div>
                                           </div>
                                         ))}
@@ -1340,10 +1850,36 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                                 </div>
                               )}
                             </div>
+                          ) : activeTab === 'final-answer' ? (
+                            <div className="text-gray-700">
+                              {isStreaming && (
+                                <div className="flex justify-end mb-2">
+                                  <button
+                                    onClick={stopStreaming}
+                                    className="flex items-center space-x-1 text-sm text-red-600 hover:underline"
+                                    title="Stop generating and keep the answer so far"
+                                  >
+                                    <Square className="w-3 h-3" />
+                                    <span>Stop</span>
+                                  </button>
+                                </div>
+                              )}
+                              {outputTabs.find(tab => tab.id === 'final-answer')?.content ? (
+                                <MarkdownView>{outputTabs.find(tab => tab.id === 'final-answer')?.content || ''}</MarkdownView>
+                              ) : isStreaming ? (
+                                <div className="flex items-center space-x-2 text-gray-500">
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                  <span>Writing the final answer...</span>
+                                </div>
+                              ) : (
+                                <p className="text-gray-500">No final answer was generated.</p>
+                              )}
+                              {isStreaming && <span className="inline-block w-2 h-4 bg-orange-500/70 animate-pulse align-middle" />}
+                            </div>
                           ) : activeTab === 'qa' ? (
                             <div>
-                              <div className="whitespace-pre-wrap text-gray-700 mb-4">
-                                {outputTabs.find(tab => tab.id === activeTab)?.content}
+                              <div className="mb-4">
+                                <MarkdownView>{outputTabs.find(tab => tab.id === activeTab)?.content || ''}</MarkdownView>
                               </div>
                               {showFollowUp && (
                                 <div className="border-t border-white/20 pt-4">
@@ -1377,27 +1913,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                               )}
                             </div>
                           ) : (
-                            <div className="whitespace-pre-wrap text-gray-700">
-                              {outputTabs.find(tab => tab.id === activeTab)?.content.split('\n').map((line, index) => {
-                                if (line.startsWith('### ')) {
-                                  return <h3 key={index} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(4)}</h3>;
-                                } else if (line.startsWith('## ')) {
-                                  return <h2 key={index} className="text-xl font-bold text-gray-800 mt-6 mb-3">{line.substring(3)}</h2>;
-                                } else if (line.startsWith('# ')) {
-                                  return <h1 key={index} className="text-2xl font-bold text-gray-800 mt-8 mb-4">{line.substring(2)}</h1>;
-                                } else if (line.startsWith('- **')) {
-                                  const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                                  if (match) {
-                                    return <p key={index} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                                  }
-                                } else if (line.startsWith('- ')) {
-                                  return <p key={index} className="mb-1 ml-4">• {line.substring(2)}</p>;
-                                } else if (line.trim()) {
-                                  return <p key={index} className="mb-2 text-gray-700">{line}</p>;
-                                }
-                                return <br key={index} />;
-                              })}
-                            </div>
+                            <MarkdownView>{outputTabs.find(tab => tab.id === activeTab)?.content || ''}</MarkdownView>
                           )}
                         </div>
                       )}
@@ -1429,7 +1945,7 @@ ${isHistoryExport ? `*Historical Entry ID: ${currentHistoryId}*` : ''}`;
                   </button>
                   <button
                     onClick={() => {
-                      setCurrentHistoryId(null);
+                      setCurrentHistoryEntry(null);
                       setOutputTabs([]);
                       setGoal('');
                       setActiveResult(null);
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle, WifiOff, Clock, Gauge, ServerCrash, Ban, X, RotateCcw, GitMerge } from 'lucide-react';
+import { ToolError, describeError } from '../services/apiErrors';
+
+interface ApiErrorBannerProps {
+  error: ToolError | null | undefined;
+  onDismiss?: () => void;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const kindIcons = {
+  network: WifiOff,
+  timeout: Clock,
+  quota: Gauge,
+  upstream: ServerCrash,
+  validation: AlertTriangle,
+  conflict: GitMerge,
+  cancelled: Ban,
+};
+
+const ApiErrorBanner: React.FC<ApiErrorBannerProps> = ({ error, onDismiss, onRetry, className = 'mb-4' }) => {
+  if (!error) return null;
+
+  const { title, message, hint } = describeError(error);
+  const Icon = typeof error === 'string' ? AlertTriangle : kindIcons[error.kind];
+  const isWarning = typeof error !== 'string' && (error.kind === 'quota' || error.kind === 'timeout');
+
+  return (
+    <div
+      role="alert"
+      className={`${className} p-4 border rounded-lg flex items-start space-x-3 ${
+        isWarning ? 'bg-yellow-50 border-yellow-400 text-yellow-800' : 'bg-red-100 border-red-400 text-red-700'
+      }`}
+    >
+      <Icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <div className="font-medium">{title}</div>
+        {message && <div className="text-sm mt-1 break-words">{message}</div>}
+        {hint && <div className="text-xs mt-1 opacity-80">{hint}</div>}
+        {typeof error !== 'string' && (
+          <div className="text-[11px] mt-1 opacity-60 font-mono">
+            {error.endpoint}{error.status ? ` · HTTP ${error.status}` : ''}
+          </div>
+        )}
+      </div>
+      {onRetry && typeof error !== 'string' && error.retryable && (
+        <button
+          onClick={onRetry}
+          className="flex items-center space-x-1 text-sm font-medium hover:underline flex-shrink-0"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>Retry</span>
+        </button>
+      )}
+      {onDismiss && (
+        <button onClick={onDismiss} className="opacity-60 hover:opacity-100 flex-shrink-0" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ApiErrorBanner;
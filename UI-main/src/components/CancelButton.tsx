@@ -0,0 +1,21 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+interface CancelButtonProps {
+  onClick: () => void;
+  label?: string;
+  className?: string;
+}
+
+const CancelButton: React.FC<CancelButtonProps> = ({ onClick, label = 'Cancel', className = '' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`inline-flex items-center justify-center space-x-1 px-3 py-2 bg-white/80 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium ${className}`}
+  >
+    <X className="w-4 h-4" />
+    <span>{label}</span>
+  </button>
+);
+
+export default CancelButton;
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Settings, Key, RotateCcw, Check } from 'lucide-react';
+import { Settings, Key, RotateCcw, Check, Server } from 'lucide-react';
+import ConnectionSettings from './ConnectionSettings';
 
 interface CircularLauncherProps {
   onClick: () => void;
@@ -38,6 +39,7 @@ const CircularLauncher: React.FC<CircularLauncherProps> = ({ onClick }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [showApiKeySwap, setShowApiKeySwap] = useState(false);
+  const [showConnectionSettings, setShowConnectionSettings] = useState(false);
   const [apiKeyOptions, setApiKeyOptions] = useState<ApiKeyOption[]>(getApiKeyOptions());
   const [currentApiKeyId, setCurrentApiKeyId] = useState(() => localStorage.getItem('selectedApiKeyId') || (apiKeyOptions[0]?.id || ''));
   const [isRestarting, setIsRestarting] = useState(false);
@@ -88,7 +90,7 @@ const CircularLauncher: React.FC<CircularLauncherProps> = ({ onClick }) => {
   }, [isDragging, dragStart]);
 
   const handleClick = (e: React.MouseEvent) => {
-    if (!dragged && !showApiKeySwap) {
+    if (!dragged && !showApiKeySwap && !showConnectionSettings) {
       onClick();
     }
   };
@@ -119,9 +121,16 @@ const CircularLauncher: React.FC<CircularLauncherProps> = ({ onClick }) => {
 
   const toggleApiKeySwap = (e: React.MouseEvent) => {
     e.stopPropagation();
+    setShowConnectionSettings(false);
     setShowApiKeySwap(!showApiKeySwap);
   };
 
+  const toggleConnectionSettings = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowApiKeySwap(false);
+    setShowConnectionSettings(!showConnectionSettings);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return 'text-green-400 bg-green-400/20';
@@ -178,9 +187,28 @@ const CircularLauncher: React.FC<CircularLauncherProps> = ({ onClick }) => {
           >
             <Settings className="w-4 h-4" />
           </button>
+
+          {/* Backend Connection Button */}
+          <button
+            onClick={toggleConnectionSettings}
+            className="absolute -bottom-2 -left-2 w-8 h-8 bg-white/90 backdrop-blur-xl text-confluence-blue rounded-full shadow-lg hover:shadow-xl transition-all duration-200 flex items-center justify-center border border-white/30"
+            title="Backend connection"
+          >
+            <Server className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
+      {/* Backend Connection Panel */}
+      {showConnectionSettings && (
+        <ConnectionSettings
+          style={{
+            left: `${Math.min(position.x + 100, window.innerWidth - 400)}px`,
+            top: `${position.y}px`
+          }}
+        />
+      )}
+
       {/* API Key Swap Panel */}
       {showApiKeySwap && (
         <div 
@@ -1,24 +1,53 @@
-import React, { useState, useEffect } from 'react';
-import { Code, BarChart3, FileText, Download, Save, X, ChevronDown, Loader2, Zap, Search, Video, TrendingUp, TestTube, Image, ChevronUp, Check } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Code, BarChart3, FileText, Download, Save, X, ChevronDown, Loader2, Zap, Search, Video, TrendingUp, TestTube, Image, ChevronUp, Check, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService, Space } from '../services/api';
+import { apiService, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
+import { copyText } from '../utils/clipboard';
+import { codeToStorage } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, downloadBlob, exportReport } from '../utils/reportExport';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
 import CustomScrollbar from './CustomScrollbar';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+import MarkdownView from './MarkdownView';
 
 interface CodeAssistantProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
-const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [selectedPage, setSelectedPage] = useState('');
-  const [spaces, setSpaces] = useState<Space[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
+const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    pageSlots,
+    setPageSlot,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
+  const selectedPage = pageSlots[0] || '';
+  const setSelectedPage = (page: string) => setPageSlot(0, page);
+  // Page whose code was last loaded, so a page picked in another tool is loaded on open
+  const loadedPageRef = useRef('');
   const [detectedCode, setDetectedCode] = useState('');
   const [instruction, setInstruction] = useState('');
   const [targetLanguage, setTargetLanguage] = useState('');
@@ -26,12 +55,17 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
   const [processedCode, setProcessedCode] = useState('');
   const [summary, setSummary] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [exportFormat, setExportFormat] = useState('markdown');
-  const [error, setError] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat | 'txt'>('markdown');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('code');
+  const { pin, pinned } = usePinToReport('Code Assistant');
   const [showToast, setShowToast] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
 
@@ -46,8 +80,6 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
   const [isAnalyzingImpact, setIsAnalyzingImpact] = useState(false);
 
   // Add new state for page search and dropdown
-  const [isPageDropdownOpen, setIsPageDropdownOpen] = useState(false);
-  const [pageSearch, setPageSearch] = useState('');
 
   // Add new state for AI Actions dropdown
   const [aiActionSearch, setAiActionSearch] = useState('');
@@ -60,6 +92,9 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
   const [instructionHistory, setInstructionHistory] = useState<Array<{instruction: string, output: string}>>([]);
   const [currentInstructionHistoryIndex, setCurrentInstructionHistoryIndex] = useState<number | null>(null);
 
+  // Code Assistant keeps no stored history; a link just fills in the instruction
+  useRouteResult(null, null, setInstruction);
+
   const features = [
     { id: 'search' as const, label: 'AI Powered Search', icon: Search },
     { id: 'video' as const, label: 'Video Summarizer', icon: Video },
@@ -67,6 +102,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3 },
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
   // Update outputFormats to include all from dhiva
@@ -112,55 +148,22 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
     'TOML'
   ];
 
-  // Load spaces on component mount
-  useEffect(() => {
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSelectedSpace(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
-  // Load pages when space is selected
+  // Load the code of a page selected elsewhere, e.g. the host page or another tool's choice
   useEffect(() => {
-    if (selectedSpace) {
-      loadPages();
+    if (selectedSpace && selectedPage && selectedPage !== loadedPageRef.current) {
+      handlePageSelect(selectedPage);
     }
-  }, [selectedSpace]);
-
-  const loadSpaces = async () => {
-    try {
-      setError('');
-      const result = await apiService.getSpaces();
-      setSpaces(result.spaces);
-    } catch (err) {
-      setError('Failed to load spaces. Please check your backend connection.');
-      console.error('Error loading spaces:', err);
-    }
-  };
-
-  const loadPages = async () => {
-    try {
-      setError('');
-      const result = await apiService.getPages(selectedSpace);
-      setPages(result.pages);
-      // Auto-select page if present in URL
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && result.pages.includes(page)) {
-        setSelectedPage(page);
-        handlePageSelect(page); // Immediately load code for the auto-selected page
-      }
-    } catch (err) {
-      setError('Failed to load pages. Please check your space key.');
-      console.error('Error loading pages:', err);
-    }
-  };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedSpace, selectedPage]);
 
   const handlePageSelect = async (pageTitle: string) => {
     setSelectedPage(pageTitle);
+    loadedPageRef.current = pageTitle;
     setIsProcessing(true);
     setError('');
 
@@ -168,14 +171,15 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
       const result = await apiService.codeAssistant({
         space_key: selectedSpace,
         page_title: pageTitle,
+        page_id: pageIds[pageTitle],
         instruction: ''
-      });
+      }, { signal: getSignal() });
 
       setDetectedCode(result.original_code);
       setSummary(result.summary);
       setProcessedCode('');
     } catch (err) {
-      setError('Failed to load page content. Please try again.');
+      setError(toToolError(err, 'Failed to load page content'));
       console.error('Error loading page:', err);
     } finally {
       setIsProcessing(false);
@@ -206,6 +210,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
 
     setIsProcessing(true);
     setError('');
+    updateRoute({ query: instruction || undefined });
 
     try {
       // NEW BEHAVIOR: If both AI action and modification instruction are selected but NO target language
@@ -214,9 +219,10 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const modResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: instruction,
           target_language: ''
-        });
+        }, { signal: getSignal() });
         const modifiedCode = modResult.modified_code || modResult.converted_code || modResult.original_code || '';
         
         // 2. Then apply the AI action to the modified code
@@ -236,8 +242,9 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const actionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: prompt
-        });
+        }, { signal: getSignal() });
         const finalOutput = actionResult.modified_code || actionResult.converted_code || actionResult.original_code || 'AI action completed successfully.';
         
         // 3. Return one combined AI result
@@ -259,17 +266,19 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const conversionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: '',
           target_language: targetLanguage
-        });
+        }, { signal: getSignal() });
         const convertedCode = conversionResult.converted_code || conversionResult.modified_code || conversionResult.original_code || '';
         // 2. Apply modification instruction to converted code
         const modResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: `${instruction}\n\n${convertedCode}`,
           target_language: '',
-        });
+        }, { signal: getSignal() });
         const modifiedCode = modResult.modified_code || modResult.converted_code || modResult.original_code || '';
         // 3. Apply AI action to modified code
         const actionPromptMap: Record<string, string> = {
@@ -288,8 +297,9 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const actionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: prompt
-        });
+        }, { signal: getSignal() });
         const finalOutput = actionResult.modified_code || actionResult.converted_code || actionResult.original_code || 'AI action completed successfully.';
         setAiActionOutput(finalOutput);
         
@@ -309,17 +319,19 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const conversionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: '',
           target_language: targetLanguage
-        });
+        }, { signal: getSignal() });
         const convertedCode = conversionResult.converted_code || conversionResult.modified_code || conversionResult.original_code || '';
         // 2. Apply modification instruction to converted code
         const modResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: `${instruction}\n\n${convertedCode}`,
           target_language: '',
-        });
+        }, { signal: getSignal() });
         const finalOutput = modResult.modified_code || modResult.converted_code || modResult.original_code || 'Modification completed successfully.';
         setModificationOutput(finalOutput);
         
@@ -339,9 +351,10 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const conversionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: '',
           target_language: targetLanguage
-        });
+        }, { signal: getSignal() });
         const convertedCode = conversionResult.converted_code || conversionResult.modified_code || conversionResult.original_code || '';
         setConversionOutput('');
         setModificationOutput('');
@@ -362,8 +375,9 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const actionResult = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: prompt
-        });
+        }, { signal: getSignal() });
         const finalOutput = actionResult.modified_code || actionResult.converted_code || actionResult.original_code || 'AI action completed successfully.';
         setAiActionOutput(finalOutput);
         setProcessedCode('');
@@ -380,9 +394,10 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         const result = await apiService.codeAssistant({
           space_key: selectedSpace,
           page_title: selectedPage,
+          page_id: pageIds[selectedPage],
           instruction: instruction,
           target_language: targetLanguage || undefined
-        });
+        }, { signal: getSignal() });
         // Show converted code if target language is selected
         if (hasTargetLanguage && result.converted_code) {
           setConversionOutput(result.converted_code);
@@ -406,7 +421,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         }
       }
     } catch (err) {
-      setError('Failed to process code. Please try again.');
+      setError(toToolError(err, 'Failed to process code'));
       console.error('Error processing code:', err);
     } finally {
       setIsProcessing(false);
@@ -435,39 +450,112 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
       const result = await apiService.codeAssistant({
         space_key: selectedSpace,
         page_title: selectedPage,
+        page_id: pageIds[selectedPage],
         instruction: prompt
-      });
+      }, { signal: getSignal() });
 
       setAiActionOutput(result.modified_code || result.converted_code || result.original_code || 'AI action completed successfully.');
     } catch (err) {
-      setError(`Failed to run AI action: ${err}`);
+      setError(toToolError(err, 'Failed to run AI action'));
       console.error('Error running AI action:', err);
     }
   };
 
+  // The latest output as a code macro; a conversion is in the target language
+  const outputStorage = () => {
+    const output = modificationOutput || conversionOutput || aiActionOutput || processedCode || '';
+    return codeToStorage(output, output === conversionOutput ? targetLanguage : undefined);
+  };
+
   // Update exportCode to export any output
-  const exportCode = async (format: string) => {
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
+    }
+    const content = outputStorage();
+    await publish(page, async expectedVersion => {
+      const saved = await apiService.saveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: content,
+        ...saveOptions,
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to save to Confluence')));
+  };
+
+  const previewSave = async (options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const content = outputStorage();
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: content,
+        ...options,
+      }, { signal: getSignal() });
+      notePreview(page, preview);
+      setPreviewStorage(content);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  // Bare code goes in a report as one code block; output with fences is already markdown
+  const codeMarkdown = (content: string, language: string) =>
+    /^\s*(```|~~~)/m.test(content) ? content : `\`\`\`${language}\n${content.replace(/\n+$/, '')}\n\`\`\``;
+
+  const exportCode = async (format: ExportFormat | 'txt') => {
     const content = modificationOutput || conversionOutput || aiActionOutput || processedCode || detectedCode;
     if (!content) return;
+    const name = fileName || 'code';
 
     try {
-      const blob = await apiService.exportContent({
-        content: content,
-        format: format,
-        filename: fileName || 'code'
-      });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${fileName || 'code'}.${format}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      if (format === 'txt') {
+        downloadBlob(new Blob([content], { type: 'text/plain;charset=utf-8' }), `${name}.txt`);
+        return;
+      }
+      const language = content === conversionOutput ? targetLanguage : '';
+      await exportReport({
+        title: fileName || undefined,
+        tool: 'Code Assistant',
+        markdown: codeMarkdown(content, language),
+        details: { Page: selectedPage, 'Target language': language },
+      }, format, name, { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export file. Please try again.');
+      setError(toToolError(err, 'Failed to export file'));
       console.error('Error exporting:', err);
     }
   };
 
+  const pinCode = () => {
+    const content = modificationOutput || conversionOutput || aiActionOutput || processedCode || detectedCode;
+    if (!content) return;
+    pin({
+      title: fileName || undefined,
+      markdown: codeMarkdown(content, content === conversionOutput ? targetLanguage : ''),
+      pages: selectedPage ? [selectedPage] : [],
+    }, err => setError(toToolError(err, 'Failed to pin the code')));
+  };
+
   // Add analyze impact function
   const analyzeImpact = async () => {
     if (!detectedCode) {
@@ -490,11 +578,11 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         old_code: detectedCode,
         new_code: newCode,
         question: 'Analyze the impact of changes between the original code and the AI-modified code.'
-      });
+      }, { signal: getSignal() });
 
       setImpactAnalysis(result);
     } catch (err) {
-      setError('Failed to analyze impact. Please try again.');
+      setError(toToolError(err, 'Failed to analyze impact'));
       console.error('Error analyzing impact:', err);
     } finally {
       setIsAnalyzingImpact(false);
@@ -529,6 +617,17 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
     }
   }, [currentInstructionHistoryIndex]);
 
+  // The output that saving would use
+  const codeOutput = modificationOutput || conversionOutput || aiActionOutput || processedCode;
+
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Process code', group: 'Code Assistant', disabled: isProcessing, run: processCode },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the code output', group: 'Code Assistant', disabled: !codeOutput, run: () => copyText(codeOutput) },
+    { id: TOOL_COMMANDS.export, title: 'Export the code', group: 'Code Assistant', disabled: !codeOutput, run: () => exportCode(exportFormat) },
+    { id: TOOL_COMMANDS.save, title: 'Save the code to Confluence', group: 'Code Assistant', disabled: !codeOutput, run: saveToHostPage },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the code to the report', group: 'Code Assistant', disabled: !codeOutput, run: pinCode },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
@@ -543,6 +642,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -584,11 +684,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-          {error && (
-            <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
-              {error}
-            </div>
-          )}
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
 
           <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
             {/* Left Column - Configuration */}
@@ -624,58 +720,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Select Code Page
                   </label>
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() => setIsPageDropdownOpen(!isPageDropdownOpen)}
-                      disabled={!selectedSpace}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                    >
-                      <span className={selectedPage === '' ? 'text-gray-500' : 'text-gray-700'}>
-                        {selectedPage === '' ? 'Choose a page...' : selectedPage}
-                      </span>
-                      {isPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {/* Dropdown */}
-                    {isPageDropdownOpen && selectedSpace && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        {/* Search Input */}
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <input
-                            type="text"
-                            value={pageSearch}
-                            onChange={e => setPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        {/* Page List */}
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found in this space
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase())).map(page => (
-                              <button
-                                key={page}
-                                type="button"
-                                onClick={() => { handlePageSelect(page); setIsPageDropdownOpen(false); setPageSearch(''); }}
-                                className={`w-full text-left flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0 ${selectedPage === page ? 'bg-confluence-blue/10' : ''}`}
-                              >
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                                {selectedPage === page && <Check className="w-4 h-4 text-confluence-blue" />}
-                              </button>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker value={selectedPage} onChange={setSelectedPage} />
                 </div>
 
                 {/* AI Actions */}
@@ -878,13 +923,28 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                     )}
                   </button>
                 )}
+                {(isProcessing || isAnalyzingImpact) && (
+                  <CancelButton onClick={cancelRequests} className="w-full mt-2" />
+                )}
               </div>
             </div>
 
             {/* Middle Column - Original Code */}
             <div className="space-y-6">
               <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
-                <h3 className="font-semibold text-gray-800 mb-4">Original Code</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-gray-800">Original Code</h3>
+                  {/* The page selection carries over, so the diagram tool opens on this code */}
+                  {detectedCode && (
+                    <button
+                      onClick={() => onFeatureSelect('diagram')}
+                      className="flex items-center space-x-1 text-sm text-confluence-blue hover:underline"
+                    >
+                      <Workflow className="w-4 h-4" />
+                      <span>Draw a diagram</span>
+                    </button>
+                  )}
+                </div>
                 {detectedCode ? (
                   <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg p-4 overflow-auto max-h-96 border border-white/10">
                     <pre className="text-sm text-gray-300">
@@ -903,7 +963,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                 <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
                   <h3 className="font-semibold text-gray-800 mb-4">Page Summary</h3>
                   <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
-                    <p className="text-sm text-gray-700">{summary}</p>
+                    <MarkdownView className="text-sm">{summary}</MarkdownView>
                   </div>
                 </div>
               )}
@@ -1000,7 +1060,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                   <div className="mb-4">
                     <h4 className="font-medium text-gray-800 mb-2">Impact Summary</h4>
                     <div className="bg-white/70 backdrop-blur-sm rounded-lg p-3 border border-white/20">
-                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{impactAnalysis.impact_analysis}</p>
+                      <MarkdownView className="text-sm">{impactAnalysis.impact_analysis}</MarkdownView>
                     </div>
                   </div>
 
@@ -1008,7 +1068,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                   <div className="mb-4">
                     <h4 className="font-medium text-gray-800 mb-2">Recommendations</h4>
                     <div className="bg-white/70 backdrop-blur-sm rounded-lg p-3 border border-white/20">
-                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{impactAnalysis.recommendations}</p>
+                      <MarkdownView className="text-sm">{impactAnalysis.recommendations}</MarkdownView>
                     </div>
                   </div>
 
@@ -1016,7 +1076,7 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                   <div className="mb-4">
                     <h4 className="font-medium text-gray-800 mb-2">Risk Analysis</h4>
                     <div className="bg-white/70 backdrop-blur-sm rounded-lg p-3 border border-white/20">
-                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{impactAnalysis.risk_analysis}</p>
+                      <MarkdownView className="text-sm">{impactAnalysis.risk_analysis}</MarkdownView>
                     </div>
                   </div>
 
@@ -1058,28 +1118,17 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                       <label className="text-sm font-medium text-gray-700">Export Format:</label>
                       <select
                         value={exportFormat}
-                        onChange={(e) => setExportFormat(e.target.value)}
+                        onChange={(e) => setExportFormat(e.target.value as ExportFormat | 'txt')}
                         className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
                       >
-                        <option value="markdown">Markdown</option>
-                        <option value="pdf">PDF</option>
-                        <option value="docx">Word Document</option>
+                        {EXPORT_FORMATS.map(f => (
+                          <option key={f.value} value={f.value}>{f.label}</option>
+                        ))}
                         <option value="txt">Plain Text</option>
                       </select>
                     </div>
                     
-                    <div className="flex items-center space-x-2 mb-2">
-                      <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                      <select
-                        id="save-mode"
-                        value={saveMode}
-                        onChange={e => setSaveMode(e.target.value)}
-                        className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                      >
-                        <option value="append">Append</option>
-                        <option value="overwrite">Overwrite</option>
-                      </select>
-                    </div>
+                    <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
                     
                     <div className="flex space-x-2">
                       <button
@@ -1089,57 +1138,15 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
                         <Download className="w-4 h-4" />
                         <span>Export</span>
                       </button>
+                      <PinButton onClick={pinCode} pinned={pinned} />
                       <button
-                        onClick={async () => {
-                          setIsPreviewLoading(true);
-                          setShowPreview(false);
-                          try {
-                            const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                            if (!space || !page) {
-                              alert('Confluence space or page not specified in macro src URL.');
-                              return;
-                            }
-                            const content = modificationOutput || conversionOutput || aiActionOutput || processedCode || '';
-                            const preview = await apiService.previewSaveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: content,
-                              mode: saveMode,
-                            });
-                            setPreviewContent(preview.preview_content);
-                            setPreviewDiff(preview.diff);
-                            setShowPreview(true);
-                          } catch (err: any) {
-                            alert('Failed to generate preview: ' + (err.message || err));
-                          } finally {
-                            setIsPreviewLoading(false);
-                          }
-                        }}
+                        onClick={() => previewSave()}
                         className="flex items-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                       >
                         {isPreviewLoading ? "Loading..." : "Preview"}
                       </button>
                       <button
-                        onClick={async () => {
-                          const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                          if (!space || !page) {
-                            alert('Confluence space or page not specified in macro src URL.');
-                            return;
-                          }
-                          try {
-                            const content = modificationOutput || conversionOutput || aiActionOutput || processedCode || '';
-                            await apiService.saveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: content,
-                              mode: saveMode,
-                            });
-                            setShowToast(true);
-                            setTimeout(() => setShowToast(false), 3000);
-                          } catch (err: any) {
-                            alert('Failed to save to Confluence: ' + (err.message || err));
-                          }
-                        }}
+                        onClick={saveToHostPage}
                         className="flex items-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                       >
                         <Save className="w-4 h-4" />
@@ -1153,31 +1160,27 @@ const CodeAssistant: React.FC<CodeAssistantProps> = ({ onClose, onFeatureSelect,
           </div>
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} onReview={() => previewSave()} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+          onSave={saveToHostPage}
+        />
       )}
     </div>
   );
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { copyText } from '../utils/clipboard';
+import { highlightCode, isDiffLanguage } from '../utils/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  // Colour added, removed and hunk lines whatever the language says
+  diff?: boolean;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-400';
+  if (line.startsWith('+')) return 'bg-green-900/40 text-green-200';
+  if (line.startsWith('-')) return 'bg-red-900/40 text-red-200';
+  if (line.startsWith('@@')) return 'text-blue-300';
+  return '';
+}
+
+// A fenced code block: language label, copy button, and highlighting. Diffs
+// are coloured line by line instead, so changes stand out in any language.
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language = '', diff = false }) => {
+  const [copied, setCopied] = useState(false);
+  const showDiff = diff || isDiffLanguage(language);
+  const highlighted = useMemo(() => (showDiff ? null : highlightCode(code, language)), [code, language, showDiff]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    if (await copyText(code)) setCopied(true);
+  };
+
+  return (
+    <div className="my-3 rounded-lg overflow-hidden border border-gray-700 bg-gray-900 text-sm">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-800 text-xs text-gray-300">
+        <span className="font-mono">{showDiff && !language ? 'diff' : language || 'text'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center space-x-1 hover:text-white"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      {showDiff ? (
+        <pre className="py-2 overflow-x-auto font-mono text-gray-100">
+          {code.split('\n').map((line, index) => (
+            <div key={index} className={`px-3 whitespace-pre ${diffLineClass(line)}`}>{line || ' '}</div>
+          ))}
+        </pre>
+      ) : highlighted !== null ? (
+        <pre className="p-3 overflow-x-auto font-mono text-gray-100">
+          <code className="hljs !bg-transparent !p-0" dangerouslySetInnerHTML={{ __html: highlighted }} />
+        </pre>
+      ) : (
+        <pre className="p-3 overflow-x-auto font-mono text-gray-100">
+          <code>{code}</code>
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
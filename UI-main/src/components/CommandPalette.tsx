@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Command as CommandIcon, FileText, History, Keyboard, Search } from 'lucide-react';
+import ShortcutSettings from './ShortcutSettings';
+import PublishLog from './PublishLog';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
+import { Command, findCommand, getCommands, subscribeToCommands } from '../services/commandRegistry';
+import { OPEN_PALETTE, eventToKeys, formatShortcut, getShortcuts, subscribeToShortcuts } from '../services/keyboardShortcuts';
+import { addRecentPages } from '../services/pagePreferences';
+import { fuzzyFilter } from '../utils/fuzzySearch';
+
+type PaletteView = 'commands' | 'pages' | 'shortcuts' | 'publishes';
+
+// Commands that open another view of the palette, which stays open for them
+const VIEW_COMMANDS = ['palette.pages', 'palette.shortcuts', 'palette.publishLog'];
+
+const MAX_PAGE_RESULTS = 50;
+
+// Ctrl/Cmd+K palette over the command registry, plus the global keyboard
+// shortcuts. Lists every registered command (greyed out when it can't run),
+// jumps to a page of the current space, edits the shortcuts, and shows the
+// publish log of saves to Confluence.
+const CommandPalette: React.FC = () => {
+  const { spaceKey, pages, setPageSlot, setSelectedPages } = useWorkspace();
+  const { route } = useRoute();
+  const [isOpen, setIsOpen] = useState(false);
+  const [view, setView] = useState<PaletteView>('commands');
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [commands, setCommands] = useState<Command[]>(getCommands);
+  const [shortcuts, setShortcuts] = useState(getShortcuts);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeToCommands(() => setCommands(getCommands())), []);
+  useEffect(() => subscribeToShortcuts(() => setShortcuts(getShortcuts())), []);
+
+  const openView = useCallback((next: PaletteView) => {
+    setView(next);
+    setQuery('');
+    setActiveIndex(0);
+    setIsOpen(true);
+  }, []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setView('commands');
+    setQuery('');
+  }, []);
+
+  useCommands([
+    { id: 'palette.pages', title: 'Jump to page...', group: 'Pages', keywords: 'select choose open', disabled: !spaceKey, run: () => openView('pages') },
+    { id: 'palette.shortcuts', title: 'Keyboard shortcuts...', group: 'Settings', keywords: 'keys bindings configure', run: () => openView('shortcuts') },
+    { id: 'palette.publishLog', title: 'Publish log...', group: 'Pages', keywords: 'saves history undo rollback restore version', run: () => openView('publishes') },
+  ]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const keys = eventToKeys(e);
+      if (!keys) return;
+      if (keys === shortcuts[OPEN_PALETTE]) {
+        e.preventDefault();
+        if (isOpen) close();
+        else openView('commands');
+        return;
+      }
+      // The palette's own keys win while it's open
+      if (isOpen) return;
+      const actionId = Object.keys(shortcuts).find(id => id !== OPEN_PALETTE && shortcuts[id] === keys);
+      const command = actionId && findCommand(actionId);
+      if (command && !command.disabled) {
+        e.preventDefault();
+        command.run();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, isOpen, openView, close]);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen, view]);
+
+  const commandResults = useMemo(
+    () => fuzzyFilter(commands, query, command => `${command.title} ${command.group} ${command.keywords || ''}`).map(({ item }) => item),
+    [commands, query]
+  );
+
+  const pageResults = useMemo(
+    () => fuzzyFilter(pages, query, title => title).slice(0, MAX_PAGE_RESULTS).map(({ item }) => item),
+    [pages, query]
+  );
+
+  const resultCount = view === 'commands' ? commandResults.length : view === 'pages' ? pageResults.length : 0;
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, view]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: Command) => {
+    if (command.disabled) return;
+    if (!VIEW_COMMANDS.includes(command.id)) close();
+    command.run();
+  };
+
+  // Multi-page views add the page to the selection; the others pick it as their (first) page
+  const jumpToPage = (page: string) => {
+    if (route.mode === 'agent' || (route.mode === 'tool' && route.tool === 'search') || !route.mode) {
+      setSelectedPages(current => (current.includes(page) ? current : [...current, page]));
+    } else {
+      setPageSlot(0, page);
+    }
+    addRecentPages(spaceKey, [page]);
+    close();
+  };
+
+  const choose = (index: number) => {
+    if (view === 'commands' && commandResults[index]) runCommand(commandResults[index]);
+    if (view === 'pages' && pageResults[index]) jumpToPage(pageResults[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, resultCount - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(activeIndex);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (view === 'commands') close();
+      else openView('commands');
+    } else if (e.key === 'Backspace' && !query && view !== 'commands') {
+      openView('commands');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const placeholder = view === 'pages'
+    ? `Jump to a page in ${spaceKey}...`
+    : view === 'shortcuts' ? 'Keyboard shortcuts' : view === 'publishes' ? 'Publish log' : 'Type a command...';
+  const readOnly = view === 'shortcuts' || view === 'publishes';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/20 pt-[15vh] p-4" onMouseDown={close}>
+      <div
+        className="w-full max-w-xl bg-white/95 backdrop-blur-xl border-2 border-[#DFE1E6] rounded-xl shadow-2xl overflow-hidden"
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center px-3 border-b border-gray-200">
+          {view === 'pages' ? <FileText className="w-4 h-4 text-gray-400" />
+            : view === 'shortcuts' ? <Keyboard className="w-4 h-4 text-gray-400" />
+            : view === 'publishes' ? <History className="w-4 h-4 text-gray-400" />
+            : <Search className="w-4 h-4 text-gray-400" />}
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={placeholder}
+            readOnly={readOnly}
+            className="flex-1 px-2 py-3 text-sm bg-transparent outline-none"
+          />
+          <kbd className="text-xs text-gray-400">Esc</kbd>
+        </div>
+
+        {view === 'shortcuts' ? (
+          <ShortcutSettings />
+        ) : view === 'publishes' ? (
+          <PublishLog />
+        ) : (
+          <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+            {resultCount === 0 && (
+              <div className="px-4 py-6 text-center text-sm text-gray-500">
+                {view === 'pages' && pages.length === 0 ? 'No pages listed for this space yet.' : 'Nothing matches.'}
+              </div>
+            )}
+            {view === 'commands' && commandResults.map((command, index) => (
+              <div
+                key={command.id}
+                data-index={index}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runCommand(command)}
+                className={`flex items-center justify-between px-4 py-2 text-sm ${
+                  command.disabled ? 'text-gray-400 cursor-default' : 'text-gray-800 cursor-pointer'
+                } ${index === activeIndex ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <CommandIcon className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                  <span className="truncate">{command.title}</span>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                  {shortcuts[command.id] && (
+                    <kbd className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 text-xs text-gray-500 font-mono">
+                      {formatShortcut(shortcuts[command.id])}
+                    </kbd>
+                  )}
+                  <span className="text-xs text-gray-400">{command.group}</span>
+                </div>
+              </div>
+            ))}
+            {view === 'pages' && pageResults.map((page, index) => (
+              <div
+                key={page}
+                data-index={index}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => jumpToPage(page)}
+                className={`flex items-center space-x-2 px-4 py-2 text-sm text-gray-800 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+              >
+                <FileText className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                <span className="truncate">{page}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
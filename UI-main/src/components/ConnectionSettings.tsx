@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { Server, Check, Plus, Trash2, Activity, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import {
+  ConnectionProfile,
+  HealthCheckResult,
+  getProfiles,
+  getActiveProfileId,
+  setActiveProfile,
+  addCustomProfile,
+  removeCustomProfile,
+  loadConfigProfiles,
+  subscribeToProfiles,
+  checkBackendHealth,
+} from '../services/connectionProfiles';
+
+interface ConnectionSettingsProps {
+  style?: React.CSSProperties;
+}
+
+const sourceLabels: Record<ConnectionProfile['source'], string> = {
+  builtin: 'built-in',
+  env: 'vite env',
+  config: 'api-profiles.json',
+  custom: 'custom',
+};
+
+const ConnectionSettings: React.FC<ConnectionSettingsProps> = ({ style }) => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(getProfiles());
+  const [activeProfileId, setActiveProfileId] = useState(getActiveProfileId());
+  const [newName, setNewName] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  const [healthResults, setHealthResults] = useState<HealthCheckResult[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setProfiles(getProfiles());
+      setActiveProfileId(getActiveProfileId());
+    };
+    const unsubscribe = subscribeToProfiles(refresh);
+    loadConfigProfiles();
+    return unsubscribe;
+  }, []);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const handleSelect = (profileId: string) => {
+    setActiveProfile(profileId);
+    setHealthResults(null);
+  };
+
+  const handleAdd = () => {
+    if (!/^https?:\/\//i.test(newUrl.trim())) return;
+    const profile = addCustomProfile(newName, newUrl);
+    setActiveProfile(profile.id);
+    setNewName('');
+    setNewUrl('');
+    setHealthResults(null);
+  };
+
+  const runHealthCheck = async () => {
+    if (!activeProfile) return;
+    setIsChecking(true);
+    setHealthResults(null);
+    try {
+      setHealthResults(await checkBackendHealth(activeProfile.baseUrl));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed z-40" style={style}>
+      <div className="bg-white/90 backdrop-blur-xl border border-white/30 rounded-2xl shadow-2xl w-96 overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-confluence-blue/90 to-confluence-light-blue/90 backdrop-blur-xl p-4 text-white border-b border-white/10">
+          <div className="flex items-center space-x-3">
+            <Server className="w-6 h-6" />
+            <div>
+              <h3 className="text-lg font-bold">Backend Connection</h3>
+              <p className="text-blue-100/90 text-sm">Choose which backend this browser talks to</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Profiles */}
+        <div className="p-4 space-y-2 max-h-64 overflow-y-auto">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              className={`w-full p-3 rounded-lg border transition-all duration-200 flex items-center justify-between ${
+                profile.id === activeProfileId
+                  ? 'bg-confluence-blue/20 border-confluence-blue/30 text-confluence-blue'
+                  : 'bg-white/60 border-white/30 hover:bg-white/80 text-gray-700'
+              }`}
+            >
+              <button onClick={() => handleSelect(profile.id)} className="flex-1 text-left min-w-0">
+                <div className="font-medium truncate">{profile.name}</div>
+                <div className="text-xs opacity-70 truncate">{profile.baseUrl}</div>
+                <div className="text-[10px] uppercase tracking-wide opacity-60">{sourceLabels[profile.source]}</div>
+              </button>
+              <div className="flex items-center space-x-2 ml-2">
+                {profile.source === 'custom' && (
+                  <button
+                    onClick={() => removeCustomProfile(profile.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                {profile.id === activeProfileId && <Check className="w-5 h-5 text-confluence-blue" />}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Add custom profile */}
+        <div className="px-4 pb-4 space-y-2">
+          <div className="text-sm font-medium text-gray-700">Add a backend</div>
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="Name (e.g. Local FastAPI)"
+            className="w-full px-3 py-2 border border-white/30 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue bg-white/80"
+          />
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newUrl}
+              onChange={e => setNewUrl(e.target.value)}
+              placeholder="http://localhost:8000"
+              className="flex-1 px-3 py-2 border border-white/30 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue bg-white/80"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!/^https?:\/\//i.test(newUrl.trim())}
+              className="px-3 py-2 bg-confluence-blue/90 text-white rounded-lg hover:bg-confluence-blue disabled:bg-gray-300 disabled:cursor-not-allowed"
+              title="Add and activate"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Health check */}
+        <div className="p-4 bg-white/50 backdrop-blur-sm border-t border-white/20 space-y-2">
+          <button
+            onClick={runHealthCheck}
+            disabled={isChecking || !activeProfile}
+            className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-green-600/90 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-300 transition-colors text-sm"
+          >
+            {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Activity className="w-4 h-4" />}
+            <span>{isChecking ? 'Checking...' : 'Run Health Check'}</span>
+          </button>
+          {healthResults && healthResults.map(result => (
+            <div key={result.endpoint} className="flex items-center justify-between text-xs">
+              <div className="flex items-center space-x-2">
+                {result.ok ? (
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-500" />
+                )}
+                <span className="font-mono text-gray-700">GET {result.endpoint}</span>
+              </div>
+              <span className={result.ok ? 'text-green-700' : 'text-red-600'}>
+                {result.status ? `${result.status} · ` : ''}{result.latencyMs} ms · {result.message}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionSettings;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Check } from 'lucide-react';
+
+interface CopyLinkButtonProps {
+  className?: string;
+}
+
+// Copies the app's URL, which always holds the open tool, selection, query and
+// history entry, so the link reopens exactly this analysis.
+const CopyLinkButton: React.FC<CopyLinkButtonProps> = ({ className = '' }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be blocked in an embedded frame; let the user copy it by hand
+      window.prompt('Copy this link:', window.location.href);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className={`flex items-center space-x-1 rounded-lg px-3 py-1 text-sm transition-colors hover:bg-white/10 hover:text-white ${className}`}
+      title="Copy a link to this analysis"
+    >
+      {copied ? <Check className="w-4 h-4" /> : <Link className="w-4 h-4" />}
+      <span>{copied ? 'Link copied' : 'Copy link'}</span>
+    </button>
+  );
+};
+
+export default CopyLinkButton;
@@ -0,0 +1,486 @@
+import React, { useState, useEffect } from 'react';
+import { Workflow, Code, BarChart3, FileText, Download, Save, X, ChevronDown, Loader2, Zap, Search, Video, TrendingUp, TestTube, AlertCircle, Copy, Check } from 'lucide-react';
+import { FeatureType, AppMode } from '../App';
+import { apiService, DiagramType, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { copyText } from '../utils/clipboard';
+import { blobToBase64, renderMermaid, standaloneSvg, svgToPng } from '../utils/mermaid';
+import CustomScrollbar from './CustomScrollbar';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
+import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+
+interface DiagramGeneratorProps {
+  onClose: () => void;
+  onFeatureSelect: (feature: FeatureType) => void;
+  onModeSelect: (mode: AppMode) => void;
+}
+
+const DIAGRAM_TYPES: Array<{ id: DiagramType; label: string; description: string }> = [
+  { id: 'flowchart', label: 'Flowchart', description: 'Components and the flow between them' },
+  { id: 'sequence', label: 'Sequence', description: 'Interactions between participants, in order' },
+  { id: 'class', label: 'Class', description: 'Classes or modules and their relationships' },
+  { id: 'er', label: 'Entity Relationship', description: 'Entities, attributes and relationships' },
+];
+
+// How long the editor waits after the last key press before redrawing
+const PREVIEW_DELAY_MS = 300;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Draws Mermaid flowchart, sequence, class and ER diagrams of a code or text
+// page. The generated source can be edited with a live preview, exported as
+// SVG or PNG, and saved to the host page as an image with its source.
+const DiagramGenerator: React.FC<DiagramGeneratorProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    pageSlots,
+    setPageSlot,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
+  const selectedPage = pageSlots[0] || '';
+  const setSelectedPage = (page: string) => setPageSlot(0, page);
+  const [diagramType, setDiagramType] = useState<DiagramType>('flowchart');
+  const [instruction, setInstruction] = useState('');
+  const [source, setSource] = useState('');
+  const [sourceKind, setSourceKind] = useState<'code' | 'text' | ''>('');
+  const [svg, setSvg] = useState('');
+  const [renderError, setRenderError] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, conflict, dismissConflict } = usePublish('diagram');
+  const { pin, pinned } = usePinToReport('Diagram Generator');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
+  const [showToast, setShowToast] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Diagrams aren't kept in history; a link fills in the focus
+  useRouteResult(null, null, setInstruction);
+
+  const features = [
+    { id: 'search' as const, label: 'AI Powered Search', icon: Search },
+    { id: 'video' as const, label: 'Video Summarizer', icon: Video },
+    { id: 'code' as const, label: 'Code Assistant', icon: Code },
+    { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
+    { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
+    { id: 'image' as const, label: 'Chart Builder', icon: BarChart3 },
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
+  ];
+
+  // Spaces and pages are loaded once for every tool by the workspace
+  useEffect(() => {
+    if (loadError) setError(loadError);
+  }, [loadError]);
+
+  // Redraw shortly after the source stops changing. A diagram that doesn't
+  // parse keeps the last good drawing on screen, with the error under it.
+  useEffect(() => {
+    if (!source.trim()) {
+      setSvg('');
+      setRenderError('');
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderMermaid(source)
+        .then(result => {
+          if (cancelled) return;
+          setSvg(result);
+          setRenderError('');
+        })
+        .catch(err => {
+          if (!cancelled) setRenderError(err instanceof Error ? err.message : String(err));
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const generateDiagram = async () => {
+    if (!selectedSpace || !selectedPage) {
+      setError('Please select a space and page.');
+      return;
+    }
+    setIsGenerating(true);
+    setError('');
+    updateRoute({ query: instruction || undefined });
+
+    try {
+      const result = await apiService.generateDiagram({
+        space_key: selectedSpace,
+        page_title: selectedPage,
+        page_id: pageIds[selectedPage],
+        diagram_type: diagramType,
+        instruction: instruction || undefined,
+      }, { signal: getSignal() });
+      setSource(result.mermaid);
+      setSourceKind(result.source_kind);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate the diagram'));
+      console.error('Error generating diagram:', err);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const baseFilename = `${(selectedPage || 'diagram').replace(/[^\w-]+/g, '_')}_${diagramType}`;
+
+  const exportDiagram = async (format: 'svg' | 'png') => {
+    if (!svg) return;
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([standaloneSvg(svg).svg], { type: 'image/svg+xml' }), `${baseFilename}.svg`);
+      } else {
+        downloadBlob(await svgToPng(svg), `${baseFilename}.png`);
+      }
+    } catch (err) {
+      setError(toToolError(err, 'Failed to export the diagram'));
+      console.error('Error exporting diagram:', err);
+    }
+  };
+
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
+    }
+    if (!svg) return;
+    setIsSaving(true);
+    await publish(page, async expectedVersion => {
+      const png = await blobToBase64(await svgToPng(svg));
+      const saved = await apiService.saveDiagramToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        mermaid: source,
+        png,
+        filename: `${baseFilename}_${Date.now()}.png`,
+        title: selectedPage ? `${DIAGRAM_TYPES.find(t => t.id === diagramType)?.label} diagram: ${selectedPage}` : undefined,
+        ...saveOptions,
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to save to Confluence')));
+    setIsSaving(false);
+  };
+
+  // Pinned as its Mermaid source, which the report exports draw again
+  const pinDiagram = () => {
+    if (!source) return;
+    pin({
+      title: selectedPage ? `${DIAGRAM_TYPES.find(t => t.id === diagramType)?.label} diagram: ${selectedPage}` : undefined,
+      markdown: `\`\`\`mermaid\n${source.trim()}\n\`\`\``,
+      pages: selectedPage ? [selectedPage] : [],
+    }, err => setError(toToolError(err, 'Failed to pin the diagram')));
+  };
+
+  const copySource = async () => {
+    if (await copyText(source)) setCopied(true);
+  };
+
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Generate the diagram', group: 'Diagram Generator', disabled: isGenerating || !selectedPage, run: generateDiagram },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the Mermaid source', group: 'Diagram Generator', disabled: !source, run: copySource },
+    { id: TOOL_COMMANDS.export, title: 'Export the diagram as SVG', group: 'Diagram Generator', disabled: !svg, run: () => exportDiagram('svg') },
+    { id: 'diagram.exportPng', title: 'Export the diagram as PNG', group: 'Diagram Generator', disabled: !svg, run: () => exportDiagram('png') },
+    { id: TOOL_COMMANDS.save, title: 'Save the diagram to Confluence', group: 'Diagram Generator', disabled: !svg || isSaving, run: saveToHostPage },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the diagram to the report', group: 'Diagram Generator', disabled: !svg, run: pinDiagram },
+  ]);
+
+  return (
+    <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
+      <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-confluence-blue/90 to-confluence-light-blue/90 backdrop-blur-xl p-6 text-white border-b border-white/10">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Workflow className="w-8 h-8" />
+              <div>
+                <h2 className="text-2xl font-bold">Confluence AI Assistant</h2>
+                <p className="text-blue-100/90">AI-powered tools for your Confluence workspace</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
+              <button
+                onClick={() => onModeSelect('agent')}
+                className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
+              >
+                Switch to Agent Mode
+              </button>
+              <button onClick={onClose} className="text-white hover:bg-white/10 rounded-full p-2 backdrop-blur-sm">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+
+          {/* Feature Navigation */}
+          <div className="mt-6 relative">
+            <CustomScrollbar className="pb-2">
+              <div className="flex gap-2">
+                {features.map((feature) => {
+                  const Icon = feature.icon;
+                  const isActive = feature.id === 'diagram';
+
+                  return (
+                    <button
+                      key={feature.id}
+                      onClick={() => onFeatureSelect(feature.id)}
+                      className={`flex items-center space-x-2 px-4 py-2 rounded-lg backdrop-blur-sm border transition-all duration-200 whitespace-nowrap flex-shrink-0 ${
+                        isActive
+                          ? 'bg-white/90 text-confluence-blue shadow-lg border-white/30'
+                          : 'bg-white/10 text-white hover:bg-white/20 border-white/10'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span className="text-sm font-medium">{feature.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </CustomScrollbar>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            {/* Left Column - Configuration */}
+            <div className="space-y-6">
+              <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
+                <h3 className="font-semibold text-gray-800 mb-4 flex items-center">
+                  <FileText className="w-5 h-5 mr-2" />
+                  Configuration
+                </h3>
+
+                {/* Space Selection */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Select Confluence Space
+                  </label>
+                  <div className="relative">
+                    <select
+                      value={selectedSpace}
+                      onChange={(e) => setSelectedSpace(e.target.value)}
+                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue appearance-none bg-white/70 backdrop-blur-sm"
+                    >
+                      <option value="">Choose a space...</option>
+                      {spaces.map(space => (
+                        <option key={space.key} value={space.key}>{space.name} ({space.key})</option>
+                      ))}
+                    </select>
+                    <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+                  </div>
+                </div>
+
+                {/* Page Selection */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Select Code or Design Page
+                  </label>
+                  <SpacePagePicker value={selectedPage} onChange={setSelectedPage} />
+                </div>
+
+                {/* Diagram Type */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Diagram Type
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {DIAGRAM_TYPES.map(type => (
+                      <button
+                        key={type.id}
+                        type="button"
+                        onClick={() => setDiagramType(type.id)}
+                        title={type.description}
+                        className={`p-2 rounded-lg border text-sm text-left transition-colors ${
+                          diagramType === type.id
+                            ? 'border-confluence-blue bg-confluence-blue/10 text-confluence-blue'
+                            : 'border-white/30 bg-white/70 text-gray-700 hover:bg-white/90'
+                        }`}
+                      >
+                        {type.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Focus */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Focus (optional)
+                  </label>
+                  <VoiceRecorder
+                    value={instruction}
+                    onChange={setInstruction}
+                    onConfirm={setInstruction}
+                    inputPlaceholder="e.g. the login flow, or only the payment service..."
+                  />
+                </div>
+
+                <button
+                  onClick={generateDiagram}
+                  disabled={!selectedSpace || !selectedPage || isGenerating}
+                  className="w-full bg-confluence-blue/90 backdrop-blur-sm text-white py-3 px-4 rounded-lg hover:bg-confluence-blue disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center space-x-2 transition-colors border border-white/10"
+                >
+                  {isGenerating ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      <span>Generating...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Zap className="w-5 h-5" />
+                      <span>Generate Diagram</span>
+                    </>
+                  )}
+                </button>
+                {(isGenerating || isSaving) && (
+                  <CancelButton onClick={cancelRequests} className="w-full mt-2" />
+                )}
+              </div>
+            </div>
+
+            {/* Middle Column - Mermaid Source */}
+            <div className="space-y-6">
+              <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-gray-800">Mermaid Source</h3>
+                  {source && (
+                    <button
+                      onClick={copySource}
+                      className="flex items-center space-x-1 text-sm text-confluence-blue hover:underline"
+                    >
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      <span>{copied ? 'Copied' : 'Copy'}</span>
+                    </button>
+                  )}
+                </div>
+                {sourceKind && (
+                  <p className="text-xs text-gray-500 mb-2">
+                    Drawn from the page's {sourceKind === 'code' ? 'code' : 'text'}. Edit the source to change the diagram.
+                  </p>
+                )}
+                <textarea
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  spellCheck={false}
+                  placeholder={'Generate a diagram, or write Mermaid here, e.g.\nflowchart TD\n  A[Client] --> B[API]'}
+                  className="w-full h-96 p-3 font-mono text-sm bg-gray-900/90 text-gray-100 rounded-lg border border-white/10 focus:ring-2 focus:ring-confluence-blue resize-y"
+                />
+              </div>
+            </div>
+
+            {/* Right Column - Preview and Export */}
+            <div className="space-y-6">
+              <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
+                <h3 className="font-semibold text-gray-800 mb-4">Preview</h3>
+                {svg ? (
+                  // Mermaid renders with securityLevel 'strict', so its SVG carries no scripts or HTML labels
+                  <div className="bg-white rounded-lg p-3 border border-gray-200 overflow-auto max-h-96" dangerouslySetInnerHTML={{ __html: svg }} />
+                ) : (
+                  <div className="text-center py-8 text-gray-500">
+                    <Workflow className="w-12 h-12 mx-auto mb-2 text-gray-400" />
+                    <p>Generate or write a diagram to preview it</p>
+                  </div>
+                )}
+                {renderError && (
+                  <div className="mt-3 flex items-start space-x-2 p-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span className="whitespace-pre-wrap break-words">{renderError}</span>
+                  </div>
+                )}
+              </div>
+
+              {svg && (
+                <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
+                  <h4 className="font-semibold text-gray-800 mb-3">Export Options</h4>
+                  <div className="space-y-3">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => exportDiagram('svg')}
+                        className="flex items-center space-x-2 px-4 py-2 bg-green-600/90 backdrop-blur-sm text-white rounded-lg hover:bg-green-700 transition-colors border border-white/10"
+                      >
+                        <Download className="w-4 h-4" />
+                        <span>SVG</span>
+                      </button>
+                      <button
+                        onClick={() => exportDiagram('png')}
+                        className="flex items-center space-x-2 px-4 py-2 bg-green-600/90 backdrop-blur-sm text-white rounded-lg hover:bg-green-700 transition-colors border border-white/10"
+                      >
+                        <Download className="w-4 h-4" />
+                        <span>PNG</span>
+                      </button>
+                      <PinButton onClick={pinDiagram} pinned={pinned} />
+                    </div>
+
+                    <SaveModeSelect id="diagram-save-mode" value={saveOptions} onChange={setSaveOptions} />
+
+                    <button
+                      onClick={saveToHostPage}
+                      disabled={isSaving}
+                      className="flex items-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue disabled:bg-gray-300 transition-colors border border-white/10"
+                    >
+                      {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      <span>Save to Confluence</span>
+                    </button>
+                    <p className="text-xs text-gray-500">
+                      The diagram is attached to the page as a PNG, with its Mermaid source in an expand section below it.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} />}
+      {showToast && (
+        <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
+          Saved to Confluence! Please refresh this Confluence page to see your changes.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagramGenerator;
@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { Search, Pin, PinOff, Trash2, Download, Upload, CheckCircle } from 'lucide-react';
+import type { HistoryRecord } from '../services/historyStore';
+import type { HistoryController } from '../hooks/useHistory';
+
+interface HistoryPanelProps<T> {
+  history: HistoryController<T>;
+  selectedId?: string | null;
+  onSelect: (entry: HistoryRecord<T>) => void;
+  // Display names for space keys in the filter and the entry details
+  spaces?: { name: string; key: string }[];
+  className?: string;
+}
+
+// Search, filter, pin, delete, export and import for one tool's history.
+function HistoryPanel<T>({ history, selectedId, onSelect, spaces = [], className = '' }: HistoryPanelProps<T>) {
+  const { entries, spaceKeys, totalCount, filter, setFilter, togglePin, removeEntry, exportEntries, importEntries } = history;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState('');
+
+  const spaceName = (key: string) => spaces.find(s => s.key === key)?.name || key;
+  const hasFilter = !!(filter.text || filter.spaceKey || filter.from || filter.to || filter.pinnedOnly);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importEntries(file);
+      setNotice(`Imported ${count} ${count === 1 ? 'entry' : 'entries'}.`);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to import history');
+    }
+  };
+
+  const handleDelete = (entry: HistoryRecord<T>) => {
+    if (window.confirm(`Delete "${entry.title.slice(0, 60)}" from history?`)) {
+      removeEntry(entry.id);
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filter.text || ''}
+            onChange={e => setFilter(prev => ({ ...prev, text: e.target.value }))}
+            placeholder="Search goals and outputs..."
+            className="w-full pl-8 pr-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white/70"
+          />
+        </div>
+        <select
+          value={filter.spaceKey || ''}
+          onChange={e => setFilter(prev => ({ ...prev, spaceKey: e.target.value || undefined }))}
+          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white/70"
+        >
+          <option value="">All spaces</option>
+          {spaceKeys.map(key => (
+            <option key={key} value={key}>{spaceName(key)}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filter.from || ''}
+          onChange={e => setFilter(prev => ({ ...prev, from: e.target.value || undefined }))}
+          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white/70"
+          title="From"
+        />
+        <input
+          type="date"
+          value={filter.to || ''}
+          onChange={e => setFilter(prev => ({ ...prev, to: e.target.value || undefined }))}
+          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white/70"
+          title="To"
+        />
+        <label className="flex items-center space-x-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!filter.pinnedOnly}
+            onChange={e => setFilter(prev => ({ ...prev, pinnedOnly: e.target.checked }))}
+          />
+          <span>Pinned</span>
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {hasFilter ? `${entries.length} of ${totalCount}` : totalCount} {totalCount === 1 ? 'entry' : 'entries'}
+          {hasFilter && (
+            <button onClick={() => setFilter({})} className="ml-2 text-orange-600 hover:underline">
+              Clear filters
+            </button>
+          )}
+        </span>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={exportEntries}
+            disabled={entries.length === 0}
+            className="flex items-center space-x-1 hover:text-gray-800 disabled:opacity-50"
+            title="Export the entries shown as JSON"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 hover:text-gray-800"
+            title="Import entries from a JSON export"
+          >
+            <Upload className="w-3 h-3" />
+            <span>Import</span>
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+      {notice && <div className="text-xs text-gray-600">{notice}</div>}
+
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {entries.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-4">No matching history.</div>
+        ) : entries.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => onSelect(entry)}
+            className={`p-3 rounded-lg cursor-pointer transition-colors border ${
+              selectedId === entry.id
+                ? 'bg-orange-100/80 border-orange-300 text-orange-800'
+                : 'bg-white/50 border-white/30 hover:bg-white/70 text-gray-700'
+            }`}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm mb-1 line-clamp-2">
+                  {entry.title.length > 100 ? `${entry.title.substring(0, 100)}...` : entry.title}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {[entry.spaceKey && spaceName(entry.spaceKey), entry.pageTitles.join(', '), new Date(entry.createdAt).toLocaleString()].filter(Boolean).join(' • ')}
+                </div>
+              </div>
+              <div className="ml-2 flex items-center space-x-1 flex-shrink-0">
+                {selectedId === entry.id && <CheckCircle className="w-4 h-4 text-orange-600" />}
+                <button
+                  onClick={e => { e.stopPropagation(); togglePin(entry); }}
+                  className={`p-1 rounded hover:bg-white/70 ${entry.pinned ? 'text-orange-600' : 'text-gray-400'}`}
+                  title={entry.pinned ? 'Unpin' : 'Pin'}
+                >
+                  {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); handleDelete(entry); }}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-white/70"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
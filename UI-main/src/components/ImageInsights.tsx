@@ -1,17 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Image, Download, Save, X, ChevronDown, Loader2, MessageSquare, BarChart3, Search, Video, Code, TrendingUp, TestTube, Eye, ChevronUp, Check } from 'lucide-react';
+import { Image, Download, Save, X, ChevronDown, Loader2, MessageSquare, BarChart3, Search, Video, Code, TrendingUp, TestTube, Eye, ChevronUp, Check, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService } from '../services/api';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import { apiService, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError, isCancelledError } from '../services/apiErrors';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, exportReport, isExportFormat } from '../utils/reportExport';
+import { useWorkspace } from '../hooks/useWorkspace';
 import CustomScrollbar from './CustomScrollbar';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+import MarkdownView from './MarkdownView';
 
 interface ImageInsightsProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 interface ImageData {
@@ -47,99 +63,61 @@ interface ExcelData {
   qa?: { question: string; answer: string }[];
 }
 
-const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
-  const [spaceKey, setSpaceKey] = useState<string>('');
-  const [selectedPages, setSelectedPages] = useState<string[]>([]);
+const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spacesLoading: isLoadingSpaces,
+    spaceKey,
+    setSpaceKey,
+    selectedPages,
+    setSelectedPages,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
   const [images, setImages] = useState<ImageData[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState<string>('');
   const [newQuestion, setNewQuestion] = useState('');
   const [selectedImage, setSelectedImage] = useState<string>('');
   const [fileName, setFileName] = useState('');
-  const [exportFormat, setExportFormat] = useState('pdf');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
   const [chartData, setChartData] = useState<ChartData | null>(null);
   const [selectedChartType, setSelectedChartType] = useState<'bar' | 'line' | 'pie' | 'stacked'>('bar');
   const [chartFileName, setChartFileName] = useState('');
   const [chartExportFormat, setChartExportFormat] = useState('png');
-  const [spaces, setSpaces] = useState<Array<{name: string, key: string}>>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [isLoadingSpaces, setIsLoadingSpaces] = useState(false);
-  const [isLoadingPages, setIsLoadingPages] = useState(false);
   const [isLoadingImages, setIsLoadingImages] = useState(false);
   const [isAskingQuestion, setIsAskingQuestion] = useState(false);
   const [isCreatingChart, setIsCreatingChart] = useState(false);
   const [isChangingChartType, setIsChangingChartType] = useState(false);
   const [isExportingChart, setIsExportingChart] = useState(false);
   const [showToast, setShowToast] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('image');
+  const { pin, pinned } = usePinToReport('Chart Builder');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  // The chart or summary being previewed, previewed again when the save options change
+  const [previewSource, setPreviewSource] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const chartPreviewRef = useRef<HTMLDivElement>(null);
-  const [isPageDropdownOpen, setIsPageDropdownOpen] = useState(false);
   const [tables, setTables] = useState<TableData[]>([]);
   const [excels, setExcels] = useState<ExcelData[]>([]);
-  const [pageSearch, setPageSearch] = useState('');
   const [exportFormatSearch, setExportFormatSearch] = useState('');
   const [isExportFormatDropdownOpen, setIsExportFormatDropdownOpen] = useState(false);
-  const exportFormats = [
-    { value: 'markdown', label: 'Markdown' },
-    { value: 'pdf', label: 'PDF' },
-    { value: 'docx', label: 'Word Document' }
-  ];
 
   // --- History feature for Q&A ---
   const [qaHistory, setQaHistory] = useState<Array<{question: string, answer: string, imageId: string}>>([]);
   const [currentQaHistoryIndex, setCurrentQaHistoryIndex] = useState<number | null>(null);
 
-  // Load spaces on component mount
-  useEffect(() => {
-    const loadSpaces = async () => {
-      setIsLoadingSpaces(true);
-      try {
-        const response = await apiService.getSpaces();
-        setSpaces(response.spaces);
-      } catch (error) {
-        console.error('Failed to load spaces:', error);
-      } finally {
-        setIsLoadingSpaces(false);
-      }
-    };
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSpaceKey(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
-
-  // Load pages when space key changes and auto-select page if present in URL
-  useEffect(() => {
-    const loadPages = async () => {
-      if (!spaceKey) {
-        setPages([]);
-        return;
-      }
-      setIsLoadingPages(true);
-      try {
-        const response = await apiService.getPages(spaceKey);
-        setPages(response.pages);
-        // Auto-select page if present in URL
-        const { page } = getConfluenceSpaceAndPageFromUrl();
-        if (page && response.pages.includes(page)) {
-          setSelectedPages([page]);
-        }
-      } catch (error) {
-        console.error('Failed to load pages:', error);
-        setPages([]);
-      } finally {
-        setIsLoadingPages(false);
-      }
-    };
-    loadPages();
-  }, [spaceKey]);
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
   const chartTypes = [
     { value: 'bar' as const, label: 'Grouped Bar Chart' },
@@ -155,6 +133,7 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3 },
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
 
@@ -168,7 +147,7 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
       const allExcels: ExcelData[] = [];
       for (const pageTitle of selectedPages) {
         try {
-          const response = await apiService.getImages(spaceKey, pageTitle);
+          const response = await apiService.getImages(spaceKey, pageTitle, pageIds[pageTitle], { signal: getSignal() });
           // Images
           const pageImages = response.images.map((url, index) => ({
             id: `${pageTitle}_img_${index}`,
@@ -195,6 +174,7 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
           }));
           allExcels.push(...pageExcels);
         } catch (error) {
+          if (isCancelledError(error)) throw error;
           console.error(`Failed to load insights from page ${pageTitle}:`, error);
         }
       }
@@ -203,6 +183,7 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
       setExcels(allExcels);
     } catch (error) {
       console.error('Failed to load insights:', error);
+      setError(toToolError(error, 'Failed to load insights'));
     } finally {
       setIsLoadingImages(false);
     }
@@ -220,14 +201,16 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
         space_key: spaceKey,
         page_title: image.pageTitle,
         image_url: image.url
-      });
+      }, { signal: getSignal() });
       setImages(prev => prev.map(img =>
         img.id === imageId
           ? { ...img, summary: response.summary }
           : img
       ));
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Failed to analyze image:', error);
+      setError(toToolError(error, 'Failed to analyze image'));
       setImages(prev => prev.map(img =>
         img.id === imageId
           ? {
@@ -269,7 +252,7 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
         image_url: image.url,
         summary: image.summary,
         question: newQuestion
-      });
+      }, { signal: getSignal() });
       
       setImages(prev => prev.map(img =>
         img.id === selectedImage
@@ -286,7 +269,9 @@ const ImageInsights: React.FC<ImageInsightsProps> = ({ onClose, onFeatureSelect,
       
       setNewQuestion('');
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Failed to get AI response:', error);
+      setError(toToolError(error, 'Failed to get AI response'));
       // Fallback to sample answer
       const answer = `Based on the AI analysis of this image, here's the response to your question: "${newQuestion}"
 
@@ -345,7 +330,7 @@ The image analysis reveals specific data patterns and visual elements that direc
         chart_type: chartTypeMap[currentChartType as keyof typeof chartTypeMap],
         filename: chartFileName || 'chart',
         format: currentExportFormat
-      });
+      }, { signal: getSignal() });
       
       // Convert base64 to blob URL for display
       const binaryString = atob(response.chart_data);
@@ -376,7 +361,9 @@ The image analysis reveals specific data patterns and visual elements that direc
         });
       }, 100);
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Failed to create chart:', error);
+      setError(toToolError(error, 'Failed to create chart'));
       // Fallback to sample data
       const currentChartType = chartType || selectedChartType;
       const sampleData = {
@@ -423,59 +410,111 @@ The image analysis reveals specific data patterns and visual elements that direc
     }
   };
 
-  const exportImage = async (image: ImageData) => {
-    try {
-      const content = `# Image Analysis Report: ${image.name}
+  const imageMarkdown = (image: ImageData) => {
+    // The chart made from this image, when it's a picture, goes in the report
+    const chart = chartData?.data.imageId === image.id && /^image\/(png|jpe?g|gif)$/.test(chartData.data.mimeType || '')
+      ? `\n\n## Chart\n![${chartData.title}](data:${chartData.data.mimeType};base64,${chartData.data.chartDataBase64})`
+      : '';
+    return `# Image Analysis Report: ${image.name}
 
 ## AI Summary
-${image.summary || 'No summary available'}
+${image.summary || 'No summary available'}${chart}
 
 ## Questions & Answers
-${image.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n') || 'No questions asked'}
+${image.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n') || 'No questions asked'}`;
+  };
 
-## Image Details
-- **Name**: ${image.name}
-- **Analysis Date**: ${new Date().toLocaleString()}
-- **Export Format**: ${exportFormat}
+  // The table HTML stays a block of its own, so it's kept as a table
+  const tableMarkdown = (table: TableData) => `# Table Export: ${table.name}
 
----
-*Generated by Confluence AI Assistant - Image Insights*`;
+## Data
 
-      const response = await apiService.exportContent({
-        content,
-        format: exportFormat,
-        filename: fileName || image.name.replace(/\s+/g, '_') + '_analysis'
-      });
+${table.html.trim()}
+`;
+
+  const excelMarkdown = (excel: ExcelData) => `# Excel Export: ${excel.name}
 
-      const url = URL.createObjectURL(response);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${fileName || image.name.replace(/\s+/g, '_')}_analysis.${exportFormat}`;
-      a.click();
+## Data
+${excel.url}`;
+
+  const exportImage = async (image: ImageData) => {
+    try {
+      await exportReport({
+        tool: 'Chart Builder',
+        markdown: imageMarkdown(image),
+        details: { Image: image.name, Page: image.pageTitle || '' },
+      }, exportFormat, `${fileName || image.name.replace(/\s+/g, '_')}_analysis`, { signal: getSignal() });
     } catch (error) {
       console.error('Failed to export image:', error);
-      // Fallback to client-side export
-      const content = `# Image Analysis Report: ${image.name}
+      setError(toToolError(error, 'Failed to export image'));
+    }
+  };
 
-## AI Summary
-${image.summary || 'No summary available'}
+  const exportTable = async (table: TableData) => {
+    try {
+      await exportReport({
+        tool: 'Chart Builder',
+        markdown: tableMarkdown(table),
+        details: { Table: table.name, Page: table.pageTitle || '' },
+      }, exportFormat, `${fileName || table.name.replace(/\s+/g, '_')}_export`, { signal: getSignal() });
+    } catch (error) {
+      console.error('Failed to export table:', error);
+      setError(toToolError(error, 'Failed to export table'));
+    }
+  };
 
-## Questions & Answers
-${image.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n') || 'No questions asked'}
+  const exportExcel = async (excel: ExcelData) => {
+    try {
+      await exportReport({
+        tool: 'Chart Builder',
+        markdown: excelMarkdown(excel),
+        details: { File: excel.name, Page: excel.pageTitle || '' },
+      }, exportFormat, `${fileName || excel.name.replace(/\s+/g, '_')}_export`, { signal: getSignal() });
+    } catch (error) {
+      console.error('Failed to export Excel file:', error);
+      setError(toToolError(error, 'Failed to export Excel file'));
+    }
+  };
 
-## Image Details
-- **Name**: ${image.name}
-- **Analysis Date**: ${new Date().toLocaleString()}
-- **Export Format**: ${exportFormat}
+  // Pins the selected image, table or Excel file as its export would read
+  const pinSelectedItem = () => {
+    const image = images.find(img => img.id === selectedImage);
+    const table = tables.find(tbl => tbl.id === selectedImage);
+    const excel = excels.find(xls => xls.id === selectedImage);
+    const item = image ? { markdown: imageMarkdown(image), page: image.pageTitle }
+      : table ? { markdown: tableMarkdown(table), page: table.pageTitle }
+      : excel ? { markdown: excelMarkdown(excel), page: excel.pageTitle }
+      : null;
+    if (!item) return;
+    pin({ markdown: item.markdown, pages: item.page ? [item.page] : [] },
+      err => setError(toToolError(err, 'Failed to pin the analysis')));
+  };
 
----
-*Generated by Confluence AI Assistant - Image Insights*`;
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${fileName || image.name.replace(/\s+/g, '_')}_analysis.${exportFormat}`;
-      a.click();
+  const previewSave = async (content: string, options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content,
+        ...options,
+      }, { signal: getSignal() });
+      setPreviewSource(content);
+      notePreview(page, preview);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
     }
   };
 
@@ -508,7 +547,7 @@ ${image.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                          chartData.type === 'pie' ? 'Pie' : 'Stacked Bar',
               filename: chartFileName || 'chart',
               format: currentExportFormat
-            });
+            }, { signal: getSignal() });
             
             // Download the chart in the selected format
             const binaryString = atob(response.chart_data);
@@ -534,52 +573,21 @@ ${image.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
 ${chartData.type.charAt(0).toUpperCase() + chartData.type.slice(1)} Chart
 
 ## Data
+\`\`\`json
 ${JSON.stringify(chartData.data, null, 2)}
+\`\`\``;
 
-## Export Details
-- **File Name**: ${chartFileName}
-- **Format**: ${currentExportFormat}
-- **Generated**: ${new Date().toLocaleString()}
-
----
-*Generated by Confluence AI Assistant - Chart Builder*`;
-
-      const response = await apiService.exportContent({
-        content,
-        format: currentExportFormat,
-        filename: chartFileName || 'chart'
-      });
-
-      const url = URL.createObjectURL(response);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${chartFileName || 'chart'}.${currentExportFormat}`;
-      a.click();
+      // Image formats need the chart from the backend; without one the data is exported as JSON
+      await exportReport(
+        { tool: 'Chart Builder', markdown: content, details: { 'File name': chartFileName } },
+        isExportFormat(currentExportFormat) ? currentExportFormat : 'json',
+        chartFileName || 'chart',
+        { signal: getSignal() },
+      );
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error('Failed to export chart:', error);
-      // Fallback to client-side export
-      const currentExportFormat = chartData.data.exportFormat || chartExportFormat;
-      const content = `# Chart Export: ${chartData.title}
-
-## Chart Type
-${chartData.type.charAt(0).toUpperCase() + chartData.type.slice(1)} Chart
-
-## Data
-${JSON.stringify(chartData.data, null, 2)}
-
-## Export Details
-- **File Name**: ${chartFileName}
-- **Format**: ${currentExportFormat}
-- **Generated**: ${new Date().toLocaleString()}
-
----
-*Generated by Confluence AI Assistant - Chart Builder*`;
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${chartFileName || 'chart'}.${currentExportFormat}`;
-      a.click();
+      setError(toToolError(error, 'Failed to export chart'));
     } finally {
       setIsExportingChart(false);
     }
@@ -606,7 +614,7 @@ ${JSON.stringify(chartData.data, null, 2)}
         chart_type: chartTypeMap[currentChartType as keyof typeof chartTypeMap],
         filename: chartFileName || 'chart',
         format: currentExportFormat
-      });
+      }, { signal: getSignal() });
       const binaryString = atob(response.chart_data);
       const bytes = new Uint8Array(binaryString.length);
       for (let i = 0; i < binaryString.length; i++) {
@@ -631,6 +639,7 @@ ${JSON.stringify(chartData.data, null, 2)}
       }, 100);
     } catch (error) {
       console.error('Failed to create chart from table:', error);
+      setError(toToolError(error, 'Failed to create chart from table'));
     } finally {
       setIsCreatingChart(false);
     }
@@ -655,7 +664,7 @@ ${JSON.stringify(chartData.data, null, 2)}
         chart_type: chartTypeMap[currentChartType as keyof typeof chartTypeMap],
         filename: chartFileName || 'chart',
         format: currentExportFormat
-      });
+      }, { signal: getSignal() });
       const binaryString = atob(response.chart_data);
       const bytes = new Uint8Array(binaryString.length);
       for (let i = 0; i < binaryString.length; i++) {
@@ -680,25 +689,12 @@ ${JSON.stringify(chartData.data, null, 2)}
       }, 100);
     } catch (error) {
       console.error('Failed to create chart from excel:', error);
+      setError(toToolError(error, 'Failed to create chart from excel'));
     } finally {
       setIsCreatingChart(false);
     }
   };
 
-  const handlePageSelection = (page: string) => {
-    setSelectedPages(prev =>
-      prev.includes(page)
-        ? prev.filter(p => p !== page)
-        : [...prev, page]
-    );
-  };
-  const selectAllPages = () => {
-    setSelectedPages(pages);
-  };
-  const clearAllPages = () => {
-    setSelectedPages([]);
-  };
-
   // Add summary and qa to TableData and ExcelData
   useEffect(() => {
     const fetchTableSummaries = async () => {
@@ -709,9 +705,10 @@ ${JSON.stringify(chartData.data, null, 2)}
               space_key: spaceKey,
               page_title: table.pageTitle,
               table_html: table.html,
-            });
+            }, { signal: getSignal() });
             setTables(prev => prev.map(t => t.id === table.id ? { ...t, summary: response.summary } : t));
           } catch (error) {
+            if (isCancelledError(error)) return;
             setTables(prev => prev.map(t => t.id === table.id ? { ...t, summary: 'AI summary unavailable.' } : t));
           }
         }
@@ -730,9 +727,10 @@ ${JSON.stringify(chartData.data, null, 2)}
               space_key: spaceKey,
               page_title: excel.pageTitle,
               excel_url: excel.url,
-            });
+            }, { signal: getSignal() });
             setExcels(prev => prev.map(x => x.id === excel.id ? { ...x, summary: response.summary } : x));
           } catch (error) {
+            if (isCancelledError(error)) return;
             setExcels(prev => prev.map(x => x.id === excel.id ? { ...x, summary: 'AI summary unavailable.' } : x));
           }
         }
@@ -756,13 +754,17 @@ ${JSON.stringify(chartData.data, null, 2)}
         image_url: '', // Not used
         summary: table.summary,
         question,
-      });
+      }, { signal: getSignal() });
       setTables(prev => prev.map(t => t.id === tableId ? { ...t, qa: [...(t.qa || []).slice(0, -1), { question, answer: response.answer }] } : t));
       
       // Add to Q&A history
       setQaHistory(prev => [{ question, answer: response.answer, imageId: tableId }, ...prev]);
       setCurrentQaHistoryIndex(0);
     } catch (error) {
+      if (isCancelledError(error)) {
+        setTables(prev => prev.map(t => t.id === tableId ? { ...t, qa: (t.qa || []).slice(0, -1) } : t));
+        return;
+      }
       setTables(prev => prev.map(t => t.id === tableId ? { ...t, qa: [...(t.qa || []).slice(0, -1), { question, answer: 'AI answer unavailable.' }] } : t));
       
       // Add to Q&A history even for error case
@@ -783,13 +785,17 @@ ${JSON.stringify(chartData.data, null, 2)}
         image_url: '', // Not used
         summary: excel.summary,
         question,
-      });
+      }, { signal: getSignal() });
       setExcels(prev => prev.map(x => x.id === excelId ? { ...x, qa: [...(x.qa || []).slice(0, -1), { question, answer: response.answer }] } : x));
       
       // Add to Q&A history
       setQaHistory(prev => [{ question, answer: response.answer, imageId: excelId }, ...prev]);
       setCurrentQaHistoryIndex(0);
     } catch (error) {
+      if (isCancelledError(error)) {
+        setExcels(prev => prev.map(x => x.id === excelId ? { ...x, qa: (x.qa || []).slice(0, -1) } : x));
+        return;
+      }
       setExcels(prev => prev.map(x => x.id === excelId ? { ...x, qa: [...(x.qa || []).slice(0, -1), { question, answer: 'AI answer unavailable.' }] } : x));
       
       // Add to Q&A history even for error case
@@ -846,6 +852,11 @@ ${JSON.stringify(chartData.data, null, 2)}
     }
   }
 
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Load images', group: 'Chart Builder', disabled: isLoadingImages, run: loadImages },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the selected analysis to the report', group: 'Chart Builder', disabled: !selectedQAItem, run: pinSelectedItem },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
@@ -860,6 +871,7 @@ ${JSON.stringify(chartData.data, null, 2)}
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -898,6 +910,7 @@ ${JSON.stringify(chartData.data, null, 2)}
           </div>
         </div>
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
           <div className="grid grid-cols-1 xl:grid-cols-4 gap-6 overflow-visible">
             {/* Left Column - Image Selection */}
             <div className="xl:col-span-1 z-50 overflow-visible">
@@ -942,91 +955,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Select Pages ({selectedPages.length} selected)
                   </label>
-                  <div className="relative z-50 overflow-visible">
-                    <button
-                      type="button"
-                      onClick={() => setIsPageDropdownOpen(!isPageDropdownOpen)}
-                      disabled={!spaceKey}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                    >
-                      <span className={selectedPages.length === 0 ? 'text-gray-500' : 'text-gray-700'}>
-                        {selectedPages.length === 0
-                          ? 'Choose pages...'
-                          : selectedPages.length === 1
-                            ? selectedPages[0]
-                            : `${selectedPages.length} pages selected`
-                        }
-                      </span>
-                      {isPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {/* Dropdown */}
-                    {isPageDropdownOpen && spaceKey && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-auto">
-                        {/* Header with Select All/Clear All and Search */}
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <div className="flex justify-between items-center mb-2">
-                            <button
-                              onClick={selectAllPages}
-                              className="text-sm text-confluence-blue hover:text-confluence-blue/80 font-medium"
-                            >
-                              Select All
-                            </button>
-                            <button
-                              onClick={clearAllPages}
-                              className="text-sm text-gray-500 hover:text-gray-700 font-medium"
-                            >
-                              Clear All
-                            </button>
-                          </div>
-                          <input
-                            type="text"
-                            value={pageSearch}
-                            onChange={e => setPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        {/* Page List */}
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found in this space
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase())).map(page => (
-                              <label
-                                key={page}
-                                className="flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0"
-                              >
-                                <div className="relative">
-                                  <input
-                                    type="checkbox"
-                                    checked={selectedPages.includes(page)}
-                                    onChange={() => handlePageSelection(page)}
-                                    className="sr-only"
-                                  />
-                                  <div className={`w-5 h-5 border-2 rounded flex items-center justify-center transition-colors ${
-                                    selectedPages.includes(page)
-                                      ? 'bg-confluence-blue border-confluence-blue'
-                                      : 'border-gray-300 hover:border-confluence-blue/50'
-                                  }`}>
-                                    {selectedPages.includes(page) && (
-                                      <Check className="w-3 h-3 text-white" />
-                                    )}
-                                  </div>
-                                </div>
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                              </label>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker multiple value={selectedPages} onChange={setSelectedPages} />
                 </div>
                 {/* Load Images Button */}
                 <button
@@ -1046,6 +975,9 @@ ${JSON.stringify(chartData.data, null, 2)}
                     </>
                   )}
                 </button>
+                {(isLoadingImages || isCreatingChart || !!isAnalyzing) && (
+                  <CancelButton onClick={cancelRequests} className="w-full mt-2" />
+                )}
               </div>
             </div>
             {/* Middle Column - Images Grid (now also shows tables and excels) */}
@@ -1092,7 +1024,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                       </div>
                       {image.summary && (
                         <div className="mt-4 p-3 bg-white/70 backdrop-blur-sm rounded-lg border border-white/20">
-                          <p className="text-sm text-gray-700">{image.summary}</p>
+                          <MarkdownView className="text-sm">{image.summary}</MarkdownView>
                         </div>
                       )}
                     </div>
@@ -1101,7 +1033,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                   {tables.map(table => (
                     <div key={table.id} className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
                       <div className="aspect-video bg-gray-200/50 backdrop-blur-sm rounded-lg mb-4 overflow-auto border border-white/20 flex items-center justify-center">
-                        <div style={{width: '100%', overflowX: 'auto'}} dangerouslySetInnerHTML={{ __html: table.html }} />
+                        <div style={{width: '100%', overflowX: 'auto'}} dangerouslySetInnerHTML={{ __html: sanitizeHtml(table.html) }} />
                       </div>
                       <h4 className="font-semibold text-gray-800 mb-2">{table.name}</h4>
                       <div className="space-y-2">
@@ -1129,7 +1061,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                       {/* Table summary and Q&A */}
                       {table.summary && (
                         <div className="mt-4 p-3 bg-white/70 backdrop-blur-sm rounded-lg border border-white/20">
-                          <p className="text-sm text-gray-700">{table.summary}</p>
+                          <MarkdownView className="text-sm">{table.summary}</MarkdownView>
                         </div>
                       )}
                     </div>
@@ -1175,7 +1107,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                       {/* Excel summary and Q&A */}
                       {excel.summary && (
                         <div className="mt-4 p-3 bg-white/70 backdrop-blur-sm rounded-lg border border-white/20">
-                          <p className="text-sm text-gray-700">{excel.summary}</p>
+                          <MarkdownView className="text-sm">{excel.summary}</MarkdownView>
                         </div>
                       )}
                     </div>
@@ -1306,37 +1238,18 @@ ${JSON.stringify(chartData.data, null, 2)}
                           {/* Save to Confluence Section for Chart */}
                           <div className="pt-4 border-t border-white/20 space-y-3">
                             <h4 className="font-semibold text-gray-800 text-sm">Save Chart to Confluence</h4>
-                            <div className="flex items-center space-x-2 mb-2">
-                              <label htmlFor="chart-save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                              <select
-                                id="chart-save-mode"
-                                value={saveMode}
-                                onChange={e => setSaveMode(e.target.value)}
-                                className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                              >
-                                <option value="append">Append</option>
-                                <option value="overwrite">Overwrite</option>
-                              </select>
-                            </div>
+                            <SaveModeSelect id="chart-save-mode" value={saveOptions} onChange={setSaveOptions} />
                             
                             <div className="space-y-2">
                               <button
-                                onClick={async () => {
-                                  setIsPreviewLoading(true);
-                                  setShowPreview(false);
-                                  try {
-                                    const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                                    if (!space || !page) {
-                                      alert('Confluence space or page not specified in macro src URL.');
-                                      return;
-                                    }
-                                    if (!chartData) {
-                                      alert('No chart available to save.');
-                                      return;
-                                    }
-                                    
-                                    // Create chart content for Confluence
-                                    const chartContent = `
+                                onClick={() => {
+                                  if (!chartData) {
+                                    alert('No chart available to save.');
+                                    return;
+                                  }
+                                  
+                                  // Create chart content for Confluence
+                                  const chartContent = `
 <div class="chart-container">
   <h3>${chartData.title}</h3>
   <p><strong>Chart Type:</strong> ${chartData.type.charAt(0).toUpperCase() + chartData.type.slice(1)} Chart</p>
@@ -1346,21 +1259,8 @@ ${JSON.stringify(chartData.data, null, 2)}
   </div>
   <p><em>Chart generated from ${chartData.data.imageId ? 'image data' : chartData.data.tableId ? 'table data' : chartData.data.excelId ? 'excel data' : 'data source'}</em></p>
 </div>`;
-                                    
-                                    const preview = await apiService.previewSaveToConfluence({
-                                      space_key: space,
-                                      page_title: page,
-                                      content: chartContent,
-                                      mode: saveMode,
-                                    });
-                                    setPreviewContent(preview.preview_content);
-                                    setPreviewDiff(preview.diff);
-                                    setShowPreview(true);
-                                  } catch (err: any) {
-                                    alert('Failed to generate preview: ' + (err.message || err));
-                                  } finally {
-                                    setIsPreviewLoading(false);
-                                  }
+                                  
+                                  previewSave(chartContent);
                                 }}
                                 className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                               >
@@ -1368,7 +1268,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                               </button>
                               <button
                                 onClick={async () => {
-                                  const { space, page } = getConfluenceSpaceAndPageFromUrl();
+                                  const { space, page } = hostPage;
                                   if (!space || !page) {
                                     alert('Confluence space or page not specified in macro src URL.');
                                     return;
@@ -1378,9 +1278,8 @@ ${JSON.stringify(chartData.data, null, 2)}
                                     return;
                                   }
                                   
-                                  try {
-                                    // Create chart content for Confluence
-                                    const chartContent = `
+                                  // Create chart content for Confluence
+                                  const chartContent = `
 <div class="chart-container">
   <h3>${chartData.title}</h3>
   <p><strong>Chart Type:</strong> ${chartData.type.charAt(0).toUpperCase() + chartData.type.slice(1)} Chart</p>
@@ -1390,18 +1289,20 @@ ${JSON.stringify(chartData.data, null, 2)}
   </div>
   <p><em>Chart generated from ${chartData.data.imageId ? 'image data' : chartData.data.tableId ? 'table data' : chartData.data.excelId ? 'excel data' : 'data source'}</em></p>
 </div>`;
-                                    
-                                    await apiService.saveToConfluence({
+                                  
+                                  await publish(page, async expectedVersion => {
+                                    const saved = await apiService.saveToConfluence({
                                       space_key: space,
                                       page_title: page,
+                                      page_id: hostPageId,
                                       content: chartContent,
-                                      mode: saveMode,
-                                    });
+                                      ...saveOptions,
+                                      expected_version: expectedVersion,
+                                    }, { signal: getSignal() });
                                     setShowToast(true);
                                     setTimeout(() => setShowToast(false), 3000);
-                                  } catch (err: any) {
-                                    alert('Failed to save chart to Confluence: ' + (err.message || err));
-                                  }
+                                    return saved;
+                                  }, err => setError(toToolError(err, 'Failed to save chart to Confluence')));
                                 }}
                                 className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                               >
@@ -1546,6 +1447,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                       </>
                     )}
                   </button>
+                  {isAskingQuestion && <CancelButton onClick={cancelRequests} className="w-full" />}
                 </div>
                 {/* Q&A Display */}
                 {selectedQAItem && (
@@ -1565,7 +1467,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                         {selectedQAItem.qa.map((qa, index) => (
                           <div key={index} className="p-3 bg-white/70 backdrop-blur-sm rounded-lg border border-white/20">
                             <p className="font-medium text-gray-800 text-sm mb-2">Q: {qa.question}</p>
-                            <p className="text-gray-700 text-sm">{qa.answer}</p>
+                            <MarkdownView className="text-sm">{qa.answer}</MarkdownView>
                           </div>
                         ))}
                       </div>
@@ -1603,7 +1505,7 @@ ${JSON.stringify(chartData.data, null, 2)}
                         onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                         className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                       >
-                        <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                        <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                         {isExportFormatDropdownOpen ? (
                           <ChevronUp className="w-4 h-4 text-gray-400" />
                         ) : (
@@ -1622,10 +1524,10 @@ ${JSON.stringify(chartData.data, null, 2)}
                             />
                           </div>
                           <div className="max-h-32 overflow-y-auto">
-                            {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                            {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                               <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                             ) : (
-                              exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                              EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                                 <button
                                   key={f.value}
                                   type="button"
@@ -1646,67 +1548,15 @@ ${JSON.stringify(chartData.data, null, 2)}
                     {allQAItems.map(item => (
                       <button
                         key={item.id}
-                        onClick={async () => {
+                        onClick={() => {
                           if (item.type === 'image') {
                             exportImage(images.find(img => img.id === item.id)!);
                           } else if (item.type === 'table') {
                             const table = tables.find(tbl => tbl.id === item.id);
-                            if (table) {
-                              const content = `# Table Export: ${table.name}
-
-## Table Type
-${table.name}
-
-## Data
-${table.html}
-
-## Export Details
-- **File Name**: ${fileName || table.name.replace(/\s+/g, '_')}_export
-- **Format**: ${exportFormat}
-- **Generated**: ${new Date().toLocaleString()}
-
----
-*Generated by Confluence AI Assistant - Table Builder*`;
-                              const response = await apiService.exportContent({
-                                content,
-                                format: exportFormat,
-                                filename: fileName || table.name.replace(/\s+/g, '_') + '_export'
-                              });
-                              const url = URL.createObjectURL(response);
-                              const a = document.createElement('a');
-                              a.href = url;
-                              a.download = `${fileName || table.name.replace(/\s+/g, '_')}_export.${exportFormat}`;
-                              a.click();
-                            }
+                            if (table) exportTable(table);
                           } else if (item.type === 'excel') {
                             const excel = excels.find(xls => xls.id === item.id);
-                            if (excel) {
-                              const content = `# Excel Export: ${excel.name}
-
-## Excel Type
-${excel.name}
-
-## Data
-${excel.url}
-
-## Export Details
-- **File Name**: ${fileName || excel.name.replace(/\s+/g, '_')}_export
-- **Format**: ${exportFormat}
-- **Generated**: ${new Date().toLocaleString()}
-
----
-*Generated by Confluence AI Assistant - Excel Builder*`;
-                              const response = await apiService.exportContent({
-                                content,
-                                format: exportFormat,
-                                filename: fileName || excel.name.replace(/\s+/g, '_') + '_export'
-                              });
-                              const url = URL.createObjectURL(response);
-                              const a = document.createElement('a');
-                              a.href = url;
-                              a.download = `${fileName || excel.name.replace(/\s+/g, '_')}_export.${exportFormat}`;
-                              a.click();
-                            }
+                            if (excel) exportExcel(excel);
                           }
                         }}
                         className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-green-600/90 backdrop-blur-sm text-white rounded-lg hover:bg-green-700 transition-colors border border-white/10"
@@ -1720,49 +1570,18 @@ ${excel.url}
 
                 {selectedQAItem && (
                   <>
-                    <div className="flex items-center space-x-2 mb-2">
-                      <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                      <select
-                        id="save-mode"
-                        value={saveMode}
-                        onChange={e => setSaveMode(e.target.value)}
-                        className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                      >
-                        <option value="append">Append</option>
-                        <option value="overwrite">Overwrite</option>
-                      </select>
-                    </div>
+                    <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
                     
                     <div className="space-y-2">
+                      <PinButton onClick={pinSelectedItem} pinned={pinned} className="w-full justify-center" />
                       <button
-                        onClick={async () => {
-                          setIsPreviewLoading(true);
-                          setShowPreview(false);
-                          try {
-                            const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                            if (!space || !page) {
-                              alert('Confluence space or page not specified in macro src URL.');
-                              return;
-                            }
-                            const selectedItemData = allQAItems.find(item => item.id === selectedQAItem.id);
-                            if (!selectedItemData || !selectedItemData.summary) {
-                              alert('No summary available for the selected item.');
-                              return;
-                            }
-                            const preview = await apiService.previewSaveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: selectedItemData.summary,
-                              mode: saveMode,
-                            });
-                            setPreviewContent(preview.preview_content);
-                            setPreviewDiff(preview.diff);
-                            setShowPreview(true);
-                          } catch (err: any) {
-                            alert('Failed to generate preview: ' + (err.message || err));
-                          } finally {
-                            setIsPreviewLoading(false);
+                        onClick={() => {
+                          const selectedItemData = allQAItems.find(item => item.id === selectedQAItem.id);
+                          if (!selectedItemData || !selectedItemData.summary) {
+                            alert('No summary available for the selected item.');
+                            return;
                           }
+                          previewSave(markdownToStorage(selectedItemData.summary).storage);
                         }}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                       >
@@ -1770,7 +1589,7 @@ ${excel.url}
                       </button>
                       <button
                         onClick={async () => {
-                          const { space, page } = getConfluenceSpaceAndPageFromUrl();
+                          const { space, page } = hostPage;
                           if (!space || !page) {
                             alert('Confluence space or page not specified in macro src URL.');
                             return;
@@ -1780,18 +1599,20 @@ ${excel.url}
                             alert('No summary available for the selected item.');
                             return;
                           }
-                          try {
-                            await apiService.saveToConfluence({
+                          const summary = selectedItemData.summary;
+                          await publish(page, async expectedVersion => {
+                            const saved = await apiService.saveToConfluence({
                               space_key: space,
                               page_title: page,
-                              content: selectedItemData.summary,
-                              mode: saveMode,
-                            });
+                              page_id: hostPageId,
+                              ...(await prepareMarkdownSave(summary)),
+                              ...saveOptions,
+                              expected_version: expectedVersion,
+                            }, { signal: getSignal() });
                             setShowToast(true);
                             setTimeout(() => setShowToast(false), 3000);
-                          } catch (err: any) {
-                            alert('Failed to save to Confluence: ' + (err.message || err));
-                          }
+                            return saved;
+                          }, err => setError(toToolError(err, 'Failed to save to Confluence')));
                         }}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                       >
@@ -1810,31 +1631,26 @@ ${excel.url}
           </div>
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewSource}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(previewSource, options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+        />
       )}
     </div>
   );
@@ -1,17 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, BarChart3, GitCompare, AlertTriangle, CheckCircle, X, ChevronDown, Loader2, Download, Save, MessageSquare, Search, Video, Code, TestTube, Image, ChevronUp, Check, ExternalLink, Shield } from 'lucide-react';
+import { TrendingUp, BarChart3, GitCompare, AlertTriangle, CheckCircle, X, ChevronDown, Loader2, Download, Save, MessageSquare, Search, Video, Code, TestTube, Image, ChevronUp, Check, ExternalLink, Shield, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService, Space, StackOverflowRisk } from '../services/api';
+import { apiService, StackOverflowRisk, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
 import CustomScrollbar from './CustomScrollbar';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import HistoryPanel from './HistoryPanel';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useHistory } from '../hooks/useHistory';
+import type { HistoryRecord } from '../services/historyStore';
+import { copyText } from '../utils/clipboard';
+import { markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, exportReport } from '../utils/reportExport';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+import MarkdownView from './MarkdownView';
+import CodeBlock from './CodeBlock';
+
+// Q&A history entries: the question is the entry title
+interface QaHistoryPayload {
+  answer: string;
+}
 
 interface ImpactAnalyzerProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 interface DiffMetrics {
@@ -27,10 +53,23 @@ interface RiskLevel {
   factors: string[];
 }
 
-const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelect, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [oldPage, setOldPage] = useState('');
-  const [newPage, setNewPage] = useState('');
+const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    pageSlots,
+    setPageSlot,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
+  const oldPage = pageSlots[0] || '';
+  const newPage = pageSlots[1] || '';
+  const setOldPage = (page: string) => setPageSlot(0, page);
+  const setNewPage = (page: string) => setPageSlot(1, page);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isQALoading, setIsQALoading] = useState(false);
   const [diffResults, setDiffResults] = useState<string>('');
@@ -42,29 +81,24 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
   const [stackOverflowRisks, setStackOverflowRisks] = useState<StackOverflowRisk[]>([]);
   const [isStackOverflowChecking, setIsStackOverflowChecking] = useState(false);
   // --- History feature for Q&A ---
-  const [qaHistory, setQaHistory] = useState<Array<{question: string, answer: string}>>([]);
-  const [currentQaHistoryIndex, setCurrentQaHistoryIndex] = useState<number | null>(null);
-  const [exportFormat, setExportFormat] = useState('markdown');
+  const qaHistory = useHistory<QaHistoryPayload>('impact');
+  const [currentQaHistoryId, setCurrentQaHistoryId] = useState<string | null>(null);
+  const [showQaHistoryPanel, setShowQaHistoryPanel] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
   const [exportFormatSearch, setExportFormatSearch] = useState('');
   const [isExportFormatDropdownOpen, setIsExportFormatDropdownOpen] = useState(false);
-  const exportFormats = [
-    { value: 'markdown', label: 'Markdown' },
-    { value: 'pdf', label: 'PDF' },
-    { value: 'docx', label: 'Word Document' }
-  ];
-  const [spaces, setSpaces] = useState<Space[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [error, setError] = useState('');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('impact');
+  const { pin, pinned } = usePinToReport('Impact Analyzer');
   const [showToast, setShowToast] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
-  const [oldPageSearch, setOldPageSearch] = useState('');
-  const [isOldPageDropdownOpen, setIsOldPageDropdownOpen] = useState(false);
-  const [newPageSearch, setNewPageSearch] = useState('');
-  const [isNewPageDropdownOpen, setIsNewPageDropdownOpen] = useState(false);
 
   const features = [
     { id: 'search' as const, label: 'AI Powered Search', icon: Search },
@@ -73,53 +107,13 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3},
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
-  // Load spaces on component mount
-  useEffect(() => {
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
-  useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSelectedSpace(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
-
-  // Load pages when space is selected
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    if (selectedSpace) {
-      loadPages();
-    }
-  }, [selectedSpace]);
-
-  const loadSpaces = async () => {
-    try {
-      setError('');
-      const result = await apiService.getSpaces();
-      setSpaces(result.spaces);
-    } catch (err) {
-      setError('Failed to load spaces. Please check your backend connection.');
-      console.error('Error loading spaces:', err);
-    }
-  };
-
-  const loadPages = async () => {
-    try {
-      setError('');
-      const result = await apiService.getPages(selectedSpace);
-      setPages(result.pages);
-      // Auto-select page if present in URL
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && result.pages.includes(page)) {
-        setOldPage(page);
-      }
-    } catch (err) {
-      setError('Failed to load pages. Please check your space key.');
-      console.error('Error loading pages:', err);
-    }
-  };
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
   const analyzeDiff = async () => {
     if (!selectedSpace || !oldPage || !newPage) return;
@@ -132,8 +126,10 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
         space_key: selectedSpace,
         old_page_title: oldPage,
         new_page_title: newPage,
+        old_page_id: pageIds[oldPage],
+        new_page_id: pageIds[newPage],
         enable_stack_overflow_check: false // Don't run Stack Overflow check with main analysis
-      });
+      }, { signal: getSignal() });
 
       setDiffResults(result.diff || '');
       setMetrics({
@@ -151,7 +147,7 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
       });
       
     } catch (err) {
-      setError('Failed to analyze impact. Please try again.');
+      setError(toToolError(err, 'Failed to analyze impact'));
       console.error('Error analyzing impact:', err);
     } finally {
       setIsAnalyzing(false);
@@ -172,15 +168,17 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
         space_key: selectedSpace,
         old_page_title: oldPage,
         new_page_title: newPage,
+        old_page_id: pageIds[oldPage],
+        new_page_id: pageIds[newPage],
         enable_stack_overflow_check: true
-      });
+      }, { signal: getSignal() });
       
       // Set Stack Overflow risks
       setStackOverflowRisks(result.stack_overflow_risks || []);
       
     } catch (err) {
       console.error('Error running Stack Overflow risk check:', err);
-      setError('Failed to run Stack Overflow risk check. Please try again.');
+      setError(toToolError(err, 'Failed to run Stack Overflow risk check'));
     } finally {
       setIsStackOverflowChecking(false);
     }
@@ -202,8 +200,10 @@ const ImpactAnalyzer: React.FC<ImpactAnalyzerProps> = ({ onClose, onFeatureSelec
         space_key: selectedSpace,
         old_page_title: oldPage,
         new_page_title: newPage,
+        old_page_id: pageIds[oldPage],
+        new_page_id: pageIds[newPage],
         question: question
-      });
+      }, { signal: getSignal() });
 
       console.log('Impact analyzer Q&A response:', result);
 
@@ -216,29 +216,85 @@ This analysis is based on the diff comparison between the selected versions.`;
       setQaResults([...qaResults, { question, answer }]);
       
       // Add to Q&A history
-      setQaHistory(prev => [{ question, answer }, ...prev]);
-      setCurrentQaHistoryIndex(0);
+      const entry = await qaHistory.addEntry({
+        title: question,
+        spaceKey: selectedSpace,
+        pageTitles: [oldPage, newPage],
+        payload: { answer },
+        text: answer,
+      });
+      setCurrentQaHistoryId(entry?.id ?? null);
+      updateRoute({ query: question, entry: entry?.id });
       
       setQuestion('');
     } catch (err) {
       console.error('Impact analyzer Q&A error:', err);
-      setError('Failed to get answer. Please try again.');
+      setError(toToolError(err, 'Failed to get answer'));
       console.error('Error getting answer:', err);
     } finally {
       setIsQALoading(false);
     }
   };
 
-  // When currentQaHistoryIndex changes, update displayed question
-  useEffect(() => {
-    if (currentQaHistoryIndex !== null && qaHistory[currentQaHistoryIndex]) {
-      const historyItem = qaHistory[currentQaHistoryIndex];
-      setQuestion(historyItem.question);
+  const loadQaHistoryEntry = (entry: HistoryRecord<QaHistoryPayload>) => {
+    setCurrentQaHistoryId(entry.id);
+    setQuestion(entry.title);
+    updateRoute({ query: entry.title, entry: entry.id });
+  };
+
+  useRouteResult('impact', currentQaHistoryId, setQuestion, loadQaHistoryEntry);
+
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
     }
-  }, [currentQaHistoryIndex]);
+    await publish(page, async expectedVersion => {
+      const saved = await apiService.saveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        ...(await prepareMarkdownSave(impactSummary || '')),
+        ...saveOptions,
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to save to Confluence')));
+  };
 
-  const exportAnalysis = async () => {
-    const content = `# Impact Analysis Report
+  const previewSave = async (options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const { storage } = markdownToStorage(impactSummary || '');
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: storage,
+        ...options,
+      }, { signal: getSignal() });
+      notePreview(page, preview);
+      setPreviewStorage(storage);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const analysisReport = () => `# Impact Analysis Report
 
 ## Version Comparison
 - **Old Version**: ${oldPage}
@@ -280,25 +336,24 @@ ${diffResults}
 ## Q&A
 ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')}`;
 
+  const exportAnalysis = async () => {
     try {
-      const blob = await apiService.exportContent({
-        content: content,
-        format: exportFormat,
-        filename: 'impact-analysis-report'
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `impact-analysis-report.${exportFormat}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportReport({
+        tool: 'Impact Analyzer',
+        markdown: analysisReport(),
+        details: { Space: spaces.find(space => space.key === selectedSpace)?.name || selectedSpace },
+      }, exportFormat, 'impact-analysis-report', { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export file. Please try again.');
+      setError(toToolError(err, 'Failed to export file'));
       console.error('Error exporting:', err);
     }
   };
 
+  const pinAnalysis = () => pin({
+    markdown: analysisReport(),
+    pages: [oldPage, newPage].filter(Boolean),
+  }, err => setError(toToolError(err, 'Failed to pin the analysis')));
+
   function cleanPreviewContent(html: string, numBlocks = 2): string {
     try {
       const parser = new DOMParser();
@@ -353,6 +408,15 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
     return 'high';
   };
 
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Analyze impact', group: 'Impact Analyzer', disabled: isAnalyzing, run: analyzeDiff },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the impact summary', group: 'Impact Analyzer', disabled: !impactSummary, run: () => copyText(impactSummary) },
+    { id: TOOL_COMMANDS.export, title: 'Export the impact analysis', group: 'Impact Analyzer', disabled: !impactSummary, run: exportAnalysis },
+    { id: TOOL_COMMANDS.save, title: 'Save the impact summary to Confluence', group: 'Impact Analyzer', disabled: !impactSummary, run: saveToHostPage },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the impact analysis to the report', group: 'Impact Analyzer', disabled: !impactSummary, run: pinAnalysis },
+    { id: TOOL_COMMANDS.history, title: 'Show or hide Q&A history', group: 'Impact Analyzer', disabled: qaHistory.totalCount === 0, run: () => setShowQaHistoryPanel(show => !show) },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
@@ -367,6 +431,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -408,6 +473,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
+
           <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
             {/* Left Column - Configuration */}
             <div className="xl:col-span-1">
@@ -442,110 +509,14 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Old Version
                   </label>
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() => setIsOldPageDropdownOpen(!isOldPageDropdownOpen)}
-                      disabled={!selectedSpace}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                    >
-                      <span className={oldPage === '' ? 'text-gray-500' : 'text-gray-700'}>
-                        {oldPage === '' ? 'Select old version...' : oldPage}
-                      </span>
-                      {isOldPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {isOldPageDropdownOpen && selectedSpace && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <input
-                            type="text"
-                            value={oldPageSearch}
-                            onChange={e => setOldPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(oldPageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found in this space
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(oldPageSearch.toLowerCase())).map(page => (
-                              <button
-                                key={page}
-                                type="button"
-                                onClick={() => { setOldPage(page); setIsOldPageDropdownOpen(false); setOldPageSearch(''); }}
-                                className={`w-full text-left flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0 ${oldPage === page ? 'bg-confluence-blue/10' : ''}`}
-                              >
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                                {oldPage === page && <Check className="w-4 h-4 text-confluence-blue" />}
-                              </button>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker value={oldPage} onChange={setOldPage} placeholder="Select old version..." />
                 </div>
                 {/* New Version Selection */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     New Version
                   </label>
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() => setIsNewPageDropdownOpen(!isNewPageDropdownOpen)}
-                      disabled={!selectedSpace}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                    >
-                      <span className={newPage === '' ? 'text-gray-500' : 'text-gray-700'}>
-                        {newPage === '' ? 'Select new version...' : newPage}
-                      </span>
-                      {isNewPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {isNewPageDropdownOpen && selectedSpace && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <input
-                            type="text"
-                            value={newPageSearch}
-                            onChange={e => setNewPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(newPageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found in this space
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(newPageSearch.toLowerCase())).map(page => (
-                              <button
-                                key={page}
-                                type="button"
-                                onClick={() => { setNewPage(page); setIsNewPageDropdownOpen(false); setNewPageSearch(''); }}
-                                className={`w-full text-left flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0 ${newPage === page ? 'bg-confluence-blue/10' : ''}`}
-                              >
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                                {newPage === page && <Check className="w-4 h-4 text-confluence-blue" />}
-                              </button>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker value={newPage} onChange={setNewPage} placeholder="Select new version..." />
                 </div>
 
 
@@ -587,6 +558,9 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                     </>
                   )}
                 </button>
+                {(isAnalyzing || isStackOverflowChecking) && (
+                  <CancelButton onClick={cancelRequests} className="w-full" />
+                )}
 
 
 
@@ -642,24 +616,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
               {diffResults && (
                 <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
                   <h3 className="font-semibold text-gray-800 mb-4">Code Diff</h3>
-                  <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg p-4 overflow-auto max-h-80 border border-white/10">
-                    <pre className="text-sm">
-                      <code>
-                        {diffResults.split('\n').map((line, index) => (
-                          <div
-                            key={index}
-                            className={
-                              line.startsWith('+') ? 'text-green-400' :
-                              line.startsWith('-') ? 'text-red-400' :
-                              line.startsWith('@@') ? 'text-blue-400' :
-                              'text-gray-300'
-                            }
-                          >
-                            {line}
-                          </div>
-                        ))}
-                      </code>
-                    </pre>
+                  <div className="overflow-auto max-h-80">
+                    <CodeBlock code={diffResults} language="diff" />
                   </div>
                 </div>
               )}
@@ -668,24 +626,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
               {impactSummary && (
                 <div className="bg-white/60 backdrop-blur-xl rounded-xl p-4 border border-white/20 shadow-lg">
                   <h3 className="font-semibold text-gray-800 mb-4">AI Impact Summary</h3>
-                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                    {impactSummary.split('\n').map((line, index) => {
-                      if (line.startsWith('### ')) {
-                        return <h3 key={index} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(4)}</h3>;
-                      } else if (line.startsWith('## ')) {
-                        return <h2 key={index} className="text-xl font-bold text-gray-800 mt-6 mb-3">{line.substring(3)}</h2>;
-                      } else if (line.startsWith('- **')) {
-                        const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                        if (match) {
-                          return <p key={index} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                        }
-                      } else if (line.match(/^\d+\./)) {
-                        return <p key={index} className="mb-2 font-medium">{line}</p>;
-                      } else if (line.trim()) {
-                        return <p key={index} className="mb-2 text-gray-700">{line}</p>;
-                      }
-                      return <br key={index} />;
-                    })}
+                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                    <MarkdownView>{impactSummary}</MarkdownView>
                   </div>
                 </div>
               )}
@@ -822,27 +764,48 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                 <h3 className="font-semibold text-gray-800 mb-4">Questions & Analysis</h3>
                 
                 {/* --- History Dropdown for Q&A --- */}
-                {qaHistory.length > 0 && (
-                  <div className="mb-4 flex items-center space-x-2">
-                    <label className="text-sm font-medium text-gray-700">Q&A History:</label>
-                    <select
-                      className="border border-gray-300 rounded px-2 py-1 text-sm"
-                      value={currentQaHistoryIndex ?? 0}
-                      onChange={e => setCurrentQaHistoryIndex(Number(e.target.value))}
-                    >
-                      {qaHistory.map((item, idx) => (
-                        <option key={idx} value={idx}>
-                          {item.question.length > 40 ? item.question.slice(0, 40) + '...' : item.question}
-                        </option>
-                      ))}
-                    </select>
-                    {currentQaHistoryIndex !== null && currentQaHistoryIndex !== 0 && (
+                {qaHistory.totalCount > 0 && (
+                  <div className="mb-4">
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm font-medium text-gray-700">Q&A History:</label>
+                      <select
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        value={currentQaHistoryId ?? ''}
+                        onChange={e => {
+                          const entry = qaHistory.entries.find(h => h.id === e.target.value);
+                          if (entry) loadQaHistoryEntry(entry);
+                        }}
+                      >
+                        <option value="" disabled>Previous questions</option>
+                        {qaHistory.entries.map(item => (
+                          <option key={item.id} value={item.id}>
+                            {item.title.length > 40 ? item.title.slice(0, 40) + '...' : item.title}
+                          </option>
+                        ))}
+                      </select>
+                      {qaHistory.latest && currentQaHistoryId !== null && currentQaHistoryId !== qaHistory.latest.id && (
+                        <button
+                          className="text-xs text-confluence-blue underline ml-2"
+                          onClick={() => qaHistory.latest && loadQaHistoryEntry(qaHistory.latest)}
+                        >
+                          Go to Latest
+                        </button>
+                      )}
                       <button
                         className="text-xs text-confluence-blue underline ml-2"
-                        onClick={() => setCurrentQaHistoryIndex(0)}
+                        onClick={() => setShowQaHistoryPanel(!showQaHistoryPanel)}
                       >
-                        Go to Latest
+                        {showQaHistoryPanel ? 'Hide' : 'Search'} History
                       </button>
+                    </div>
+                    {showQaHistoryPanel && (
+                      <HistoryPanel
+                        history={qaHistory}
+                        selectedId={currentQaHistoryId}
+                        onSelect={loadQaHistoryEntry}
+                        spaces={spaces}
+                        className="mt-3"
+                      />
                     )}
                   </div>
                 )}
@@ -854,7 +817,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                     {qaResults.map((qa, index) => (
                       <div key={index} className="bg-white/70 backdrop-blur-sm rounded-lg p-3 border border-white/20">
                         <p className="font-medium text-gray-800 mb-2">Q: {qa.question}</p>
-                        <p className="text-gray-700 text-sm">A: {qa.answer}</p>
+                        <MarkdownView className="text-sm">{qa.answer}</MarkdownView>
                       </div>
                     ))}
                   </div>
@@ -887,6 +850,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       </>
                     )}
                   </button>
+                  {isQALoading && <CancelButton onClick={cancelRequests} className="w-full" />}
                 </div>
               </div>
 
@@ -904,7 +868,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                           onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                           className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                         >
-                          <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                          <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                           {isExportFormatDropdownOpen ? (
                             <ChevronUp className="w-4 h-4 text-gray-400" />
                           ) : (
@@ -923,10 +887,10 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                               />
                             </div>
                             <div className="max-h-32 overflow-y-auto">
-                              {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                              {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                                 <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                               ) : (
-                                exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                                EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                                   <button
                                     key={f.value}
                                     type="button"
@@ -944,18 +908,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       </div>
                     </div>
                     
-                    <div className="flex items-center space-x-2 mb-2">
-                      <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                      <select
-                        id="save-mode"
-                        value={saveMode}
-                        onChange={e => setSaveMode(e.target.value)}
-                        className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                      >
-                        <option value="append">Append</option>
-                        <option value="overwrite">Overwrite</option>
-                      </select>
-                    </div>
+                    <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
                     
                     <div className="space-y-2">
                       <button
@@ -965,55 +918,15 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                         <Download className="w-4 h-4" />
                         <span>Export</span>
                       </button>
+                      <PinButton onClick={pinAnalysis} pinned={pinned} className="w-full justify-center" />
                       <button
-                        onClick={async () => {
-                          setIsPreviewLoading(true);
-                          setShowPreview(false);
-                          try {
-                            const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                            if (!space || !page) {
-                              alert('Confluence space or page not specified in macro src URL.');
-                              return;
-                            }
-                            const preview = await apiService.previewSaveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: impactSummary || '',
-                              mode: saveMode,
-                            });
-                            setPreviewContent(preview.preview_content);
-                            setPreviewDiff(preview.diff);
-                            setShowPreview(true);
-                          } catch (err: any) {
-                            alert('Failed to generate preview: ' + (err.message || err));
-                          } finally {
-                            setIsPreviewLoading(false);
-                          }
-                        }}
+                        onClick={() => previewSave()}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                       >
                         {isPreviewLoading ? "Loading..." : "Preview"}
                       </button>
                       <button
-                        onClick={async () => {
-                          const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                          if (!space || !page) {
-                            alert('Confluence space or page not specified in macro src URL.');
-                            return;
-                          }
-                          try {
-                            await apiService.saveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: impactSummary || '',
-                              mode: saveMode,
-                            });
-                            setShowToast(true);
-                            setTimeout(() => setShowToast(false), 3000);
-                          } catch (err: any) {
-                            alert('Failed to save to Confluence: ' + (err.message || err));
-                          }
-                        }}
+                        onClick={saveToHostPage}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                       >
                         <Save className="w-4 h-4" />
@@ -1027,31 +940,27 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
           </div>
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} onReview={() => previewSave()} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+          onSave={saveToHostPage}
+        />
       )}
     </div>
   );
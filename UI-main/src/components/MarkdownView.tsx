@@ -0,0 +1,159 @@
+import React, { useId, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ListTree } from 'lucide-react';
+import CodeBlock from './CodeBlock';
+import MermaidDiagram from './MermaidDiagram';
+import { isSafeUrl } from '../utils/sanitizeHtml';
+import { OutlineHeading, extractOutline } from '../utils/markdownOutline';
+
+interface MarkdownViewProps {
+  children: string;
+  // Render every code block as a diff (the impact tools' change listings)
+  diff?: boolean;
+  // Show a table of contents; by default only reports with several headings get one
+  toc?: boolean;
+  className?: string;
+}
+
+// The minimum of a syntax tree node the renderers below read
+interface TreeNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: TreeNode[];
+  position?: { start: { line: number } };
+}
+
+const TOC_MIN_HEADINGS = 4;
+
+function nodeText(node: TreeNode): string {
+  if (node.type === 'text') return node.value || '';
+  return (node.children || []).map(nodeText).join('');
+}
+
+function codeLanguage(node: TreeNode): string {
+  const classes = node.properties?.className;
+  const list = Array.isArray(classes) ? classes.map(String) : typeof classes === 'string' ? classes.split(' ') : [];
+  const language = list.find(name => name.startsWith('language-'));
+  return language ? language.slice('language-'.length) : '';
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl font-bold text-gray-900 mt-4 mb-2',
+  2: 'text-lg font-semibold text-gray-900 mt-4 mb-2',
+  3: 'text-base font-semibold text-gray-800 mt-3 mb-1',
+  4: 'text-sm font-semibold text-gray-800 mt-3 mb-1',
+  5: 'text-sm font-semibold text-gray-700 mt-2 mb-1',
+  6: 'text-sm font-semibold text-gray-600 mt-2 mb-1',
+};
+
+// Tool answers come from the LLM, which repeats whatever the page said, so
+// they're rendered as markdown only: raw HTML in the text is dropped, links
+// and images keep only safe URLs, and links open in a new tab without access
+// back to the app.
+function buildComponents(diff: boolean, headingId: (line?: number) => string | undefined): Components {
+  const heading = (level: number) => {
+    const Heading: NonNullable<Components['h1']> = ({ node, children }) =>
+      React.createElement(
+        `h${level}`,
+        { id: headingId((node as TreeNode | undefined)?.position?.start.line), className: `${HEADING_CLASSES[level]} scroll-mt-4` },
+        children
+      );
+    return Heading;
+  };
+
+  return {
+    a: ({ href, children }) => (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-confluence-blue underline">{children}</a>
+    ),
+    h1: heading(1),
+    h2: heading(2),
+    h3: heading(3),
+    h4: heading(4),
+    h5: heading(5),
+    h6: heading(6),
+    p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+    ul: ({ children, className }) => (
+      <ul className={`my-2 pl-5 space-y-1 ${className?.includes('contains-task-list') ? 'list-none' : 'list-disc'}`}>{children}</ul>
+    ),
+    ol: ({ children, start }) => <ol start={start} className="my-2 pl-5 space-y-1 list-decimal">{children}</ol>,
+    blockquote: ({ children }) => <blockquote className="my-2 pl-3 border-l-4 border-gray-300 text-gray-600">{children}</blockquote>,
+    hr: () => <hr className="my-4 border-gray-200" />,
+    table: ({ children }) => (
+      <div className="my-3 overflow-x-auto">
+        <table className="min-w-full border-collapse border border-gray-300 text-sm">{children}</table>
+      </div>
+    ),
+    thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
+    th: ({ children, style }) => <th style={style} className="border border-gray-300 px-3 py-2 text-left font-semibold">{children}</th>,
+    td: ({ children, style }) => <td style={style} className="border border-gray-300 px-3 py-2 align-top">{children}</td>,
+    // Block code arrives as <pre><code class="language-x">; everything else is inline
+    pre: ({ node }) => {
+      const code = (node as TreeNode | undefined)?.children?.find(child => child.tagName === 'code');
+      if (!code) return null;
+      const language = codeLanguage(code);
+      const text = nodeText(code).replace(/\n$/, '');
+      if (language === 'mermaid') return <MermaidDiagram source={text} />;
+      return <CodeBlock code={text} language={language} diff={diff} />;
+    },
+    code: ({ children }) => <code className="px-1 py-0.5 rounded bg-gray-100 text-[0.9em] font-mono text-gray-800">{children}</code>,
+  };
+}
+
+const urlTransform = (url: string, key: string) => (isSafeUrl(url, key === 'src') ? url : '');
+
+// Anchors would go through the URL hash, which is the app's router, so the
+// contents scroll to each heading instead.
+const TableOfContents: React.FC<{ headings: OutlineHeading[]; idFor: (slug: string) => string }> = ({ headings, idFor }) => {
+  const minLevel = Math.min(...headings.map(heading => heading.level));
+  return (
+    <details className="mb-3 rounded-lg border border-gray-200 bg-gray-50/80 text-sm">
+      <summary className="flex items-center space-x-2 px-3 py-2 cursor-pointer select-none font-medium text-gray-700">
+        <ListTree className="w-4 h-4" />
+        <span>Contents ({headings.length} sections)</span>
+      </summary>
+      <ul className="px-3 pb-2 space-y-0.5">
+        {headings.map(heading => (
+          <li key={heading.slug} style={{ paddingLeft: `${(heading.level - minLevel) * 12}px` }}>
+            <button
+              type="button"
+              onClick={() => document.getElementById(idFor(heading.slug))?.scrollIntoView({ behavior: 'smooth', block: 'start' })}
+              className="text-left text-confluence-blue hover:underline"
+            >
+              {heading.text}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({ children, diff = false, toc, className = '' }) => {
+  // Several reports can be on screen at once, so heading ids are scoped to this view
+  const scope = useId();
+  const headings = useMemo(() => extractOutline(children || ''), [children]);
+  const showToc = toc ?? headings.length >= TOC_MIN_HEADINGS;
+
+  const components = useMemo(() => {
+    const slugByLine = new Map(headings.map(heading => [heading.line, heading.slug]));
+    const headingId = (line?: number) => {
+      const slug = line === undefined ? undefined : slugByLine.get(line);
+      return slug ? `${scope}-${slug}` : undefined;
+    };
+    return buildComponents(diff, headingId);
+  }, [headings, diff, scope]);
+
+  return (
+    <div className={`text-gray-800 ${className}`}>
+      {showToc && headings.length > 0 && <TableOfContents headings={headings} idFor={slug => `${scope}-${slug}`} />}
+      <ReactMarkdown skipHtml remarkPlugins={[remarkGfm]} urlTransform={urlTransform} components={components}>
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownView;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { renderMermaid } from '../utils/mermaid';
+
+interface MermaidDiagramProps {
+  source: string;
+}
+
+// Renders a ```mermaid block. When the diagram doesn't parse, the error and
+// the source are shown so nothing the answer said is lost.
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source }) => {
+  const [svg, setSvg] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    renderMermaid(source)
+      .then(result => {
+        if (!cancelled) setSvg(result);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setSvg('');
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  if (error) {
+    return (
+      <div className="my-3 rounded-lg border border-red-200 bg-red-50 p-3 text-sm">
+        <div className="flex items-center space-x-2 text-red-700 font-medium mb-2">
+          <AlertCircle className="w-4 h-4" />
+          <span>Couldn't draw this diagram: {error}</span>
+        </div>
+        <pre className="overflow-x-auto text-xs text-gray-700 whitespace-pre">{source}</pre>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return (
+      <div className="my-3 flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Drawing diagram...</span>
+      </div>
+    );
+  }
+
+  // Mermaid renders with securityLevel 'strict', so its SVG carries no scripts or HTML labels
+  return <div className="my-3 overflow-x-auto flex justify-center" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+export default MermaidDiagram;
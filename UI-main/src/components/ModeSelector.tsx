@@ -109,7 +109,7 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ onModeSelect, onClose }) =>
                 </div>
                 <p className="text-blue-700 text-sm leading-relaxed">
                   Access individual tools like AI Powered Search, Code Assistant, Video Summarizer, 
-                  Impact Analyzer, Test Support Tool, and Image Insights. Choose specific tools 
+                  Impact Analyzer, Test Support Tool, Image Insights and Diagram Generator. Choose specific tools 
                   for targeted tasks and workflows.
                 </p>
               </div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Code, Image, Video, Table, Layers, FileText } from 'lucide-react';
+import type { PageContentType, PageWithType } from '../services/api';
+
+const badgeStyles: Record<PageContentType, { label: string; icon: React.ComponentType<{ className?: string }>; className: string }> = {
+  text: { label: 'Text', icon: FileText, className: 'bg-gray-100 text-gray-600' },
+  code: { label: 'Code', icon: Code, className: 'bg-blue-100 text-blue-700' },
+  image: { label: 'Image', icon: Image, className: 'bg-green-100 text-green-700' },
+  video: { label: 'Video', icon: Video, className: 'bg-purple-100 text-purple-700' },
+  table: { label: 'Table', icon: Table, className: 'bg-yellow-100 text-yellow-800' },
+  mixed: { label: 'Mixed', icon: Layers, className: 'bg-orange-100 text-orange-700' },
+};
+
+function countsSummary(page: PageWithType): string {
+  const counts = page.counts;
+  if (!counts) return '';
+  return [
+    [counts.code_blocks, 'code block'],
+    [counts.images, 'image'],
+    [counts.videos, 'video'],
+    [counts.tables, 'table'],
+    [counts.spreadsheets, 'spreadsheet'],
+  ]
+    .filter(([count]) => count)
+    .map(([count, noun]) => `${count} ${noun}${count === 1 ? '' : 's'}`)
+    .join(', ');
+}
+
+// Content-type badge for a page picker row. Renders nothing until the page is classified.
+const PageTypeBadge: React.FC<{ page?: PageWithType }> = ({ page }) => {
+  const style = page && badgeStyles[page.content_type];
+  if (!page || !style) return null;
+  const Icon = style.icon;
+  return (
+    <span
+      className={`inline-flex flex-shrink-0 items-center space-x-1 px-1.5 py-0.5 rounded text-xs font-medium ${style.className}`}
+      title={countsSummary(page) || 'No code, images, videos or tables'}
+    >
+      <Icon className="w-3 h-3" />
+      <span>{style.label}</span>
+    </span>
+  );
+};
+
+export default PageTypeBadge;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Check, Pin } from 'lucide-react';
+
+interface PinButtonProps {
+  onClick: () => void;
+  // Just pinned: the button says so for a moment
+  pinned: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Pins a result to the report tray, next to a tool's Export button
+const PinButton: React.FC<PinButtonProps> = ({ onClick, pinned, disabled, className = '' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    className={`flex items-center space-x-2 px-4 py-2 bg-purple-600/90 backdrop-blur-sm text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-300 transition-colors border border-white/10 ${className}`}
+    title="Add this result to the combined report"
+  >
+    {pinned ? <Check className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+    <span>{pinned ? 'Pinned' : 'Pin to report'}</span>
+  </button>
+);
+
+export default PinButton;
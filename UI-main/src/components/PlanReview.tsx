@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Play, Save, ArrowLeft, AlertTriangle, CornerDownRight } from 'lucide-react';
+import type { PageWithType, PlannedStep } from '../services/api';
+import { toolLabels, toolOutputs, chainedInputs, pageSlotLabelsFor, pageCountFor, isRunnableStep, hasValidInput, compactStep, filterSteps, swapSteps } from '../utils/agentPlan';
+
+interface PlanReviewProps {
+  goal: string;
+  steps: PlannedStep[];
+  onChange: (steps: PlannedStep[]) => void;
+  // Pages known to be in the space, so a step can be retargeted beyond the initial selection
+  pages: string[];
+  // Whether `pages` is the whole space; until then a page missing from it may still exist
+  allPagesListed: boolean;
+  pageTypes: Record<string, PageWithType>;
+  defaultPage: string;
+  planner: string;
+  reasoning?: string;
+  onApprove: () => void;
+  onBack: () => void;
+  onSavePlaybook: (name: string) => void;
+  // How many independent steps may run at once
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+function stepProblem(step: PlannedStep, index: number, pages: string[], allPagesListed: boolean): string {
+  const compacted = compactStep(step);
+  if (allPagesListed && compacted.pages.some(page => !pages.includes(page))) return 'A page is not in this space';
+  if (!hasValidInput(step, index)) return 'The input must come from an earlier step';
+  if (step.tool === 'push_to_jira' && !step.input_from) return 'Choose the step to take action items from';
+  if (!isRunnableStep(compacted)) return pageCountFor(step.tool, !!step.input_from) > 1 ? 'Choose both pages' : 'Choose a page';
+  if (!step.instruction.trim()) return 'Add an instruction';
+  return '';
+}
+
+// Lets the user check and correct a proposed plan before it spends any quota.
+const PlanReview: React.FC<PlanReviewProps> = ({
+  goal,
+  steps,
+  onChange,
+  pages,
+  allPagesListed,
+  pageTypes,
+  defaultPage,
+  planner,
+  reasoning,
+  onApprove,
+  onBack,
+  onSavePlaybook,
+  concurrency,
+  onConcurrencyChange,
+}) => {
+  const [playbookName, setPlaybookName] = useState('');
+  const [savedName, setSavedName] = useState('');
+  const problems = steps.map((step, index) => stepProblem(step, index, pages, allPagesListed));
+  const canApprove = steps.length > 0 && problems.every(problem => !problem);
+
+  const updateStep = (index: number, patch: Partial<PlannedStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  // The planner's rationale no longer applies once the tool or pages change
+  const changeTool = (index: number, tool: string) => {
+    const current = steps[index];
+    const inputFrom = chainedInputs[tool] ? current.input_from : undefined;
+    const pagesForTool = Array.from({ length: pageCountFor(tool, !!inputFrom) }, (_, i) => current.pages[i] || '');
+    updateStep(index, { tool, pages: pagesForTool, input_from: inputFrom, rationale: '' });
+  };
+
+  // An input takes the place of a page slot, so the remaining pages shift to their new slots
+  const changeInput = (index: number, inputFrom?: number) => {
+    const current = steps[index];
+    const wasChained = !!current.input_from;
+    let nextPages = Array.from({ length: pageCountFor(current.tool, !!inputFrom) }, (_, i) => current.pages[i] || '');
+    if (current.tool === 'test_support' && wasChained !== !!inputFrom) {
+      nextPages = inputFrom ? [current.pages[1] || ''] : ['', current.pages[0] || ''];
+    }
+    updateStep(index, { input_from: inputFrom, pages: nextPages, rationale: '' });
+  };
+
+  const changePage = (index: number, slot: number, page: string) => {
+    const nextPages = [...steps[index].pages];
+    nextPages[slot] = page;
+    updateStep(index, { pages: nextPages, rationale: '' });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    onChange(swapSteps(steps, index, target));
+  };
+
+  const addStep = () => {
+    onChange([...steps, { tool: 'ai_powered_search', pages: [defaultPage], instruction: goal, rationale: '' }]);
+  };
+
+  const handleSave = () => {
+    if (!playbookName.trim()) return;
+    onSavePlaybook(playbookName);
+    setSavedName(playbookName.trim());
+    setPlaybookName('');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white/60 backdrop-blur-xl rounded-xl p-6 border border-white/20 shadow-lg">
+        <h3 className="text-xl font-bold text-gray-800 mb-1">Review Plan</h3>
+        <p className="text-sm text-gray-600 mb-1">Nothing has run yet. Adjust the steps, then approve to execute them.</p>
+        <p className="text-xs text-gray-500 mb-4">
+          Planned by {planner}.{reasoning ? ` ${reasoning}` : ''}
+        </p>
+
+        <div className="space-y-4">
+          {steps.map((step, index) => {
+            const slotLabels = pageSlotLabelsFor(step.tool, !!step.input_from);
+            const consumers = steps
+              .map((other, otherIndex) => (other.input_from === index + 1 ? otherIndex + 1 : 0))
+              .filter(Boolean);
+            return (
+              <div
+                key={index}
+                className={`rounded-xl p-4 border bg-white/70 ${problems[index] ? 'border-red-300' : 'border-orange-200/60'}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center space-x-2">
+                    <span className="inline-block px-3 py-1 rounded-full bg-orange-100 text-orange-700 text-xs font-bold uppercase tracking-wide">
+                      Step {index + 1}
+                    </span>
+                    <select
+                      value={step.tool}
+                      onChange={e => changeTool(index, e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      {Object.entries(toolLabels).map(([key, label]) => (
+                        <option key={key} value={key}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onChange(filterSteps(steps, (_, i) => i !== index))}
+                      className="p-1 rounded text-gray-500 hover:text-red-600 hover:bg-gray-100"
+                      title="Delete step"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {chainedInputs[step.tool] && (
+                  <label className="block text-left mb-3">
+                    <span className="text-xs font-medium text-gray-600">Input: {chainedInputs[step.tool]}</span>
+                    <select
+                      value={step.input_from || ''}
+                      onChange={e => changeInput(index, e.target.value ? Number(e.target.value) : undefined)}
+                      className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                    >
+                      <option value="">{step.tool === 'push_to_jira' ? 'Choose a step...' : 'None, use the page'}</option>
+                      {steps.slice(0, index).map((source, sourceIndex) => (
+                        <option key={sourceIndex} value={sourceIndex + 1}>
+                          Output of step {sourceIndex + 1}: {toolLabels[source.tool] || source.tool}{source.pages.filter(Boolean).length ? ` on ${source.pages.filter(Boolean).join(', ')}` : ''}
+                        </option>
+                      ))}
+                      {step.input_from && step.input_from > index && (
+                        <option value={step.input_from}>Step {step.input_from} (runs later)</option>
+                      )}
+                    </select>
+                  </label>
+                )}
+
+                {slotLabels.length > 0 && (
+                  <div className={`grid gap-3 mb-3 ${slotLabels.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    {slotLabels.map((label, slot) => (
+                      <label key={slot} className="block text-left">
+                        <span className="text-xs font-medium text-gray-600">{label}</span>
+                        <select
+                          value={step.pages[slot] || ''}
+                          onChange={e => changePage(index, slot, e.target.value)}
+                          className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+                        >
+                          <option value="">Choose a page...</option>
+                          {pages.map(page => (
+                            <option key={page} value={page}>{page}{pageTypes[page] ? ` (${pageTypes[page].content_type})` : ''}</option>
+                          ))}
+                          {step.pages[slot] && !pages.includes(step.pages[slot]) && (
+                            <option value={step.pages[slot]}>{step.pages[slot]}{allPagesListed ? ' (not in this space)' : ''}</option>
+                          )}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <label className="block text-left mb-2">
+                  <span className="text-xs font-medium text-gray-600">Instruction</span>
+                  <textarea
+                    value={step.instruction}
+                    onChange={e => updateStep(index, { instruction: e.target.value })}
+                    rows={2}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-lg text-sm bg-white resize-none"
+                  />
+                </label>
+
+                <div className="text-xs text-gray-600 text-left">
+                  <span className="font-medium">Expected output:</span> {toolOutputs[step.tool]}
+                </div>
+                {step.rationale && (
+                  <div className="text-xs text-gray-500 italic mt-1 text-left">{step.rationale}</div>
+                )}
+                {consumers.length > 0 && (
+                  <div className="flex items-center space-x-1 text-xs text-orange-700 mt-2">
+                    <CornerDownRight className="w-3 h-3" />
+                    <span>Output feeds step {consumers.join(', step ')}</span>
+                  </div>
+                )}
+                {problems[index] && (
+                  <div className="flex items-center space-x-1 text-xs text-red-600 mt-2">
+                    <AlertTriangle className="w-3 h-3" />
+                    <span>{problems[index]}</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {steps.length === 0 && (
+            <div className="text-sm text-gray-500 text-center py-4">The plan is empty. Add a step to continue.</div>
+          )}
+        </div>
+
+        <button
+          onClick={addStep}
+          className="mt-4 flex items-center space-x-1 text-sm font-medium text-orange-600 hover:text-orange-700"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add step</span>
+        </button>
+
+        <div className="mt-6 pt-4 border-t border-white/30 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={playbookName}
+            onChange={e => setPlaybookName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && canApprove && handleSave()}
+            placeholder="Playbook name"
+            className="flex-1 min-w-[160px] px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white/70"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!playbookName.trim() || !canApprove}
+            className="flex items-center space-x-1 px-3 py-2 bg-white/80 text-orange-600 rounded-lg border border-orange-200/50 hover:bg-orange-100 disabled:opacity-50 text-sm font-medium"
+            title="Save this plan to run again later, in this or another space"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save as playbook</span>
+          </button>
+          {savedName && <span className="text-xs text-green-700">Saved "{savedName}"</span>}
+        </div>
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          <label className="mr-auto flex items-center space-x-2 text-sm text-gray-600" title="Steps that don't take another step's output run side by side, up to this many at once">
+            <span>Run up to</span>
+            <select
+              value={concurrency}
+              onChange={e => onConcurrencyChange(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              {CONCURRENCY_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <span>steps at once</span>
+          </label>
+          <button
+            onClick={onBack}
+            className="flex items-center space-x-1 px-4 py-2 bg-white/80 text-gray-600 rounded-lg hover:bg-gray-100 border border-gray-200/50 font-medium"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </button>
+          <button
+            onClick={onApprove}
+            disabled={!canApprove}
+            className="flex items-center space-x-1 px-5 py-2 bg-orange-500/90 text-white rounded-lg hover:bg-orange-600 disabled:bg-gray-300 disabled:cursor-not-allowed font-semibold"
+          >
+            <Play className="w-4 h-4" />
+            <span>Approve & Run</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { apiService } from '../services/api';
+import { ToolError, isConflictError, toToolError } from '../services/apiErrors';
+import {
+  PublishEntry,
+  PublishTool,
+  canRollBack,
+  clearPublishLog,
+  getPublishLog,
+  recordRollback,
+  subscribeToPublishLog,
+} from '../services/publishLog';
+import { PublishConflict } from '../hooks/usePublish';
+import ApiErrorBanner from './ApiErrorBanner';
+import SaveConflictDialog from './SaveConflictDialog';
+
+const TOOL_LABELS: Record<PublishTool, string> = {
+  search: 'AI Powered Search',
+  video: 'Video Summarizer',
+  code: 'Code Assistant',
+  impact: 'Impact Analyzer',
+  test: 'Test Support Tool',
+  image: 'Chart Builder',
+  diagram: 'Diagram Generator',
+  report: 'Report Builder',
+  rollback: 'Rollback',
+};
+
+function describeVersions(entry: PublishEntry): string {
+  if (entry.versionBefore === null) return `new page, v${entry.versionAfter ?? 1}`;
+  if (entry.versionAfter === null || entry.versionAfter === entry.versionBefore) return `v${entry.versionBefore}, unchanged`;
+  return `v${entry.versionBefore} → v${entry.versionAfter}`;
+}
+
+// Every save the tools made to Confluence from this browser, newest first.
+// A save that is still the page's latest can be rolled back, which restores
+// the version before it; if someone edited the page since, the rollback
+// asks before writing over their edit.
+const PublishLog: React.FC = () => {
+  const [entries, setEntries] = useState(getPublishLog);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<PublishConflict | null>(null);
+  const [error, setError] = useState<ToolError>('');
+
+  useEffect(() => subscribeToPublishLog(() => setEntries(getPublishLog())), []);
+
+  const rollBack = async (entry: PublishEntry, expectedVersion = entry.versionAfter ?? undefined) => {
+    if (entry.versionBefore === null) return;
+    setRollingBackId(entry.id);
+    setError('');
+    try {
+      const restored = await apiService.rollbackPage({
+        page_id: entry.pageId,
+        version: entry.versionBefore,
+        expected_version: expectedVersion,
+      });
+      setConflict(null);
+      recordRollback(entry, {
+        tool: 'rollback',
+        spaceKey: entry.spaceKey,
+        pageId: entry.pageId,
+        pageTitle: restored.page_title || entry.pageTitle,
+        mode: `restore v${entry.versionBefore}`,
+        versionBefore: restored.version_before ?? null,
+        versionAfter: restored.version_after ?? null,
+      });
+    } catch (err) {
+      if (isConflictError(err)) {
+        setConflict({ error: err, overwrite: () => rollBack(entry, err.conflict.currentVersion) });
+      } else {
+        setConflict(null);
+        setError(toToolError(err, 'Failed to roll back the page'));
+      }
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const confirmRollBack = (entry: PublishEntry) => {
+    if (window.confirm(`Restore version ${entry.versionBefore} of "${entry.pageTitle}"? This undoes the ${TOOL_LABELS[entry.tool]} save as a new page version.`)) {
+      rollBack(entry);
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      <ApiErrorBanner error={error} onDismiss={() => setError('')} className="mb-2" />
+      {entries.length === 0 ? (
+        <div className="py-6 text-center text-sm text-gray-500">Nothing has been saved to Confluence from this browser yet.</div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-gray-800 truncate">{entry.pageTitle}</div>
+                <div className="text-xs text-gray-500">
+                  {TOOL_LABELS[entry.tool]} · {entry.mode.replace(/_/g, ' ')} · {describeVersions(entry)} · {new Date(entry.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex-shrink-0 ml-2">
+                {entry.rolledBackBy ? (
+                  <span className="text-xs text-gray-400">Rolled back</span>
+                ) : canRollBack(entry, entries) && (
+                  <button
+                    type="button"
+                    onClick={() => confirmRollBack(entry)}
+                    disabled={rollingBackId !== null}
+                    className="flex items-center space-x-1 px-2 py-1 rounded text-xs text-red-700 border border-red-200 hover:bg-red-50 disabled:opacity-60"
+                  >
+                    {rollingBackId === entry.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                    <span>Roll back</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {entries.length > 0 && (
+        <div className="flex justify-end pt-1">
+          <button
+            type="button"
+            onClick={() => window.confirm('Clear the publish log? The pages keep their history in Confluence.') && clearPublishLog()}
+            className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Clear log</span>
+          </button>
+        </div>
+      )}
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={() => setConflict(null)} overwriteLabel="Roll back anyway" />}
+    </div>
+  );
+};
+
+export default PublishLog;
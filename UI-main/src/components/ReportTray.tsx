@@ -0,0 +1,385 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, FileStack, GripVertical, Loader2, Pencil, Save, Trash2, X } from 'lucide-react';
+import { apiService, SaveOptions } from '../services/api';
+import { ToolError, isCancelledError, toToolError } from '../services/apiErrors';
+import {
+  PinnedSection,
+  clearReportTray,
+  getReportTray,
+  movePinnedSection,
+  removePinnedSection,
+  setReportTitle,
+  subscribeToReportTray,
+  trayReport,
+  updatePinnedSection,
+} from '../services/reportTray';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useCommands } from '../hooks/useCommands';
+import { usePublish } from '../hooks/usePublish';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { EXPORT_FORMATS, ExportFormat, exportReport, reportToMarkdown } from '../utils/reportExport';
+import { CONTENTS_MACRO, markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import ApiErrorBanner from './ApiErrorBanner';
+import MarkdownView from './MarkdownView';
+import SaveModeSelect from './SaveModeSelect';
+import SavePreviewModal from './SavePreviewModal';
+import SaveConflictDialog from './SaveConflictDialog';
+
+const INPUT_CLASS = 'px-3 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white';
+
+// The report tray: every result pinned from the tools and Agent Mode, as
+// one report. Sections are reordered by dragging or with the arrows, and
+// edited in place; the report exports with a title page and contents, or is
+// published as one Confluence page (a child of the host page by default).
+// A button in the corner opens it while anything is pinned.
+const ReportTray: React.FC = () => {
+  const { spaces, hostPage, hostPageId } = useWorkspace();
+  const [tray, setTray] = useState(getReportTray);
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; title: string; markdown: string } | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
+  const [isExporting, setIsExporting] = useState(false);
+  // Undefined until the backend says which model it uses
+  const [model, setModel] = useState<string>();
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('report');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>({ mode: 'create_child', child_title: tray.title });
+  const [previewContent, setPreviewContent] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showToast, setShowToast] = useState(false);
+
+  useEffect(() => subscribeToReportTray(() => setTray(getReportTray())), []);
+
+  useEffect(() => {
+    if (!isOpen || model !== undefined) return;
+    apiService.getServerInfo({ signal: getSignal() })
+      .then(info => setModel(info.model || ''))
+      .catch(err => {
+        if (!isCancelledError(err)) setModel('');
+      });
+  }, [isOpen, model, getSignal]);
+
+  useCommands([
+    { id: 'report.open', title: 'Open the report tray', group: 'Report', keywords: 'pinned combined builder sections export publish', run: () => setIsOpen(true) },
+    { id: 'report.clear', title: 'Clear the report tray', group: 'Report', keywords: 'remove pinned', disabled: tray.sections.length === 0, run: () => confirmClear() },
+  ]);
+
+  const spaceName = (key: string) => spaces.find(space => space.key === key)?.name || key;
+  const report = trayReport(tray, spaceName, model);
+  const filename = report.title?.replace(/\s+/g, '_') || 'report';
+
+  // Changes to the tray go to storage, which can be full
+  const change = (update: () => void) => {
+    try {
+      update();
+    } catch (err) {
+      setError(toToolError(err, 'Failed to update the report'));
+    }
+  };
+
+  const confirmClear = () => {
+    if (window.confirm('Remove every section from the report?')) change(clearReportTray);
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    change(() => updatePinnedSection(editing.id, { title: editing.title.trim() || 'Untitled section', markdown: editing.markdown }));
+    setEditing(null);
+  };
+
+  const dropOn = (index: number) => {
+    if (draggedId) change(() => movePinnedSection(draggedId, index));
+    setDraggedId(null);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportReport(report, exportFormat, filename, { signal: getSignal() });
+    } catch (err) {
+      setError(toToolError(err, 'Failed to export the report'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The page gets Confluence's own table of contents instead of a list, and the page title instead of a title line
+  const pageMarkdown = () => reportToMarkdown({ ...report, title: undefined, contents: false });
+
+  const publishOptions = (options: SaveOptions): SaveOptions =>
+    options.mode === 'create_child' && !options.child_title?.trim() ? { ...options, child_title: report.title } : options;
+
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
+    }
+    setIsSaving(true);
+    await publish(page, async expectedVersion => {
+      const prepared = await prepareMarkdownSave(pageMarkdown());
+      const saved = await apiService.saveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: CONTENTS_MACRO + prepared.content,
+        attachments: prepared.attachments,
+        ...publishOptions(saveOptions),
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to publish the report')));
+    setIsSaving(false);
+  };
+
+  const previewSave = async (options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const storage = CONTENTS_MACRO + markdownToStorage(pageMarkdown()).storage;
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: storage,
+        ...publishOptions(options),
+      }, { signal: getSignal() });
+      notePreview(page, preview);
+      setPreviewStorage(storage);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const renderSection = (section: PinnedSection, index: number) => {
+    const isEditing = editing?.id === section.id;
+    const iconButton = 'p-1 rounded text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent';
+    return (
+      <div
+        key={section.id}
+        draggable={!isEditing}
+        onDragStart={() => setDraggedId(section.id)}
+        onDragEnd={() => setDraggedId(null)}
+        onDragOver={e => draggedId && e.preventDefault()}
+        onDrop={() => dropOn(index)}
+        className={`rounded-xl border bg-white/90 p-4 ${draggedId === section.id ? 'opacity-50 border-confluence-blue' : 'border-gray-200'}`}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="flex items-start gap-2 min-w-0">
+            {!isEditing && <GripVertical className="w-4 h-4 mt-1 text-gray-400 cursor-grab flex-shrink-0" />}
+            <div className="min-w-0">
+              {isEditing ? (
+                <input
+                  type="text"
+                  aria-label="Section title"
+                  value={editing.title}
+                  onChange={e => setEditing({ ...editing, title: e.target.value })}
+                  className={`${INPUT_CLASS} w-full font-semibold`}
+                />
+              ) : (
+                <h4 className="font-semibold text-gray-900 truncate">{index + 1}. {section.title}</h4>
+              )}
+              <div className="text-xs text-gray-500">
+                {section.source} · {new Date(section.pinnedAt).toLocaleString()}
+                {section.pages.length > 0 && ` · ${section.pages.join(', ')}`}
+              </div>
+            </div>
+          </div>
+          {!isEditing && (
+            <div className="flex items-center flex-shrink-0">
+              <button type="button" title="Move up" disabled={index === 0} onClick={() => change(() => movePinnedSection(section.id, index - 1))} className={iconButton}>
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button type="button" title="Move down" disabled={index === tray.sections.length - 1} onClick={() => change(() => movePinnedSection(section.id, index + 1))} className={iconButton}>
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button type="button" title="Edit" onClick={() => setEditing({ id: section.id, title: section.title, markdown: section.markdown })} className={iconButton}>
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button type="button" title="Remove from the report" onClick={() => change(() => removePinnedSection(section.id))} className={`${iconButton} hover:text-red-600`}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              aria-label="Section markdown"
+              value={editing.markdown}
+              onChange={e => setEditing({ ...editing, markdown: e.target.value })}
+              rows={12}
+              className="w-full p-3 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-confluence-blue"
+            />
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 text-sm text-gray-700 rounded hover:bg-gray-100">
+                Cancel
+              </button>
+              <button type="button" onClick={saveEdit} className="px-3 py-1 text-sm text-white rounded bg-confluence-blue hover:bg-confluence-blue/90">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-64 overflow-y-auto text-sm">
+            <MarkdownView toc={false}>{section.markdown}</MarkdownView>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (!isOpen) {
+    return tray.sections.length > 0 ? (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-50 flex items-center space-x-2 px-4 py-2 rounded-full bg-purple-600 text-white shadow-lg hover:bg-purple-700 transition-colors"
+        title="Open the combined report"
+      >
+        <FileStack className="w-4 h-4" />
+        <span className="text-sm font-medium">Report · {tray.sections.length}</span>
+      </button>
+    ) : null;
+  }
+
+  const details = Object.entries(report.details || {}).filter(([, value]) => value);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl w-full max-w-4xl max-h-[92vh] flex flex-col border border-white/20">
+        <div className="flex items-center justify-between gap-4 p-5 border-b border-gray-200">
+          <div className="flex items-center gap-3 min-w-0 flex-1">
+            <FileStack className="w-6 h-6 text-purple-600 flex-shrink-0" />
+            <input
+              type="text"
+              aria-label="Report title"
+              value={tray.title}
+              onChange={e => change(() => setReportTitle(e.target.value))}
+              className="flex-1 min-w-0 text-xl font-bold text-gray-900 bg-transparent border-b border-transparent hover:border-gray-300 focus:border-confluence-blue focus:outline-none"
+            />
+          </div>
+          <button type="button" onClick={() => setIsOpen(false)} className="text-gray-500 hover:text-gray-800" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-3">
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
+          {details.length > 0 && (
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+              {details.map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt className="font-medium text-gray-500">{label}</dt>
+                  <dd className="text-gray-800">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+          {tray.sections.length === 0 ? (
+            <div className="py-10 text-center text-sm text-gray-500">
+              Nothing is pinned yet. Use <strong>Pin to report</strong> in a tool, or on an Agent Mode output tab, to add its result here.
+            </div>
+          ) : (
+            tray.sections.map(renderSection)
+          )}
+        </div>
+
+        {tray.sections.length > 0 && (
+          <div className="p-5 border-t border-gray-200 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="report-export-format" className="text-sm font-medium text-gray-700">Export Format:</label>
+              <select
+                id="report-export-format"
+                value={exportFormat}
+                onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                className={INPUT_CLASS}
+              >
+                {EXPORT_FORMATS.map(f => (
+                  <option key={f.value} value={f.value}>{f.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={isExporting}
+                className="flex items-center space-x-2 px-4 py-1.5 bg-green-600/90 text-white rounded-lg hover:bg-green-700 disabled:opacity-60 transition-colors"
+              >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                <span>Export</span>
+              </button>
+              <button type="button" onClick={confirmClear} className="ml-auto flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700">
+                <Trash2 className="w-3 h-3" />
+                <span>Clear report</span>
+              </button>
+            </div>
+            <SaveModeSelect id="report-save-mode" value={saveOptions} onChange={setSaveOptions} />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => previewSave()}
+                disabled={isPreviewLoading}
+                className="flex items-center space-x-2 px-4 py-1.5 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:opacity-60 transition-colors"
+              >
+                {isPreviewLoading ? 'Loading...' : 'Preview'}
+              </button>
+              <button
+                type="button"
+                onClick={saveToHostPage}
+                disabled={isSaving}
+                className="flex items-center space-x-2 px-4 py-1.5 bg-confluence-blue/90 text-white rounded-lg hover:bg-confluence-blue disabled:opacity-60 transition-colors"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                <span>Publish to Confluence</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} onReview={() => previewSave()} />}
+      {showToast && (
+        <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
+          Published to Confluence! Please refresh this Confluence page to see your changes.
+        </div>
+      )}
+      {showPreview && (
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+          onSave={saveToHostPage}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReportTray;
@@ -0,0 +1,45 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RouteContext, RouteContextValue } from '../contexts/routeContext';
+import { AppRoute, parseRoute, routeUrl, sameRoute } from '../utils/appRoute';
+
+const RouteProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+  // Read by updateRoute, which patches whatever the route is by then
+  const routeRef = useRef(route);
+
+  useEffect(() => {
+    // Back/forward, or a link to another route pasted into the address bar
+    const handleChange = () => {
+      const next = parseRoute(window.location.hash);
+      if (sameRoute(next, routeRef.current)) return;
+      routeRef.current = next;
+      setRoute(next);
+    };
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener('hashchange', handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener('hashchange', handleChange);
+    };
+  }, []);
+
+  const go = useCallback((next: AppRoute, replace: boolean) => {
+    if (sameRoute(next, routeRef.current)) return;
+    routeRef.current = next;
+    setRoute(next);
+    if (replace) {
+      window.history.replaceState(null, '', routeUrl(next));
+    } else {
+      window.history.pushState(null, '', routeUrl(next));
+    }
+  }, []);
+
+  const navigate = useCallback((next: AppRoute) => go(next, false), [go]);
+  const updateRoute = useCallback((patch: Partial<AppRoute>) => go({ ...routeRef.current, ...patch }, true), [go]);
+
+  const value = useMemo<RouteContextValue>(() => ({ route, navigate, updateRoute }), [route, navigate, updateRoute]);
+
+  return <RouteContext.Provider value={value}>{children}</RouteContext.Provider>;
+};
+
+export default RouteProvider;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Eye, Loader2, Save } from 'lucide-react';
+import { PublishConflict } from '../hooks/usePublish';
+
+interface SaveConflictDialogProps {
+  conflict: PublishConflict;
+  onClose: () => void;
+  // Previews the save against the page as it is now
+  onReview?: () => void;
+  // e.g. "Save anyway" or "Roll back anyway"
+  overwriteLabel?: string;
+}
+
+function formatWhen(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+// Shown when a save finds the page was edited after the version the tool
+// saw. Nothing has been written; the user reviews the page again or saves
+// over the other edit.
+const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({ conflict, onClose, onReview, overwriteLabel = 'Save anyway' }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const { pageTitle, expectedVersion, currentVersion, modifiedBy, modifiedAt } = conflict.error.conflict;
+  const when = formatWhen(modifiedAt);
+
+  const overwrite = async () => {
+    setIsSaving(true);
+    try {
+      await conflict.overwrite();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md border border-gray-200">
+        <div className="flex items-start space-x-3 mb-4">
+          <AlertTriangle className="w-6 h-6 text-yellow-500 flex-shrink-0" />
+          <div>
+            <h4 className="font-semibold text-gray-900">The page changed since you last saw it</h4>
+            <p className="mt-1 text-sm text-gray-700">
+              "{pageTitle}" is now at version {currentVersion}, and you saw version {expectedVersion}.
+              {modifiedBy && ` The latest edit is by ${modifiedBy}${when ? ` on ${when}` : ''}.`}
+            </p>
+            <p className="mt-2 text-sm text-gray-600">Nothing was saved. Saving anyway writes over that edit.</p>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors">
+            Cancel
+          </button>
+          {onReview && (
+            <button
+              onClick={() => {
+                onClose();
+                onReview();
+              }}
+              className="flex items-center space-x-2 px-4 py-2 text-sm bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors"
+            >
+              <Eye className="w-4 h-4" />
+              <span>Review changes</span>
+            </button>
+          )}
+          <button
+            onClick={overwrite}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-60 transition-colors"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>{overwriteLabel}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveConflictDialog;
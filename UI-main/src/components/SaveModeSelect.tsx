@@ -0,0 +1,102 @@
+import React from 'react';
+import { SaveMode, SaveOptions } from '../services/api';
+import { PageHeading } from '../utils/storageDiff';
+
+interface SaveModeSelectProps {
+  id: string;
+  value: SaveOptions;
+  onChange: (options: SaveOptions) => void;
+  // The target page's headings; without them the heading is typed in
+  headings?: PageHeading[];
+}
+
+const SAVE_MODE_LABELS: Record<SaveMode, string> = {
+  append: 'Append',
+  prepend: 'Prepend',
+  overwrite: 'Overwrite',
+  insert_after_heading: 'Insert after heading',
+  replace_section: 'Replace section',
+  create_child: 'New child page',
+};
+
+const INPUT_CLASS = 'px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm';
+
+function usesHeading(mode: SaveMode): boolean {
+  return mode === 'insert_after_heading' || mode === 'replace_section';
+}
+
+// The save mode picker every tool shows next to its Save button, with the
+// heading, marker or page title the chosen mode needs. Replacing a section
+// goes by heading when one is given, and otherwise by the anchor macros
+// around it, so a re-run replaces the summary it saved before.
+const SaveModeSelect: React.FC<SaveModeSelectProps> = ({ id, value, onChange, headings }) => {
+  const update = (changes: Partial<SaveOptions>) => onChange({ ...value, ...changes });
+  const minLevel = headings?.length ? Math.min(...headings.map(heading => heading.level)) : 1;
+  const headingKnown = !value.heading || headings?.some(heading => heading.text === value.heading);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <label htmlFor={id} className="text-sm font-medium text-gray-700">Save Mode:</label>
+      <select
+        id={id}
+        value={value.mode}
+        onChange={e => update({ mode: e.target.value as SaveMode })}
+        className={INPUT_CLASS}
+      >
+        {(Object.keys(SAVE_MODE_LABELS) as SaveMode[]).map(mode => (
+          <option key={mode} value={mode}>{SAVE_MODE_LABELS[mode]}</option>
+        ))}
+      </select>
+
+      {usesHeading(value.mode) && (headings ? (
+        <select
+          aria-label="Heading"
+          value={value.heading || ''}
+          onChange={e => update({ heading: e.target.value || undefined })}
+          className={`${INPUT_CLASS} max-w-xs`}
+        >
+          <option value="">{value.mode === 'replace_section' ? 'By marker, no heading' : 'Choose a heading…'}</option>
+          {!headingKnown && <option value={value.heading}>{value.heading} (not on the page)</option>}
+          {headings.map((heading, index) => (
+            <option key={index} value={heading.text}>
+              {'\u00a0\u00a0'.repeat(heading.level - minLevel)}{heading.text}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          aria-label="Heading"
+          value={value.heading || ''}
+          onChange={e => update({ heading: e.target.value || undefined })}
+          placeholder={value.mode === 'replace_section' ? 'Heading (or leave empty for a marker)' : 'Heading'}
+          className={INPUT_CLASS}
+        />
+      ))}
+
+      {value.mode === 'replace_section' && !value.heading && (
+        <input
+          type="text"
+          aria-label="Marker"
+          value={value.marker || ''}
+          onChange={e => update({ marker: e.target.value || undefined })}
+          placeholder="Marker: ai-summary"
+          className={INPUT_CLASS}
+        />
+      )}
+
+      {value.mode === 'create_child' && (
+        <input
+          type="text"
+          aria-label="Child page title"
+          value={value.child_title || ''}
+          onChange={e => update({ child_title: e.target.value || undefined })}
+          placeholder="New page title"
+          className={INPUT_CLASS}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SaveModeSelect;
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Code2, Columns, Eye, RefreshCw, Rows, Save } from 'lucide-react';
+import CodeBlock from './CodeBlock';
+import StorageFormatView from './StorageFormatView';
+import SaveModeSelect from './SaveModeSelect';
+import { SaveOptions } from '../services/api';
+import { BlockChange, StorageBlock, WordChange, describeBlocks, diffStorage, pageOutline, summarizeDiff } from '../utils/storageDiff';
+
+interface SavePreviewModalProps {
+  // The page's storage format now, and what saving would make it
+  existing: string;
+  updated: string;
+  // The tool's result as converted to storage format, shown in the Storage view when given
+  content?: string;
+  onClose: () => void;
+  // Shown as a Save button when given
+  onSave?: () => void;
+  // Where the content goes; given with onOptionsChange, the preview offers a
+  // heading picker from the page's outline and asks for a new preview on changes
+  options?: SaveOptions;
+  onOptionsChange?: (options: SaveOptions) => void;
+  // From the preview: why the content can't be placed yet
+  sectionError?: string | null;
+  isLoading?: boolean;
+}
+
+type PreviewView = 'inline' | 'split' | 'result' | 'storage';
+
+// Runs of unchanged blocks longer than this are folded
+const CONTEXT_BLOCKS = 2;
+
+const CHANGE_STYLES: Record<BlockChange['type'], string> = {
+  unchanged: 'border-gray-200 bg-white',
+  added: 'border-green-400 bg-green-50',
+  removed: 'border-red-400 bg-red-50',
+  changed: 'border-yellow-400 bg-yellow-50',
+};
+
+const CHANGE_LABELS: Record<BlockChange['type'], string> = {
+  unchanged: '',
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+// `side` limits a word diff to one version: the old text with its removals, or the new with its additions
+const WordDiff: React.FC<{ words: WordChange[]; side?: 'old' | 'new' }> = ({ words, side }) => (
+  <p className="whitespace-pre-wrap break-words">
+    {words.map((word, index) => {
+      if (word.type === 'same') return <span key={index}>{word.text}</span>;
+      if (word.type === 'removed') {
+        return side === 'new' ? null : <del key={index} className="bg-red-200 text-red-900">{word.text}</del>;
+      }
+      return side === 'old' ? null : <ins key={index} className="bg-green-200 text-green-900 no-underline">{word.text}</ins>;
+    })}
+  </p>
+);
+
+const BlockView: React.FC<{ block: StorageBlock }> = ({ block }) => (
+  <StorageFormatView className="break-words" storage={block.html} />
+);
+
+const ChangeLabel: React.FC<{ change: BlockChange; block?: StorageBlock }> = ({ change, block }) =>
+  change.type === 'unchanged' ? null : (
+    <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+      {CHANGE_LABELS[change.type]} · {(block || change.new || change.old)?.label}
+    </div>
+  );
+
+type Row = { change: BlockChange } | { folded: number; key: string };
+
+// Keeps a little context around each change and folds the unchanged runs between them
+function foldUnchanged(changes: BlockChange[], expanded: Set<string>): Row[] {
+  const rows: Row[] = [];
+  let run: BlockChange[] = [];
+  const flush = (atStart: boolean, atEnd: boolean) => {
+    const key = `fold-${rows.length}`;
+    const keepBefore = atStart ? 0 : CONTEXT_BLOCKS;
+    const keepAfter = atEnd ? 0 : CONTEXT_BLOCKS;
+    if (run.length <= keepBefore + keepAfter + 1 || expanded.has(key)) {
+      run.forEach(change => rows.push({ change }));
+    } else {
+      run.slice(0, keepBefore).forEach(change => rows.push({ change }));
+      rows.push({ folded: run.length - keepBefore - keepAfter, key });
+      run.slice(run.length - keepAfter).forEach(change => rows.push({ change }));
+    }
+    run = [];
+  };
+  changes.forEach(change => {
+    if (change.type === 'unchanged') {
+      run.push(change);
+    } else {
+      flush(rows.length === 0, false);
+      rows.push({ change });
+    }
+  });
+  flush(rows.length === 0, true);
+  return rows;
+}
+
+// The preview every tool shows before saving to Confluence: a block-level
+// diff of the page, inline or side by side, or the page as it would look.
+// A warning lists what the page loses when blocks are removed or rewritten,
+// the save mode can be changed, or a heading picked, without closing it, and
+// the Storage view shows the markup the tool's result was converted to.
+const SavePreviewModal: React.FC<SavePreviewModalProps> = ({
+  existing, updated, content, onClose, onSave, options, onOptionsChange, sectionError, isLoading = false,
+}) => {
+  const [view, setView] = useState<PreviewView>('inline');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState(options);
+  useEffect(() => setDraft(options), [options]);
+  const outline = useMemo(() => pageOutline(existing), [existing]);
+  const changes = useMemo(() => diffStorage(existing, updated), [existing, updated]);
+  const summary = useMemo(() => summarizeDiff(changes), [changes]);
+  const rows = useMemo(() => foldUnchanged(changes, expanded), [changes, expanded]);
+
+  const expand = (key: string) => setExpanded(current => new Set(current).add(key));
+
+  const renderFold = (row: { folded: number; key: string }) => (
+    <button
+      key={row.key}
+      onClick={() => expand(row.key)}
+      className="w-full py-1 text-xs text-gray-500 bg-gray-100 hover:bg-gray-200 rounded border border-dashed border-gray-300"
+    >
+      Show {row.folded} unchanged {row.folded === 1 ? 'block' : 'blocks'}
+    </button>
+  );
+
+  const renderInline = (change: BlockChange, index: number) => (
+    <div key={index} className={`border-l-4 rounded p-3 ${CHANGE_STYLES[change.type]}`}>
+      <ChangeLabel change={change} />
+      {change.type === 'changed' && change.words ? (
+        <WordDiff words={change.words} />
+      ) : (
+        <div className={change.type === 'removed' ? 'opacity-70 line-through decoration-red-400' : ''}>
+          <BlockView block={(change.new || change.old)!} />
+        </div>
+      )}
+    </div>
+  );
+
+  const renderSplit = (change: BlockChange, index: number) => {
+    const empty = <div className="rounded p-3 border border-dashed border-gray-200 bg-gray-50" />;
+    const left = change.old ? (
+      <div className={`border-l-4 rounded p-3 ${change.type === 'unchanged' ? CHANGE_STYLES.unchanged : change.type === 'changed' ? CHANGE_STYLES.changed : CHANGE_STYLES.removed}`}>
+        <ChangeLabel change={change} block={change.old} />
+        {change.type === 'changed' && change.words ? <WordDiff words={change.words} side="old" /> : <BlockView block={change.old} />}
+      </div>
+    ) : empty;
+    const right = change.new ? (
+      <div className={`border-l-4 rounded p-3 ${change.type === 'unchanged' ? CHANGE_STYLES.unchanged : change.type === 'changed' ? CHANGE_STYLES.changed : CHANGE_STYLES.added}`}>
+        <ChangeLabel change={change} block={change.new} />
+        {change.type === 'changed' && change.words ? <WordDiff words={change.words} side="new" /> : <BlockView block={change.new} />}
+      </div>
+    ) : empty;
+    return (
+      <div key={index} className="grid grid-cols-2 gap-3">
+        {left}
+        {right}
+      </div>
+    );
+  };
+
+  const viewButton = (id: PreviewView, label: string, Icon: typeof Rows) => (
+    <button
+      onClick={() => setView(id)}
+      className={`flex items-center space-x-1 px-3 py-1 rounded text-sm transition-colors ${
+        view === id ? 'bg-white text-confluence-blue' : 'text-white hover:bg-white/10'
+      }`}
+    >
+      <Icon className="w-4 h-4" />
+      <span>{label}</span>
+    </button>
+  );
+
+  const nothingChanges = summary.added + summary.removed + summary.changed === 0;
+  const draftChanged = !!draft && !!options && JSON.stringify(draft) !== JSON.stringify(options);
+
+  // Picks from a list update the preview straight away; typed fields wait for the Update button
+  const changeDraft = (next: SaveOptions) => {
+    const typed = next.marker !== draft?.marker || next.child_title !== draft?.child_title;
+    setDraft(next);
+    if (!typed && (next.mode !== 'create_child' || next.child_title)) onOptionsChange?.(next);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30 p-4">
+      <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-5xl relative border border-white/20">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
+          <div className="flex items-center space-x-2">
+            {viewButton('inline', 'Inline', Rows)}
+            {viewButton('split', 'Side by side', Columns)}
+            {viewButton('result', 'Result', Eye)}
+            {content !== undefined && viewButton('storage', 'Storage', Code2)}
+            <button onClick={onClose} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
+          </div>
+        </div>
+
+        {draft && onOptionsChange && (
+          <div className="mb-3 px-3 pt-2 pb-1 rounded-lg bg-white/90 border border-white/30">
+            <div className="flex flex-wrap items-start gap-2">
+              <SaveModeSelect id="preview-save-mode" value={draft} onChange={changeDraft} headings={outline} />
+              {(draftChanged || isLoading) && (
+                <button
+                  onClick={() => onOptionsChange(draft)}
+                  disabled={isLoading || (draft.mode === 'create_child' && !draft.child_title)}
+                  className="flex items-center space-x-1 px-3 py-1 rounded text-sm bg-confluence-blue text-white hover:bg-confluence-blue/90 disabled:opacity-60"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                  <span>{isLoading ? 'Updating...' : 'Update preview'}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mb-3 text-sm text-blue-100">
+          {sectionError
+            ? `${sectionError}. Pick a heading to place the content.`
+            : nothingChanges
+            ? 'Saving would not change the page.'
+            : `${summary.added} added, ${summary.changed} changed, ${summary.removed} removed, ${summary.unchanged} unchanged ${summary.unchanged === 1 ? 'block' : 'blocks'}.`}
+        </div>
+        {summary.lost.length > 0 && (
+          <div className="mb-3 flex items-start space-x-2 p-3 rounded-lg bg-red-50 border border-red-300 text-sm text-red-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Saving removes or rewrites {summary.lost.length} {summary.lost.length === 1 ? 'block' : 'blocks'} of the current page: {describeBlocks(summary.lost)}.
+              {summary.removed > 0 && ' Removed content can only be recovered from the page history.'}
+            </span>
+          </div>
+        )}
+
+        <div className="overflow-y-auto bg-white/90 rounded-xl p-4 border border-white/30 shadow-inner min-h-[120px] max-h-[55vh] text-gray-900 text-sm space-y-2">
+          {view === 'storage' && content !== undefined ? (
+            <CodeBlock code={content} language="xml" />
+          ) : view === 'result' ? (
+            <StorageFormatView className="break-words" storage={updated} />
+          ) : view === 'split' ? (
+            <>
+              <div className="grid grid-cols-2 gap-3 text-xs font-semibold text-gray-500 uppercase">
+                <span>Current page</span>
+                <span>After saving</span>
+              </div>
+              {rows.map((row, index) => ('folded' in row ? renderFold(row) : renderSplit(row.change, index)))}
+            </>
+          ) : (
+            rows.map((row, index) => ('folded' in row ? renderFold(row) : renderInline(row.change, index)))
+          )}
+        </div>
+
+        {onSave && (
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={() => {
+                onClose();
+                onSave();
+              }}
+              disabled={!!sectionError || isLoading || draftChanged}
+              className="flex items-center space-x-2 px-4 py-2 bg-white text-confluence-blue rounded-lg hover:bg-blue-50 transition-colors font-medium disabled:opacity-60"
+            >
+              <Save className="w-4 h-4" />
+              <span>Save to Confluence</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavePreviewModal;
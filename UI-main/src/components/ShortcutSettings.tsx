@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import {
+  SHORTCUT_ACTIONS,
+  eventToKeys,
+  formatShortcut,
+  getShortcuts,
+  isValidShortcut,
+  resetShortcuts,
+  setShortcut,
+  subscribeToShortcuts,
+} from '../services/keyboardShortcuts';
+
+// Lists every shortcut and records a new one for an action: click its keys,
+// then press the combination. Escape cancels, Backspace turns it off.
+const ShortcutSettings: React.FC = () => {
+  const [shortcuts, setShortcuts] = useState(getShortcuts);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => subscribeToShortcuts(() => setShortcuts(getShortcuts())), []);
+
+  const handleRecord = (e: React.KeyboardEvent, id: string) => {
+    // Keep the key press away from the app's own shortcuts while recording
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      setShortcut(id, '');
+      setRecordingId(null);
+      return;
+    }
+    const keys = eventToKeys(e);
+    if (!keys) return;
+    if (!isValidShortcut(keys)) {
+      setNotice('Shortcuts need Ctrl, Cmd, Alt or Shift, so they don\'t get in the way of typing.');
+      return;
+    }
+    const clash = SHORTCUT_ACTIONS.find(action => action.id !== id && shortcuts[action.id] === keys);
+    if (clash) {
+      setNotice(`${formatShortcut(keys)} is already used for "${clash.label}".`);
+      return;
+    }
+    setShortcut(id, keys);
+    setNotice('');
+    setRecordingId(null);
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      {SHORTCUT_ACTIONS.map(action => (
+        <div key={action.id} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">{action.label}</span>
+          <div className="flex items-center space-x-1">
+            <button
+              type="button"
+              onClick={() => { setRecordingId(action.id); setNotice(''); }}
+              onKeyDown={e => recordingId === action.id && handleRecord(e, action.id)}
+              onBlur={() => setRecordingId(current => (current === action.id ? null : current))}
+              className={`min-w-[120px] px-2 py-1 rounded border font-mono text-xs ${
+                recordingId === action.id
+                  ? 'border-confluence-blue bg-blue-50 text-confluence-blue'
+                  : 'border-gray-300 bg-white/70 text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              {recordingId === action.id ? 'Press keys...' : formatShortcut(shortcuts[action.id]) || 'Off'}
+            </button>
+            {shortcuts[action.id] && (
+              <button
+                type="button"
+                onClick={() => setShortcut(action.id, '')}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Turn off"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+      {notice && <div className="text-xs text-red-600">{notice}</div>}
+      <div className="pt-2 border-t border-gray-200 flex justify-end">
+        <button
+          type="button"
+          onClick={() => { resetShortcuts(); setNotice(''); }}
+          className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-800"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Restore defaults</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
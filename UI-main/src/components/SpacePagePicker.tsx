@@ -0,0 +1,464 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, ChevronRight, Check, CheckCircle, Star, ListTree, List } from 'lucide-react';
+import PageTypeBadge from './PageTypeBadge';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { usePageTypes } from '../hooks/usePageTypes';
+import { usePageTree } from '../hooks/usePageTree';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { fuzzyFilter } from '../utils/fuzzySearch';
+import { buildPageTree, flattenTree, ancestorsOf } from '../utils/pageTree';
+import {
+  getFavouritePages,
+  getRecentPages,
+  toggleFavouritePage,
+  addRecentPages,
+  subscribeToPagePreferences,
+} from '../services/pagePreferences';
+
+interface PickerBaseProps {
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+interface SinglePickerProps extends PickerBaseProps {
+  multiple?: false;
+  value: string;
+  onChange: (page: string) => void;
+}
+
+interface MultiPickerProps extends PickerBaseProps {
+  multiple: true;
+  value: string[];
+  onChange: (pages: string[]) => void;
+}
+
+type PickerRow =
+  | { kind: 'header'; key: string; label: string }
+  | { kind: 'status'; key: string; label: string }
+  | { kind: 'page'; key: string; title: string; depth: number; hasChildren: boolean; matched?: number[]; path?: string[] };
+
+const ROW_HEIGHT = 40;
+const MAX_LIST_HEIGHT = 288;
+// Start listing the next batch this many rows before the end
+const LOAD_MORE_THRESHOLD = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+function highlight(title: string, matched?: number[]): React.ReactNode {
+  if (!matched || matched.length === 0) return title;
+  const marked = new Set(matched);
+  const parts: React.ReactNode[] = [];
+  let run = '';
+  let runMarked = false;
+  const flush = (index: number) => {
+    if (!run) return;
+    parts.push(runMarked ? <mark key={index} className="bg-transparent font-semibold text-confluence-blue">{run}</mark> : run);
+    run = '';
+  };
+  [...title].forEach((char, index) => {
+    if (marked.has(index) !== runMarked) {
+      flush(index);
+      runMarked = marked.has(index);
+    }
+    run += char;
+  });
+  flush(title.length);
+  return parts;
+}
+
+// Page picker for the workspace's current space, used by every tool. Shows
+// favourite and recent pages first, then the whole space as a tree (or a flat
+// list), and switches to fuzzy-ranked results while searching. Only the rows
+// in view are rendered, and scrolling near the end lists the next batch of
+// pages. While not every page is listed, searches also run a server-side
+// title search. Arrow keys move through the pages, Right/Left expand and
+// collapse, Enter picks, Escape closes.
+const SpacePagePicker: React.FC<SinglePickerProps | MultiPickerProps> = (props) => {
+  const { placeholder = props.multiple ? 'Choose pages...' : 'Choose a page...', disabled } = props;
+  const { spaceKey, pages, pagesLoading, hasMorePages, loadMorePages, searchPages } = useWorkspace();
+  const treeNodes = usePageTree(spaceKey, pages);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [view, setView] = useState<'tree' | 'list'>('tree');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [favourites, setFavourites] = useState<string[]>([]);
+  const [recents, setRecents] = useState<string[]>([]);
+  // Server-side matches for `query`, for pages that aren't listed yet
+  const [serverMatches, setServerMatches] = useState<{ query: string; titles: string[] } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const listId = useId();
+
+  const selected = useMemo(() => (props.multiple ? props.value : props.value ? [props.value] : []), [props.multiple, props.value]);
+  const tree = useMemo(() => buildPageTree(pages, treeNodes), [pages, treeNodes]);
+  const hasHierarchy = tree.children.size > 0;
+
+  useEffect(() => {
+    const refresh = () => {
+      setFavourites(getFavouritePages(spaceKey));
+      setRecents(getRecentPages(spaceKey));
+    };
+    refresh();
+    return subscribeToPagePreferences(refresh);
+  }, [spaceKey]);
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+    const onMouseDown = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', onMouseDown);
+    return () => document.removeEventListener('mousedown', onMouseDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!isOpen || !trimmed || !hasMorePages) {
+      setIsSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchPages(trimmed, controller.signal)
+        .then(titles => setServerMatches({ query: trimmed, titles }))
+        .catch(err => {
+          if (!controller.signal.aborted) console.warn('Page search failed:', err);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, isOpen, hasMorePages, searchPages]);
+
+  const rows = useMemo<PickerRow[]>(() => {
+    const trimmed = query.trim();
+    if (trimmed) {
+      const extra = serverMatches?.query === trimmed ? serverMatches.titles.filter(title => !pages.includes(title)) : [];
+      const result: PickerRow[] = fuzzyFilter([...pages, ...extra], query, title => title).map(({ item, match }) => ({
+        kind: 'page',
+        key: `match:${item}`,
+        title: item,
+        depth: 0,
+        hasChildren: false,
+        matched: match.indices,
+        path: ancestorsOf(tree, item),
+      }));
+      if (isSearching) result.push({ kind: 'status', key: 'status:searching', label: 'Searching all pages...' });
+      return result;
+    }
+    // Until every page is listed, a favourite may simply not be listed yet
+    const available = new Set(pages);
+    const isKnown = (title: string) => hasMorePages || available.has(title);
+    const favouriteRows = favourites.filter(isKnown);
+    const recentRows = recents.filter(isKnown);
+    const result: PickerRow[] = [];
+    const addSection = (label: string, titles: string[]) => {
+      if (titles.length === 0) return;
+      result.push({ kind: 'header', key: `header:${label}`, label });
+      titles.forEach(title => result.push({ kind: 'page', key: `${label}:${title}`, title, depth: 0, hasChildren: false }));
+    };
+    addSection('Favourites', favouriteRows);
+    addSection('Recent', recentRows);
+    if (result.length > 0) result.push({ kind: 'header', key: 'header:all', label: 'All pages' });
+    const allRows = view === 'tree' && hasHierarchy
+      ? flattenTree(tree, expanded)
+      : pages.map(title => ({ title, depth: 0, hasChildren: false }));
+    allRows.forEach(row => result.push({ kind: 'page', key: `all:${row.title}`, ...row }));
+    if (hasMorePages) result.push({ kind: 'status', key: 'status:more', label: 'Loading more pages...' });
+    return result;
+  }, [query, pages, tree, hasHierarchy, view, expanded, favourites, recents, hasMorePages, serverMatches, isSearching]);
+
+  const listHeight = Math.min(rows.length * ROW_HEIGHT, MAX_LIST_HEIGHT);
+  const { containerRef, onScroll, start, end, totalHeight, offsetTop, scrollToIndex, resetScroll } =
+    useVirtualList(rows.length, ROW_HEIGHT, listHeight);
+  // Only the pages in view are classified
+  const visibleTitles = useMemo(
+    () => (isOpen ? rows.slice(start, end).flatMap(row => (row.kind === 'page' ? [row.title] : [])) : []),
+    [isOpen, rows, start, end]
+  );
+  const pageTypes = usePageTypes(spaceKey, visibleTitles);
+
+  // List the next batch once the end of the list is nearly in view
+  useEffect(() => {
+    if (isOpen && !query.trim() && hasMorePages && end >= rows.length - LOAD_MORE_THRESHOLD) loadMorePages();
+  }, [isOpen, query, hasMorePages, end, rows.length, loadMorePages]);
+
+  // A new search starts at the best match
+  useEffect(() => {
+    resetScroll();
+    setActiveIndex(query.trim() ? rows.findIndex(row => row.kind === 'page') : -1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+
+  const open = () => {
+    if (disabled || !spaceKey) return;
+    // Expand down to the selected pages so they're visible in the tree
+    setExpanded(current => new Set([...current, ...selected.flatMap(title => ancestorsOf(tree, title))]));
+    setIsOpen(true);
+    setTimeout(() => searchRef.current?.focus(), 0);
+  };
+
+  const close = (refocus = false) => {
+    setIsOpen(false);
+    setQuery('');
+    setActiveIndex(-1);
+    if (refocus) triggerRef.current?.focus();
+  };
+
+  const choose = (title: string) => {
+    if (props.multiple) {
+      const isSelected = props.value.includes(title);
+      props.onChange(isSelected ? props.value.filter(page => page !== title) : [...props.value, title]);
+      if (!isSelected) addRecentPages(spaceKey, [title]);
+    } else {
+      props.onChange(title);
+      addRecentPages(spaceKey, [title]);
+      close(true);
+    }
+  };
+
+  const toggleExpanded = (title: string, expand?: boolean) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (expand ?? !next.has(title)) next.add(title);
+      else next.delete(title);
+      return next;
+    });
+  };
+
+  const moveActive = (step: number) => {
+    let index = activeIndex;
+    for (let i = 0; i < rows.length; i++) {
+      index = (index + step + rows.length) % rows.length;
+      if (rows[index].kind === 'page') break;
+    }
+    setActiveIndex(index);
+    scrollToIndex(index);
+  };
+
+  const onSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const row = rows[activeIndex];
+    const activePage = row && row.kind === 'page' ? row : undefined;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      moveActive(event.key === 'ArrowDown' ? 1 : -1);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (activePage) choose(activePage.title);
+    } else if (event.key === 'ArrowRight' && activePage?.hasChildren && !expanded.has(activePage.title)) {
+      event.preventDefault();
+      toggleExpanded(activePage.title, true);
+    } else if (event.key === 'ArrowLeft' && activePage && !query.trim() && view === 'tree') {
+      if (activePage.hasChildren && expanded.has(activePage.title)) {
+        event.preventDefault();
+        toggleExpanded(activePage.title, false);
+      } else if (activePage.depth > 0) {
+        // Jump to the parent row
+        event.preventDefault();
+        const parent = tree.parentOf.get(activePage.title);
+        const parentIndex = rows.findIndex(r => r.kind === 'page' && r.title === parent && r.key.startsWith('all:'));
+        if (parentIndex !== -1) {
+          setActiveIndex(parentIndex);
+          scrollToIndex(parentIndex);
+        }
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close(true);
+    } else if (event.key === 'Tab') {
+      close();
+    }
+  };
+
+  const matchingPages = rows.filter((row): row is Extract<PickerRow, { kind: 'page' }> => row.kind === 'page').map(row => row.title);
+  const selectAll = () => {
+    if (!props.multiple) return;
+    props.onChange([...new Set([...props.value, ...(query.trim() ? matchingPages : pages)])]);
+  };
+
+  const triggerLabel = selected.length === 0
+    ? placeholder
+    : selected.length === 1
+      ? selected[0]
+      : `${selected.length} pages selected`;
+
+  return (
+    <div ref={rootRef} className="relative z-50">
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={() => (isOpen ? close() : open())}
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowDown' && !isOpen) {
+            event.preventDefault();
+            open();
+          }
+        }}
+        disabled={disabled || !spaceKey}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
+      >
+        <span className={`truncate ${selected.length === 0 ? 'text-gray-500' : 'text-gray-700'}`}>{triggerLabel}</span>
+        {isOpen ? (
+          <ChevronUp className="w-5 h-5 text-gray-400 flex-shrink-0" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-gray-400 flex-shrink-0" />
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl overflow-hidden">
+          <div className="p-3 border-b border-white/20 bg-white/50 space-y-2">
+            {(props.multiple || hasHierarchy) && (
+              <div className="flex justify-between items-center">
+                {props.multiple ? (
+                  <div className="flex items-center space-x-3">
+                    <button type="button" onClick={selectAll} className="text-sm text-confluence-blue hover:text-confluence-blue/80 font-medium">
+                      {query.trim() ? 'Select Matching' : 'Select All'}
+                    </button>
+                    <button type="button" onClick={() => props.onChange([])} className="text-sm text-gray-500 hover:text-gray-700 font-medium">
+                      Clear All
+                    </button>
+                  </div>
+                ) : <span />}
+                {hasHierarchy && !query.trim() && (
+                  <button
+                    type="button"
+                    onClick={() => setView(view === 'tree' ? 'list' : 'tree')}
+                    className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+                    title={view === 'tree' ? 'Show as a flat list' : 'Show the page hierarchy'}
+                  >
+                    {view === 'tree' ? <List className="w-4 h-4" /> : <ListTree className="w-4 h-4" />}
+                    <span>{view === 'tree' ? 'List' : 'Tree'}</span>
+                  </button>
+                )}
+              </div>
+            )}
+            <input
+              ref={searchRef}
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              onKeyDown={onSearchKeyDown}
+              placeholder="Search pages..."
+              role="combobox"
+              aria-controls={listId}
+              aria-expanded
+              aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+              className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400"
+            />
+          </div>
+          {rows.length === 0 ? (
+            <div className="p-3 text-gray-500 text-sm text-center">
+              {pagesLoading && !query.trim() ? 'Loading pages...' : query.trim() ? `No pages match "${query.trim()}"` : 'No pages found in this space'}
+            </div>
+          ) : (
+            <div
+              ref={containerRef}
+              onScroll={onScroll}
+              id={listId}
+              role="listbox"
+              aria-multiselectable={props.multiple || undefined}
+              className="overflow-y-auto"
+              style={{ height: listHeight }}
+            >
+              <div style={{ height: totalHeight, position: 'relative' }}>
+                <div style={{ transform: `translateY(${offsetTop}px)` }}>
+                  {rows.slice(start, end).map((row, offset) => {
+                    const index = start + offset;
+                    if (row.kind === 'status') {
+                      return (
+                        <div key={row.key} className="flex items-center justify-center text-xs text-gray-400" style={{ height: ROW_HEIGHT }}>
+                          {row.label}
+                        </div>
+                      );
+                    }
+                    if (row.kind === 'header') {
+                      return (
+                        <div key={row.key} className="flex items-end px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400" style={{ height: ROW_HEIGHT }}>
+                          {row.label}
+                        </div>
+                      );
+                    }
+                    const isSelected = selected.includes(row.title);
+                    const isFavourite = favourites.includes(row.title);
+                    const isExpandable = row.hasChildren && !query.trim() && view === 'tree';
+                    return (
+                      <div
+                        key={row.key}
+                        id={`${listId}-${index}`}
+                        role="option"
+                        aria-selected={isSelected}
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => choose(row.title)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`flex items-center space-x-2 pr-3 cursor-pointer border-b border-white/10 ${
+                          index === activeIndex ? 'bg-confluence-blue/10' : isSelected && !props.multiple ? 'bg-confluence-blue/5' : 'hover:bg-white/50'
+                        }`}
+                        style={{ height: ROW_HEIGHT, paddingLeft: 12 + row.depth * 16 }}
+                      >
+                        {isExpandable ? (
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={e => {
+                              e.stopPropagation();
+                              toggleExpanded(row.title);
+                            }}
+                            className="text-gray-400 hover:text-gray-600"
+                            aria-label={expanded.has(row.title) ? `Collapse ${row.title}` : `Expand ${row.title}`}
+                          >
+                            <ChevronRight className={`w-4 h-4 transition-transform ${expanded.has(row.title) ? 'rotate-90' : ''}`} />
+                          </button>
+                        ) : view === 'tree' && hasHierarchy && !query.trim() ? (
+                          <span className="w-4 flex-shrink-0" />
+                        ) : null}
+                        {props.multiple && (
+                          <div className={`w-5 h-5 flex-shrink-0 border-2 rounded flex items-center justify-center transition-colors ${
+                            isSelected ? 'bg-confluence-blue border-confluence-blue' : 'border-gray-300'
+                          }`}>
+                            {isSelected && <CheckCircle className="w-3 h-3 text-white" />}
+                          </div>
+                        )}
+                        <span className="text-sm text-gray-700 flex-1 truncate" title={[...(row.path || []), row.title].join(' › ')}>
+                          {row.path && row.path.length > 0 && (
+                            <span className="text-gray-400">{row.path.join(' › ')} › </span>
+                          )}
+                          {highlight(row.title, row.matched)}
+                        </span>
+                        <PageTypeBadge page={pageTypes[row.title]} />
+                        <button
+                          type="button"
+                          tabIndex={-1}
+                          onClick={e => {
+                            e.stopPropagation();
+                            toggleFavouritePage(spaceKey, row.title);
+                          }}
+                          className={isFavourite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                          title={isFavourite ? 'Remove from favourites' : 'Add to favourites'}
+                        >
+                          <Star className="w-4 h-4" fill={isFavourite ? 'currentColor' : 'none'} />
+                        </button>
+                        {!props.multiple && isSelected && <Check className="w-4 h-4 flex-shrink-0 text-confluence-blue" />}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpacePagePicker;
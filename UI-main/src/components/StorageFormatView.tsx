@@ -0,0 +1,18 @@
+import React, { useMemo } from 'react';
+import { renderStorageFormat } from '../utils/storageFormat';
+
+interface StorageFormatViewProps {
+  storage: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Shows Confluence storage format, e.g. a save preview. The markup is
+// sanitized and its macros turned into readable stand-ins before it's set
+// as HTML (see utils/storageFormat).
+const StorageFormatView: React.FC<StorageFormatViewProps> = ({ storage, className, style }) => {
+  const html = useMemo(() => renderStorageFormat(storage), [storage]);
+  return <div className={className} style={style} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default StorageFormatView;
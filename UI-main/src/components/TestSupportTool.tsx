@@ -1,18 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { TestTube, BarChart3, Code, FileCheck, Download, Save, X, ChevronDown, Loader2, MessageSquare, Play, Search, Video, TrendingUp, Image, ChevronUp, Check } from 'lucide-react';
+import { TestTube, BarChart3, Code, FileCheck, Download, Save, X, ChevronDown, Loader2, MessageSquare, Play, Search, Video, TrendingUp, Image, ChevronUp, Check, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService, Space } from '../services/api';
+import { apiService, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
 import CustomScrollbar from './CustomScrollbar';
-import ReactMarkdown from 'react-markdown';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import HistoryPanel from './HistoryPanel';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useHistory } from '../hooks/useHistory';
+import type { HistoryRecord } from '../services/historyStore';
+import { copyText } from '../utils/clipboard';
+import { markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, exportReport } from '../utils/reportExport';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import MarkdownView from './MarkdownView';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+
+// Q&A history entries: the question is the entry title
+interface QaHistoryPayload {
+  answer: string;
+}
 
 interface TestSupportToolProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 interface TestReport {
@@ -21,40 +45,48 @@ interface TestReport {
   sensitivity?: string;
 }
 
-const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSelect, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [codePage, setCodePage] = useState('');
-  const [testInputPage, setTestInputPage] = useState('');
+const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    pageSlots,
+    setPageSlot,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
+  const codePage = pageSlots[0] || '';
+  const testInputPage = pageSlots[1] || '';
+  const setCodePage = (page: string) => setPageSlot(0, page);
+  const setTestInputPage = (page: string) => setPageSlot(1, page);
   const [isGenerating, setIsGenerating] = useState<string>('');
   const [isQALoading, setIsQALoading] = useState(false);
   const [testReport, setTestReport] = useState<TestReport | null>(null);
   const [question, setQuestion] = useState('');
   const [qaResults, setQaResults] = useState<Array<{question: string, answer: string}>>([]);
-  const [exportFormat, setExportFormat] = useState('markdown');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
   const [exportFormatSearch, setExportFormatSearch] = useState('');
   const [isExportFormatDropdownOpen, setIsExportFormatDropdownOpen] = useState(false);
-  const exportFormats = [
-    { value: 'markdown', label: 'Markdown' },
-    { value: 'pdf', label: 'PDF' },
-    { value: 'docx', label: 'Word Document' }
-  ];
-  const [spaces, setSpaces] = useState<Space[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [error, setError] = useState('');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('test');
+  const { pin, pinned } = usePinToReport('Test Support Tool');
   const [showToast, setShowToast] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
-  const [codePageSearch, setCodePageSearch] = useState('');
-  const [isCodePageDropdownOpen, setIsCodePageDropdownOpen] = useState(false);
-  const [testInputPageSearch, setTestInputPageSearch] = useState('');
-  const [isTestInputPageDropdownOpen, setIsTestInputPageDropdownOpen] = useState(false);
 
   // --- History feature for Q&A ---
-  const [qaHistory, setQaHistory] = useState<Array<{question: string, answer: string}>>([]);
-  const [currentQaHistoryIndex, setCurrentQaHistoryIndex] = useState<number | null>(null);
+  const qaHistory = useHistory<QaHistoryPayload>('test');
+  const [currentQaHistoryId, setCurrentQaHistoryId] = useState<string | null>(null);
+  const [showQaHistoryPanel, setShowQaHistoryPanel] = useState(false);
 
   const features = [
     { id: 'search' as const, label: 'AI Powered Search', icon: Search },
@@ -63,53 +95,13 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3 },
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
-  // Load spaces on component mount
-  useEffect(() => {
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
-  useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSelectedSpace(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
-
-  // Load pages when space is selected
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    if (selectedSpace) {
-      loadPages();
-    }
-  }, [selectedSpace]);
-
-  const loadSpaces = async () => {
-    try {
-      setError('');
-      const result = await apiService.getSpaces();
-      setSpaces(result.spaces);
-    } catch (err) {
-      setError('Failed to load spaces. Please check your backend connection.');
-      console.error('Error loading spaces:', err);
-    }
-  };
-
-  const loadPages = async () => {
-    try {
-      setError('');
-      const result = await apiService.getPages(selectedSpace);
-      setPages(result.pages);
-      // Auto-select page if present in URL
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && result.pages.includes(page)) {
-        setCodePage(page);
-      }
-    } catch (err) {
-      setError('Failed to load pages. Please check your space key.');
-      console.error('Error loading pages:', err);
-    }
-  };
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
   const generateTestStrategy = async () => {
     if (!selectedSpace || !codePage) {
@@ -125,8 +117,10 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       const result = await apiService.testSupport({
         space_key: selectedSpace,
         code_page_title: codePage,
+        code_page_id: pageIds[codePage],
+        test_input_page_id: pageIds[testInputPage],
         test_input_page_title: testInputPage || undefined
-      });
+      }, { signal: getSignal() });
 
       console.log('Test support API response:', result);
 
@@ -136,7 +130,7 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       } as TestReport));
     } catch (err) {
       console.error('Test support API error:', err);
-      setError('Failed to generate test strategy. Please try again.');
+      setError(toToolError(err, 'Failed to generate test strategy'));
       console.error('Error generating test strategy:', err);
     } finally {
       setIsGenerating('');
@@ -157,8 +151,10 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       const result = await apiService.testSupport({
         space_key: selectedSpace,
         code_page_title: codePage,
+        code_page_id: pageIds[codePage],
+        test_input_page_id: pageIds[testInputPage],
         test_input_page_title: testInputPage || undefined
-      });
+      }, { signal: getSignal() });
 
       console.log('Cross-platform API response:', result);
 
@@ -169,7 +165,7 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       } as TestReport));
     } catch (err) {
       console.error('Cross-platform API error:', err);
-      setError('Failed to generate cross-platform analysis. Please try again.');
+      setError(toToolError(err, 'Failed to generate cross-platform analysis'));
       console.error('Error generating cross-platform analysis:', err);
     } finally {
       setIsGenerating('');
@@ -190,8 +186,10 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       const result = await apiService.testSupport({
         space_key: selectedSpace,
         code_page_title: codePage,
+        code_page_id: pageIds[codePage],
+        test_input_page_id: pageIds[testInputPage],
         test_input_page_title: testInputPage || undefined
-      });
+      }, { signal: getSignal() });
 
       console.log('Sensitivity API response:', result);
 
@@ -201,7 +199,7 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       } as TestReport));
     } catch (err) {
       console.error('Sensitivity API error:', err);
-      setError('Failed to generate sensitivity analysis. Please try again.');
+      setError(toToolError(err, 'Failed to generate sensitivity analysis'));
       console.error('Error generating sensitivity analysis:', err);
     } finally {
       setIsGenerating('');
@@ -221,9 +219,11 @@ const TestSupportTool: React.FC<TestSupportToolProps> = ({ onClose, onFeatureSel
       const result = await apiService.testSupport({
         space_key: selectedSpace,
         code_page_title: codePage,
+        code_page_id: pageIds[codePage],
+        test_input_page_id: pageIds[testInputPage],
         test_input_page_title: testInputPage || undefined,
         question: question
-      });
+      }, { signal: getSignal() });
 
       console.log('Test support Q&A response:', result);
 
@@ -236,65 +236,143 @@ This analysis is based on the test scenarios and code review performed.`;
       setQaResults([...qaResults, { question, answer }]);
       
       // Add to Q&A history
-      setQaHistory(prev => [{ question, answer }, ...prev]);
-      setCurrentQaHistoryIndex(0);
+      const entry = await qaHistory.addEntry({
+        title: question,
+        spaceKey: selectedSpace,
+        pageTitles: [codePage, testInputPage].filter(Boolean),
+        payload: { answer },
+        text: answer,
+      });
+      setCurrentQaHistoryId(entry?.id ?? null);
+      updateRoute({ query: question, entry: entry?.id });
       
       setQuestion('');
     } catch (err) {
       console.error('Test support Q&A error:', err);
-      setError('Failed to get answer. Please try again.');
+      setError(toToolError(err, 'Failed to get answer'));
       console.error('Error getting answer:', err);
     } finally {
       setIsQALoading(false);
     }
   };
 
-  // When currentQaHistoryIndex changes, update displayed question
-  useEffect(() => {
-    if (currentQaHistoryIndex !== null && qaHistory[currentQaHistoryIndex]) {
-      const historyItem = qaHistory[currentQaHistoryIndex];
-      setQuestion(historyItem.question);
+  const loadQaHistoryEntry = (entry: HistoryRecord<QaHistoryPayload>) => {
+    setCurrentQaHistoryId(entry.id);
+    setQuestion(entry.title);
+    updateRoute({ query: entry.title, entry: entry.id });
+  };
+
+  useRouteResult('test', currentQaHistoryId, setQuestion, loadQaHistoryEntry);
+
+  const saveToHostPage = async () => {
+    const { space, page } = hostPage;
+    if (!space || !page) {
+      alert('Confluence space or page not specified in macro src URL.');
+      return;
+    }
+    let content = '';
+    if (testReport?.strategy) content += `# Test Strategy\n${testReport.strategy}\n`;
+    if (testReport?.crossPlatform) content += `# Cross-Platform Analysis\n${testReport.crossPlatform}\n`;
+    if (testReport?.sensitivity) content += `# Sensitivity Analysis\n${testReport.sensitivity}\n`;
+    if (!content) {
+      alert('No test report content to save.');
+      return;
     }
-  }, [currentQaHistoryIndex]);
+    await publish(page, async expectedVersion => {
+      const saved = await apiService.saveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        ...(await prepareMarkdownSave(content)),
+        ...saveOptions,
+        expected_version: expectedVersion,
+      }, { signal: getSignal() });
+      setShowToast(true);
+      setTimeout(() => setShowToast(false), 3000);
+      return saved;
+    }, err => setError(toToolError(err, 'Failed to save to Confluence')));
+  };
 
-  const exportReport = async () => {
-    if (!testReport) return;
+  const previewSave = async (options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      let content = '';
+      if (testReport?.strategy) content += `# Test Strategy\n${testReport.strategy}\n`;
+      if (testReport?.crossPlatform) content += `# Cross-Platform Analysis\n${testReport.crossPlatform}\n`;
+      if (testReport?.sensitivity) content += `# Sensitivity Analysis\n${testReport.sensitivity}\n`;
+      if (!content) {
+        alert('No test report content to save.');
+        return;
+      }
+      const { storage } = markdownToStorage(content);
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: storage,
+        ...options,
+      }, { signal: getSignal() });
+      notePreview(page, preview);
+      setPreviewStorage(storage);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
 
-    const content = `# Test Support Report
+  const testReportMarkdown = (report: TestReport) => `# Test Support Report
 
 ## Test Strategy
-${testReport.strategy}
+${report.strategy}
 
 ## Cross-Platform Analysis
-${testReport.crossPlatform}
+${report.crossPlatform}
 
 ## Sensitivity Analysis
-${testReport.sensitivity}
+${report.sensitivity}
 
 ## Q&A
 ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')}
 
 ## Generated on: ${new Date().toLocaleString()}`;
 
+  const exportTestReport = async () => {
+    if (!testReport) return;
+
     try {
-      const blob = await apiService.exportContent({
-        content: content,
-        format: exportFormat,
-        filename: 'test-support-report'
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `test-support-report.${exportFormat}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportReport({
+        tool: 'Test Support Tool',
+        markdown: testReportMarkdown(testReport),
+        details: {
+          Space: spaces.find(space => space.key === selectedSpace)?.name || selectedSpace,
+          'Code page': codePage,
+          'Test input page': testInputPage,
+        },
+      }, exportFormat, 'test-support-report', { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export file. Please try again.');
+      setError(toToolError(err, 'Failed to export file'));
       console.error('Error exporting:', err);
     }
   };
 
+  const pinTestReport = () => {
+    if (!testReport) return;
+    pin({
+      markdown: testReportMarkdown(testReport),
+      pages: [codePage, testInputPage].filter(Boolean),
+    }, err => setError(toToolError(err, 'Failed to pin the test report')));
+  };
+
   function cleanPreviewContent(html: string, numBlocks = 2): string {
     try {
       const parser = new DOMParser();
@@ -315,6 +393,15 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
     }
   }
 
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Generate the test strategy', group: 'Test Support Tool', disabled: !!isGenerating, run: generateTestStrategy },
+    { id: TOOL_COMMANDS.copyAnswer, title: 'Copy the test strategy', group: 'Test Support Tool', disabled: !testReport?.strategy, run: () => copyText(testReport?.strategy || '') },
+    { id: TOOL_COMMANDS.export, title: 'Export the test report', group: 'Test Support Tool', disabled: !testReport, run: exportTestReport },
+    { id: TOOL_COMMANDS.save, title: 'Save the test report to Confluence', group: 'Test Support Tool', disabled: !testReport, run: saveToHostPage },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the test report to the report', group: 'Test Support Tool', disabled: !testReport, run: pinTestReport },
+    { id: TOOL_COMMANDS.history, title: 'Show or hide Q&A history', group: 'Test Support Tool', disabled: qaHistory.totalCount === 0, run: () => setShowQaHistoryPanel(show => !show) },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-7xl max-h-[90vh] overflow-hidden">
@@ -329,6 +416,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -370,11 +458,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-          {error && (
-            <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
-              {error}
-            </div>
-          )}
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
 
           <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
             {/* Left Column - Configuration */}
@@ -410,108 +494,14 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Code Page
                   </label>
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() => setIsCodePageDropdownOpen(!isCodePageDropdownOpen)}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between"
-                    >
-                      <span className={codePage === '' ? 'text-gray-500' : 'text-gray-700'}>
-                        {codePage === '' ? 'Select code page...' : codePage}
-                      </span>
-                      {isCodePageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {isCodePageDropdownOpen && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <input
-                            type="text"
-                            value={codePageSearch}
-                            onChange={e => setCodePageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(codePageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(codePageSearch.toLowerCase())).map(page => (
-                              <button
-                                key={page}
-                                type="button"
-                                onClick={() => { setCodePage(page); setIsCodePageDropdownOpen(false); setCodePageSearch(''); }}
-                                className={`w-full text-left flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0 ${codePage === page ? 'bg-confluence-blue/10' : ''}`}
-                              >
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                                {codePage === page && <Check className="w-4 h-4 text-confluence-blue" />}
-                              </button>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker value={codePage} onChange={setCodePage} placeholder="Select code page..." />
                 </div>
                 {/* Test Input Page Selection */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Test Input Page
                   </label>
-                  <div className="relative">
-                    <button
-                      type="button"
-                      onClick={() => setIsTestInputPageDropdownOpen(!isTestInputPageDropdownOpen)}
-                      className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between"
-                    >
-                      <span className={testInputPage === '' ? 'text-gray-500' : 'text-gray-700'}>
-                        {testInputPage === '' ? 'Select test page...' : testInputPage}
-                      </span>
-                      {isTestInputPageDropdownOpen ? (
-                        <ChevronUp className="w-5 h-5 text-gray-400" />
-                      ) : (
-                        <ChevronDown className="w-5 h-5 text-gray-400" />
-                      )}
-                    </button>
-                    {isTestInputPageDropdownOpen && (
-                      <div className="absolute z-50 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                        <div className="p-3 border-b border-white/20 bg-white/50">
-                          <input
-                            type="text"
-                            value={testInputPageSearch}
-                            onChange={e => setTestInputPageSearch(e.target.value)}
-                            placeholder="Search pages..."
-                            className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                          />
-                        </div>
-                        <div className="max-h-48 overflow-y-auto">
-                          {(pages.filter(page => page.toLowerCase().includes(testInputPageSearch.toLowerCase()))).length === 0 ? (
-                            <div className="p-3 text-gray-500 text-sm text-center">
-                              No pages found
-                            </div>
-                          ) : (
-                            pages.filter(page => page.toLowerCase().includes(testInputPageSearch.toLowerCase())).map(page => (
-                              <button
-                                key={page}
-                                type="button"
-                                onClick={() => { setTestInputPage(page); setIsTestInputPageDropdownOpen(false); setTestInputPageSearch(''); }}
-                                className={`w-full text-left flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0 ${testInputPage === page ? 'bg-confluence-blue/10' : ''}`}
-                              >
-                                <span className="text-sm text-gray-700 flex-1">{page}</span>
-                                {testInputPage === page && <Check className="w-4 h-4 text-confluence-blue" />}
-                              </button>
-                            ))
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <SpacePagePicker value={testInputPage} onChange={setTestInputPage} placeholder="Select test page..." />
                 </div>
 
                 {/* Generation Buttons */}
@@ -569,6 +559,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       </>
                     )}
                   </button>
+                  {isGenerating && <CancelButton onClick={cancelRequests} className="w-full" />}
                 </div>
 
                 {/* Export Button */}
@@ -583,7 +574,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                           onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                           className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                         >
-                          <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                          <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                           {isExportFormatDropdownOpen ? (
                             <ChevronUp className="w-4 h-4 text-gray-400" />
                           ) : (
@@ -602,10 +593,10 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                               />
                             </div>
                             <div className="max-h-32 overflow-y-auto">
-                              {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                              {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                                 <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                               ) : (
-                                exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                                EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                                   <button
                                     key={f.value}
                                     type="button"
@@ -623,92 +614,25 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       </div>
                     </div>
                     
-                    <div className="flex items-center space-x-2 mb-2">
-                      <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                      <select
-                        id="save-mode"
-                        value={saveMode}
-                        onChange={e => setSaveMode(e.target.value)}
-                        className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                      >
-                        <option value="append">Append</option>
-                        <option value="overwrite">Overwrite</option>
-                      </select>
-                    </div>
+                    <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
                     
                     <div className="space-y-2">
                       <button
-                        onClick={exportReport}
+                        onClick={exportTestReport}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-green-600/90 backdrop-blur-sm text-white rounded-lg hover:bg-green-700 transition-colors border border-white/10"
                       >
                         <Download className="w-4 h-4" />
                         <span>Export</span>
                       </button>
+                      <PinButton onClick={pinTestReport} pinned={pinned} className="w-full justify-center" />
                       <button
-                        onClick={async () => {
-                          setIsPreviewLoading(true);
-                          setShowPreview(false);
-                          try {
-                            const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                            if (!space || !page) {
-                              alert('Confluence space or page not specified in macro src URL.');
-                              return;
-                            }
-                            let content = '';
-                            if (testReport?.strategy) content += `# Test Strategy\n${testReport.strategy}\n`;
-                            if (testReport?.crossPlatform) content += `# Cross-Platform Analysis\n${testReport.crossPlatform}\n`;
-                            if (testReport?.sensitivity) content += `# Sensitivity Analysis\n${testReport.sensitivity}\n`;
-                            if (!content) {
-                              alert('No test report content to save.');
-                              return;
-                            }
-                            const preview = await apiService.previewSaveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: content,
-                              mode: saveMode,
-                            });
-                            setPreviewContent(preview.preview_content);
-                            setPreviewDiff(preview.diff);
-                            setShowPreview(true);
-                          } catch (err: any) {
-                            alert('Failed to generate preview: ' + (err.message || err));
-                          } finally {
-                            setIsPreviewLoading(false);
-                          }
-                        }}
+                        onClick={() => previewSave()}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                       >
                         {isPreviewLoading ? "Loading..." : "Preview"}
                       </button>
                       <button
-                        onClick={async () => {
-                          const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                          if (!space || !page) {
-                            alert('Confluence space or page not specified in macro src URL.');
-                            return;
-                          }
-                          let content = '';
-                          if (testReport?.strategy) content += `# Test Strategy\n${testReport.strategy}\n`;
-                          if (testReport?.crossPlatform) content += `# Cross-Platform Analysis\n${testReport.crossPlatform}\n`;
-                          if (testReport?.sensitivity) content += `# Sensitivity Analysis\n${testReport.sensitivity}\n`;
-                          if (!content) {
-                            alert('No test report content to save.');
-                            return;
-                          }
-                          try {
-                            await apiService.saveToConfluence({
-                              space_key: space,
-                              page_title: page,
-                              content: content,
-                              mode: saveMode,
-                            });
-                            setShowToast(true);
-                            setTimeout(() => setShowToast(false), 3000);
-                          } catch (err: any) {
-                            alert('Failed to save to Confluence: ' + (err.message || err));
-                          }
-                        }}
+                        onClick={saveToHostPage}
                         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                       >
                         <Save className="w-4 h-4" />
@@ -729,26 +653,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                     <Play className="w-5 h-5 mr-2 text-confluence-blue" />
                     Test Strategy
                   </h3>
-                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                    {testReport.strategy.split('\n').map((line, index) => {
-                      if (line.startsWith('### ')) {
-                        return <h3 key={index} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(4)}</h3>;
-                      } else if (line.startsWith('## ')) {
-                        return <h2 key={index} className="text-xl font-bold text-gray-800 mt-6 mb-3">{line.substring(3)}</h2>;
-                      } else if (line.startsWith('# ')) {
-                        return <h1 key={index} className="text-2xl font-bold text-gray-800 mt-8 mb-4">{line.substring(2)}</h1>;
-                      } else if (line.startsWith('- **')) {
-                        const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                        if (match) {
-                          return <p key={index} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                        }
-                      } else if (line.startsWith('- ')) {
-                        return <p key={index} className="mb-1 ml-4">• {line.substring(2)}</p>;
-                      } else if (line.trim()) {
-                        return <p key={index} className="mb-2 text-gray-700">{line}</p>;
-                      }
-                      return <br key={index} />;
-                    })}
+                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                    <MarkdownView>{testReport.strategy}</MarkdownView>
                   </div>
                 </div>
               )}
@@ -760,26 +666,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                     <Code className="w-5 h-5 mr-2 text-confluence-blue" />
                     Cross-Platform Analysis
                   </h3>
-                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                    {testReport.crossPlatform.split('\n').map((line, index) => {
-                      if (line.startsWith('### ')) {
-                        return <h3 key={index} className="text-lg font-bold text-gray-800 mt-4 mb-2">{line.substring(4)}</h3>;
-                      } else if (line.startsWith('## ')) {
-                        return <h2 key={index} className="text-xl font-bold text-gray-800 mt-6 mb-3">{line.substring(3)}</h2>;
-                      } else if (line.startsWith('# ')) {
-                        return <h1 key={index} className="text-2xl font-bold text-gray-800 mt-8 mb-4">{line.substring(2)}</h1>;
-                      } else if (line.startsWith('- **')) {
-                        const match = line.match(/- \*\*(.*?)\*\*: (.*)/);
-                        if (match) {
-                          return <p key={index} className="mb-2"><strong>{match[1]}:</strong> {match[2]}</p>;
-                        }
-                      } else if (line.startsWith('- ')) {
-                        return <p key={index} className="mb-1 ml-4">• {line.substring(2)}</p>;
-                      } else if (line.trim()) {
-                        return <p key={index} className="mb-2 text-gray-700">{line}</p>;
-                      }
-                      return <br key={index} />;
-                    })}
+                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                    <MarkdownView>{testReport.crossPlatform}</MarkdownView>
                   </div>
                 </div>
               )}
@@ -791,12 +679,8 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                     <TestTube className="w-5 h-5 mr-2 text-confluence-blue" />
                     Sensitivity Analysis
                   </h3>
-                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20 prose prose-sm max-w-none">
-                    <div className="prose prose-sm max-w-none text-gray-800 bg-white/70 backdrop-blur-sm p-4 rounded-lg border border-white/20">
-                    <ReactMarkdown>
-                      {testReport.sensitivity}
-                    </ReactMarkdown>
-                    </div>
+                  <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
+                    <MarkdownView>{testReport.sensitivity}</MarkdownView>
                   </div>
                 </div>
               )}
@@ -811,27 +695,48 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                 </h3>
                 
                 {/* --- History Dropdown for Q&A --- */}
-                {qaHistory.length > 0 && (
-                  <div className="mb-4 flex items-center space-x-2">
-                    <label className="text-sm font-medium text-gray-700">Q&A History:</label>
-                    <select
-                      className="border border-gray-300 rounded px-2 py-1 text-sm"
-                      value={currentQaHistoryIndex ?? 0}
-                      onChange={e => setCurrentQaHistoryIndex(Number(e.target.value))}
-                    >
-                      {qaHistory.map((item, idx) => (
-                        <option key={idx} value={idx}>
-                          {item.question.length > 40 ? item.question.slice(0, 40) + '...' : item.question}
-                        </option>
-                      ))}
-                    </select>
-                    {currentQaHistoryIndex !== null && currentQaHistoryIndex !== 0 && (
+                {qaHistory.totalCount > 0 && (
+                  <div className="mb-4">
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm font-medium text-gray-700">Q&A History:</label>
+                      <select
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        value={currentQaHistoryId ?? ''}
+                        onChange={e => {
+                          const entry = qaHistory.entries.find(h => h.id === e.target.value);
+                          if (entry) loadQaHistoryEntry(entry);
+                        }}
+                      >
+                        <option value="" disabled>Previous questions</option>
+                        {qaHistory.entries.map(item => (
+                          <option key={item.id} value={item.id}>
+                            {item.title.length > 40 ? item.title.slice(0, 40) + '...' : item.title}
+                          </option>
+                        ))}
+                      </select>
+                      {qaHistory.latest && currentQaHistoryId !== null && currentQaHistoryId !== qaHistory.latest.id && (
+                        <button
+                          className="text-xs text-confluence-blue underline ml-2"
+                          onClick={() => qaHistory.latest && loadQaHistoryEntry(qaHistory.latest)}
+                        >
+                          Go to Latest
+                        </button>
+                      )}
                       <button
                         className="text-xs text-confluence-blue underline ml-2"
-                        onClick={() => setCurrentQaHistoryIndex(0)}
+                        onClick={() => setShowQaHistoryPanel(!showQaHistoryPanel)}
                       >
-                        Go to Latest
+                        {showQaHistoryPanel ? 'Hide' : 'Search'} History
                       </button>
+                    </div>
+                    {showQaHistoryPanel && (
+                      <HistoryPanel
+                        history={qaHistory}
+                        selectedId={currentQaHistoryId}
+                        onSelect={loadQaHistoryEntry}
+                        spaces={spaces}
+                        className="mt-3"
+                      />
                     )}
                   </div>
                 )}
@@ -876,6 +781,7 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       </>
                     )}
                   </button>
+                  {isQALoading && <CancelButton onClick={cancelRequests} className="w-full" />}
                 </div>
               </div>
             </div>
@@ -891,31 +797,27 @@ ${qaResults.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
           )}
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} onReview={() => previewSave()} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+          onSave={saveToHostPage}
+        />
       )}
     </div>
   );
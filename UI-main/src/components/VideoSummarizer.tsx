@@ -1,17 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { Video, BarChart3, Download, Save, X, ChevronDown, ChevronRight, Loader2, Search, Code, TrendingUp, TestTube, MessageSquare, Check, ChevronUp, Image } from 'lucide-react';
+import { Video, BarChart3, Download, Save, X, ChevronDown, ChevronRight, Loader2, Search, Code, TrendingUp, TestTube, MessageSquare, Check, ChevronUp, Image, Workflow } from 'lucide-react';
 import { FeatureType, AppMode } from '../App';
-import { apiService, Space } from '../services/api';
+import { apiService, DEFAULT_SAVE_OPTIONS, SaveOptions } from '../services/api';
+import { ToolError, toToolError, isCancelledError } from '../services/apiErrors';
 import CustomScrollbar from './CustomScrollbar';
-import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+import ApiErrorBanner from './ApiErrorBanner';
+import CancelButton from './CancelButton';
+import HistoryPanel from './HistoryPanel';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { usePublish } from '../hooks/usePublish';
+import { usePinToReport } from '../hooks/usePinToReport';
+import { useHistory } from '../hooks/useHistory';
+import type { HistoryRecord } from '../services/historyStore';
+import { TOOL_COMMANDS } from '../services/commandRegistry';
+import { markdownToStorage, prepareMarkdownSave } from '../utils/markdownToStorage';
+import { EXPORT_FORMATS, ExportFormat, exportReport } from '../utils/reportExport';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRoute, useRouteResult } from '../hooks/useRoute';
+import { useCommands } from '../hooks/useCommands';
 import VoiceRecorder from './VoiceRecorder';
+import SpacePagePicker from './SpacePagePicker';
+import CopyLinkButton from './CopyLinkButton';
+import SavePreviewModal from './SavePreviewModal';
+import SaveModeSelect from './SaveModeSelect';
+import PinButton from './PinButton';
+import SaveConflictDialog from './SaveConflictDialog';
+import MarkdownView from './MarkdownView';
+
+// Q&A history entries: the question is the entry title and the video's page
+// the only page title. Video ids are regenerated on every load, so entries are
+// matched to videos by space and page instead.
+interface QaHistoryPayload {
+  answer: string;
+}
 
 interface VideoSummarizerProps {
   onClose: () => void;
   onFeatureSelect: (feature: FeatureType) => void;
   onModeSelect: (mode: AppMode) => void;
-  autoSpaceKey?: string | null;
-  isSpaceAutoConnected?: boolean;
 }
 
 interface VideoContent {
@@ -19,45 +45,54 @@ interface VideoContent {
   name: string;
   summary?: string;
   quotes?: string[];
+  actionItems?: string[];
   timestamps?: string[];
   qa?: { question: string; answer: string }[];
 }
 
-const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSelect, onModeSelect, autoSpaceKey, isSpaceAutoConnected }) => {
-  const [selectedSpace, setSelectedSpace] = useState('');
-  const [selectedPages, setSelectedPages] = useState<string[]>([]);
+const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSelect, onModeSelect }) => {
+  const {
+    spaces,
+    spaceKey: selectedSpace,
+    setSpaceKey: setSelectedSpace,
+    selectedPages,
+    setSelectedPages,
+    pageIds,
+    hostPage,
+    hostPageId,
+    loadError,
+  } = useWorkspace();
+  const { updateRoute } = useRoute();
   const [videos, setVideos] = useState<VideoContent[]>([]);
   const [expandedVideo, setExpandedVideo] = useState<string | null>(null);
   const [newQuestion, setNewQuestion] = useState('');
   const [selectedVideo, setSelectedVideo] = useState<string>('');
   // --- History feature for Q&A ---
-  const [qaHistory, setQaHistory] = useState<Array<{question: string, answer: string, videoId: string}>>([]);
-  const [currentQaHistoryIndex, setCurrentQaHistoryIndex] = useState<number | null>(null);
+  const qaHistory = useHistory<QaHistoryPayload>('video');
+  const [currentQaHistoryId, setCurrentQaHistoryId] = useState<string | null>(null);
+  const [showQaHistoryPanel, setShowQaHistoryPanel] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isQALoading, setIsQALoading] = useState(false);
-  const [isTypingNewQuestion, setIsTypingNewQuestion] = useState(false);
   const [currentVideoForQa, setCurrentVideoForQa] = useState<string>('');
-  const [exportFormat, setExportFormat] = useState('markdown');
-  const [spaces, setSpaces] = useState<Space[]>([]);
-  const [pages, setPages] = useState<string[]>([]);
-  const [error, setError] = useState('');
-  const [isPageDropdownOpen, setIsPageDropdownOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [error, setError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  const { publish, notePreview, conflict, dismissConflict } = usePublish('video');
+  const { pin, pinned } = usePinToReport('Video Summarizer');
   const [showToast, setShowToast] = useState(false);
-  const [pageSearch, setPageSearch] = useState('');
   const [exportFormatSearch, setExportFormatSearch] = useState('');
   const [isExportFormatDropdownOpen, setIsExportFormatDropdownOpen] = useState(false);
-  const [saveMode, setSaveMode] = useState('append');
+  const [saveOptions, setSaveOptions] = useState<SaveOptions>(DEFAULT_SAVE_OPTIONS);
   const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [previewDiff, setPreviewDiff] = useState<string | null>(null);
+  const [previewExisting, setPreviewExisting] = useState('');
+  const [previewSectionError, setPreviewSectionError] = useState<string | null>(null);
+  const [previewStorage, setPreviewStorage] = useState('');
+  // The summary being previewed, previewed again when the save options change
+  const [previewSource, setPreviewSource] = useState('');
   const [showPreview, setShowPreview] = useState(false);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const [isPushingToJira, setIsPushingToJira] = useState(false);
   const [showPushToast, setShowPushToast] = useState(false);
-  const exportFormats = [
-    { value: 'markdown', label: 'Markdown' },
-    { value: 'pdf', label: 'PDF' },
-    { value: 'docx', label: 'Word Document' }
-  ];
 
   const features = [
     { id: 'search' as const, label: 'AI Powered Search', icon: Search },
@@ -66,71 +101,13 @@ const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSel
     { id: 'impact' as const, label: 'Impact Analyzer', icon: TrendingUp },
     { id: 'test' as const, label: 'Test Support Tool', icon: TestTube },
     { id: 'image' as const, label: 'Chart Builder', icon: BarChart3 },
+    { id: 'diagram' as const, label: 'Diagram Generator', icon: Workflow },
   ];
 
-  // Load spaces on component mount
-  useEffect(() => {
-    loadSpaces();
-  }, []);
-
-  // Auto-select space if provided via URL
-  useEffect(() => {
-    if (autoSpaceKey && isSpaceAutoConnected) {
-      setSelectedSpace(autoSpaceKey);
-    }
-  }, [autoSpaceKey, isSpaceAutoConnected]);
-
-  // Load pages when space is selected
+  // Spaces and pages are loaded once for every tool by the workspace
   useEffect(() => {
-    if (selectedSpace) {
-      loadPages();
-    }
-  }, [selectedSpace]);
-
-  const loadSpaces = async () => {
-    try {
-      setError('');
-      const result = await apiService.getSpaces();
-      setSpaces(result.spaces);
-    } catch (err) {
-      setError('Failed to load spaces. Please check your backend connection.');
-      console.error('Error loading spaces:', err);
-    }
-  };
-
-  const loadPages = async () => {
-    try {
-      setError('');
-      const result = await apiService.getPages(selectedSpace);
-      setPages(result.pages);
-      // Auto-select page if present in URL
-      const { page } = getConfluenceSpaceAndPageFromUrl();
-      if (page && result.pages.includes(page)) {
-        setSelectedPages([page]);
-      } else {
-        setSelectedPages([]); // Reset selected pages when space changes
-      }
-    } catch (err) {
-      setError('Failed to load pages. Please check your space key.');
-      console.error('Error loading pages:', err);
-    }
-  };
-
-  const handlePageSelection = (page: string) => {
-    setSelectedPages(prev => 
-      prev.includes(page) 
-        ? prev.filter(p => p !== page)
-        : [...prev, page]
-    );
-  };
-
-  const selectAllPages = () => {
-    setSelectedPages(pages);
-  };
-
-  const clearAllPages = () => {
-    setSelectedPages([]);
-  };
+    if (loadError) setError(loadError);
+  }, [loadError]);
 
   const processVideos = async () => {
     if (!selectedSpace || selectedPages.length === 0) {
@@ -148,26 +125,29 @@ const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSel
         try {
           const result = await apiService.videoSummarizer({
             space_key: selectedSpace,
-            page_title: page
-          });
+            page_title: page,
+            page_id: pageIds[page]
+          }, { signal: getSignal() });
           
           const newVideo: VideoContent = {
             id: Date.now().toString() + i, // Ensure unique IDs
             name: page,
             summary: result.summary,
             quotes: result.quotes,
+            actionItems: result.action_items,
             timestamps: result.timestamps,
             qa: result.qa
           };
           
           setVideos(prev => [...prev, newVideo]);
         } catch (err) {
+          if (isCancelledError(err)) throw err;
           console.error(`Error processing page ${page}:`, err);
           // Continue with next page even if one fails
         }
       }
     } catch (err) {
-      setError('Failed to process videos. Please try again.');
+      setError(toToolError(err, 'Failed to process videos'));
       console.error('Error processing videos:', err);
     } finally {
       setIsProcessing(false);
@@ -194,8 +174,9 @@ const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSel
       const result = await apiService.videoSummarizer({
         space_key: selectedSpace,
         page_title: video.name, // Use the specific video's page title
+        page_id: pageIds[video.name],
         question: newQuestion
-      });
+      }, { signal: getSignal() });
 
       console.log('Q&A API response:', result);
 
@@ -211,14 +192,20 @@ const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSel
       ));
       
       // Add to Q&A history
-      setQaHistory(prev => [{ question: newQuestion, answer: answer, videoId: videoIdToUse }, ...prev]);
-      setCurrentQaHistoryIndex(0);
+      const entry = await qaHistory.addEntry({
+        title: newQuestion,
+        spaceKey: selectedSpace,
+        pageTitles: [video.name],
+        payload: { answer },
+        text: answer,
+      });
+      setCurrentQaHistoryId(entry?.id ?? null);
+      updateRoute({ query: newQuestion, entry: entry?.id });
       
       setNewQuestion('');
-      setIsTypingNewQuestion(false);
     } catch (err) {
       console.error('Q&A API error:', err);
-      setError('Failed to get answer. Please try again.');
+      setError(toToolError(err, 'Failed to get answer'));
       console.error('Error getting answer:', err);
     } finally {
       setIsQALoading(false);
@@ -226,50 +213,72 @@ const VideoSummarizer: React.FC<VideoSummarizerProps> = ({ onClose, onFeatureSel
   };
 
   // Helper function to get filtered Q&A history for a specific video
-  const getVideoHistory = (videoId: string) => {
-    return qaHistory.filter(item => item.videoId === videoId);
+  const getVideoHistory = (video: VideoContent) => {
+    return qaHistory.entries.filter(item => item.spaceKey === selectedSpace && item.pageTitles[0] === video.name);
   };
 
-  // When currentQaHistoryIndex changes, update displayed question/answer
-  useEffect(() => {
-    if (currentQaHistoryIndex !== null && qaHistory[currentQaHistoryIndex] && !isTypingNewQuestion) {
-      const historyItem = qaHistory[currentQaHistoryIndex];
-      setNewQuestion(historyItem.question);
-      setSelectedVideo(historyItem.videoId);
-      setCurrentVideoForQa(historyItem.videoId);
+  const loadQaHistoryEntry = (entry: HistoryRecord<QaHistoryPayload>) => {
+    const video = videos.find(v => v.name === entry.pageTitles[0]);
+    setCurrentQaHistoryId(entry.id);
+    setNewQuestion(entry.title);
+    if (video) {
+      setSelectedVideo(video.id);
+      setCurrentVideoForQa(video.id);
+    }
+    updateRoute({ query: entry.title, entry: entry.id });
+  };
+
+  useRouteResult('video', currentQaHistoryId, setNewQuestion, loadQaHistoryEntry);
+
+  const previewSave = async (content: string, options: SaveOptions = saveOptions) => {
+    setIsPreviewLoading(true);
+    try {
+      const { space, page } = hostPage;
+      if (!space || !page) {
+        alert('Confluence space or page not specified in macro src URL.');
+        return;
+      }
+      const { storage } = markdownToStorage(content);
+      const preview = await apiService.previewSaveToConfluence({
+        space_key: space,
+        page_title: page,
+        page_id: hostPageId,
+        content: storage,
+        ...options,
+      }, { signal: getSignal() });
+      setPreviewSource(content);
+      setPreviewStorage(storage);
+      notePreview(page, preview);
+      setPreviewContent(preview.preview_content);
+      setPreviewExisting(preview.existing_content ?? '');
+      setPreviewSectionError(preview.section_error ?? null);
+      setShowPreview(true);
+    } catch (err) {
+      setError(toToolError(err, 'Failed to generate preview'));
+    } finally {
+      setIsPreviewLoading(false);
     }
-  }, [currentQaHistoryIndex, qaHistory, isTypingNewQuestion]);
+  };
 
-  const exportSummary = async (video: VideoContent, format: string) => {
-    const content = `# Video Summary: ${video.name}
+  const videoMarkdown = (video: VideoContent) => `# Video Summary: ${video.name}
 
 ## Summary
 ${video.summary}
 
 ## Key Quotes
 ${video.quotes?.map(quote => `- "${quote}"`).join('\n')}
-
+${video.actionItems?.length ? `\n## Action Items\n${video.actionItems.map(item => `- [ ] ${item}`).join('\n')}\n` : ''}
 ## Timestamps
 ${video.timestamps?.map(ts => `- ${ts}`).join('\n')}
 
 ## Q&A
 ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')}`;
 
+  const exportSummary = async (video: VideoContent, format: ExportFormat) => {
     try {
-      const blob = await apiService.exportContent({
-        content: content,
-        format: format,
-        filename: `${video.name.replace(/\s+/g, '_')}_summary`
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${video.name.replace(/\s+/g, '_')}_summary.${format}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportReport({ tool: 'Video Summarizer', markdown: videoMarkdown(video) }, format, `${video.name.replace(/\s+/g, '_')}_summary`, { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export file. Please try again.');
+      setError(toToolError(err, 'Failed to export file'));
       console.error('Error exporting:', err);
     }
   };
@@ -277,43 +286,24 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
   const exportAllVideos = async () => {
     if (videos.length === 0) return;
 
-    const allContent = videos.map(video => {
-      return `# Video Summary: ${video.name}
-
-## Summary
-${video.summary}
-
-## Key Quotes
-${video.quotes?.map(quote => `- "${quote}"`).join('\n')}
-
-## Timestamps
-${video.timestamps?.map(ts => `- ${ts}`).join('\n')}
-
-## Q&A
-${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')}
-
----`;
-    }).join('\n\n');
+    const allContent = videos.map(video => `${videoMarkdown(video)}\n\n---`).join('\n\n');
 
     try {
-      const blob = await apiService.exportContent({
-        content: allContent,
-        format: exportFormat,
-        filename: `all_video_summaries`
-      });
-      
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `all_video_summaries.${exportFormat}`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportReport({
+        title: 'Video Summaries',
+        tool: 'Video Summarizer',
+        markdown: allContent,
+        details: { Videos: String(videos.length) },
+      }, exportFormat, 'all_video_summaries', { signal: getSignal() });
     } catch (err) {
-      setError('Failed to export all videos. Please try again.');
+      setError(toToolError(err, 'Failed to export all videos'));
       console.error('Error exporting all videos:', err);
     }
   };
 
+  const pinSummary = (video: VideoContent) => pin({ markdown: videoMarkdown(video), pages: [] },
+    err => setError(toToolError(err, 'Failed to pin the summary')));
+
   function cleanPreviewContent(html: string, numBlocks = 2): string {
     try {
       const parser = new DOMParser();
@@ -347,7 +337,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
       const result = await apiService.pushToJiraConfluenceSlack({
         summary: video.summary,
         video_title: video.name
-      });
+      }, { signal: getSignal() });
 
       if (result.success) {
         setShowPushToast(true);
@@ -356,13 +346,23 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
         setError('Failed to push to Jira + Confluence + Slack. Please try again.');
       }
     } catch (err) {
-      setError('Failed to push to Jira + Confluence + Slack. Please try again.');
+      setError(toToolError(err, 'Failed to push to Jira + Confluence + Slack'));
       console.error('Error pushing to Jira + Confluence + Slack:', err);
     } finally {
       setIsPushingToJira(false);
     }
   };
 
+  useCommands([
+    { id: TOOL_COMMANDS.submit, title: 'Summarize videos', group: 'Video Summarizer', disabled: isProcessing, run: processVideos },
+    { id: TOOL_COMMANDS.export, title: 'Export all video summaries', group: 'Video Summarizer', disabled: videos.length === 0, run: exportAllVideos },
+    { id: TOOL_COMMANDS.pin, title: 'Pin the selected video summary to the report', group: 'Video Summarizer', disabled: !videos.some(v => v.id === selectedVideo), run: () => {
+      const video = videos.find(v => v.id === selectedVideo);
+      if (video) pinSummary(video);
+    } },
+    { id: TOOL_COMMANDS.history, title: 'Show or hide Q&A history', group: 'Video Summarizer', disabled: qaHistory.totalCount === 0, run: () => setShowQaHistoryPanel(show => !show) },
+  ]);
+
   return (
     <div className="fixed inset-0 bg-white flex items-center justify-center z-40 p-4">
       <div className="bg-white/80 backdrop-blur-xl border-2 border-[#0052cc] rounded-2xl w-full max-w-6xl max-h-[90vh] overflow-hidden">
@@ -377,6 +377,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <CopyLinkButton className="text-blue-100" />
               <button 
                 onClick={() => onModeSelect('agent')}
                 className="text-blue-100 hover:text-white hover:bg-white/10 rounded-lg px-3 py-1 text-sm transition-colors"
@@ -418,11 +419,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-          {error && (
-            <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
-              {error}
-            </div>
-          )}
+          <ApiErrorBanner error={error} onDismiss={() => setError('')} />
 
           {/* Video Selection Section */}
           <div className="mb-6 bg-white/60 backdrop-blur-xl rounded-xl p-6 border border-white/20 shadow-lg">
@@ -453,92 +450,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Select Video Pages ({selectedPages.length} selected)
                 </label>
-                <div className="relative">
-                  <button
-                    type="button"
-                    onClick={() => setIsPageDropdownOpen(!isPageDropdownOpen)}
-                    disabled={!selectedSpace}
-                    className="w-full p-3 border border-white/30 rounded-lg focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/70 backdrop-blur-sm text-left flex items-center justify-between disabled:bg-gray-100 disabled:cursor-not-allowed"
-                  >
-                    <span className={selectedPages.length === 0 ? 'text-gray-500' : 'text-gray-700'}>
-                      {selectedPages.length === 0 
-                        ? 'Choose pages...' 
-                        : selectedPages.length === 1 
-                          ? selectedPages[0]
-                          : `${selectedPages.length} pages selected`
-                      }
-                    </span>
-                    {isPageDropdownOpen ? (
-                      <ChevronUp className="w-5 h-5 text-gray-400" />
-                    ) : (
-                      <ChevronDown className="w-5 h-5 text-gray-400" />
-                    )}
-                  </button>
-
-                  {/* Dropdown */}
-                  {isPageDropdownOpen && selectedSpace && (
-                    <div className="absolute z-10 w-full mt-1 bg-white/95 backdrop-blur-xl border border-white/30 rounded-lg shadow-xl max-h-60 overflow-hidden">
-                      {/* Header with Select All/Clear All and Search */}
-                      <div className="p-3 border-b border-white/20 bg-white/50">
-                        <div className="flex justify-between items-center mb-2">
-                          <button
-                            onClick={selectAllPages}
-                            className="text-sm text-confluence-blue hover:text-confluence-blue/80 font-medium"
-                          >
-                            Select All
-                          </button>
-                          <button
-                            onClick={clearAllPages}
-                            className="text-sm text-gray-500 hover:text-gray-700 font-medium"
-                          >
-                            Clear All
-                          </button>
-                        </div>
-                        <input
-                          type="text"
-                          value={pageSearch}
-                          onChange={e => setPageSearch(e.target.value)}
-                          placeholder="Search pages..."
-                          className="w-full px-3 py-2 border border-white/20 rounded-lg text-sm focus:ring-2 focus:ring-confluence-blue focus:border-confluence-blue bg-white/80 placeholder-gray-400 mb-1"
-                        />
-                      </div>
-                      {/* Page List */}
-                      <div className="max-h-48 overflow-y-auto">
-                        {(pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase()))).length === 0 ? (
-                          <div className="p-3 text-gray-500 text-sm text-center">
-                            No pages found in this space
-                          </div>
-                        ) : (
-                          pages.filter(page => page.toLowerCase().includes(pageSearch.toLowerCase())).map(page => (
-                            <label
-                              key={page}
-                              className="flex items-center space-x-3 p-3 hover:bg-white/50 cursor-pointer border-b border-white/10 last:border-b-0"
-                            >
-                              <div className="relative">
-                                <input
-                                  type="checkbox"
-                                  checked={selectedPages.includes(page)}
-                                  onChange={() => handlePageSelection(page)}
-                                  className="sr-only"
-                                />
-                                <div className={`w-5 h-5 border-2 rounded flex items-center justify-center transition-colors ${
-                                  selectedPages.includes(page)
-                                    ? 'bg-confluence-blue border-confluence-blue'
-                                    : 'border-gray-300 hover:border-confluence-blue/50'
-                                }`}>
-                                  {selectedPages.includes(page) && (
-                                    <Check className="w-3 h-3 text-white" />
-                                  )}
-                                </div>
-                              </div>
-                              <span className="text-sm text-gray-700 flex-1">{page}</span>
-                            </label>
-                          ))
-                        )}
-                      </div>
-                    </div>
-                  )}
-                </div>
+                <SpacePagePicker multiple value={selectedPages} onChange={setSelectedPages} />
               </div>
             </div>
 
@@ -559,6 +471,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                 </>
               )}
             </button>
+            {isProcessing && <CancelButton onClick={cancelRequests} className="mt-2 w-full" />}
           </div>
 
           {/* Videos List */}
@@ -626,7 +539,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       <div>
                         <h5 className="font-semibold text-gray-800 mb-3">AI Summary</h5>
                         <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
-                          <p className="text-gray-700">{video.summary}</p>
+                          <MarkdownView>{video.summary || ''}</MarkdownView>
                         </div>
                       </div>
 
@@ -644,6 +557,20 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                         </div>
                       )}
 
+                      {/* Action Items */}
+                      {video.actionItems && video.actionItems.length > 0 && (
+                        <div>
+                          <h5 className="font-semibold text-gray-800 mb-3">Action Items</h5>
+                          <ul className="space-y-2">
+                            {video.actionItems.map((item, index) => (
+                              <li key={index} className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border-l-4 border-green-500 border border-white/20 text-gray-700">
+                                {item}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                       {/* Timestamps Section */}
                       {video.timestamps && video.timestamps.length > 0 && (
                         <div>
@@ -667,33 +594,51 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                         
                         {/* --- History Dropdown for Q&A --- */}
                         {(() => {
-                          const videoHistory = getVideoHistory(video.id);
+                          const videoHistory = getVideoHistory(video);
                           const isCurrentVideo = currentVideoForQa === video.id;
+                          const latest = videoHistory.reduce<HistoryRecord<QaHistoryPayload> | null>((newest, entry) => (!newest || entry.createdAt > newest.createdAt ? entry : newest), null);
                           return videoHistory.length > 0 && isCurrentVideo && (
-                            <div className="mb-4 flex items-center space-x-2">
-                              <label className="text-sm font-medium text-gray-700">Q&A History:</label>
-                              <select
-                                className="border border-gray-300 rounded px-2 py-1 text-sm"
-                                value={currentQaHistoryIndex ?? 0}
-                                onChange={e => {
-                                  const selectedIndex = Number(e.target.value);
-                                  setCurrentQaHistoryIndex(selectedIndex);
-                                  setCurrentVideoForQa(video.id);
-                                }}
-                              >
-                                {videoHistory.map((item, idx) => (
-                                  <option key={idx} value={qaHistory.findIndex(h => h === item)}>
-                                    {item.question.length > 40 ? item.question.slice(0, 40) + '...' : item.question}
-                                  </option>
-                                ))}
-                              </select>
-                              {currentQaHistoryIndex !== null && currentQaHistoryIndex !== 0 && (
+                            <div className="mb-4">
+                              <div className="flex items-center space-x-2">
+                                <label className="text-sm font-medium text-gray-700">Q&A History:</label>
+                                <select
+                                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                                  value={currentQaHistoryId ?? ''}
+                                  onChange={e => {
+                                    const entry = videoHistory.find(h => h.id === e.target.value);
+                                    if (entry) loadQaHistoryEntry(entry);
+                                  }}
+                                >
+                                  <option value="" disabled>Previous questions</option>
+                                  {videoHistory.map(item => (
+                                    <option key={item.id} value={item.id}>
+                                      {item.title.length > 40 ? item.title.slice(0, 40) + '...' : item.title}
+                                    </option>
+                                  ))}
+                                </select>
+                                {latest && currentQaHistoryId !== null && currentQaHistoryId !== latest.id && (
+                                  <button
+                                    className="text-xs text-confluence-blue underline ml-2"
+                                    onClick={() => loadQaHistoryEntry(latest)}
+                                  >
+                                    Go to Latest
+                                  </button>
+                                )}
                                 <button
                                   className="text-xs text-confluence-blue underline ml-2"
-                                  onClick={() => setCurrentQaHistoryIndex(0)}
+                                  onClick={() => setShowQaHistoryPanel(!showQaHistoryPanel)}
                                 >
-                                  Go to Latest
+                                  {showQaHistoryPanel ? 'Hide' : 'Search'} History
                                 </button>
+                              </div>
+                              {showQaHistoryPanel && (
+                                <HistoryPanel
+                                  history={qaHistory}
+                                  selectedId={currentQaHistoryId}
+                                  onSelect={loadQaHistoryEntry}
+                                  spaces={spaces}
+                                  className="mt-3"
+                                />
                               )}
                             </div>
                           );
@@ -706,7 +651,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                               {video.qa.map((qa, index) => (
                                 <div key={index} className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
                                   <p className="font-medium text-gray-800 mb-2">Q: {qa.question}</p>
-                                  <p className="text-gray-700">A: {qa.answer}</p>
+                                  <MarkdownView>{qa.answer}</MarkdownView>
                                 </div>
                               ))}
                             </div>
@@ -716,8 +661,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                           <div className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/20">
                             <div className="flex space-x-2 items-center" onClick={() => {
                               setCurrentVideoForQa(video.id);
-                              setIsTypingNewQuestion(true);
-                              setCurrentQaHistoryIndex(null);
+                              setCurrentQaHistoryId(null);
                             }}>
                               <div className="flex-1">
                                 <VoiceRecorder
@@ -725,13 +669,11 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                                   onChange={(value) => {
                                     setNewQuestion(value);
                                     setCurrentVideoForQa(video.id);
-                                    setIsTypingNewQuestion(true);
-                                    setCurrentQaHistoryIndex(null);
+                                    setCurrentQaHistoryId(null);
                                   }}
                                   onConfirm={(value) => {
                                     setNewQuestion(value);
                                     setCurrentVideoForQa(video.id);
-                                    setIsTypingNewQuestion(false);
                                   }}
                                   inputPlaceholder="Ask a question about this video..."
                                 />
@@ -740,8 +682,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                                 onClick={() => {
                                   setSelectedVideo(video.id);
                                   setCurrentVideoForQa(video.id);
-                                  setIsTypingNewQuestion(false);
-                                  setCurrentQaHistoryIndex(null);
+                                  setCurrentQaHistoryId(null);
                                   addQuestion();
                                 }}
                                 disabled={isQALoading}
@@ -759,6 +700,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                                   </>
                                 )}
                               </button>
+                              {isQALoading && <CancelButton onClick={cancelRequests} />}
                             </div>
                           </div>
                         </div>
@@ -775,7 +717,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                               onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                               className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                             >
-                              <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                              <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                               {isExportFormatDropdownOpen ? (
                                 <ChevronUp className="w-4 h-4 text-gray-400" />
                               ) : (
@@ -794,10 +736,10 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                                   />
                                 </div>
                                 <div className="max-h-32 overflow-y-auto">
-                                  {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                                  {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                                     <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                                   ) : (
-                                    exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                                    EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                                       <button
                                         key={f.value}
                                         type="button"
@@ -816,18 +758,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                         </div>
                         
                         <div className="space-y-3 pt-4 border-t border-white/20">
-                          <div className="flex items-center space-x-2 mb-2">
-                            <label htmlFor="save-mode" className="text-sm font-medium text-gray-700">Save Mode:</label>
-                            <select
-                              id="save-mode"
-                              value={saveMode}
-                              onChange={e => setSaveMode(e.target.value)}
-                              className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm"
-                            >
-                              <option value="append">Append</option>
-                              <option value="overwrite">Overwrite</option>
-                            </select>
-                          </div>
+                          <SaveModeSelect id="save-mode" value={saveOptions} onChange={setSaveOptions} />
                           
                           <div className="flex space-x-2">
                             <button
@@ -837,54 +768,33 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                               <Download className="w-4 h-4" />
                               <span>Export</span>
                             </button>
+                            <PinButton onClick={() => pinSummary(video)} pinned={pinned} />
                             <button
-                              onClick={async () => {
-                                setIsPreviewLoading(true);
-                                setShowPreview(false);
-                                try {
-                                  const { space, page } = getConfluenceSpaceAndPageFromUrl();
-                                  if (!space || !page) {
-                                    alert('Confluence space or page not specified in macro src URL.');
-                                    return;
-                                  }
-                                  const preview = await apiService.previewSaveToConfluence({
-                                    space_key: space,
-                                    page_title: page,
-                                    content: video.summary || '',
-                                    mode: saveMode,
-                                  });
-                                  setPreviewContent(preview.preview_content);
-                                  setPreviewDiff(preview.diff);
-                                  setShowPreview(true);
-                                } catch (err: any) {
-                                  alert('Failed to generate preview: ' + (err.message || err));
-                                } finally {
-                                  setIsPreviewLoading(false);
-                                }
-                              }}
+                              onClick={() => previewSave(video.summary || '')}
                               className="flex items-center space-x-2 px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors border border-white/10"
                             >
                               {isPreviewLoading ? "Loading..." : "Preview"}
                             </button>
                             <button
                               onClick={async () => {
-                                const { space, page } = getConfluenceSpaceAndPageFromUrl();
+                                const { space, page } = hostPage;
                                 if (!space || !page) {
                                   alert('Confluence space or page not specified in macro src URL.');
                                   return;
                                 }
-                                try {
-                                  await apiService.saveToConfluence({
+                                await publish(page, async expectedVersion => {
+                                  const saved = await apiService.saveToConfluence({
                                     space_key: space,
                                     page_title: page,
-                                    content: video.summary || '',
-                                    mode: saveMode,
-                                  });
+                                    page_id: hostPageId,
+                                    ...(await prepareMarkdownSave(video.summary || '')),
+                                    ...saveOptions,
+                                    expected_version: expectedVersion,
+                                  }, { signal: getSignal() });
                                   setShowToast(true);
                                   setTimeout(() => setShowToast(false), 3000);
-                                } catch (err: any) {
-                                  alert('Failed to save to Confluence: ' + (err.message || err));
-                                }
+                                  return saved;
+                                }, err => setError(toToolError(err, 'Failed to save to Confluence')));
                               }}
                               className="flex items-center space-x-2 px-4 py-2 bg-confluence-blue/90 backdrop-blur-sm text-white rounded-lg hover:bg-confluence-blue transition-colors border border-white/10"
                             >
@@ -922,7 +832,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                       onClick={() => setIsExportFormatDropdownOpen(!isExportFormatDropdownOpen)}
                       className="px-3 py-1 border border-white/30 rounded text-sm focus:ring-2 focus:ring-confluence-blue bg-white/70 backdrop-blur-sm w-full flex items-center justify-between"
                     >
-                      <span>{exportFormats.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
+                      <span>{EXPORT_FORMATS.find(f => f.value === exportFormat)?.label || 'Select format'}</span>
                       {isExportFormatDropdownOpen ? (
                         <ChevronUp className="w-4 h-4 text-gray-400" />
                       ) : (
@@ -941,10 +851,10 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
                           />
                         </div>
                         <div className="max-h-32 overflow-y-auto">
-                          {exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
+                          {EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).length === 0 ? (
                             <div className="p-2 text-gray-500 text-sm text-center">No formats found</div>
                           ) : (
-                            exportFormats.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
+                            EXPORT_FORMATS.filter(f => f.label.toLowerCase().includes(exportFormatSearch.toLowerCase())).map(f => (
                               <button
                                 key={f.value}
                                 type="button"
@@ -974,6 +884,7 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
           )}
         </div>
       </div>
+      {conflict && <SaveConflictDialog conflict={conflict} onClose={dismissConflict} />}
       {showToast && (
         <div style={{position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', background: '#2684ff', color: 'white', padding: '16px 32px', borderRadius: 8, zIndex: 9999, fontWeight: 600, fontSize: 16, boxShadow: '0 2px 12px rgba(0,0,0,0.15)'}}>
           Saved to Confluence! Please refresh this Confluence page to see your changes.
@@ -985,25 +896,19 @@ ${video.qa?.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n')
         </div>
       )}
       {showPreview && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/30">
-          <div className="bg-confluence-blue/95 rounded-2xl shadow-2xl p-6 w-full max-w-3xl relative border border-white/20">
-            <div className="flex justify-between items-center mb-4">
-              <h4 className="font-semibold text-white text-lg">Preview of Updated Content</h4>
-              <button onClick={() => setShowPreview(false)} className="text-white hover:text-red-400 font-bold text-base px-3 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-400">Close Preview</button>
-            </div>
-            <div
-              className="overflow-y-auto bg-white/90 rounded-xl p-6 border border-white/30 shadow-inner min-h-[120px] max-h-[400px] text-gray-900 text-base font-normal"
-              style={{
-                fontFamily: 'inherit',
-                boxSizing: 'border-box',
-                wordBreak: 'break-word',
-                whiteSpace: 'pre-wrap',
-                marginBottom: 0,
-              }}
-              dangerouslySetInnerHTML={{ __html: previewContent || '' }}
-            />
-          </div>
-        </div>
+        <SavePreviewModal
+          existing={previewExisting}
+          updated={previewContent || ''}
+          content={previewStorage}
+          onClose={() => setShowPreview(false)}
+          options={saveOptions}
+          onOptionsChange={options => {
+            setSaveOptions(options);
+            previewSave(previewSource, options);
+          }}
+          sectionError={previewSectionError}
+          isLoading={isPreviewLoading}
+        />
       )}
     </div>
   );
@@ -0,0 +1,251 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { apiService, PageSummary, Space } from '../services/api';
+import { ToolError, toToolError } from '../services/apiErrors';
+import { getActiveProfileId, loadConfigProfiles, subscribeToProfiles } from '../services/connectionProfiles';
+import { WorkspaceContext, WorkspaceContextValue } from '../contexts/workspaceContext';
+import { useCancellableRequests } from '../hooks/useCancellableRequests';
+import { useRoute } from '../hooks/useRoute';
+import { trimSlots } from '../utils/appRoute';
+import { getConfluenceSpaceAndPageFromUrl } from '../utils/urlUtils';
+
+// How far a space's page listing has got
+interface PageListing {
+  titles: string[];
+  nextCursor: string | null;
+}
+
+const SEARCH_RESULT_LIMIT = 25;
+
+const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [hostPage] = useState(getConfluenceSpaceAndPageFromUrl);
+  const { route, updateRoute } = useRoute();
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [spacesLoading, setSpacesLoading] = useState(true);
+  // A link's space and pages win over the host page
+  const [spaceKey, setSpaceKeyState] = useState(route.space || hostPage.space || '');
+  const [listings, setListings] = useState<Record<string, PageListing>>({});
+  const [pageIdsBySpace, setPageIdsBySpace] = useState<Record<string, Record<string, string>>>({});
+  const [pagesLoading, setPagesLoading] = useState(false);
+  const [pageSlots, setPageSlots] = useState<string[]>(route.space ? route.pages : []);
+  const [loadError, setLoadError] = useState<ToolError>('');
+  const { getSignal, cancelRequests } = useCancellableRequests();
+  // The backend profile spaces and pages come from; null until api-profiles.json has loaded
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const profileRef = useRef<string | null>(null);
+  // Bumped on every profile switch, so responses from the previous backend are dropped
+  const generationRef = useRef(0);
+  // Listings are read by callbacks that shouldn't change on every batch
+  const listingsRef = useRef<Record<string, PageListing>>({});
+  // One batch request per space at a time, shared by every tool that asks
+  const batchRequestsRef = useRef(new Map<string, Promise<PageListing>>());
+
+  useEffect(() => {
+    let active = true;
+    loadConfigProfiles().then(() => {
+      if (active) setProfileId(getActiveProfileId());
+    });
+    const unsubscribe = subscribeToProfiles(() => setProfileId(current => (current === null ? current : getActiveProfileId())));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!profileId) return;
+    if (profileRef.current && profileRef.current !== profileId) {
+      // Another backend: the last one's spaces, pages and ids mean nothing to it
+      cancelRequests();
+      generationRef.current += 1;
+      listingsRef.current = {};
+      batchRequestsRef.current.clear();
+      setListings({});
+      setPageIdsBySpace({});
+      setSpaces([]);
+      setSpacesLoading(true);
+      setPagesLoading(false);
+      setSpaceKeyState(hostPage.space || '');
+      setPageSlots([]);
+      setLoadError('');
+    }
+    profileRef.current = profileId;
+    const signal = getSignal();
+    const loadSpaces = async () => {
+      const loaded: Space[] = [];
+      try {
+        for await (const batch of apiService.iterateSpaces({ signal })) {
+          loaded.push(...batch);
+          setSpaces([...loaded]);
+        }
+        // With only one space there is nothing to choose
+        if (loaded.length === 1) {
+          setSpaceKeyState(current => current || loaded[0].key);
+        }
+      } catch (err) {
+        setLoadError(toToolError(err, 'Failed to load spaces'));
+      } finally {
+        if (!signal.aborted) setSpacesLoading(false);
+      }
+    };
+    loadSpaces();
+  }, [profileId, getSignal, cancelRequests, hostPage.space]);
+
+  const rememberPages = useCallback((key: string, pages: PageSummary[], generation: number) => {
+    if (pages.length === 0 || generation !== generationRef.current) return;
+    setPageIdsBySpace(current => ({
+      ...current,
+      [key]: { ...current[key], ...Object.fromEntries(pages.map(page => [page.title, page.id])) },
+    }));
+  }, []);
+
+  // Lists the space's next batch of pages, or its first when `restart` is set
+  const fetchBatch = useCallback((key: string, restart: boolean): Promise<PageListing> => {
+    const inFlight = batchRequestsRef.current.get(key);
+    if (inFlight) return inFlight;
+    const listing = restart ? undefined : listingsRef.current[key];
+    if (listing && !listing.nextCursor) return Promise.resolve(listing);
+
+    // Not cancellable: other tools may be waiting on the same request
+    const generation = generationRef.current;
+    const request = apiService.getPages(key, { cursor: listing?.nextCursor }).then(result => {
+      if (generation !== generationRef.current) return { titles: [], nextCursor: null };
+      rememberPages(key, result.pages, generation);
+      const known = new Set(listing?.titles);
+      const next: PageListing = {
+        titles: [...(listing?.titles || []), ...result.pages.map(page => page.title).filter(title => !known.has(title))],
+        nextCursor: result.next_cursor,
+      };
+      listingsRef.current = { ...listingsRef.current, [key]: next };
+      setListings(listingsRef.current);
+      return next;
+    });
+    batchRequestsRef.current.set(key, request);
+    const settle = () => {
+      if (batchRequestsRef.current.get(key) === request) batchRequestsRef.current.delete(key);
+    };
+    request.then(settle, settle);
+    return request;
+  }, [rememberPages]);
+
+  const searchPagesIn = useCallback(async (key: string, query: string, signal?: AbortSignal): Promise<string[]> => {
+    const generation = generationRef.current;
+    const result = await apiService.getPages(key, { query, limit: SEARCH_RESULT_LIMIT }, { signal });
+    rememberPages(key, result.pages, generation);
+    return result.pages.map(page => page.title);
+  }, [rememberPages]);
+
+  const showPages = useCallback(async (key: string, restart: boolean) => {
+    setPagesLoading(true);
+    const generation = generationRef.current;
+    try {
+      const listing = await fetchBatch(key, restart);
+      if (generation !== generationRef.current) return;
+      setLoadError('');
+      // Preselect the host page, or the space's only page, when nothing is selected yet
+      setPageSlots(current => {
+        if (current.some(Boolean)) return current;
+        if (hostPage.page && listing.titles.includes(hostPage.page)) return [hostPage.page];
+        return listing.titles.length === 1 && !listing.nextCursor ? [listing.titles[0]] : current;
+      });
+      // The host page may not be in the first batch; look it up by title instead
+      if (hostPage.page && key === hostPage.space && !listing.titles.includes(hostPage.page)) {
+        const matches = await searchPagesIn(key, hostPage.page);
+        if (matches.includes(hostPage.page)) {
+          setPageSlots(current => (current.some(Boolean) ? current : [hostPage.page as string]));
+        }
+      }
+    } catch (err) {
+      if (generation === generationRef.current) setLoadError(toToolError(err, 'Failed to load pages'));
+    } finally {
+      if (generation === generationRef.current) setPagesLoading(false);
+    }
+  }, [fetchBatch, searchPagesIn, hostPage.page, hostPage.space]);
+
+  useEffect(() => {
+    if (spaceKey && !listingsRef.current[spaceKey]) showPages(spaceKey, false);
+  }, [spaceKey, showPages, profileId]);
+
+  // Follow the URL when it moves to another selection, on back/forward or a pasted link
+  const routePages = route.pages.join('\n');
+  useEffect(() => {
+    if (!route.space) return;
+    if (route.space !== spaceKey) {
+      setSpaceKeyState(route.space);
+      setPageSlots(route.pages);
+    } else if (routePages !== trimSlots(pageSlots).join('\n')) {
+      setPageSlots(route.pages);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route.space, routePages]);
+
+  // ...and keep the URL on the current selection, so a copied link opens it
+  useEffect(() => {
+    updateRoute({ space: spaceKey || undefined, pages: trimSlots(pageSlots) });
+  }, [spaceKey, pageSlots, updateRoute]);
+
+  const setSpaceKey = useCallback((key: string) => {
+    if (key === spaceKey) return;
+    setSpaceKeyState(key);
+    setPageSlots([]);
+  }, [spaceKey]);
+
+  const setSelectedPages = useCallback((pages: string[] | ((current: string[]) => string[])) => {
+    setPageSlots(current => {
+      const next = typeof pages === 'function' ? pages(current.filter(Boolean)) : pages;
+      return next.filter(Boolean);
+    });
+  }, []);
+
+  const setPageSlot = useCallback((slot: number, page: string) => {
+    setPageSlots(current => {
+      const next = [...current];
+      while (next.length <= slot) next.push('');
+      next[slot] = page;
+      return trimSlots(next);
+    });
+  }, []);
+
+  const loadMorePages = useCallback(() => {
+    const listing = listingsRef.current[spaceKey];
+    if (!spaceKey || !listing?.nextCursor || batchRequestsRef.current.has(spaceKey)) return;
+    showPages(spaceKey, false);
+  }, [spaceKey, showPages]);
+
+  const searchPages = useCallback(
+    (query: string, signal?: AbortSignal) => (spaceKey ? searchPagesIn(spaceKey, query, signal) : Promise.resolve([])),
+    [spaceKey, searchPagesIn]
+  );
+
+  const reloadPages = useCallback(() => {
+    if (spaceKey) showPages(spaceKey, true);
+  }, [spaceKey, showPages]);
+
+  const selectedPages = useMemo(() => pageSlots.filter(Boolean), [pageSlots]);
+  const listing = listings[spaceKey];
+
+  const value = useMemo<WorkspaceContextValue>(() => ({
+    profileId,
+    spaces,
+    spacesLoading,
+    spaceKey,
+    setSpaceKey,
+    pages: listing?.titles || [],
+    pagesLoading,
+    hasMorePages: !!listing?.nextCursor,
+    loadMorePages,
+    searchPages,
+    pageIds: pageIdsBySpace[spaceKey] || {},
+    selectedPages,
+    setSelectedPages,
+    pageSlots,
+    setPageSlot,
+    hostPage,
+    hostPageId: hostPage.space && hostPage.page ? pageIdsBySpace[hostPage.space]?.[hostPage.page] : undefined,
+    reloadPages,
+    loadError,
+  }), [profileId, spaces, spacesLoading, spaceKey, setSpaceKey, listing, pagesLoading, loadMorePages, searchPages, pageIdsBySpace, selectedPages, setSelectedPages, pageSlots, setPageSlot, hostPage, reloadPages, loadError]);
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
+
+export default WorkspaceProvider;
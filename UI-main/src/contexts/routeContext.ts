@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import type { AppRoute } from '../utils/appRoute';
+
+// The app's route, read from and written to the URL's hash.
+//
+// `navigate` adds a browser history entry, so back/forward move between
+// modes and tools. `updateRoute` replaces the current entry, for state that
+// changes within a tool (the selection, the query, the entry shown) and
+// should be in a copied link without filling the back button's history.
+export interface RouteContextValue {
+  route: AppRoute;
+  navigate: (route: AppRoute) => void;
+  updateRoute: (patch: Partial<AppRoute>) => void;
+}
+
+export const RouteContext = createContext<RouteContextValue | null>(null);
@@ -0,0 +1,54 @@
+import { createContext } from 'react';
+import type { Space } from '../services/api';
+import type { ToolError } from '../services/apiErrors';
+
+// The Confluence page hosting the app, from the URL's `space` and `page` parameters
+export interface HostPage {
+  space?: string;
+  page?: string;
+}
+
+// Space and page selection shared by Agent Mode and every tool, so switching
+// tools keeps the selection and doesn't refetch spaces or pages.
+//
+// The selection is kept as page slots. Multi-page tools read and write
+// `selectedPages`. Single-page tools use slot 0, and two-page tools (old/new
+// page, code/test input page) use slots 0 and 1, where an empty string marks
+// a slot that hasn't been chosen.
+//
+// Pages are listed a batch at a time. Tools select by title and send the
+// matching id from `pageIds` with their requests, so the backend fetches the
+// page directly instead of looking it up by title.
+export interface WorkspaceContextValue {
+  // Active backend profile, for caches of its data; null until api-profiles.json has loaded.
+  // Switching profile lists spaces again and clears the pages and selection.
+  profileId: string | null;
+  spaces: Space[];
+  spacesLoading: boolean;
+  spaceKey: string;
+  // Changing the space clears the page selection
+  setSpaceKey: (spaceKey: string) => void;
+  // Pages of the current space listed so far
+  pages: string[];
+  pagesLoading: boolean;
+  hasMorePages: boolean;
+  // Lists the next batch of the current space's pages
+  loadMorePages: () => void;
+  // Titles in the current space matching the query, from a server-side title search
+  searchPages: (query: string, signal?: AbortSignal) => Promise<string[]>;
+  // Page id by title, for the current space's pages listed or found so far
+  pageIds: Record<string, string>;
+  selectedPages: string[];
+  setSelectedPages: (pages: string[] | ((current: string[]) => string[])) => void;
+  pageSlots: string[];
+  setPageSlot: (slot: number, page: string) => void;
+  hostPage: HostPage;
+  // Id of the host page once its space's pages have been listed or searched, so saves to it go by id
+  hostPageId?: string;
+  // Lists the current space's pages again from the start, e.g. after a page was created
+  reloadPages: () => void;
+  // Latest failure to load spaces or pages, for tools to show in their error banner
+  loadError: ToolError;
+}
+
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Owns the AbortController for a tool's in-flight requests.
+// `getSignal()` is passed to every ApiService call; `cancelRequests()` aborts them
+// all (Cancel button) and the same happens automatically when the tool unmounts.
+export function useCancellableRequests() {
+  const controllerRef = useRef<AbortController>(new AbortController());
+
+  useEffect(() => {
+    // A fresh controller per mount, so StrictMode's mount/unmount/mount still works.
+    controllerRef.current = new AbortController();
+    return () => controllerRef.current.abort();
+  }, []);
+
+  const getSignal = useCallback(() => controllerRef.current.signal, []);
+
+  const cancelRequests = useCallback(() => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+  }, []);
+
+  return { getSignal, cancelRequests };
+}
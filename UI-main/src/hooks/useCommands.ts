@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { Command, registerCommands } from '../services/commandRegistry';
+
+// Registers the commands while the component is mounted. Each command runs
+// the handler from the latest render, so handlers can read current state;
+// the registration itself only changes when a title or disabled flag does.
+export function useCommands(commands: Command[]) {
+  const latest = useRef(commands);
+  latest.current = commands;
+  const signature = commands.map(command => `${command.id}|${command.title}|${command.disabled ? 1 : 0}`).join('\n');
+
+  useEffect(() => {
+    return registerCommands(latest.current.map(command => ({
+      ...command,
+      run: () => latest.current.find(c => c.id === command.id)?.run(),
+    })));
+  }, [signature]);
+}
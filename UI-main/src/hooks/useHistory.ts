@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  HistoryFilter,
+  HistoryRecord,
+  HistoryTool,
+  NewHistoryEntry,
+  addHistoryEntry,
+  deleteHistoryEntry,
+  importHistory,
+  queryHistory,
+  serializeHistory,
+  setHistoryPinned,
+  subscribeToHistory,
+} from '../services/historyStore';
+
+// One tool's view of the history store: the entries matching `filter`, kept
+// current as any tool writes to the store.
+export function useHistory<T>(tool: HistoryTool) {
+  const [entries, setEntries] = useState<HistoryRecord<T>[]>([]);
+  const [spaceKeys, setSpaceKeys] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  // Newest entry regardless of pins and filters, for "Go to Latest"
+  const [latest, setLatest] = useState<HistoryRecord<T> | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+
+  useEffect(() => {
+    let active = true;
+    const load = async () => {
+      try {
+        const [matching, all] = await Promise.all([queryHistory<T>(tool, filter), queryHistory<T>(tool)]);
+        if (!active) return;
+        setEntries(matching);
+        setTotalCount(all.length);
+        setLatest(all.reduce<HistoryRecord<T> | null>((newest, entry) => (!newest || entry.createdAt > newest.createdAt ? entry : newest), null));
+        setSpaceKeys([...new Set(all.map(entry => entry.spaceKey).filter(Boolean))].sort());
+      } catch (err) {
+        console.error('Failed to load history:', err);
+      }
+    };
+    load();
+    const unsubscribe = subscribeToHistory(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [tool, filter]);
+
+  // Saving history is best effort: a failed write is logged, never shown as the tool's error
+  const addEntry = useCallback(async (entry: Omit<NewHistoryEntry<T>, 'tool'>): Promise<HistoryRecord<T> | null> => {
+    try {
+      return await addHistoryEntry<T>({ ...entry, tool });
+    } catch (err) {
+      console.error('Failed to save history:', err);
+      return null;
+    }
+  }, [tool]);
+
+  const togglePin = useCallback((entry: HistoryRecord<T>) => {
+    return setHistoryPinned(entry.id, !entry.pinned);
+  }, []);
+
+  const removeEntry = useCallback((id: string) => deleteHistoryEntry(id), []);
+
+  // Downloads the entries currently shown, so a filtered view exports only what matched
+  const exportEntries = useCallback(() => {
+    const blob = new Blob([serializeHistory(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${tool}-history-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [entries, tool]);
+
+  const importEntries = useCallback(async (file: File) => importHistory(await file.text()), []);
+
+  return { entries, latest, spaceKeys, totalCount, filter, setFilter, addEntry, togglePin, removeEntry, exportEntries, importEntries };
+}
+
+export type HistoryController<T> = ReturnType<typeof useHistory<T>>;
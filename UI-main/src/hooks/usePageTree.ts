@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useState } from 'react';
+import { apiService, PageTreeNode } from '../services/api';
+import { useWorkspace } from './useWorkspace';
+
+// Shared by every picker, per backend profile and space like the page types.
+// Only the pages a picker has listed are looked up, a batch at a time as the
+// listing grows, so a large space is never read in full. The hierarchy rarely changes while the app is
+// open, so a page's parent is looked up again after a few minutes at most.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Pages per request
+const BATCH_SIZE = 100;
+
+interface SpaceTree {
+  // Pages looked up so far, by id
+  nodes: Map<string, PageTreeNode>;
+  // When each page id was last looked up, or is being looked up
+  requestedAt: Map<string, number>;
+  listeners: Set<() => void>;
+}
+
+const cache = new Map<string, SpaceTree>();
+
+function spaceTree(profileId: string, spaceKey: string): SpaceTree {
+  const key = `${profileId}\n${spaceKey}`;
+  let space = cache.get(key);
+  if (!space) {
+    space = { nodes: new Map(), requestedAt: new Map(), listeners: new Set() };
+    cache.set(key, space);
+  }
+  return space;
+}
+
+function loadParents(profileId: string, spaceKey: string, pageIds: string[]) {
+  const space = spaceTree(profileId, spaceKey);
+  const now = Date.now();
+  const missing = pageIds.filter(id => now - (space.requestedAt.get(id) ?? -Infinity) >= CACHE_TTL_MS);
+  missing.forEach(id => space.requestedAt.set(id, now));
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = missing.slice(i, i + BATCH_SIZE);
+    apiService.getPageTree(spaceKey, batch)
+      .then(result => {
+        result.pages.forEach(node => space.nodes.set(node.id, node));
+        space.listeners.forEach(listener => listener());
+      })
+      .catch(err => {
+        // Looked up again the next time they're listed
+        batch.forEach(id => space.requestedAt.delete(id));
+        console.warn('Could not load page tree:', err);
+      });
+  }
+}
+
+// Parent links of the given pages of the space. Pages not looked up yet, or
+// whose request failed, are missing, so pickers show them at the top level.
+export function usePageTree(spaceKey: string, titles: string[]): PageTreeNode[] {
+  const { profileId, pageIds } = useWorkspace();
+  const [nodes, setNodes] = useState<PageTreeNode[]>([]);
+  const idsKey = useMemo(
+    () => [...new Set(titles.map(title => pageIds[title]).filter(Boolean))].sort().join(','),
+    [titles, pageIds]
+  );
+
+  useEffect(() => {
+    setNodes([]);
+    if (!profileId || !spaceKey) return;
+    const space = spaceTree(profileId, spaceKey);
+    const update = () => setNodes([...space.nodes.values()]);
+    space.listeners.add(update);
+    update();
+    return () => {
+      space.listeners.delete(update);
+    };
+  }, [profileId, spaceKey]);
+
+  useEffect(() => {
+    if (profileId && spaceKey && idsKey) loadParents(profileId, spaceKey, idsKey.split(','));
+  }, [profileId, spaceKey, idsKey]);
+
+  return nodes;
+}
@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useState } from 'react';
+import { apiService, PageWithType } from '../services/api';
+import { useWorkspace } from './useWorkspace';
+
+// Classifications are shared by every tool, per backend profile and space, so
+// switching tools doesn't refetch them. Only the pages a tool asks about are
+// classified, so a large space never has to be read in full. The backend caches per page version; this
+// only avoids repeat requests within a few minutes.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Pages per request
+const BATCH_SIZE = 50;
+// Wait for the asked-for pages to settle, e.g. while a picker scrolls
+const REQUEST_DELAY_MS = 200;
+
+interface SpaceTypes {
+  // Pages classified so far, by title
+  types: Record<string, PageWithType>;
+  // When each page id was last classified, or is being classified
+  requestedAt: Map<string, number>;
+  listeners: Set<() => void>;
+}
+
+const cache = new Map<string, SpaceTypes>();
+
+function spaceTypes(profileId: string, spaceKey: string): SpaceTypes {
+  const key = `${profileId}\n${spaceKey}`;
+  let space = cache.get(key);
+  if (!space) {
+    space = { types: {}, requestedAt: new Map(), listeners: new Set() };
+    cache.set(key, space);
+  }
+  return space;
+}
+
+function classifyPages(profileId: string, spaceKey: string, pageIds: string[]) {
+  const space = spaceTypes(profileId, spaceKey);
+  const now = Date.now();
+  const missing = pageIds.filter(id => now - (space.requestedAt.get(id) ?? -Infinity) >= CACHE_TTL_MS);
+  missing.forEach(id => space.requestedAt.set(id, now));
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = missing.slice(i, i + BATCH_SIZE);
+    // Not tied to one tool's signal, since other tools may be waiting on the same pages
+    apiService.getPagesWithType(spaceKey, { pageIds: batch })
+      .then(result => {
+        space.types = { ...space.types, ...Object.fromEntries(result.pages.map(page => [page.title, page])) };
+        space.listeners.forEach(listener => listener());
+      })
+      .catch(err => {
+        // Asked for again the next time they're shown
+        batch.forEach(id => space.requestedAt.delete(id));
+        console.warn('Could not load page types:', err);
+      });
+  }
+}
+
+// Content type of the given pages of the space, by title, once classified.
+// Pages without a known id, or whose request failed, are simply missing, so
+// pickers show no badges for them.
+export function usePageTypes(spaceKey: string, titles: string[]): Record<string, PageWithType> {
+  const { profileId, pageIds } = useWorkspace();
+  const [pageTypes, setPageTypes] = useState<Record<string, PageWithType>>({});
+  const idsKey = useMemo(
+    () => [...new Set(titles.map(title => pageIds[title]).filter(Boolean))].sort().join(','),
+    [titles, pageIds]
+  );
+
+  useEffect(() => {
+    setPageTypes({});
+    if (!profileId || !spaceKey) return;
+    const space = spaceTypes(profileId, spaceKey);
+    const update = () => setPageTypes(space.types);
+    space.listeners.add(update);
+    update();
+    return () => {
+      space.listeners.delete(update);
+    };
+  }, [profileId, spaceKey]);
+
+  useEffect(() => {
+    if (!profileId || !spaceKey || !idsKey) return;
+    const timer = setTimeout(() => classifyPages(profileId, spaceKey, idsKey.split(',')), REQUEST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [profileId, spaceKey, idsKey]);
+
+  return pageTypes;
+}
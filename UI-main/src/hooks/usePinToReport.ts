@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { NewPinnedSection, pinToReport } from '../services/reportTray';
+import { useWorkspace } from './useWorkspace';
+
+export type PinRequest = Omit<NewPinnedSection, 'source' | 'spaceKey'> & { source?: string };
+
+// Pins a tool's result to the report tray, with the workspace's space.
+// `pinned` stays true for a moment after a pin, for the button to confirm it.
+// A failed pin (the tray is full) goes to `onError`.
+export function usePinToReport(source: string) {
+  const { spaceKey } = useWorkspace();
+  const [pinned, setPinned] = useState(false);
+
+  useEffect(() => {
+    if (!pinned) return;
+    const timer = setTimeout(() => setPinned(false), 2000);
+    return () => clearTimeout(timer);
+  }, [pinned]);
+
+  const pin = useCallback((section: PinRequest, onError: (err: unknown) => void) => {
+    if (!section.markdown.trim()) return;
+    try {
+      pinToReport({ source, spaceKey, ...section });
+      setPinned(true);
+    } catch (err) {
+      onError(err);
+    }
+  }, [source, spaceKey]);
+
+  return { pin, pinned };
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService, PreviewSaveToConfluenceResponse, SaveToConfluenceResponse } from '../services/api';
+import { ConflictError, UpstreamError, isConflictError } from '../services/apiErrors';
+import { PublishTool, recordPublish } from '../services/publishLog';
+import { useWorkspace } from './useWorkspace';
+
+// A save to run: gets the page version to expect and resolves with the backend's response
+export type PublishRun = (expectedVersion?: number) => Promise<SaveToConfluenceResponse>;
+
+export interface PublishConflict {
+  error: ConflictError;
+  // Saves again over the other edit
+  overwrite: () => Promise<void>;
+}
+
+// Version-aware saving for a tool. The host page's version is looked up when
+// the tool opens, and `notePreview` remembers the version a preview showed;
+// `publish` sends the latest of them with the save, records the save in the
+// publish log, and on a conflict keeps it in `conflict` for the tool's dialog
+// instead of reporting an error. Other errors go to `onError`, as do
+// attachments that failed to upload once the page itself was saved.
+export function usePublish(tool: Exclude<PublishTool, 'rollback'>) {
+  const { spaceKey, hostPage, hostPageId } = useWorkspace();
+  // The version the next save expects, per page title
+  const seenVersions = useRef(new Map<string, number>());
+  // The host page version lookup, which a save made before it returns waits for
+  const hostVersionLookup = useRef<Promise<void>>(Promise.resolve());
+  const [conflict, setConflict] = useState<PublishConflict | null>(null);
+
+  // Without this, a save made without a preview would expect no version and could overwrite another edit
+  useEffect(() => {
+    const { space, page } = hostPage;
+    if (!space || !page) return;
+    const controller = new AbortController();
+    hostVersionLookup.current = apiService.getPageVersion(space, page, hostPageId, { signal: controller.signal })
+      .then(result => {
+        // A preview or save since the tool opened saw a later version
+        if (typeof result.version === 'number' && !seenVersions.current.has(page)) seenVersions.current.set(page, result.version);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.warn('Could not look up the page version:', err);
+      });
+    return () => controller.abort();
+  }, [hostPage, hostPageId]);
+
+  const notePreview = useCallback((pageTitle: string, preview: PreviewSaveToConfluenceResponse) => {
+    if (typeof preview.version === 'number') seenVersions.current.set(pageTitle, preview.version);
+  }, []);
+
+  const publish = useCallback(async function run(
+    pageTitle: string,
+    save: PublishRun,
+    onError: (err: unknown) => void,
+    expectedVersion?: number
+  ): Promise<void> {
+    try {
+      if (expectedVersion === undefined) {
+        await hostVersionLookup.current;
+        expectedVersion = seenVersions.current.get(pageTitle);
+      }
+      const saved = await save(expectedVersion);
+      setConflict(null);
+      if (saved.page_id) {
+        recordPublish({
+          tool,
+          spaceKey,
+          pageId: saved.page_id,
+          pageTitle: saved.page_title || pageTitle,
+          mode: saved.mode || 'append',
+          versionBefore: saved.version_before ?? null,
+          versionAfter: saved.version_after ?? null,
+        });
+      }
+      // A further save from this tool expects the version it just made
+      if (saved.page_title === pageTitle && typeof saved.version_after === 'number') {
+        seenVersions.current.set(pageTitle, saved.version_after);
+      }
+      if (saved.attachment_errors?.length) {
+        const failed = saved.attachment_errors.map(e => `${e.filename} (${e.detail})`).join(', ');
+        onError(new UpstreamError(
+          'attachments',
+          `${saved.page_title || pageTitle} was saved, but these attachments failed to upload: ${failed}`,
+          502,
+          'confluence'
+        ));
+      }
+    } catch (err) {
+      if (isConflictError(err)) {
+        setConflict({ error: err, overwrite: () => run(pageTitle, save, onError, err.conflict.currentVersion) });
+      } else {
+        setConflict(null);
+        onError(err);
+      }
+    }
+  }, [tool, spaceKey]);
+
+  const dismissConflict = useCallback(() => setConflict(null), []);
+
+  return { publish, notePreview, conflict, dismissConflict };
+}
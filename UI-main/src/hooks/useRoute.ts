@@ -0,0 +1,48 @@
+import { useContext, useEffect, useRef } from 'react';
+import { RouteContext, RouteContextValue } from '../contexts/routeContext';
+import { getHistoryEntry, HistoryRecord, HistoryTool } from '../services/historyStore';
+
+export function useRoute(): RouteContextValue {
+  const route = useContext(RouteContext);
+  if (!route) {
+    throw new Error('useRoute must be used inside a RouteProvider');
+  }
+  return route;
+}
+
+// Restores a tool's query and history entry from the URL, on opening a link
+// and on going back or forward to it. An entry that isn't in this browser's
+// history (a link from someone else) leaves just the query filled in.
+export function useRouteResult<T>(
+  tool: HistoryTool | null,
+  currentId: string | null,
+  setQuery: (query: string) => void,
+  showEntry?: (entry: HistoryRecord<T>) => void
+) {
+  const { route: { query, entry } } = useRoute();
+  // The tool's own handlers change every render; only the route should trigger a restore
+  const latest = useRef({ currentId, setQuery, showEntry });
+  latest.current = { currentId, setQuery, showEntry };
+
+  useEffect(() => {
+    if (!entry || !tool || !latest.current.showEntry) {
+      if (query !== undefined) latest.current.setQuery(query);
+      return;
+    }
+    if (entry === latest.current.currentId) return;
+    let active = true;
+    getHistoryEntry<T>(entry)
+      .then(record => {
+        if (!active) return;
+        if (record && record.tool === tool) {
+          latest.current.showEntry?.(record);
+        } else if (query !== undefined) {
+          latest.current.setQuery(query);
+        }
+      })
+      .catch(err => console.warn('Could not load history entry from the link:', err));
+    return () => {
+      active = false;
+    };
+  }, [query, entry, tool]);
+}
@@ -0,0 +1,58 @@
+import { useCallback, useRef, useState } from 'react';
+import { apiService, SearchRequest } from '../services/api';
+import { isCancelledError } from '../services/apiErrors';
+import { anySignal } from '../utils/abort';
+
+export interface StreamedAnswer {
+  text: string;
+  source: string;
+  // True when the user pressed Stop; `text` is whatever had arrived by then.
+  stopped: boolean;
+}
+
+// Runs ApiService.streamSearch, reporting the answer to `onText` as it grows.
+// `stop()` ends the stream early but keeps the partial answer, unlike aborting
+// `signal`, which rejects with a CancelledError like any other request.
+export function useStreamingSearch() {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const stopControllerRef = useRef<AbortController | null>(null);
+
+  const runStream = useCallback(async (
+    request: SearchRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+  ): Promise<StreamedAnswer> => {
+    const stopController = new AbortController();
+    stopControllerRef.current = stopController;
+    const linked = anySignal([signal, stopController.signal]);
+    let text = '';
+    let source = '';
+    setIsStreaming(true);
+    try {
+      for await (const event of apiService.streamSearch(request, { signal: linked.signal })) {
+        if (event.type === 'token') {
+          text += event.text;
+          onText(text);
+        } else if (event.type === 'done') {
+          source = event.source;
+        }
+      }
+      return { text, source, stopped: false };
+    } catch (err) {
+      if (isCancelledError(err) && stopController.signal.aborted && !signal?.aborted) {
+        return { text, source, stopped: true };
+      }
+      throw err;
+    } finally {
+      linked.dispose();
+      stopControllerRef.current = null;
+      setIsStreaming(false);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    stopControllerRef.current?.abort();
+  }, []);
+
+  return { runStream, stop, isStreaming };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Windowed rendering for long lists of fixed-height rows: only the rows in
+// view (plus a few either side) are rendered, inside a spacer as tall as the
+// whole list, so a space with thousands of pages scrolls like a short one.
+export function useVirtualList(count: number, rowHeight: number, viewportHeight: number, overscan = 6) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  // Scrolls just enough to bring the row into view, e.g. when moving through it with the keyboard
+  const scrollToIndex = useCallback((index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = index * rowHeight;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (top + rowHeight > container.scrollTop + viewportHeight) {
+      container.scrollTop = top + rowHeight - viewportHeight;
+    }
+  }, [rowHeight, viewportHeight]);
+
+  const resetScroll = useCallback(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, []);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    totalHeight: count * rowHeight,
+    offsetTop: start * rowHeight,
+    scrollToIndex,
+    resetScroll,
+  };
+}
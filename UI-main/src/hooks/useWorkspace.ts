@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { WorkspaceContext, WorkspaceContextValue } from '../contexts/workspaceContext';
+
+export function useWorkspace(): WorkspaceContextValue {
+  const workspace = useContext(WorkspaceContext);
+  if (!workspace) {
+    throw new Error('useWorkspace must be used inside a WorkspaceProvider');
+  }
+  return workspace;
+}
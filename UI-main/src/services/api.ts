@@ -1,29 +1,74 @@
-const API_BASE_URL = 'https://backend-5v02.onrender.com';
+import { getApiBaseUrl, loadConfigProfiles } from './connectionProfiles';
+import { ApiError, NetworkError, TimeoutError, CancelledError, UpstreamError, createApiError, classifyApiError } from './apiErrors';
+import { anySignal, abortableSleep } from '../utils/abort';
 
 export interface SearchRequest {
   space_key: string;
   page_titles: string[];
   query: string;
+  // Ids of page_titles in the same order; pages without one are looked up by title
+  page_ids?: Array<string | undefined>;
 }
 
 export interface CodeRequest {
   space_key: string;
   page_title: string;
+  page_id?: string;
   instruction: string;
   target_language?: string;
 }
 
+export type DiagramType = 'flowchart' | 'sequence' | 'class' | 'er';
+
+export interface DiagramRequest {
+  space_key: string;
+  page_title: string;
+  page_id?: string;
+  diagram_type: DiagramType;
+  // What the diagram should focus on
+  instruction?: string;
+}
+
+export interface DiagramResponse {
+  mermaid: string;
+  diagram_type: DiagramType;
+  // Whether the diagram was drawn from the page's code or its text
+  source_kind: 'code' | 'text';
+}
+
+// The PNG is attached to the page and shown there, above the Mermaid source
+export interface SaveDiagramRequest extends SaveOptions {
+  space_key: string;
+  page_title: string;
+  page_id?: string;
+  mermaid: string;
+  // Base64, without the data: prefix
+  png: string;
+  filename: string;
+  title?: string;
+  // The page version the tool last saw; a later edit makes the save fail with a ConflictError
+  expected_version?: number;
+}
+
 export interface ImpactRequest {
   space_key: string;
   old_page_title: string;
   new_page_title: string;
+  old_page_id?: string;
+  new_page_id?: string;
   question?: string;
   enable_stack_overflow_check?: boolean;
 }
 
+// Each side is inline code, or the code on a page in space_key
 export interface DirectCodeImpactRequest {
-  old_code: string;
-  new_code: string;
+  old_code?: string;
+  new_code?: string;
+  space_key?: string;
+  old_page_title?: string;
+  new_page_title?: string;
+  old_page_id?: string;
+  new_page_id?: string;
   question?: string;
   enable_stack_overflow_check?: boolean;
 }
@@ -42,23 +87,71 @@ export interface PushToJiraConfluenceSlackResponse {
 }
 
 export interface TestRequest {
-  space_key: string;
-  code_page_title: string;
+  space_key?: string;
+  // Either a code page or inline code, e.g. from an earlier Agent Mode step
+  code_page_title?: string;
+  code_page_id?: string;
+  code?: string;
   test_input_page_title?: string;
+  test_input_page_id?: string;
+  test_input?: string;
   question?: string;
 }
 
-export interface ExportRequest {
-  content: string;
-  format: string;
-  filename: string;
-}
-
 export interface Space {
   name: string;
   key: string;
 }
 
+export interface PageSummary {
+  id: string;
+  title: string;
+}
+
+// One batch of a cursor-paginated listing
+export interface ListPageOptions {
+  // next_cursor of the previous batch; omit for the first
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface PageListOptions extends ListPageOptions {
+  // Only pages whose title matches, found with a CQL title search
+  query?: string;
+}
+
+export interface PageTypeListOptions extends ListPageOptions {
+  // Classify just these pages instead of a batch of the space
+  pageIds?: string[];
+}
+
+export interface ServerInfo {
+  message: string;
+  status: string;
+  // The Gemini model the backend generates with
+  model?: string;
+}
+
+export interface SpaceListResponse {
+  spaces: Space[];
+  // Null once there are no more
+  next_cursor: string | null;
+}
+
+export interface PageListResponse {
+  pages: PageSummary[];
+  next_cursor: string | null;
+}
+
+function withQuery(path: string, params: Record<string, string | number | null | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') query.set(key, String(value));
+  });
+  const encoded = query.toString();
+  return encoded ? `${path}?${encoded}` : path;
+}
+
 export interface SearchResponse {
   response: string;
   pages_analyzed: number;
@@ -66,6 +159,13 @@ export interface SearchResponse {
   source?: string;
 }
 
+// Events yielded by ApiService.streamSearch. `streamed` is false when the
+// backend had no streaming endpoint and the answer came from /search in one piece.
+export type SearchStreamEvent =
+  | { type: 'meta'; pagesAnalyzed: number; pageTitles: string[] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; source: string; streamed: boolean };
+
 export interface CodeResponse {
   summary: string;
   original_code: string;
@@ -107,22 +207,18 @@ export interface TestResponse {
   ai_response?: string;
 }
 
-export interface ExportResponse {
-  file: string;
-  mime: string;
-  filename: string;
-}
-
 export interface VideoRequest {
   video_url?: string;
   space_key: string;
   page_title: string;
+  page_id?: string;
   question?: string;
 }
 
 export interface VideoResponse {
   summary: string;
   quotes: string[];
+  action_items?: string[];
   timestamps?: string[];
   qa: Array<{question: string, answer: string}>;
   page_title: string;
@@ -168,28 +264,131 @@ export interface ChartResponse {
   filename: string;
 }
 
-export interface SaveToConfluenceRequest {
+export interface SlideBullet {
+  text: string;
+  // 0 for a top-level bullet, 1 and 2 for nested ones
+  level: number;
+}
+
+export interface ExportSlide {
+  title: string;
+  bullets: SlideBullet[];
+  // Base64 PNG, JPEG or GIF, shown beside the bullets or filling the slide without them
+  image?: { data: string; content_type: string; caption?: string };
+  // Speaker notes, for text that doesn't fit on the slide
+  notes?: string;
+}
+
+// Formats `/export` builds; anything else comes back as plain text
+export type BackendExportFormat = 'pdf' | 'docx' | 'csv' | 'json' | 'html' | 'txt' | 'pptx';
+
+// Binary formats, which `/export` returns as base64
+const BINARY_EXPORT_FORMATS: BackendExportFormat[] = ['pdf', 'docx', 'pptx'];
+
+// Exports the backend builds. The UI only uses it for PowerPoint ("pptx"),
+// with the deck outlined in `slides`; other formats are built in the browser.
+export interface ExportRequest {
+  content: string;
+  format: BackendExportFormat;
+  filename: string;
+  // The title slide
+  title?: string;
+  subtitle?: string;
+  details?: Record<string, string>;
+  slides?: ExportSlide[];
+}
+
+export interface ExportResponse {
+  // Base64 for binary formats (pdf, docx, pptx), text otherwise
+  file: string;
+  mime: string;
+  filename: string;
+}
+
+export type SaveMode = 'append' | 'prepend' | 'overwrite' | 'insert_after_heading' | 'replace_section' | 'create_child';
+
+// Where saved content goes on the page
+export interface SaveOptions {
+  mode: SaveMode;
+  // insert_after_heading and replace_section: the heading's text
+  heading?: string;
+  // replace_section without a heading: the anchor macro around the section, "ai-summary" by default
+  marker?: string;
+  // create_child: the new page's title
+  child_title?: string;
+}
+
+export const DEFAULT_SAVE_OPTIONS: SaveOptions = { mode: 'append' };
+
+export interface SaveAttachment {
+  filename: string;
+  // Base64, without a data: prefix
+  data: string;
+  content_type?: string;
+}
+
+export interface SaveToConfluenceRequest extends SaveOptions {
   space_key: string;
   page_title: string;
+  page_id?: string;
   content: string;
-  mode?: string;
+  // The version from the preview; a later edit makes the save fail with a ConflictError
+  expected_version?: number;
+  // Files the content refers to by name, e.g. rendered Mermaid diagrams
+  attachments?: SaveAttachment[];
 }
 
-export interface PreviewSaveToConfluenceRequest {
+export interface PreviewSaveToConfluenceRequest extends SaveOptions {
   space_key: string;
   page_title: string;
+  page_id?: string;
   content: string;
-  mode: string;
 }
 
 export interface PreviewSaveToConfluenceResponse {
   preview_content: string;
+  // The page before saving; missing on older backends
+  existing_content?: string;
+  // Unified diff, one storage-format block per line
   diff: string;
+  // Set when the heading to save under is missing or not on the page; the preview is then the page unchanged
+  section_error?: string | null;
+  // The page's version, to send back as expected_version
+  version?: number | null;
+}
+
+export interface PageVersionResponse {
+  page_id: string;
+  page_title: string;
+  // To send back as expected_version; null if Confluence didn't report one
+  version: number | null;
 }
 
 export interface SaveToConfluenceResponse {
   success: boolean;
   message?: string;
+  // The page written to, which is the new page for create_child
+  page_id?: string;
+  page_title?: string;
+  // Its version before the save (null for a new page) and after
+  version_before?: number | null;
+  version_after?: number | null;
+  mode?: string;
+  // Attachments that failed to upload after the page was saved
+  attachment_errors?: AttachmentError[];
+}
+
+export interface AttachmentError {
+  filename: string;
+  detail: string;
+}
+
+export interface RollbackPageRequest {
+  page_id: string;
+  // The version to restore
+  version: number;
+  // The version the save left; a later edit makes the rollback fail with a ConflictError
+  expected_version?: number;
 }
 
 export interface InsightSourcesResponse {
@@ -212,10 +411,132 @@ export interface SummaryResponse {
   summary: string;
 }
 
+// One step of an Agent Mode plan: run `tool` on `pages` with `instruction`.
+// Impact Analyzer and Test Support Tool take two pages; every other tool takes one.
+export interface PlannedStep {
+  tool: string;
+  pages: string[];
+  instruction: string;
+  rationale: string;
+  // 1-based number of an earlier step whose output this step takes as input
+  input_from?: number;
+}
+
+export interface AnalyzeGoalResponse {
+  tools: string[];
+  pages: string[];
+  reasoning: string;
+  // Missing on backends that predate structured plans
+  steps?: PlannedStep[];
+}
+
+export type PageContentType = 'text' | 'code' | 'image' | 'video' | 'table' | 'mixed';
+
+export interface PageAssetCounts {
+  code_blocks: number;
+  images: number;
+  videos: number;
+  tables: number;
+  // .xlsx, .xls and .csv attachments
+  spreadsheets: number;
+}
+
 export interface PageWithType {
   id: string;
   title: string;
-  content_type: string;
+  content_type: PageContentType;
+  // Page version the classification was made from; the backend reclassifies a page when it changes
+  version?: number;
+  counts?: PageAssetCounts;
+}
+
+export interface PageWithTypeListResponse {
+  pages: PageWithType[];
+  next_cursor: string | null;
+}
+
+export interface PageTreeNode {
+  id: string;
+  title: string;
+  // Null for a top-level page of the space
+  parent_id: string | null;
+}
+
+export interface RetryConfig {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestOptions {
+  // Aborting rejects the call with a CancelledError.
+  signal?: AbortSignal;
+}
+
+export interface RequestPolicy extends RequestOptions {
+  // Only idempotent calls should opt in to retries.
+  retry?: boolean;
+  timeoutMs?: number;
+}
+
+// VITE_API_RETRIES when it's a whole number of retries, else 3
+function configuredRetries(): number {
+  const raw = String(import.meta.env.VITE_API_RETRIES ?? '').trim();
+  const value = raw ? Number(raw) : 3;
+  return Number.isInteger(value) && value >= 0 ? value : 3;
+}
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  retries: configuredRetries(),
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// Per-endpoint timeouts, matched by path prefix. Long-running Gemini/AssemblyAI calls get more room.
+const ENDPOINT_TIMEOUTS: Array<[string, number]> = [
+  ['/spaces', 45_000],
+  ['/pages/', 45_000],
+  ['/images/', 60_000],
+  ['/search', 120_000],
+  ['/code-assistant', 120_000],
+  ['/diagram', 120_000],
+  ['/save-diagram-to-confluence', 90_000],
+  ['/impact-analyzer', 180_000],
+  ['/direct-code-impact-analyzer', 180_000],
+  ['/test-support', 240_000],
+  ['/video-summarizer', 600_000],
+  ['/push-to-jira-confluence-slack', 120_000],
+  ['/create-chart', 180_000],
+  ['/analyze-goal', 90_000],
+];
+
+function getEndpointTimeout(endpoint: string): number {
+  return ENDPOINT_TIMEOUTS.find(([prefix]) => endpoint.startsWith(prefix))?.[1] ?? DEFAULT_TIMEOUT_MS;
+}
+
+// Statuses meaning "this backend has no /search/stream", so we fall back to /search.
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// Parses one Server-Sent Events block ("event: x\ndata: {...}"). Comment-only blocks return null.
+function parseSseEvent(block: string): { event: string; data: string } | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+  return data.length ? { event, data: data.join('\n') } : null;
+}
+
+// Exponential backoff with full jitter.
+function getBackoffDelay(attempt: number, config: RetryConfig): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
 }
 
 class ApiService {
@@ -226,7 +547,13 @@ class ApiService {
     return undefined;
   }
 
-  private async makeRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  private retryConfig: RetryConfig = { ...DEFAULT_RETRY_CONFIG };
+
+  configureRetry(config: Partial<RetryConfig>) {
+    this.retryConfig = { ...this.retryConfig, ...config };
+  }
+
+  private buildHeaders(options?: RequestInit): Record<string, string> {
     const apiKey = this.getSelectedApiKey();
     const baseHeaders: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -236,188 +563,401 @@ class ApiService {
     if (apiKey) {
       headers['x-api-key'] = apiKey;
     }
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      headers,
-      ...options,
-    });
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'API request failed');
+    return headers;
+  }
+
+  private async makeRequest<T>(endpoint: string, options?: RequestInit, policy?: RequestPolicy): Promise<T> {
+    const retries = policy?.retry ? this.retryConfig.retries : 0;
+    let attempt = 0;
+    for (;;) {
+      try {
+        return await this.fetchOnce<T>(endpoint, options, policy?.timeoutMs ?? getEndpointTimeout(endpoint), policy?.signal);
+      } catch (err) {
+        if (attempt >= retries || !(err instanceof ApiError) || !err.retryable) {
+          throw err;
+        }
+        try {
+          await abortableSleep(getBackoffDelay(attempt, this.retryConfig), policy?.signal);
+        } catch {
+          throw new CancelledError(endpoint);
+        }
+        attempt++;
+      }
+    }
+  }
+
+  private async fetchOnce<T>(endpoint: string, options: RequestInit | undefined, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    // The active profile may come from api-profiles.json, so pick the backend only once it has loaded
+    await loadConfigProfiles();
+    if (signal?.aborted) {
+      throw new CancelledError(endpoint);
+    }
+    const headers = this.buildHeaders(options);
+    const timeoutController = new AbortController();
+    const timer = setTimeout(() => timeoutController.abort(), timeoutMs);
+    const linked = anySignal([timeoutController.signal, signal]);
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${getApiBaseUrl()}${endpoint}`, {
+          ...options,
+          headers,
+          signal: linked.signal,
+        });
+      } catch (err) {
+        if (signal?.aborted) {
+          throw new CancelledError(endpoint);
+        }
+        if (timeoutController.signal.aborted) {
+          throw new TimeoutError(endpoint, timeoutMs);
+        }
+        throw new NetworkError(endpoint, err instanceof Error ? err.message : undefined);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (!response.ok) {
+        throw await createApiError(response, endpoint);
+      }
+      try {
+        return await response.json();
+      } catch {
+        if (signal?.aborted) {
+          throw new CancelledError(endpoint);
+        }
+        throw new UpstreamError(endpoint, 'Backend returned a response that is not valid JSON', response.status, 'backend');
+      }
+    } finally {
+      linked.dispose();
     }
-    return response.json();
   }
 
-  async getSpaces(): Promise<{ spaces: Space[] }> {
-    return this.makeRequest<{ spaces: Space[] }>('/spaces');
+  async getServerInfo(options?: RequestOptions): Promise<ServerInfo> {
+    return this.makeRequest<ServerInfo>('/', undefined, { retry: true, ...options });
+  }
+
+  async getSpaces(page: ListPageOptions = {}, options?: RequestOptions): Promise<SpaceListResponse> {
+    return this.makeRequest<SpaceListResponse>(
+      withQuery('/spaces', { cursor: page.cursor, limit: page.limit }),
+      undefined,
+      { retry: true, ...options }
+    );
+  }
+
+  async getPages(spaceKey: string, page: PageListOptions = {}, options?: RequestOptions): Promise<PageListResponse> {
+    return this.makeRequest<PageListResponse>(
+      withQuery(`/pages/${spaceKey}`, { cursor: page.cursor, limit: page.limit, query: page.query }),
+      undefined,
+      { retry: true, ...options }
+    );
   }
 
-  async getPages(spaceKey: string): Promise<{ pages: string[] }> {
-    return this.makeRequest<{ pages: string[] }>(`/pages/${spaceKey}`);
+  // Every space, a batch at a time; stop iterating to stop fetching
+  async *iterateSpaces(options?: RequestOptions): AsyncGenerator<Space[]> {
+    let cursor: string | null | undefined;
+    do {
+      const result = await this.getSpaces({ cursor }, options);
+      yield result.spaces;
+      cursor = result.next_cursor;
+    } while (cursor);
   }
 
-  async search(request: SearchRequest): Promise<SearchResponse> {
+  // Every page of a space (or every match of `query`), a batch at a time
+  async *iteratePages(spaceKey: string, page: Omit<PageListOptions, 'cursor'> = {}, options?: RequestOptions): AsyncGenerator<PageSummary[]> {
+    let cursor: string | null | undefined;
+    do {
+      const result = await this.getPages(spaceKey, { ...page, cursor }, options);
+      yield result.pages;
+      cursor = result.next_cursor;
+    } while (cursor);
+  }
+
+  async search(request: SearchRequest, options?: RequestOptions): Promise<SearchResponse> {
     return this.makeRequest<SearchResponse>('/search', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async videoSummarizer(request: VideoRequest): Promise<VideoResponse> {
+  // Yields the /search answer as Gemini generates it. The endpoint timeout applies to
+  // the gap between chunks rather than the whole answer. Stopping early (break, or
+  // aborting the signal) closes the connection. Backends without /search/stream get
+  // the regular /search call instead, yielded as a single token.
+  async *streamSearch(request: SearchRequest, options?: RequestOptions): AsyncGenerator<SearchStreamEvent> {
+    const endpoint = '/search/stream';
+    const signal = options?.signal;
+    await loadConfigProfiles();
+    if (signal?.aborted) {
+      throw new CancelledError(endpoint);
+    }
+    const idleTimeoutMs = getEndpointTimeout(endpoint);
+    const timeoutController = new AbortController();
+    let timer = setTimeout(() => timeoutController.abort(), idleTimeoutMs);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => timeoutController.abort(), idleTimeoutMs);
+    };
+    const toFetchError = (err: unknown): ApiError => {
+      if (signal?.aborted) return new CancelledError(endpoint);
+      if (timeoutController.signal.aborted) return new TimeoutError(endpoint, idleTimeoutMs);
+      return new NetworkError(endpoint, err instanceof Error ? err.message : undefined);
+    };
+
+    const linked = anySignal([timeoutController.signal, signal]);
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${getApiBaseUrl()}${endpoint}`, {
+          method: 'POST',
+          headers: { ...this.buildHeaders(), Accept: 'text/event-stream' },
+          body: JSON.stringify(request),
+          signal: linked.signal,
+        });
+      } catch (err) {
+        clearTimeout(timer);
+        throw toFetchError(err);
+      }
+
+      const isEventStream = (response.headers.get('Content-Type') || '').includes('text/event-stream');
+      if (STREAM_UNSUPPORTED_STATUSES.includes(response.status) || (response.ok && (!isEventStream || !response.body))) {
+        clearTimeout(timer);
+        // Nothing reads this response, so close its connection rather than leave it to garbage collection
+        response.body?.cancel().catch(() => undefined);
+        const result = await this.search(request, options);
+        yield { type: 'meta', pagesAnalyzed: result.pages_analyzed, pageTitles: result.page_titles };
+        yield { type: 'token', text: result.response };
+        yield { type: 'done', source: result.source || '', streamed: false };
+        return;
+      }
+      if (!response.ok || !response.body) {
+        clearTimeout(timer);
+        throw await createApiError(response, endpoint);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        for (;;) {
+          let chunk: ReadableStreamReadResult<Uint8Array>;
+          try {
+            chunk = await reader.read();
+          } catch (err) {
+            throw toFetchError(err);
+          }
+          if (chunk.done) break;
+          resetTimer();
+          buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, '\n');
+
+          let boundary: number;
+          while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const message = parseSseEvent(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            if (!message) continue;
+            let data;
+            try {
+              data = JSON.parse(message.data);
+            } catch {
+              throw new UpstreamError(endpoint, 'Backend streamed an event that is not valid JSON', response.status, 'backend');
+            }
+            if (message.event === 'meta') {
+              yield { type: 'meta', pagesAnalyzed: data.pages_analyzed, pageTitles: data.page_titles || [] };
+            } else if (message.event === 'done') {
+              yield { type: 'done', source: data.source || '', streamed: true };
+              return;
+            } else if (message.event === 'error') {
+              throw classifyApiError(endpoint, data.detail || 'Streaming failed');
+            } else if (data.token) {
+              yield { type: 'token', text: data.token };
+            }
+          }
+        }
+        throw new NetworkError(endpoint, 'The answer stream closed before it finished');
+      } finally {
+        clearTimeout(timer);
+        reader.cancel().catch(() => undefined);
+      }
+    } finally {
+      linked.dispose();
+    }
+  }
+
+  async videoSummarizer(request: VideoRequest, options?: RequestOptions): Promise<VideoResponse> {
     return this.makeRequest<VideoResponse>('/video-summarizer', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async codeAssistant(request: CodeRequest): Promise<CodeResponse> {
+  async codeAssistant(request: CodeRequest, options?: RequestOptions): Promise<CodeResponse> {
     return this.makeRequest<CodeResponse>('/code-assistant', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async impactAnalyzer(request: ImpactRequest): Promise<ImpactResponse> {
+  async generateDiagram(request: DiagramRequest, options?: RequestOptions): Promise<DiagramResponse> {
+    return this.makeRequest<DiagramResponse>('/diagram', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, options);
+  }
+
+  async impactAnalyzer(request: ImpactRequest, options?: RequestOptions): Promise<ImpactResponse> {
     return this.makeRequest<ImpactResponse>('/impact-analyzer', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async directCodeImpactAnalyzer(request: DirectCodeImpactRequest): Promise<ImpactResponse> {
+  async directCodeImpactAnalyzer(request: DirectCodeImpactRequest, options?: RequestOptions): Promise<ImpactResponse> {
     return this.makeRequest<ImpactResponse>('/direct-code-impact-analyzer', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async pushToJiraConfluenceSlack(request: PushToJiraConfluenceSlackRequest): Promise<PushToJiraConfluenceSlackResponse> {
+  async pushToJiraConfluenceSlack(request: PushToJiraConfluenceSlackRequest, options?: RequestOptions): Promise<PushToJiraConfluenceSlackResponse> {
     return this.makeRequest<PushToJiraConfluenceSlackResponse>('/push-to-jira-confluence-slack', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async testSupport(request: TestRequest): Promise<TestResponse> {
+  async testSupport(request: TestRequest, options?: RequestOptions): Promise<TestResponse> {
     return this.makeRequest<TestResponse>('/test-support', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async getImages(spaceKey: string, pageTitle: string): Promise<InsightSourcesResponse> {
-    return this.makeRequest<InsightSourcesResponse>(`/images/${spaceKey}/${encodeURIComponent(pageTitle)}`);
+  async getImages(spaceKey: string, pageTitle: string, pageId?: string, options?: RequestOptions): Promise<InsightSourcesResponse> {
+    return this.makeRequest<InsightSourcesResponse>(
+      withQuery(`/images/${spaceKey}/${encodeURIComponent(pageTitle)}`, { page_id: pageId }),
+      undefined,
+      { retry: true, ...options }
+    );
   }
 
-  async imageSummary(request: ImageRequest): Promise<ImageResponse> {
+  async imageSummary(request: ImageRequest, options?: RequestOptions): Promise<ImageResponse> {
     return this.makeRequest<ImageResponse>('/image-summary', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async imageQA(request: ImageSummaryRequest): Promise<ImageQAResponse> {
+  async imageQA(request: ImageSummaryRequest, options?: RequestOptions): Promise<ImageQAResponse> {
     return this.makeRequest<ImageQAResponse>('/image-qa', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async createChart(request: ChartRequest): Promise<ChartResponse> {
+  async createChart(request: ChartRequest, options?: RequestOptions): Promise<ChartResponse> {
     return this.makeRequest<ChartResponse>('/create-chart', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async exportContent(request: ExportRequest): Promise<Blob> {
-    const response = await fetch(`${API_BASE_URL}/export`, {
+  async exportContent(request: ExportRequest, options?: RequestOptions): Promise<Blob> {
+    const result = await this.makeRequest<ExportResponse>('/export', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Export failed');
-    }
+    }, options);
+    if (!BINARY_EXPORT_FORMATS.includes(request.format)) return new Blob([result.file], { type: result.mime });
+    const binary = atob(result.file);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: result.mime });
+  }
 
-    const result = await response.json();
-    
-    // Handle binary files (PDF, DOCX) that are base64 encoded
-    if (request.format === 'pdf' || request.format === 'docx') {
-      const binaryString = atob(result.file);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      return new Blob([bytes], { type: result.mime });
-    } else {
-      // Handle text files
-      const encoder = new TextEncoder();
-      const bytes = encoder.encode(result.file);
-      return new Blob([bytes], { type: result.mime });
-    }
+  async getPageVersion(spaceKey: string, pageTitle: string, pageId?: string, options?: RequestOptions): Promise<PageVersionResponse> {
+    return this.makeRequest<PageVersionResponse>(
+      withQuery(`/page-version/${spaceKey}/${encodeURIComponent(pageTitle)}`, { page_id: pageId }),
+      undefined,
+      { retry: true, ...options }
+    );
   }
 
-  async saveToConfluence(request: SaveToConfluenceRequest): Promise<SaveToConfluenceResponse> {
+  async saveToConfluence(request: SaveToConfluenceRequest, options?: RequestOptions): Promise<SaveToConfluenceResponse> {
     return this.makeRequest<SaveToConfluenceResponse>('/save-to-confluence', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async previewSaveToConfluence(request: PreviewSaveToConfluenceRequest): Promise<PreviewSaveToConfluenceResponse> {
+  async saveDiagramToConfluence(request: SaveDiagramRequest, options?: RequestOptions): Promise<SaveToConfluenceResponse> {
+    return this.makeRequest<SaveToConfluenceResponse>('/save-diagram-to-confluence', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, options);
+  }
+
+  async rollbackPage(request: RollbackPageRequest, options?: RequestOptions): Promise<SaveToConfluenceResponse> {
+    return this.makeRequest<SaveToConfluenceResponse>('/rollback-page', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, options);
+  }
+
+  async previewSaveToConfluence(request: PreviewSaveToConfluenceRequest, options?: RequestOptions): Promise<PreviewSaveToConfluenceResponse> {
     return this.makeRequest<PreviewSaveToConfluenceResponse>('/preview-save-to-confluence', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async tableSummary(request: TableSummaryRequest): Promise<SummaryResponse> {
+  async tableSummary(request: TableSummaryRequest, options?: RequestOptions): Promise<SummaryResponse> {
     return this.makeRequest<SummaryResponse>('/table-summary', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
-  async excelSummary(request: ExcelSummaryRequest): Promise<SummaryResponse> {
+  async excelSummary(request: ExcelSummaryRequest, options?: RequestOptions): Promise<SummaryResponse> {
     return this.makeRequest<SummaryResponse>('/excel-summary', {
       method: 'POST',
       body: JSON.stringify(request),
-    });
+    }, options);
   }
 
-  async sendToGoogleChat(summary: string): Promise<{ status: string; message: string }> {
+  async sendToGoogleChat(summary: string, options?: RequestOptions): Promise<{ status: string; message: string }> {
     return this.makeRequest<{ status: string; message: string }>('/send-to-google-chat', {
       method: 'POST',
       body: JSON.stringify({ summary }),
-    });
+    }, options);
+  }
+
+  async analyzeGoal(goal: string, availablePages: string[], pageTypes?: Record<string, string>, options?: RequestOptions): Promise<AnalyzeGoalResponse> {
+    return this.makeRequest<AnalyzeGoalResponse>('/analyze-goal', {
+      method: 'POST',
+      body: JSON.stringify({ goal, available_pages: availablePages, page_types: pageTypes }),
+    }, options);
+  }
+
+  async getPagesWithType(spaceKey: string, page: PageTypeListOptions = {}, options?: RequestOptions): Promise<PageWithTypeListResponse> {
+    return this.makeRequest<PageWithTypeListResponse>(
+      withQuery(`/pages-with-type/${spaceKey}`, { cursor: page.cursor, limit: page.limit, page_ids: page.pageIds?.join(',') }),
+      undefined,
+      { retry: true, ...options }
+    );
+  }
+
+  // Parent links of the given pages, or of every page of the space without `pageIds`
+  async getPageTree(spaceKey: string, pageIds?: string[], options?: RequestOptions): Promise<{ pages: PageTreeNode[] }> {
+    return this.makeRequest<{ pages: PageTreeNode[] }>(
+      withQuery(`/page-tree/${spaceKey}`, { page_ids: pageIds?.join(',') }),
+      undefined,
+      { retry: true, ...options }
+    );
   }
 }
 
 export const apiService = new ApiService(); 
 
-export async function analyzeGoal(goal: string, availablePages: string[]) {
-  const res = await fetch(`${API_BASE_URL}/analyze-goal`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': localStorage.getItem('selectedApiKeyId') || '',
-    },
-    body: JSON.stringify({ goal, available_pages: availablePages }),
-  });
-  if (!res.ok) throw new Error('Failed to analyze goal');
-  return res.json();
-} 
+export async function analyzeGoal(goal: string, availablePages: string[], pageTypes?: Record<string, string>, options?: RequestOptions) {
+  return apiService.analyzeGoal(goal, availablePages, pageTypes, options);
+}
 
-export async function getPagesWithType(spaceKey: string): Promise<{ pages: PageWithType[] }> {
-  const res = await fetch(`${API_BASE_URL}/pages-with-type/${spaceKey}`, {
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': localStorage.getItem('selectedApiKeyId') || '',
-    },
-  });
-  if (!res.ok) throw new Error('Failed to fetch pages with type');
-  return res.json();
+export async function getPagesWithType(spaceKey: string, page: PageTypeListOptions = {}, options?: RequestOptions): Promise<PageWithTypeListResponse> {
+  return apiService.getPagesWithType(spaceKey, page, options);
 }
@@ -0,0 +1,278 @@
+// Structured errors thrown by ApiService.
+//
+// Every failed call surfaces as one of these instead of a bare Error, so the
+// tools can render the same banner and decide whether a retry makes sense.
+
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'upstream' | 'quota' | 'conflict' | 'cancelled';
+
+export type UpstreamService = 'gemini' | 'confluence' | 'assemblyai' | 'backend';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly endpoint: string;
+  readonly status?: number;
+  readonly detail: string;
+  // What the user was trying to do, e.g. "Failed to load spaces". Set by the tool.
+  action?: string;
+
+  constructor(kind: ApiErrorKind, endpoint: string, detail: string, status?: number) {
+    super(detail);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.detail = detail;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, detail = 'Could not reach the backend') {
+    super('network', endpoint, detail);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super('timeout', endpoint, `No response after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(endpoint: string, detail: string, status: number) {
+    super('validation', endpoint, detail, status);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UpstreamError extends ApiError {
+  readonly service: UpstreamService;
+
+  constructor(endpoint: string, detail: string, status: number, service: UpstreamService) {
+    super('upstream', endpoint, detail, status);
+    this.name = 'UpstreamError';
+    this.service = service;
+  }
+
+  // 502/503/504 are what Render returns while the backend is cold-starting.
+  get retryable(): boolean {
+    return this.status === 502 || this.status === 503 || this.status === 504;
+  }
+}
+
+export class QuotaError extends ApiError {
+  readonly service: UpstreamService;
+  readonly retryAfterMs?: number;
+
+  constructor(endpoint: string, detail: string, status: number, service: UpstreamService, retryAfterMs?: number) {
+    super('quota', endpoint, detail, status);
+    this.name = 'QuotaError';
+    this.service = service;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// What the backend reports when a page changed after the version a save expected
+export interface PageConflict {
+  pageId: string;
+  pageTitle: string;
+  expectedVersion: number;
+  currentVersion: number;
+  // Who made the latest version, and when (ISO date)
+  modifiedBy?: string;
+  modifiedAt?: string;
+}
+
+// A save or rollback refused because someone else edited the page in between (HTTP 409).
+export class ConflictError extends ApiError {
+  readonly conflict: PageConflict;
+
+  constructor(endpoint: string, detail: string, conflict: PageConflict) {
+    super('conflict', endpoint, detail, 409);
+    this.name = 'ConflictError';
+    this.conflict = conflict;
+  }
+}
+
+// Thrown when the caller aborts the request (Cancel button, tool unmounted).
+export class CancelledError extends ApiError {
+  constructor(endpoint: string) {
+    super('cancelled', endpoint, 'Request was cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+const QUOTA_PATTERN = /quota|rate limit|resource.?exhausted|too many requests|\b429\b/i;
+
+function detectService(detail: string): UpstreamService {
+  if (/gemini|generativeai|google\.api_core|generate_content|genai/i.test(detail)) return 'gemini';
+  if (/assembly ?ai|transcri/i.test(detail)) return 'assemblyai';
+  if (/confluence|atlassian|page not found/i.test(detail)) return 'confluence';
+  return 'backend';
+}
+
+// Pulls a readable message out of a FastAPI JSON body, or a Render HTML error page.
+function extractDetail(body: string, fallback: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) return fallback;
+  try {
+    const parsed = JSON.parse(trimmed);
+    const detail = parsed.detail ?? parsed.message ?? parsed.error;
+    if (typeof detail === 'string') return detail;
+    if (Array.isArray(detail)) {
+      // Pydantic 422: [{ loc: [...], msg: '...' }]
+      return detail.map((d: { loc?: unknown[]; msg?: string }) => `${(d.loc || []).slice(1).join('.')}: ${d.msg}`).join('; ');
+    }
+    if (detail) return JSON.stringify(detail);
+    return fallback;
+  } catch {
+    const title = trimmed.match(/<title>([^<]*)<\/title>/i)?.[1];
+    const text = (title || trimmed.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text || fallback;
+  }
+}
+
+// A version conflict's detail is an object rather than a message
+function parseConflict(body: string, endpoint: string): ConflictError | null {
+  try {
+    const detail = JSON.parse(body).detail;
+    if (!detail || typeof detail !== 'object' || typeof detail.current_version !== 'number') return null;
+    return new ConflictError(endpoint, detail.message || 'The page was edited by someone else', {
+      pageId: String(detail.page_id ?? ''),
+      pageTitle: detail.page_title || '',
+      expectedVersion: detail.expected_version,
+      currentVersion: detail.current_version,
+      modifiedBy: detail.modified_by || undefined,
+      modifiedAt: detail.modified_at || undefined,
+    });
+  } catch {
+    return null;
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Builds the right ApiError subclass for a non-OK response. Never throws.
+export async function createApiError(response: Response, endpoint: string): Promise<ApiError> {
+  let body = '';
+  try {
+    body = await response.text();
+  } catch {
+    // Body already consumed or stream failed; fall back to the status line
+  }
+  const status = response.status;
+  const conflict = status === 409 ? parseConflict(body, endpoint) : null;
+  if (conflict) return conflict;
+  const detail = extractDetail(body, response.statusText || `HTTP ${status}`);
+  return classifyApiError(endpoint, detail, status, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+// Same classification for a failure reported inside a response body, e.g. an SSE `error` event.
+export function classifyApiError(endpoint: string, detail: string, status = 500, retryAfterMs?: number): ApiError {
+  const service = detectService(detail);
+  if (status === 429 || QUOTA_PATTERN.test(detail)) {
+    return new QuotaError(endpoint, detail, status, service, retryAfterMs);
+  }
+  if (status >= 400 && status < 500) {
+    return new ValidationError(endpoint, detail, status);
+  }
+  return new UpstreamError(endpoint, detail, status, service);
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+export function isConflictError(err: unknown): err is ConflictError {
+  return err instanceof ConflictError;
+}
+
+export function isCancelledError(err: unknown): err is CancelledError {
+  return err instanceof CancelledError;
+}
+
+// What tools keep in their `error` state: a client-side message or an ApiError.
+export type ToolError = string | ApiError;
+
+// Tags an ApiError with the action that failed; any other Error becomes the action followed
+// by its message, e.g. why the browser couldn't store something, and anything else just the action.
+// A cancellation is not an error, so it clears the banner instead.
+export function toToolError(err: unknown, action: string): ToolError {
+  if (isCancelledError(err)) {
+    return '';
+  }
+  if (isApiError(err)) {
+    err.action = action;
+    return err;
+  }
+  if (err instanceof Error && err.message) {
+    return `${action}: ${err.message}`;
+  }
+  return action;
+}
+
+const serviceLabels: Record<UpstreamService, string> = {
+  gemini: 'Gemini',
+  confluence: 'Confluence',
+  assemblyai: 'AssemblyAI',
+  backend: 'Backend',
+};
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+  hint?: string;
+}
+
+export function describeError(error: ToolError): ErrorDescription {
+  if (typeof error === 'string') {
+    return { title: error, message: '' };
+  }
+  const title = error.action || 'Request failed';
+  switch (error.kind) {
+    case 'network':
+      return { title, message: error.detail, hint: 'Check that the backend is running and reachable from this browser.' };
+    case 'timeout':
+      return { title, message: error.detail, hint: 'The backend may be waking up from a cold start. Try again in a moment.' };
+    case 'validation':
+      return { title, message: error.detail, hint: `The request was rejected (HTTP ${error.status}). Check your selections.` };
+    case 'quota':
+      return {
+        title,
+        message: error.detail,
+        hint: `${serviceLabels[(error as QuotaError).service]} quota reached. Switch API key from the launcher or wait before retrying.`,
+      };
+    case 'upstream':
+      return {
+        title,
+        message: error.detail,
+        hint: `${serviceLabels[(error as UpstreamError).service]} returned an error (HTTP ${error.status}).`,
+      };
+    case 'conflict':
+      return { title, message: error.detail, hint: 'Preview again to see the latest version of the page before saving.' };
+    case 'cancelled':
+      return { title, message: error.detail };
+  }
+}
@@ -0,0 +1,69 @@
+// Actions offered by the command palette and the keyboard shortcuts.
+//
+// The app registers navigation (switching tools and modes) and each tool
+// registers its own actions while it's open. Tools use the shared ids below
+// for their common actions, so one shortcut submits whichever tool is open.
+// When two registrations use the same id the later one wins, so a tool's
+// action replaces the app's while the tool is open.
+
+export interface Command {
+  id: string;
+  title: string;
+  // Heading the palette lists the command under
+  group: string;
+  // Extra words the palette matches, besides the title
+  keywords?: string;
+  // Listed but can't run right now, e.g. export before there's a result
+  disabled?: boolean;
+  run: () => void;
+}
+
+// Ids of the actions every tool may offer, and that have keyboard shortcuts
+export const TOOL_COMMANDS = {
+  submit: 'tool.submit',
+  rerun: 'tool.rerun',
+  nextTab: 'tool.nextTab',
+  previousTab: 'tool.previousTab',
+  copyAnswer: 'tool.copyAnswer',
+  export: 'tool.export',
+  save: 'tool.save',
+  pin: 'tool.pin',
+  history: 'tool.history',
+} as const;
+
+let nextRegistration = 0;
+const registrations = new Map<number, Command[]>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Registers commands until the returned function is called
+export function registerCommands(commands: Command[]): () => void {
+  const registration = nextRegistration++;
+  registrations.set(registration, commands);
+  notify();
+  return () => {
+    registrations.delete(registration);
+    notify();
+  };
+}
+
+export function getCommands(): Command[] {
+  const byId = new Map<string, Command>();
+  // Maps keep insertion order, so later registrations overwrite earlier ones
+  registrations.forEach(commands => commands.forEach(command => byId.set(command.id, command)));
+  return [...byId.values()];
+}
+
+export function findCommand(id: string): Command | undefined {
+  return getCommands().find(command => command.id === id);
+}
+
+export function subscribeToCommands(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
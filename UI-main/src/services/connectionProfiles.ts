@@ -0,0 +1,219 @@
+// Connection profiles: which backend the UI talks to.
+//
+// Profiles come from four places, in this order of precedence for duplicate ids:
+//   1. custom profiles the user added in the settings panel (localStorage)
+//   2. /api-profiles.json served next to index.html
+//   3. Vite env: VITE_API_BASE_URL and VITE_API_PROFILE_<NAME>=<url>
+//   4. the built-in production backend
+// The active profile id is stored per browser under `selectedApiProfileId`.
+
+export type ConnectionProfileSource = 'builtin' | 'env' | 'config' | 'custom';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  source: ConnectionProfileSource;
+  description?: string;
+}
+
+export interface HealthCheckResult {
+  endpoint: string;
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  message: string;
+}
+
+interface ProfilesConfigFile {
+  default?: string;
+  profiles?: Array<{ id: string; name?: string; baseUrl: string; description?: string }>;
+}
+
+const ACTIVE_PROFILE_KEY = 'selectedApiProfileId';
+const CUSTOM_PROFILES_KEY = 'customApiProfiles';
+const CONFIG_FILE_NAME = 'api-profiles.json';
+
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: 'production',
+  name: 'Production (Render)',
+  baseUrl: 'https://backend-5v02.onrender.com',
+  source: 'builtin',
+};
+
+let configProfiles: ConnectionProfile[] = [];
+let configDefaultId: string | undefined;
+let configLoaded: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function getEnvProfiles(): ConnectionProfile[] {
+  const env = import.meta.env as Record<string, string | boolean | undefined>;
+  const profiles: ConnectionProfile[] = [];
+  if (typeof env.VITE_API_BASE_URL === 'string' && env.VITE_API_BASE_URL) {
+    profiles.push({
+      id: 'env',
+      name: 'Environment (VITE_API_BASE_URL)',
+      baseUrl: normalizeBaseUrl(env.VITE_API_BASE_URL),
+      source: 'env',
+    });
+  }
+  Object.keys(env)
+    .filter(key => key.startsWith('VITE_API_PROFILE_'))
+    .sort()
+    .forEach(key => {
+      const value = env[key];
+      if (typeof value !== 'string' || !value) return;
+      const name = key.substring('VITE_API_PROFILE_'.length);
+      profiles.push({
+        id: slugify(name),
+        name: name.charAt(0) + name.slice(1).toLowerCase().replace(/_/g, ' '),
+        baseUrl: normalizeBaseUrl(value),
+        source: 'env',
+      });
+    });
+  return profiles;
+}
+
+function getCustomProfiles(): ConnectionProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(p => p && p.id && p.baseUrl).map(p => ({ ...p, source: 'custom' as const }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomProfiles(profiles: ConnectionProfile[]) {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getProfiles(): ConnectionProfile[] {
+  const byId = new Map<string, ConnectionProfile>();
+  [DEFAULT_PROFILE, ...getEnvProfiles(), ...configProfiles, ...getCustomProfiles()].forEach(profile => {
+    byId.set(profile.id, profile);
+  });
+  return Array.from(byId.values());
+}
+
+export function getActiveProfileId(): string {
+  const stored = typeof window !== 'undefined' ? localStorage.getItem(ACTIVE_PROFILE_KEY) : null;
+  const ids = getProfiles().map(p => p.id);
+  if (stored && ids.includes(stored)) return stored;
+  if (configDefaultId && ids.includes(configDefaultId)) return configDefaultId;
+  if (ids.includes('env')) return 'env';
+  return DEFAULT_PROFILE.id;
+}
+
+export function getActiveProfile(): ConnectionProfile {
+  const activeId = getActiveProfileId();
+  return getProfiles().find(p => p.id === activeId) || DEFAULT_PROFILE;
+}
+
+export function getApiBaseUrl(): string {
+  return getActiveProfile().baseUrl;
+}
+
+export function setActiveProfile(profileId: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  notify();
+}
+
+export function addCustomProfile(name: string, baseUrl: string): ConnectionProfile {
+  const custom = getCustomProfiles();
+  let id = `custom-${slugify(name) || 'backend'}`;
+  let suffix = 2;
+  while (getProfiles().some(p => p.id === id)) {
+    id = `custom-${slugify(name) || 'backend'}-${suffix++}`;
+  }
+  const profile: ConnectionProfile = { id, name: name.trim() || baseUrl, baseUrl: normalizeBaseUrl(baseUrl), source: 'custom' };
+  saveCustomProfiles([...custom, profile]);
+  notify();
+  return profile;
+}
+
+export function removeCustomProfile(profileId: string) {
+  saveCustomProfiles(getCustomProfiles().filter(p => p.id !== profileId));
+  if (localStorage.getItem(ACTIVE_PROFILE_KEY) === profileId) {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+  notify();
+}
+
+// Fetches /api-profiles.json once; a missing or malformed file is not an error.
+// Requests wait for it, so a profile defined there is never skipped on first load.
+export function loadConfigProfiles(): Promise<void> {
+  if (!configLoaded) {
+    configLoaded = (async () => {
+      try {
+        const res = await fetch(`${import.meta.env.BASE_URL}${CONFIG_FILE_NAME}`, { cache: 'no-store' });
+        if (!res.ok) return;
+        const data: ProfilesConfigFile = await res.json();
+        configProfiles = (data.profiles || [])
+          .filter(p => p && p.id && p.baseUrl)
+          .map(p => ({
+            id: p.id,
+            name: p.name || p.id,
+            baseUrl: normalizeBaseUrl(p.baseUrl),
+            description: p.description,
+            source: 'config' as const,
+          }));
+        configDefaultId = data.default;
+        notify();
+      } catch {
+        // No config file served (e.g. dev server without public/api-profiles.json)
+      }
+    })();
+  }
+  return configLoaded;
+}
+
+export function subscribeToProfiles(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function checkEndpoint(baseUrl: string, endpoint: string): Promise<HealthCheckResult> {
+  const started = performance.now();
+  try {
+    const res = await fetch(`${normalizeBaseUrl(baseUrl)}${endpoint}`);
+    const latencyMs = Math.round(performance.now() - started);
+    let message = res.statusText || `HTTP ${res.status}`;
+    try {
+      const body = await res.json();
+      message = body.message || body.status || message;
+    } catch {
+      // Non-JSON body, keep the status text
+    }
+    return { endpoint, ok: res.ok, status: res.status, latencyMs, message };
+  } catch (err) {
+    return {
+      endpoint,
+      ok: false,
+      latencyMs: Math.round(performance.now() - started),
+      message: err instanceof Error ? err.message : 'Network error',
+    };
+  }
+}
+
+// Calls GET / and GET /test on the given backend.
+export async function checkBackendHealth(baseUrl: string): Promise<HealthCheckResult[]> {
+  return Promise.all([checkEndpoint(baseUrl, '/'), checkEndpoint(baseUrl, '/test')]);
+}
@@ -0,0 +1,293 @@
+// Persistent history for Agent Mode and the tools, kept in IndexedDB.
+//
+// Every tool writes to the same object store; `tool` says whose entry it is.
+// Entries survive reloads (the API key swap in CircularLauncher reloads the
+// page) and can be searched, filtered, pinned, deleted and moved between
+// browsers as JSON. If IndexedDB is unavailable (some private windows) the
+// store falls back to memory for the session.
+
+export type HistoryTool = 'agent' | 'search' | 'impact' | 'test' | 'video';
+
+export interface HistoryRecord<T = unknown> {
+  id: string;
+  tool: HistoryTool;
+  // Goal, query or question, shown as the entry's heading
+  title: string;
+  spaceKey: string;
+  pageTitles: string[];
+  createdAt: number;
+  pinned: boolean;
+  // Lowercased title plus outputs, matched by full-text search
+  searchText: string;
+  payload: T;
+}
+
+export interface NewHistoryEntry<T> {
+  tool: HistoryTool;
+  title: string;
+  spaceKey: string;
+  pageTitles: string[];
+  payload: T;
+  // Outputs to make searchable alongside the title
+  text?: string;
+}
+
+export interface HistoryFilter {
+  text?: string;
+  spaceKey?: string;
+  // Inclusive calendar dates, as produced by <input type="date"> (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  pinnedOnly?: boolean;
+}
+
+interface HistoryExportFile {
+  version: number;
+  exportedAt: string;
+  entries: HistoryRecord[];
+}
+
+const DB_NAME = 'confluenceAiHistory';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const EXPORT_VERSION = 1;
+const TOOLS: HistoryTool[] = ['agent', 'search', 'impact', 'test', 'video'];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, HistoryRecord>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('tool', 'tool');
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('History is not persisted: could not open IndexedDB', request.error);
+          resolve(null);
+        };
+      } catch (err) {
+        console.warn('History is not persisted: IndexedDB is unavailable', err);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function readAll(tool?: HistoryTool): Promise<HistoryRecord[]> {
+  const db = await openDatabase();
+  if (!db) {
+    return [...memoryStore.values()].filter(entry => !tool || entry.tool === tool);
+  }
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const request = tool ? store.index('tool').getAll(tool) : store.getAll();
+  return requestToPromise(request as IDBRequest<HistoryRecord[]>);
+}
+
+async function writeAll(entries: HistoryRecord[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    entries.forEach(entry => memoryStore.set(entry.id, entry));
+    return;
+  }
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+}
+
+function buildSearchText(title: string, text?: string): string {
+  return `${title}\n${text || ''}`.toLowerCase();
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function endOfDay(date: string): number {
+  return new Date(`${date}T23:59:59.999`).getTime();
+}
+
+function matchesFilter(entry: HistoryRecord, filter: HistoryFilter): boolean {
+  if (filter.pinnedOnly && !entry.pinned) return false;
+  if (filter.spaceKey && entry.spaceKey !== filter.spaceKey) return false;
+  if (filter.from && entry.createdAt < startOfDay(filter.from)) return false;
+  if (filter.to && entry.createdAt > endOfDay(filter.to)) return false;
+  // Every word of the query has to appear somewhere in the entry
+  const terms = (filter.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every(term => entry.searchText.includes(term));
+}
+
+// Pinned entries first, then newest first
+function compareEntries(a: HistoryRecord, b: HistoryRecord): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.createdAt - a.createdAt;
+}
+
+export async function queryHistory<T = unknown>(tool: HistoryTool, filter: HistoryFilter = {}): Promise<HistoryRecord<T>[]> {
+  const entries = await readAll(tool);
+  return entries.filter(entry => matchesFilter(entry, filter)).sort(compareEntries) as HistoryRecord<T>[];
+}
+
+export async function getHistoryEntry<T = unknown>(id: string): Promise<HistoryRecord<T> | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return (memoryStore.get(id) as HistoryRecord<T> | undefined) || null;
+  }
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const entry = await requestToPromise(store.get(id) as IDBRequest<HistoryRecord<T> | undefined>);
+  return entry || null;
+}
+
+export async function addHistoryEntry<T>(input: NewHistoryEntry<T>): Promise<HistoryRecord<T>> {
+  const createdAt = Date.now();
+  const entry: HistoryRecord<T> = {
+    id: `${input.tool}-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    tool: input.tool,
+    title: input.title,
+    spaceKey: input.spaceKey,
+    pageTitles: [...input.pageTitles],
+    createdAt,
+    pinned: false,
+    searchText: buildSearchText(input.title, input.text),
+    payload: input.payload,
+  };
+  await writeAll([entry]);
+  notify();
+  return entry;
+}
+
+export async function setHistoryPinned(id: string, pinned: boolean): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    const entry = memoryStore.get(id);
+    if (entry) memoryStore.set(id, { ...entry, pinned });
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const entry = await requestToPromise(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+    if (entry) store.put({ ...entry, pinned });
+    await transactionDone(tx);
+  }
+  notify();
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStore.delete(id);
+  } else {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    await transactionDone(tx);
+  }
+  notify();
+}
+
+export function serializeHistory(entries: HistoryRecord[]): string {
+  const file: HistoryExportFile = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOutputTab(value: unknown): boolean {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.label === 'string'
+    && typeof value.content === 'string'
+    && (value.results === undefined || Array.isArray(value.results));
+}
+
+// The payload each tool writes, checked on import so that restoring an entry
+// from a hand-edited or foreign file can't break the tool
+const PAYLOAD_CHECKS: Record<HistoryTool, (payload: Record<string, unknown>) => boolean> = {
+  agent: payload => Array.isArray(payload.outputTabs) && payload.outputTabs.every(isOutputTab),
+  search: payload => typeof payload.response === 'string' && typeof payload.responseSource === 'string',
+  impact: payload => typeof payload.answer === 'string',
+  test: payload => typeof payload.answer === 'string',
+  video: payload => typeof payload.answer === 'string',
+};
+
+function isHistoryRecord(value: unknown): value is HistoryRecord {
+  const entry = value as HistoryRecord;
+  return !!entry
+    && typeof entry.id === 'string'
+    && TOOLS.includes(entry.tool)
+    && typeof entry.title === 'string'
+    && typeof entry.createdAt === 'number'
+    && isObject(entry.payload)
+    && PAYLOAD_CHECKS[entry.tool](entry.payload);
+}
+
+// Imports a file written by serializeHistory. Entries with an existing id are
+// replaced, so importing the same file twice does not duplicate anything.
+// Entries that aren't well formed are skipped. Returns how many were imported.
+export async function importHistory(json: string): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const rawEntries = Array.isArray(parsed) ? parsed : (parsed as HistoryExportFile)?.entries;
+  if (!Array.isArray(rawEntries)) {
+    throw new Error('The file does not contain history entries');
+  }
+  const entries = rawEntries.filter(isHistoryRecord).map(entry => ({
+    ...entry,
+    spaceKey: entry.spaceKey || '',
+    pageTitles: Array.isArray(entry.pageTitles) ? entry.pageTitles : [],
+    pinned: !!entry.pinned,
+    searchText: typeof entry.searchText === 'string' ? entry.searchText : buildSearchText(entry.title),
+  }));
+  if (entries.length === 0) {
+    throw new Error('The file does not contain history entries');
+  }
+  await writeAll(entries);
+  notify();
+  return entries.length;
+}
+
+export function subscribeToHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,129 @@
+// Keyboard shortcuts for the command palette and the common tool actions.
+//
+// A shortcut is written as modifiers and a key joined by `+`, e.g.
+// `Mod+Shift+K`, where `Mod` is Cmd on a Mac and Ctrl elsewhere. Changes to
+// the defaults are stored per browser under `keyboardShortcuts`; an empty
+// string turns a shortcut off.
+
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { TOOL_COMMANDS } from './commandRegistry';
+
+export interface ShortcutAction {
+  // The palette's own id, or the id of the command the shortcut runs
+  id: string;
+  label: string;
+  defaultKeys: string;
+}
+
+export const OPEN_PALETTE = 'palette.open';
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: OPEN_PALETTE, label: 'Open the command palette', defaultKeys: 'Mod+K' },
+  { id: TOOL_COMMANDS.submit, label: 'Submit the query', defaultKeys: 'Mod+Enter' },
+  { id: TOOL_COMMANDS.rerun, label: 'Re-run the last query', defaultKeys: 'Alt+Shift+R' },
+  { id: TOOL_COMMANDS.nextTab, label: 'Next output tab', defaultKeys: 'Alt+Shift+ArrowRight' },
+  { id: TOOL_COMMANDS.previousTab, label: 'Previous output tab', defaultKeys: 'Alt+Shift+ArrowLeft' },
+  { id: TOOL_COMMANDS.copyAnswer, label: 'Copy the answer', defaultKeys: 'Alt+Shift+C' },
+  { id: TOOL_COMMANDS.export, label: 'Export the result', defaultKeys: 'Alt+Shift+E' },
+  { id: TOOL_COMMANDS.save, label: 'Save to Confluence', defaultKeys: 'Alt+Shift+S' },
+  { id: TOOL_COMMANDS.pin, label: 'Pin the result to the report', defaultKeys: 'Alt+Shift+P' },
+  { id: TOOL_COMMANDS.history, label: 'Show or hide history', defaultKeys: 'Alt+Shift+H' },
+];
+
+const SHORTCUTS_KEY = 'keyboardShortcuts';
+const MODIFIERS = ['Mod', 'Ctrl', 'Alt', 'Shift'];
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+function readOverrides(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(SHORTCUTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Keys for every action, by action id
+export function getShortcuts(): Record<string, string> {
+  const overrides = readOverrides();
+  return Object.fromEntries(
+    SHORTCUT_ACTIONS.map(action => [action.id, typeof overrides[action.id] === 'string' ? overrides[action.id] : action.defaultKeys])
+  );
+}
+
+export function setShortcut(id: string, keys: string) {
+  const overrides = readOverrides();
+  const action = SHORTCUT_ACTIONS.find(a => a.id === id);
+  if (action && keys === action.defaultKeys) {
+    delete overrides[id];
+  } else {
+    overrides[id] = keys;
+  }
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(overrides));
+  notify();
+}
+
+export function resetShortcuts() {
+  localStorage.removeItem(SHORTCUTS_KEY);
+  notify();
+}
+
+// The shortcut a key press makes, or '' for a lone modifier. Letters and
+// digits come from the physical key, so Alt+Shift+C isn't read as "Ç" on a Mac.
+export function eventToKeys(event: KeyboardEvent | ReactKeyboardEvent): string {
+  if (['Control', 'Meta', 'Alt', 'Shift'].includes(event.key)) return '';
+  const letter = /^Key([A-Z])$/.exec(event.code) || /^Digit(\d)$/.exec(event.code);
+  const key = letter ? letter[1] : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const parts = [
+    (isMac ? event.metaKey : event.ctrlKey) && 'Mod',
+    isMac && event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    key,
+  ];
+  return parts.filter(Boolean).join('+');
+}
+
+// Shortcuts need a modifier, except keys that don't type anything
+export function isValidShortcut(keys: string): boolean {
+  const parts = keys.split('+');
+  const key = parts[parts.length - 1];
+  return parts.some(part => MODIFIERS.includes(part)) || /^F\d+$/.test(key);
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Enter: 'Enter',
+  Escape: 'Esc',
+};
+
+export function formatShortcut(keys: string): string {
+  if (!keys) return '';
+  return keys
+    .split('+')
+    .map(part => {
+      if (part === 'Mod') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+      if (part === 'Shift') return isMac ? '⇧' : 'Shift';
+      return KEY_LABELS[part] || part;
+    })
+    .join(isMac ? '' : '+');
+}
+
+export function subscribeToShortcuts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,60 @@
+// Favourite and recently picked pages, per space, shown at the top of page
+// pickers. Stored per browser under `favouritePages` and `recentPages`, each
+// a map of space key to page titles (most recent first for recents).
+
+const FAVOURITES_KEY = 'favouritePages';
+const RECENTS_KEY = 'recentPages';
+const MAX_RECENT_PAGES = 8;
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function readMap(key: string): Record<string, string[]> {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeSpace(key: string, spaceKey: string, titles: string[]) {
+  localStorage.setItem(key, JSON.stringify({ ...readMap(key), [spaceKey]: titles }));
+  notify();
+}
+
+export function getFavouritePages(spaceKey: string): string[] {
+  const titles = readMap(FAVOURITES_KEY)[spaceKey];
+  return Array.isArray(titles) ? titles : [];
+}
+
+export function getRecentPages(spaceKey: string): string[] {
+  const titles = readMap(RECENTS_KEY)[spaceKey];
+  return Array.isArray(titles) ? titles : [];
+}
+
+export function toggleFavouritePage(spaceKey: string, title: string) {
+  const favourites = getFavouritePages(spaceKey);
+  writeSpace(
+    FAVOURITES_KEY,
+    spaceKey,
+    favourites.includes(title) ? favourites.filter(t => t !== title) : [...favourites, title]
+  );
+}
+
+export function addRecentPages(spaceKey: string, titles: string[]) {
+  if (!spaceKey || titles.length === 0) return;
+  const recents = [...titles, ...getRecentPages(spaceKey).filter(t => !titles.includes(t))];
+  writeSpace(RECENTS_KEY, spaceKey, recents.slice(0, MAX_RECENT_PAGES));
+}
+
+export function subscribeToPagePreferences(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,81 @@
+// Playbooks: approved Agent Mode plans saved for reuse.
+//
+// A playbook keeps the goal and the steps as approved. Page titles are those
+// of the space it was saved from. Applying it to another space maps each
+// title to a page there (see `applyPlaybook`), and the result goes back through
+// plan review before anything runs. Stored per browser under `agentPlaybooks`.
+
+import type { PlannedStep } from './api';
+
+export interface Playbook {
+  id: string;
+  name: string;
+  goal: string;
+  steps: PlannedStep[];
+  // Space the plan was approved in
+  spaceKey: string;
+  createdAt: number;
+}
+
+const PLAYBOOKS_KEY = 'agentPlaybooks';
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function writePlaybooks(playbooks: Playbook[]) {
+  localStorage.setItem(PLAYBOOKS_KEY, JSON.stringify(playbooks));
+  notify();
+}
+
+export function getPlaybooks(): Playbook[] {
+  try {
+    const raw = localStorage.getItem(PLAYBOOKS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((p: Playbook) => p && p.id && Array.isArray(p.steps)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePlaybook(name: string, goal: string, steps: PlannedStep[], spaceKey: string): Playbook {
+  const playbook: Playbook = {
+    id: `playbook-${Date.now()}`,
+    name: name.trim(),
+    goal,
+    steps: steps.map(step => ({ ...step, pages: [...step.pages] })),
+    spaceKey,
+    createdAt: Date.now(),
+  };
+  writePlaybooks([playbook, ...getPlaybooks()]);
+  return playbook;
+}
+
+export function deletePlaybook(playbookId: string) {
+  writePlaybooks(getPlaybooks().filter(p => p.id !== playbookId));
+}
+
+// Retargets a playbook's steps at the pages of the current space. A title
+// in `spacePages` (those known to be there) is kept; otherwise the playbook's n-th distinct page maps
+// to the n-th selected page. Anything still unmatched is left empty ('') for
+// the user to pick in plan review.
+export function applyPlaybook(playbook: Playbook, spacePages: string[], selectedPages: string[]): PlannedStep[] {
+  const distinctPages = [...new Set(playbook.steps.flatMap(step => step.pages))];
+  const mapping = new Map(distinctPages.map((title, index) => [
+    title,
+    spacePages.includes(title) ? title : selectedPages[index] || '',
+  ]));
+  return playbook.steps.map(step => ({
+    ...step,
+    pages: step.pages.map(title => mapping.get(title) || ''),
+  }));
+}
+
+export function subscribeToPlaybooks(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,86 @@
+// The publish log: every save the tools made to Confluence, newest first.
+//
+// Each entry keeps the page's version before and after the save, which is
+// what a rollback restores and what it checks the page is still at. Rolling
+// back is itself a save, so it gets its own entry and can be undone the same
+// way. Stored per browser under `publishLog`; the oldest entries drop off.
+
+import type { FeatureType } from '../App';
+
+// `report` is the report tray's combined report
+export type PublishTool = Exclude<FeatureType, null> | 'rollback' | 'report';
+
+export interface PublishEntry {
+  id: string;
+  tool: PublishTool;
+  spaceKey: string;
+  pageId: string;
+  pageTitle: string;
+  // Save mode, e.g. append or replace_section
+  mode: string;
+  // Null before for a page the save created
+  versionBefore: number | null;
+  versionAfter: number | null;
+  createdAt: number;
+  // The rollback entry that undid this save
+  rolledBackBy?: string;
+}
+
+export type NewPublishEntry = Omit<PublishEntry, 'id' | 'createdAt' | 'rolledBackBy'>;
+
+const PUBLISH_LOG_KEY = 'publishLog';
+const MAX_ENTRIES = 200;
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function writeLog(entries: PublishEntry[]) {
+  localStorage.setItem(PUBLISH_LOG_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  notify();
+}
+
+export function getPublishLog(): PublishEntry[] {
+  try {
+    const raw = localStorage.getItem(PUBLISH_LOG_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((e: PublishEntry) => e && e.id && e.pageId) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordPublish(input: NewPublishEntry): PublishEntry {
+  const createdAt = Date.now();
+  const entry: PublishEntry = { ...input, id: `publish-${createdAt}-${Math.random().toString(36).slice(2, 8)}`, createdAt };
+  writeLog([entry, ...getPublishLog()]);
+  return entry;
+}
+
+// Records a rollback of `entry` and links the two
+export function recordRollback(entry: PublishEntry, input: NewPublishEntry): PublishEntry {
+  const rollback = recordPublish(input);
+  writeLog(getPublishLog().map(e => (e.id === entry.id ? { ...e, rolledBackBy: rollback.id } : e)));
+  return rollback;
+}
+
+export function clearPublishLog() {
+  writeLog([]);
+}
+
+// An entry can be rolled back while it's the page's latest save in the log
+// and the save changed an existing page
+export function canRollBack(entry: PublishEntry, log: PublishEntry[]): boolean {
+  if (entry.rolledBackBy || entry.versionBefore === null || entry.versionAfter === null) return false;
+  if (entry.versionAfter === entry.versionBefore) return false;
+  return !log.some(other => other.pageId === entry.pageId && other.createdAt > entry.createdAt);
+}
+
+export function subscribeToPublishLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,150 @@
+// The report tray: results pinned from the tools and Agent Mode's output
+// tabs, combined into one report.
+//
+// Sections keep the order they're arranged in and can be edited after
+// pinning. Each becomes an H1 of the combined report; a section with H1s of
+// its own has its headings moved one level down under it. The report exports through the report
+// formats, with a title page and table of contents, or is published as one
+// Confluence page. Stored per browser under `reportTray`.
+
+import type { ReportDocument } from '../utils/reportExport';
+import { parseMarkdown, plainText, shiftHeadings } from '../utils/markdownTree';
+
+export interface PinnedSection {
+  id: string;
+  title: string;
+  // Where it was pinned from, e.g. "Impact Analyzer" or "Agent Mode · Final Answer"
+  source: string;
+  markdown: string;
+  spaceKey: string;
+  pages: string[];
+  pinnedAt: number;
+}
+
+export interface ReportTray {
+  title: string;
+  sections: PinnedSection[];
+}
+
+// Without a title, the markdown's leading H1 is used, or the source
+export type NewPinnedSection = Omit<PinnedSection, 'id' | 'pinnedAt' | 'title'> & { title?: string };
+
+export const DEFAULT_REPORT_TITLE = 'Session Report';
+
+const REPORT_TRAY_KEY = 'reportTray';
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Pinned charts are kept as data: URLs, so a tray can outgrow local storage
+function writeTray(tray: ReportTray) {
+  try {
+    localStorage.setItem(REPORT_TRAY_KEY, JSON.stringify(tray));
+  } catch {
+    throw new Error('The report is too large to keep in this browser. Remove a section, or the images in one, and try again.');
+  }
+  notify();
+}
+
+export function getReportTray(): ReportTray {
+  try {
+    const raw = localStorage.getItem(REPORT_TRAY_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      title: typeof parsed?.title === 'string' ? parsed.title : DEFAULT_REPORT_TITLE,
+      sections: Array.isArray(parsed?.sections) ? parsed.sections.filter((s: PinnedSection) => s && s.id && typeof s.markdown === 'string') : [],
+    };
+  } catch {
+    return { title: DEFAULT_REPORT_TITLE, sections: [] };
+  }
+}
+
+function leadingHeading(markdown: string): string {
+  const first = parseMarkdown(markdown).children[0];
+  return first?.type === 'heading' && first.depth === 1 ? plainText(first).trim() : '';
+}
+
+export function pinToReport(input: NewPinnedSection): PinnedSection {
+  const pinnedAt = Date.now();
+  const section: PinnedSection = {
+    ...input,
+    title: input.title?.trim() || leadingHeading(input.markdown) || input.source,
+    id: `pin-${pinnedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    pinnedAt,
+  };
+  const tray = getReportTray();
+  writeTray({ ...tray, sections: [...tray.sections, section] });
+  return section;
+}
+
+export function updatePinnedSection(id: string, changes: Partial<Pick<PinnedSection, 'title' | 'markdown'>>) {
+  const tray = getReportTray();
+  writeTray({ ...tray, sections: tray.sections.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+}
+
+// Moves a section to `index` of the arranged order
+export function movePinnedSection(id: string, index: number) {
+  const tray = getReportTray();
+  const section = tray.sections.find(s => s.id === id);
+  if (!section) return;
+  const rest = tray.sections.filter(s => s.id !== id);
+  const target = Math.max(0, Math.min(index, rest.length));
+  writeTray({ ...tray, sections: [...rest.slice(0, target), section, ...rest.slice(target)] });
+}
+
+export function removePinnedSection(id: string) {
+  const tray = getReportTray();
+  writeTray({ ...tray, sections: tray.sections.filter(s => s.id !== id) });
+}
+
+export function setReportTitle(title: string) {
+  writeTray({ ...getReportTray(), title });
+}
+
+export function clearReportTray() {
+  writeTray({ title: DEFAULT_REPORT_TITLE, sections: [] });
+}
+
+export function subscribeToReportTray(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// A section's markdown under its title: a leading H1 that repeats the title
+// is dropped, and if H1s remain, its headings go one level down
+function sectionMarkdown(section: PinnedSection): string {
+  const tree = parseMarkdown(section.markdown);
+  const first = tree.children[0];
+  let body = section.markdown;
+  if (first?.type === 'heading' && first.depth === 1 && plainText(first).trim() === section.title.trim()) {
+    body = body.slice(first.position?.end.offset ?? 0);
+  }
+  body = body.trim();
+  const hasH1 = parseMarkdown(body).children.some(node => node.type === 'heading' && node.depth === 1);
+  return `# ${section.title.trim() || section.source}\n\n${hasH1 ? shiftHeadings(body, 1) : body}`;
+}
+
+// The tray as one report. `spaceName` turns a space key into its name;
+// `model` is the model the backend generates with, when known.
+export function trayReport(tray: ReportTray, spaceName: (key: string) => string, model?: string): ReportDocument {
+  const spaces = [...new Set(tray.sections.map(s => s.spaceKey).filter(Boolean))];
+  const pages = [...new Set(tray.sections.flatMap(s => s.pages))];
+  const sources = [...new Set(tray.sections.map(s => s.source.split(' · ')[0]))];
+  return {
+    title: tray.title.trim() || DEFAULT_REPORT_TITLE,
+    tool: 'Report Builder',
+    markdown: tray.sections.map(sectionMarkdown).join('\n\n'),
+    details: {
+      [spaces.length > 1 ? 'Spaces' : 'Space']: spaces.map(spaceName).join(', '),
+      Pages: pages.join(', '),
+      Sources: sources.join(', '),
+      Model: model || '',
+    },
+    contents: true,
+  };
+}
@@ -0,0 +1,48 @@
+export interface LinkedSignal {
+  signal: AbortSignal;
+  // Stops listening to the source signals; call it once the work has settled
+  dispose: () => void;
+}
+
+// A signal that aborts as soon as any of the given signals aborts. Uses
+// AbortSignal.any where the browser has it; otherwise listens to each source
+// until it aborts or dispose() is called, so long-lived sources (a whole
+// run, a page's lifetime) don't collect a listener per request.
+export function anySignal(signals: Array<AbortSignal | undefined>): LinkedSignal {
+  const active = signals.filter((s): s is AbortSignal => !!s);
+  if (typeof AbortSignal.any === 'function') {
+    return { signal: AbortSignal.any(active), dispose: () => undefined };
+  }
+  const controller = new AbortController();
+  const aborted = active.find(s => s.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, dispose: () => undefined };
+  }
+  const dispose = () => active.forEach(s => s.removeEventListener('abort', onAbort));
+  const onAbort = (event: Event) => {
+    controller.abort((event.target as AbortSignal).reason);
+    dispose();
+  };
+  active.forEach(s => s.addEventListener('abort', onAbort));
+  return { signal: controller.signal, dispose };
+}
+
+// Resolves after `ms`, or rejects with the signal's reason if it aborts first.
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,100 @@
+// Shared vocabulary for Agent Mode plans: which tools a step can use, how
+// many pages each takes, what each produces, and which can take an earlier
+// step's output (`input_from`) in place of a page.
+
+import type { PlannedStep } from '../services/api';
+
+export const toolLabels: Record<string, string> = {
+  code_assistant: 'Code Assistant',
+  image_insights: 'Image Insights',
+  ai_powered_search: 'AI Powered Search',
+  video_summarizer: 'Video Summarizer',
+  impact_analyzer: 'Impact Analyzer',
+  test_support: 'Test Support Tool',
+  push_to_jira: 'Push to Jira',
+};
+
+// Shown in plan review so it is clear what approving a step will produce
+export const toolOutputs: Record<string, string> = {
+  code_assistant: 'Modified, converted or summarized code from the page',
+  image_insights: 'A summary of each image on the page',
+  ai_powered_search: 'A written answer based on the page text',
+  video_summarizer: 'Video summary with key quotes and timestamps',
+  impact_analyzer: 'Diff, change metrics and a risk assessment between the two pages',
+  test_support: 'A test strategy for the code page',
+  push_to_jira: 'Jira issues for the action items in the input',
+};
+
+// What an earlier step's output stands in for, per tool that can take one.
+// Push to Jira has no pages, so its input is required.
+export const chainedInputs: Record<string, string> = {
+  test_support: 'Code to test',
+  impact_analyzer: 'New code, compared with the old page',
+  ai_powered_search: 'Extra context for the page',
+  push_to_jira: 'Text to take action items from',
+};
+
+// Single-page tools get one step per page; these take two pages (Test Support's second page is optional)
+export const TWO_PAGE_TOOLS = ['impact_analyzer', 'test_support'];
+
+// Labels for each page slot of the two-page tools
+export const pageSlotLabels: Record<string, string[]> = {
+  impact_analyzer: ['Old page', 'New page'],
+  test_support: ['Code page', 'Test input page (optional)'],
+};
+
+// An input replaces a page: Test Support's code page, or Impact Analyzer's new page
+export function pageSlotLabelsFor(tool: string, chained: boolean): string[] {
+  if (tool === 'push_to_jira') return [];
+  if (chained && tool === 'impact_analyzer') return ['Old page'];
+  if (chained && tool === 'test_support') return ['Test input page (optional)'];
+  return pageSlotLabels[tool] || ['Page'];
+}
+
+export function pageCountFor(tool: string, chained = false): number {
+  return pageSlotLabelsFor(tool, chained).length;
+}
+
+export function isRunnableStep(step: PlannedStep): boolean {
+  if (!toolLabels[step.tool]) return false;
+  const chained = !!step.input_from;
+  if (chained && !chainedInputs[step.tool]) return false;
+  if (step.tool === 'push_to_jira') return chained && step.pages.length === 0;
+  if (step.tool === 'impact_analyzer') return step.pages.length === (chained ? 1 : 2);
+  if (step.tool === 'test_support') return chained ? step.pages.length <= 1 : step.pages.length >= 1;
+  return step.pages.length === 1;
+}
+
+// Inputs only flow forward: the step at `index` can read steps 1..index
+export function hasValidInput(step: PlannedStep, index: number): boolean {
+  return !step.input_from || (step.input_from >= 1 && step.input_from <= index);
+}
+
+// Keeps the steps `keep` accepts and renumbers input_from to match. A step
+// whose input was dropped loses it, and is then kept only if it still runs.
+export function filterSteps(steps: PlannedStep[], keep: (step: PlannedStep, index: number) => boolean): PlannedStep[] {
+  const newNumbers = new Map<number, number>();
+  const kept: PlannedStep[] = [];
+  steps.forEach((step, index) => {
+    const inputFrom = step.input_from ? newNumbers.get(step.input_from) : undefined;
+    const renumbered = { ...step, input_from: inputFrom };
+    if (!inputFrom) delete renumbered.input_from;
+    if (!keep(renumbered, index)) return;
+    kept.push(renumbered);
+    newNumbers.set(index + 1, kept.length);
+  });
+  return kept;
+}
+
+// Swaps two steps, keeping every input pointed at the same step it read before
+export function swapSteps(steps: PlannedStep[], a: number, b: number): PlannedStep[] {
+  const renumber = (from?: number) => (from === a + 1 ? b + 1 : from === b + 1 ? a + 1 : from);
+  const next = steps.map(step => (step.input_from ? { ...step, input_from: renumber(step.input_from) } : step));
+  [next[a], next[b]] = [next[b], next[a]];
+  return next;
+}
+
+// Drops empty page slots left by plan editing, e.g. an unset optional test input page
+export function compactStep(step: PlannedStep): PlannedStep {
+  return { ...step, pages: step.pages.filter(Boolean) };
+}
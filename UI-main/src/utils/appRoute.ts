@@ -0,0 +1,98 @@
+import type { AppMode, FeatureType } from '../App';
+
+// Where the app is and what it's showing, kept in the URL's hash so it can be
+// bookmarked, shared and navigated with back/forward. The query string is left
+// alone: it's the macro's `?space=KEY&page=Title`, naming the host page.
+//
+//   #/                                  mode selector
+//   #/agent?space=KEY&page=A&page=B&q=goal
+//   #/tool/impact?space=KEY&old=A&new=B&q=question&entry=ID
+//   #/tool/search?space=KEY&page=A&q=query&entry=ID
+//
+// No hash means the app is closed, showing only the launcher.
+export interface AppRoute {
+  open: boolean;
+  mode: AppMode;
+  tool: FeatureType;
+  space?: string;
+  // Page slots, as in the workspace: '' marks a slot that hasn't been chosen
+  pages: string[];
+  // The tool's query, question or goal
+  query?: string;
+  // Id of the history entry being shown
+  entry?: string;
+}
+
+export const CLOSED_ROUTE: AppRoute = { open: false, mode: null, tool: null, pages: [] };
+
+const TOOLS: Exclude<FeatureType, null>[] = ['search', 'video', 'code', 'impact', 'test', 'image', 'diagram'];
+
+// Two-page tools name their pages in the URL instead of repeating `page`
+const SLOT_PARAMS: Partial<Record<Exclude<FeatureType, null>, [string, string]>> = {
+  impact: ['old', 'new'],
+  test: ['code', 'input'],
+};
+
+function slotParams(route: Pick<AppRoute, 'mode' | 'tool'>): [string, string] | undefined {
+  return route.mode === 'tool' && route.tool ? SLOT_PARAMS[route.tool] : undefined;
+}
+
+// Drops unset slots at the end, so [page, ''] and [page] are the same selection
+export function trimSlots(slots: string[]): string[] {
+  const trimmed = [...slots];
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+  return trimmed;
+}
+
+export function parseRoute(hash: string): AppRoute {
+  const raw = hash.replace(/^#/, '');
+  if (!raw) return CLOSED_ROUTE;
+  const [path, search = ''] = raw.split('?');
+  const [mode, tool] = path.split('/').filter(Boolean);
+  const params = new URLSearchParams(search);
+
+  const route: AppRoute = { open: true, mode: null, tool: null, pages: [] };
+  if (mode === 'agent') {
+    route.mode = 'agent';
+  } else if (mode === 'tool') {
+    route.mode = 'tool';
+    route.tool = TOOLS.find(t => t === tool) || 'search';
+  }
+  route.space = params.get('space') || undefined;
+  const slots = slotParams(route);
+  route.pages = slots
+    ? trimSlots(slots.map(name => params.get(name) || ''))
+    : params.getAll('page').filter(Boolean);
+  route.query = params.get('q') ?? undefined;
+  route.entry = params.get('entry') || undefined;
+  return route;
+}
+
+export function formatRoute(route: AppRoute): string {
+  if (!route.open) return '';
+  const path = route.mode === 'agent' ? '/agent' : route.mode === 'tool' ? `/tool/${route.tool || 'search'}` : '/';
+  const params = new URLSearchParams();
+  if (route.space) params.set('space', route.space);
+  const slots = slotParams(route);
+  if (slots) {
+    slots.forEach((name, i) => {
+      if (route.pages[i]) params.set(name, route.pages[i]);
+    });
+  } else {
+    route.pages.filter(Boolean).forEach(page => params.append('page', page));
+  }
+  if (route.query) params.set('q', route.query);
+  if (route.entry) params.set('entry', route.entry);
+  const search = params.toString();
+  return `#${path}${search ? `?${search}` : ''}`;
+}
+
+// The current URL with the route's hash, e.g. for history.pushState or a copied link
+export function routeUrl(route: AppRoute): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${formatRoute(route)}`;
+}
+
+export function sameRoute(a: AppRoute, b: AppRoute): boolean {
+  return formatRoute(a) === formatRoute(b);
+}
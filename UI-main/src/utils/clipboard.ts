@@ -0,0 +1,11 @@
+// Copies text for the "copy answer" commands. Clipboard access can be refused
+// (an embedded frame without permission), which is logged rather than shown.
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (err) {
+    console.warn('Could not copy to the clipboard:', err);
+    return false;
+  }
+}
@@ -0,0 +1,53 @@
+// Fuzzy matching for pickers: every character of the query must appear in the
+// text in order, but not necessarily next to each other ("rlsnts" matches
+// "Release notes"). Consecutive characters and characters at the start of a
+// word score higher, so closer matches sort first.
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions in the text of the matched characters, for highlighting
+  indices: number[];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  return /[\s\-_/.:()[\]]/.test(previous) || (/[a-z]/.test(previous) && /[A-Z]/.test(text[index]));
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+  const haystack = text.toLowerCase();
+
+  // A plain substring match always beats a scattered one
+  const substringAt = haystack.indexOf(needle);
+  if (substringAt !== -1) {
+    const indices = Array.from({ length: needle.length }, (_, i) => substringAt + i);
+    return { score: 1000 - substringAt + (isWordStart(text, substringAt) ? 100 : 0), indices };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    if (indices.length > 0 && index === indices[indices.length - 1] + 1) score += 5;
+    if (isWordStart(text, index)) score += 3;
+    score -= index - from;
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score, indices };
+}
+
+// Items matching the query, best match first. Ties keep their original order.
+export function fuzzyFilter<T>(items: T[], query: string, getText: (item: T) => string): Array<{ item: T; match: FuzzyMatch }> {
+  return items
+    .map((item, order) => ({ item, order, match: fuzzyMatch(query, getText(item)) }))
+    .filter((result): result is { item: T; order: number; match: FuzzyMatch } => result.match !== null)
+    .sort((a, b) => b.match.score - a.match.score || a.order - b.order)
+    .map(({ item, match }) => ({ item, match }));
+}
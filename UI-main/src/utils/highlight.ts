@@ -0,0 +1,48 @@
+// Syntax highlighting for code blocks, with highlight.js. Only the languages
+// our pages and answers use are registered, to keep the bundle small; other
+// code blocks are shown unhighlighted.
+
+import hljs from 'highlight.js/lib/core';
+import 'highlight.js/styles/github-dark.css';
+import bash from 'highlight.js/lib/languages/bash';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import css from 'highlight.js/lib/languages/css';
+import diff from 'highlight.js/lib/languages/diff';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import markdown from 'highlight.js/lib/languages/markdown';
+import php from 'highlight.js/lib/languages/php';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+const LANGUAGES = { bash, cpp, csharp, css, diff, go, java, javascript, json, kotlin, markdown, php, python, ruby, sql, typescript, xml, yaml };
+
+Object.entries(LANGUAGES).forEach(([name, language]) => hljs.registerLanguage(name, language));
+hljs.registerAliases(['sh', 'shell', 'zsh'], { languageName: 'bash' });
+hljs.registerAliases(['html', 'svg'], { languageName: 'xml' });
+hljs.registerAliases(['cs', 'c#'], { languageName: 'csharp' });
+hljs.registerAliases(['c', 'c++', 'h'], { languageName: 'cpp' });
+
+// Highlighted HTML for the code (highlight.js escapes the code itself), or
+// null when the language isn't one we highlight
+export function highlightCode(code: string, language: string): string | null {
+  const name = language.toLowerCase();
+  if (!name || !hljs.getLanguage(name)) return null;
+  try {
+    return hljs.highlight(code, { language: name, ignoreIllegals: true }).value;
+  } catch {
+    return null;
+  }
+}
+
+export function isDiffLanguage(language: string): boolean {
+  return ['diff', 'patch'].includes(language.toLowerCase());
+}
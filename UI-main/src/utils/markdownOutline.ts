@@ -0,0 +1,42 @@
+// Headings of a markdown document, for a report's table of contents. Fenced
+// code is skipped so `# comments` in code blocks aren't taken for headings.
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  // 1-based source line, which is how rendered headings find their id
+  line: number;
+  slug: string;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_~[\]()]/g, '')
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
+
+export function extractOutline(markdown: string, maxLevel = 3): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+  const used = new Map<string, number>();
+  let fence: string | null = null;
+  markdown.split('\n').forEach((line, index) => {
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fence) return;
+    const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading || heading[1].length > maxLevel) return;
+    const text = heading[2].replace(/[*_`]/g, '');
+    const base = slugify(text);
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    headings.push({ level: heading[1].length, text, line: index + 1, slug: count ? `${base}-${count + 1}` : base });
+  });
+  return headings;
+}
@@ -0,0 +1,300 @@
+// Converts the markdown the tools produce into Confluence storage format, so a
+// saved result lands as real headings, lists, tables and code blocks rather
+// than as literal markdown.
+//
+// Fenced code becomes the code macro, GitHub-style callouts (`> [!NOTE]`) and
+// quotes that open with a bold "Note:" or "Warning:" become info, tip, note and
+// warning panels, task lists become Confluence tasks, and Mermaid blocks become
+// an image of the diagram with its source in an expand macro. The image refers
+// to a PNG attachment by name; `prepareMarkdownSave` renders the PNGs to send
+// with the save. Embedded data: images, such as Chart Builder charts, are
+// sent as attachments the same way. Raw HTML is dropped, as in MarkdownView, and links and images
+// keep only safe URLs.
+
+import type { Blockquote, Code, Definition, FootnoteDefinition, List, ListItem, PhrasingContent, RootContent, Table } from 'mdast';
+import type { SaveAttachment } from '../services/api';
+import { blockquoteCallout, collectDefinitions, parseMarkdown } from './markdownTree';
+import { isSafeUrl } from './sanitizeHtml';
+import { blobToBase64, renderMermaid, svgToPng } from './mermaid';
+
+export interface StorageDiagram {
+  // The attachment the storage shows, e.g. mermaid-1a2b3c.png
+  filename: string;
+  source: string;
+}
+
+export interface StorageConversion {
+  storage: string;
+  diagrams: StorageDiagram[];
+  // data: images, as the attachments the storage shows
+  images: SaveAttachment[];
+}
+
+export interface MarkdownToStorageOptions {
+  // Mermaid sources to keep as code blocks, e.g. ones that failed to render
+  plainDiagrams?: Set<string>;
+}
+
+interface Context {
+  definitions: Map<string, Definition>;
+  footnotes: FootnoteDefinition[];
+  diagrams: StorageDiagram[];
+  images: SaveAttachment[];
+  plainDiagrams: Set<string>;
+}
+
+// Code fence languages to the names the code macro knows
+const CODE_LANGUAGES: Record<string, string> = {
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  cs: 'c#', csharp: 'c#',
+  'c++': 'cpp', c: 'cpp', h: 'cpp', hpp: 'cpp',
+  javascript: 'js', jsx: 'js', mjs: 'js', node: 'js',
+  typescript: 'typescript', ts: 'typescript', tsx: 'typescript',
+  python: 'py', python3: 'py',
+  rb: 'ruby',
+  golang: 'go',
+  kt: 'kotlin',
+  ps1: 'powershell', pwsh: 'powershell',
+  html: 'xml', xhtml: 'xml', svg: 'xml',
+  yaml: 'yml',
+  erlang: 'erl',
+  scss: 'sass',
+  vbnet: 'vb',
+  patch: 'diff',
+  plaintext: 'text', txt: 'text', '': 'text',
+};
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeText(text).replace(/"/g, '&quot;');
+}
+
+// CDATA can't hold "]]>", so split it across two sections
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function codeLanguage(lang?: string | null): string {
+  const key = (lang || '').trim().toLowerCase();
+  return CODE_LANGUAGES[key] ?? key;
+}
+
+function codeMacro(code: string, language: string): string {
+  const parameter = `<ac:parameter ac:name="language">${escapeText(language || 'text')}</ac:parameter>`;
+  return `<ac:structured-macro ac:name="code">${parameter}<ac:plain-text-body>${cdata(code)}</ac:plain-text-body></ac:structured-macro>`;
+}
+
+// A short stable name for an attachment, so saving the same diagram again replaces it
+function sourceHash(source: string): string {
+  let hash = 5381;
+  for (let i = 0; i < source.length; i++) hash = ((hash << 5) + hash + source.charCodeAt(i)) >>> 0;
+  return hash.toString(36);
+}
+
+const DATA_IMAGE = /^data:(image\/(png|jpe?g|gif));base64,([a-z0-9+/=\s]+)$/i;
+
+function imageStorage(url: string, alt: string, context: Context): string {
+  const altAttribute = alt ? ` ac:alt="${escapeAttribute(alt)}"` : '';
+  const data = DATA_IMAGE.exec(url.trim());
+  if (data) {
+    const base64 = data[3].replace(/\s+/g, '');
+    const filename = `image-${sourceHash(base64)}.${data[2].toLowerCase() === 'jpg' ? 'jpeg' : data[2].toLowerCase()}`;
+    if (!context.images.some(image => image.filename === filename)) {
+      context.images.push({ filename, data: base64, content_type: data[1].toLowerCase() });
+    }
+    return `<ac:image${altAttribute}><ri:attachment ri:filename="${filename}" /></ac:image>`;
+  }
+  if (!isSafeUrl(url, true)) return escapeText(alt);
+  return `<ac:image${altAttribute}><ri:url ri:value="${escapeAttribute(url)}" /></ac:image>`;
+}
+
+function linkStorage(url: string, body: string): string {
+  return url && isSafeUrl(url) ? `<a href="${escapeAttribute(url)}">${body}</a>` : body;
+}
+
+function phrasing(nodes: PhrasingContent[], context: Context): string {
+  return nodes.map(node => inline(node, context)).join('');
+}
+
+function inline(node: PhrasingContent, context: Context): string {
+  switch (node.type) {
+    case 'text':
+      return escapeText(node.value);
+    case 'emphasis':
+      return `<em>${phrasing(node.children, context)}</em>`;
+    case 'strong':
+      return `<strong>${phrasing(node.children, context)}</strong>`;
+    case 'delete':
+      return `<del>${phrasing(node.children, context)}</del>`;
+    case 'inlineCode':
+      return `<code>${escapeText(node.value)}</code>`;
+    case 'break':
+      return '<br />';
+    case 'link':
+      return linkStorage(node.url, phrasing(node.children, context));
+    case 'linkReference': {
+      const definition = context.definitions.get(node.identifier);
+      return linkStorage(definition?.url || '', phrasing(node.children, context));
+    }
+    case 'image':
+      return imageStorage(node.url, node.alt || '', context);
+    case 'imageReference': {
+      const definition = context.definitions.get(node.identifier);
+      return definition ? imageStorage(definition.url, node.alt || '', context) : escapeText(node.alt || '');
+    }
+    case 'footnoteReference':
+      return `<sup>[${escapeText(node.label || node.identifier)}]</sup>`;
+    default:
+      // Raw HTML
+      return '';
+  }
+}
+
+function blocks(nodes: RootContent[], context: Context): string {
+  return nodes.map(node => block(node, context)).filter(Boolean).join('\n');
+}
+
+function block(node: RootContent, context: Context): string {
+  switch (node.type) {
+    case 'paragraph':
+      return `<p>${phrasing(node.children, context)}</p>`;
+    case 'heading':
+      return `<h${node.depth}>${phrasing(node.children, context)}</h${node.depth}>`;
+    case 'thematicBreak':
+      return '<hr />';
+    case 'blockquote':
+      return blockquote(node, context);
+    case 'list':
+      return list(node, context);
+    case 'code':
+      return code(node, context);
+    case 'table':
+      return table(node, context);
+    case 'footnoteDefinition':
+      context.footnotes.push(node);
+      return '';
+    default:
+      // Definitions are looked up where they're used; raw HTML and front matter are dropped
+      return '';
+  }
+}
+
+function code(node: Code, context: Context): string {
+  const language = (node.lang || '').toLowerCase();
+  if (language !== 'mermaid' || context.plainDiagrams.has(node.value)) {
+    return codeMacro(node.value, codeLanguage(node.lang));
+  }
+  const filename = `mermaid-${sourceHash(node.value)}.png`;
+  if (!context.diagrams.some(diagram => diagram.filename === filename)) {
+    context.diagrams.push({ filename, source: node.value });
+  }
+  return [
+    `<p><ac:image><ri:attachment ri:filename="${filename}" /></ac:image></p>`,
+    '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">Mermaid source</ac:parameter>',
+    `<ac:rich-text-body>${codeMacro(node.value, 'text')}</ac:rich-text-body></ac:structured-macro>`,
+  ].join('');
+}
+
+function blockquote(node: Blockquote, context: Context): string {
+  const panel = blockquoteCallout(node);
+  if (!panel) return `<blockquote>${blocks(node.children, context)}</blockquote>`;
+  // The callout kinds are named after the panel macros
+  return `<ac:structured-macro ac:name="${panel.kind}"><ac:rich-text-body>${blocks(panel.children, context)}</ac:rich-text-body></ac:structured-macro>`;
+}
+
+// A tight list item's paragraphs are inline, as they render in markdown.
+// `lead` goes at the start of the first paragraph.
+function listItemBody(item: ListItem, spread: boolean, context: Context, lead = ''): string {
+  const body = item.children.map((child, index) => {
+    if (child.type !== 'paragraph') return block(child, context);
+    const text = (index === 0 ? lead : '') + phrasing(child.children, context);
+    return spread ? `<p>${text}</p>` : text;
+  });
+  return body.filter(Boolean).join('');
+}
+
+function list(node: List, context: Context): string {
+  const spread = Boolean(node.spread || node.children.some(item => item.spread));
+  if (node.children.length && node.children.every(item => typeof item.checked === 'boolean')) {
+    const tasks = node.children.map(item => [
+      '<ac:task>',
+      `<ac:task-status>${item.checked ? 'complete' : 'incomplete'}</ac:task-status>`,
+      `<ac:task-body>${listItemBody(item, false, context)}</ac:task-body>`,
+      '</ac:task>',
+    ].join(''));
+    return `<ac:task-list>${tasks.join('')}</ac:task-list>`;
+  }
+  const items = node.children.map(item => {
+    // A checkbox in a list that isn't all tasks stays visible as text
+    const box = typeof item.checked === 'boolean' ? (item.checked ? '[x] ' : '[ ] ') : '';
+    return `<li>${listItemBody(item, spread, context, box)}</li>`;
+  });
+  if (!node.ordered) return `<ul>${items.join('')}</ul>`;
+  const start = typeof node.start === 'number' && node.start !== 1 ? ` start="${node.start}"` : '';
+  return `<ol${start}>${items.join('')}</ol>`;
+}
+
+function table(node: Table, context: Context): string {
+  const rows = node.children.map((row, rowIndex) => {
+    const tag = rowIndex === 0 ? 'th' : 'td';
+    const cells = row.children.map((cell, cellIndex) => {
+      const align = node.align?.[cellIndex];
+      const style = align && align !== 'left' ? ` style="text-align: ${align};"` : '';
+      return `<${tag}${style}>${phrasing(cell.children, context)}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  return `<table><tbody>${rows.join('')}</tbody></table>`;
+}
+
+export function markdownToStorage(markdown: string, options: MarkdownToStorageOptions = {}): StorageConversion {
+  const tree = parseMarkdown(markdown);
+  const context: Context = {
+    definitions: collectDefinitions(tree),
+    footnotes: [],
+    diagrams: [],
+    images: [],
+    plainDiagrams: options.plainDiagrams ?? new Set(),
+  };
+  const body = blocks(tree.children, context);
+  // Footnotes go at the end, each as a paragraph led by its number
+  const footnotes = context.footnotes.map(footnote => {
+    const [first, ...rest] = footnote.children;
+    const lead = `<sup>[${escapeText(footnote.label || footnote.identifier)}]</sup> `;
+    const text = first?.type === 'paragraph' ? `<p>${lead}${phrasing(first.children, context)}</p>` : `<p>${lead}</p>${first ? block(first, context) : ''}`;
+    return [text, blocks(rest, context)].filter(Boolean).join('\n');
+  });
+  const storage = footnotes.length ? [body, '<hr />', ...footnotes].filter(Boolean).join('\n') : body;
+  return { storage, diagrams: context.diagrams, images: context.images };
+}
+
+// Confluence's table of contents of a page's H1s and H2s
+export const CONTENTS_MACRO = '<ac:structured-macro ac:name="toc"><ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro>';
+
+// Code Assistant output: code with fences converts as markdown, bare code becomes one code macro
+export function codeToStorage(code: string, language?: string): string {
+  if (/^\s*(```|~~~)/m.test(code)) return markdownToStorage(code).storage;
+  return codeMacro(code.replace(/\n+$/, ''), codeLanguage(language));
+}
+
+// The content and attachments to save: the markdown as storage, with each
+// Mermaid diagram drawn as a PNG. A diagram that doesn't render is saved as
+// its source in a code block instead. data: images are attached as they are.
+export async function prepareMarkdownSave(markdown: string): Promise<{ content: string; attachments: SaveAttachment[] }> {
+  const converted = markdownToStorage(markdown);
+  const attachments: SaveAttachment[] = [...converted.images];
+  const failed = new Set<string>();
+  for (const diagram of converted.diagrams) {
+    try {
+      const png = await svgToPng(await renderMermaid(diagram.source));
+      attachments.push({ filename: diagram.filename, data: await blobToBase64(png), content_type: 'image/png' });
+    } catch {
+      failed.add(diagram.source);
+    }
+  }
+  const content = failed.size ? markdownToStorage(markdown, { plainDiagrams: failed }).storage : converted.storage;
+  return { content, attachments };
+}
@@ -0,0 +1,108 @@
+// Parsing markdown into an mdast tree, and the reading of it that every
+// converter shares: the storage-format converter for saving, and the report
+// exporters for HTML, Word and slides.
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import type { Blockquote, Definition, Heading, Nodes, Paragraph, PhrasingContent, Root, RootContent } from 'mdast';
+
+// The panels callouts become, named like the Confluence macros
+export type CalloutKind = 'info' | 'tip' | 'note' | 'warning';
+
+export interface Callout {
+  kind: CalloutKind;
+  // The quote's content without the callout label
+  children: RootContent[];
+}
+
+const CALLOUT_KINDS: Record<string, CalloutKind> = {
+  note: 'info',
+  info: 'info',
+  tip: 'tip',
+  hint: 'tip',
+  important: 'note',
+  warning: 'warning',
+  caution: 'warning',
+  danger: 'warning',
+};
+
+const ALERT_MARKER = /^\[!(\w+)\][ \t]*\n?/;
+
+// GitHub-flavoured markdown: tables, task lists, strikethrough, footnotes and autolinks
+export function parseMarkdown(markdown: string): Root {
+  return unified().use(remarkParse).use(remarkGfm).parse(markdown);
+}
+
+export function plainText(node: Nodes): string {
+  if ('value' in node && typeof node.value === 'string') return node.value;
+  if ('children' in node) return (node.children as Nodes[]).map(plainText).join('');
+  return '';
+}
+
+// Link and image definitions by identifier, for resolving `[text][ref]`
+export function collectDefinitions(tree: Nodes, definitions = new Map<string, Definition>()): Map<string, Definition> {
+  if (tree.type === 'definition' && !definitions.has(tree.identifier)) definitions.set(tree.identifier, tree);
+  if ('children' in tree) (tree.children as Nodes[]).forEach(child => collectDefinitions(child, definitions));
+  return definitions;
+}
+
+// The panel a quote stands for: GitHub alerts (`> [!WARNING]`) and quotes
+// that open with a bold label (`> **Note:** ...`). Null for a plain quote.
+export function blockquoteCallout(node: Blockquote): Callout | null {
+  const [first, ...rest] = node.children;
+  if (first?.type !== 'paragraph') return null;
+  const [lead, ...leadRest] = first.children;
+  let name = '';
+  let remaining: PhrasingContent[] = [];
+
+  if (lead?.type === 'text' && ALERT_MARKER.test(lead.value)) {
+    name = ALERT_MARKER.exec(lead.value)![1];
+    const text = lead.value.replace(ALERT_MARKER, '');
+    remaining = text ? [{ ...lead, value: text }, ...leadRest] : leadRest;
+  } else if (lead?.type === 'strong') {
+    const label = /^(\w+):?$/.exec(plainText(lead).trim());
+    if (!label) return null;
+    name = label[1];
+    const [next, ...after] = leadRest;
+    if (next?.type === 'text') {
+      const text = next.value.replace(/^:?\s*/, '');
+      remaining = text ? [{ ...next, value: text }, ...after] : after;
+    } else {
+      remaining = leadRest;
+    }
+  }
+
+  const kind = CALLOUT_KINDS[name.toLowerCase()];
+  if (!kind) return null;
+  // A line break straight after the label isn't content
+  if (remaining[0]?.type === 'break') remaining = remaining.slice(1);
+  const paragraph: Paragraph = { ...first, children: remaining };
+  return { kind, children: remaining.length ? [paragraph, ...rest] : rest };
+}
+
+function headings(node: Nodes, found: Heading[] = []): Heading[] {
+  if (node.type === 'heading') found.push(node);
+  else if ('children' in node) (node.children as Nodes[]).forEach(child => headings(child, found));
+  return found;
+}
+
+// The markdown with every heading `by` levels deeper (at most H6), so a
+// result can sit under a heading of its own. Underlined (setext) headings
+// are rewritten as `#` headings.
+export function shiftHeadings(markdown: string, by: number): string {
+  let shifted = markdown;
+  // From the end, so earlier offsets stay valid
+  headings(parseMarkdown(markdown)).reverse().forEach(heading => {
+    const start = heading.position?.start.offset;
+    const end = heading.position?.end.offset;
+    if (start === undefined || end === undefined) return;
+    const depth = Math.min(6, heading.depth + by);
+    if (markdown[start] === '#') {
+      shifted = shifted.slice(0, start) + '#'.repeat(depth - heading.depth) + shifted.slice(start);
+    } else {
+      shifted = `${shifted.slice(0, start)}${'#'.repeat(depth)} ${plainText(heading).replace(/\s+/g, ' ').trim()}${shifted.slice(end)}`;
+    }
+  });
+  return shifted;
+}
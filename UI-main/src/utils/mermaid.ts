@@ -0,0 +1,79 @@
+// Mermaid diagrams, rendered to SVG. The library is large, so it's loaded the
+// first time a diagram is shown rather than with the app. `strict` security
+// means labels can't carry HTML or scripts and click handlers are off; labels
+// are drawn as SVG text rather than HTML so the diagram can be turned into a PNG.
+
+import type { Mermaid } from 'mermaid';
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let nextDiagram = 0;
+
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: 'strict',
+        theme: 'default',
+        htmlLabels: false,
+        flowchart: { htmlLabels: false },
+      });
+      return mermaid;
+    });
+    mermaidPromise.catch(() => {
+      mermaidPromise = null;
+    });
+  }
+  return mermaidPromise;
+}
+
+// The diagram as an SVG string. Rejects with mermaid's parse error when the source is invalid.
+export async function renderMermaid(source: string): Promise<string> {
+  const mermaid = await loadMermaid();
+  const { svg } = await mermaid.render(`mermaid-diagram-${nextDiagram++}`, source.trim());
+  return svg;
+}
+
+// Mermaid sizes its SVG to the container; a standalone file needs its own size
+export function standaloneSvg(svg: string): { svg: string; width: number; height: number } {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [, , viewWidth, viewHeight] = (root.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+  const width = Math.ceil(viewWidth || root.getBoundingClientRect().width || 800);
+  const height = Math.ceil(viewHeight || root.getBoundingClientRect().height || 600);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.removeAttribute('style');
+  root.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+}
+
+// Rasterizes a rendered diagram on a white background, at `scale` times its size
+export async function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  const sized = standaloneSvg(svg);
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized.svg)}`;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = sized.width * scale;
+  canvas.height = sized.height * scale;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available in this browser');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, sized.width, sized.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG'))), 'image/png');
+  });
+}
+
+// A PNG or other file as base64 without the data: prefix, as the backend takes attachments
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,59 @@
+import type { PageTreeNode } from '../services/api';
+
+// Parent/child structure of a space's pages, keyed by title since that's what
+// the tools select by. Built from the titles the workspace loaded plus
+// /page-tree; a page whose parent isn't among the titles (or that /page-tree
+// doesn't know yet) is shown at the top level.
+export interface PageTree {
+  roots: string[];
+  children: Map<string, string[]>;
+  parentOf: Map<string, string>;
+}
+
+export interface TreeRow {
+  title: string;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export function buildPageTree(titles: string[], nodes: PageTreeNode[]): PageTree {
+  const present = new Set(titles);
+  const titleById = new Map(nodes.map(node => [node.id, node.title]));
+  const parentIdByTitle = new Map(nodes.map(node => [node.title, node.parent_id]));
+  const tree: PageTree = { roots: [], children: new Map(), parentOf: new Map() };
+
+  for (const title of titles) {
+    const parentId = parentIdByTitle.get(title);
+    const parent = parentId ? titleById.get(parentId) : undefined;
+    if (parent && parent !== title && present.has(parent)) {
+      tree.parentOf.set(title, parent);
+      tree.children.set(parent, [...(tree.children.get(parent) || []), title]);
+    } else {
+      tree.roots.push(title);
+    }
+  }
+  return tree;
+}
+
+// Rows of the tree in display order, descending only into expanded pages
+export function flattenTree(tree: PageTree, expanded: Set<string>): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const visit = (title: string, depth: number) => {
+    const children = tree.children.get(title) || [];
+    rows.push({ title, depth, hasChildren: children.length > 0 });
+    if (expanded.has(title)) children.forEach(child => visit(child, depth + 1));
+  };
+  tree.roots.forEach(root => visit(root, 0));
+  return rows;
+}
+
+// Titles of the page's ancestors, top-level first
+export function ancestorsOf(tree: PageTree, title: string): string[] {
+  const ancestors: string[] = [];
+  let parent = tree.parentOf.get(title);
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    parent = tree.parentOf.get(parent);
+  }
+  return ancestors;
+}
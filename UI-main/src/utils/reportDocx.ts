@@ -0,0 +1,543 @@
+// A report as a Word document (DOCX), written as Office Open XML and zipped.
+//
+// The document has the same branded layout as the HTML export: the assistant's
+// name, the title, the tool and date, a details table, then the body. Headings
+// use Word's heading styles (so the navigation pane and a table of contents
+// work), lists are real numbered and bulleted lists, tables keep a repeating
+// header row, code is set in a monospace block, callouts are shaded panels,
+// and data: images and rendered Mermaid diagrams are embedded as pictures.
+
+import type {
+  Blockquote,
+  Code,
+  Definition,
+  FootnoteDefinition,
+  Heading,
+  List,
+  ListItem,
+  PhrasingContent,
+  RootContent,
+  Table,
+} from 'mdast';
+import type { ContentsEntry, PreparedReport } from './reportExport';
+import { CalloutKind, blockquoteCallout, collectDefinitions } from './markdownTree';
+import { isSafeUrl } from './sanitizeHtml';
+import { ZipEntry, createZip } from './zip';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Width between the margins of a Letter page with 1" margins: in twips, and in EMU for pictures
+const TEXT_WIDTH = 9360;
+const MAX_IMAGE_WIDTH = 5943600;
+const EMU_PER_PIXEL = 9525;
+
+// Bulleted lists share one numbering; each ordered list gets its own so it starts at its number
+const BULLET_NUMBERING = 1;
+
+const PANEL_COLOURS: Record<CalloutKind, { border: string; fill: string; title: string }> = {
+  info: { border: '0065FF', fill: 'DEEBFF', title: 'Note' },
+  tip: { border: '00875A', fill: 'E3FCEF', title: 'Tip' },
+  note: { border: '6554C0', fill: 'EAE6FF', title: 'Important' },
+  warning: { border: 'FF991F', fill: 'FFFAE6', title: 'Warning' },
+};
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+  superscript?: boolean;
+}
+
+interface Panel {
+  border: string;
+  fill?: string;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  numbering?: { level: number; id: number };
+  indent?: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+interface Context {
+  definitions: Map<string, Definition>;
+  footnotes: FootnoteDefinition[];
+  // Mermaid source to the rendered PNG
+  diagrams: Map<string, Uint8Array>;
+  // Hyperlink and image relationships of the document part
+  relationships: string[];
+  media: ZipEntry[];
+  // Numbering instances of the ordered lists, by numId
+  orderedLists: { id: number; level: number; start: number }[];
+  nextId: number;
+  // The quote or callout the current paragraphs are in
+  panel: Panel | null;
+  // Bookmarks of the headings in the table of contents
+  bookmarks: Map<Heading, string>;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Characters XML 1.0 can't hold
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function relationship(context: Context, type: string, target: string, external = false): string {
+  const id = `rId${context.nextId++}`;
+  const mode = external ? ' TargetMode="External"' : '';
+  context.relationships.push(`<Relationship Id="${id}" Type="${REL_TYPE}/${type}" Target="${escapeXml(target)}"${mode}/>`);
+  return id;
+}
+
+function textRun(text: string, style: RunStyle = {}): string {
+  if (!text) return '';
+  const properties = [
+    style.code ? '<w:rStyle w:val="CodeChar"/>' : style.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.superscript ? '<w:vertAlign w:val="superscript"/>' : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(content: string, options: ParagraphOptions, context: Context): string {
+  const panel = context.panel;
+  // Word wants the properties in schema order
+  const properties = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.numbering ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.id}"/></w:numPr>` : '',
+    panel ? `<w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="${panel.border}"/></w:pBdr>` : '',
+    panel?.fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${panel.fill}"/>` : '',
+    options.indent !== undefined ? `<w:ind w:left="${options.indent}"/>` : panel ? '<w:ind w:left="227"/>' : '',
+    options.align ? `<w:jc w:val="${options.align}"/>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+// Pixel size from a PNG, GIF or JPEG header
+function imageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length > 24 && bytes[0] === 0x89 && bytes[1] === 0x50) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length > 10 && bytes[0] === 0x47 && bytes[1] === 0x49) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // Start-of-frame markers, not the DHT, JPG and DAC ones that share the range
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return null;
+}
+
+function dataUrlImage(url: string): { bytes: Uint8Array; extension: string } | null {
+  const match = /^data:image\/(png|jpe?g|gif);base64,([a-z0-9+/=\s]+)$/i.exec(url.trim());
+  if (!match) return null;
+  try {
+    const binary = atob(match[2].replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, extension: match[1].toLowerCase() === 'gif' ? 'gif' : match[1].toLowerCase() === 'png' ? 'png' : 'jpeg' };
+  } catch {
+    return null;
+  }
+}
+
+// An inline picture, no wider than the text
+function pictureRun(bytes: Uint8Array, extension: string, alt: string, context: Context): string {
+  const index = context.media.length + 1;
+  const name = `image${index}.${extension}`;
+  context.media.push({ name: `word/media/${name}`, data: bytes });
+  const id = relationship(context, 'image', `media/${name}`);
+  const size = imageSize(bytes) ?? { width: 600, height: 400 };
+  let width = size.width * EMU_PER_PIXEL;
+  let height = size.height * EMU_PER_PIXEL;
+  if (width > MAX_IMAGE_WIDTH) {
+    height = Math.round(height * (MAX_IMAGE_WIDTH / width));
+    width = MAX_IMAGE_WIDTH;
+  }
+  const drawingId = context.nextId++;
+  return [
+    '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">',
+    `<wp:extent cx="${width}" cy="${height}"/>`,
+    `<wp:docPr id="${drawingId}" name="Picture ${drawingId}" descr="${escapeXml(alt)}"/>`,
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>',
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>',
+    `<pic:nvPicPr><pic:cNvPr id="${drawingId}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`,
+    `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`,
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>',
+  ].join('');
+}
+
+function hyperlink(url: string, content: string, context: Context): string {
+  if (!url || !isSafeUrl(url) || url.startsWith('#')) return content;
+  return `<w:hyperlink r:id="${relationship(context, 'hyperlink', url, true)}" w:history="1">${content}</w:hyperlink>`;
+}
+
+// Embedded when the image is a data: URL; otherwise its alt text, linked to it
+function imageRun(url: string, alt: string, style: RunStyle, context: Context): string {
+  const image = dataUrlImage(url);
+  if (image) return pictureRun(image.bytes, image.extension, alt, context);
+  return hyperlink(url, textRun(alt || url, { ...style, link: isSafeUrl(url) }), context);
+}
+
+function runs(nodes: PhrasingContent[], context: Context, style: RunStyle = {}): string {
+  return nodes.map(node => run(node, context, style)).join('');
+}
+
+function run(node: PhrasingContent, context: Context, style: RunStyle): string {
+  switch (node.type) {
+    case 'text':
+      // Soft line breaks inside a paragraph are spaces
+      return textRun(node.value.replace(/\s*\n\s*/g, ' '), style);
+    case 'emphasis':
+      return runs(node.children, context, { ...style, italic: true });
+    case 'strong':
+      return runs(node.children, context, { ...style, bold: true });
+    case 'delete':
+      return runs(node.children, context, { ...style, strike: true });
+    case 'inlineCode':
+      return textRun(node.value, { ...style, code: true });
+    case 'break':
+      return '<w:r><w:br/></w:r>';
+    case 'link':
+      return hyperlink(node.url, runs(node.children, context, { ...style, link: true }), context);
+    case 'linkReference': {
+      const url = context.definitions.get(node.identifier)?.url || '';
+      return hyperlink(url, runs(node.children, context, { ...style, link: !!url }), context);
+    }
+    case 'image':
+      return imageRun(node.url, node.alt || '', style, context);
+    case 'imageReference': {
+      const definition = context.definitions.get(node.identifier);
+      return definition ? imageRun(definition.url, node.alt || '', style, context) : textRun(node.alt || '', style);
+    }
+    case 'footnoteReference':
+      return textRun(`[${node.label || node.identifier}]`, { ...style, superscript: true });
+    default:
+      return '';
+  }
+}
+
+function blocks(nodes: RootContent[], context: Context, depth = 0): string {
+  return nodes.map(node => block(node, context, depth)).join('');
+}
+
+function block(node: RootContent, context: Context, depth: number): string {
+  switch (node.type) {
+    case 'paragraph':
+      return paragraph(runs(node.children, context), depth ? { indent: 720 * depth } : {}, context);
+    case 'heading': {
+      const bookmark = context.bookmarks.get(node);
+      const content = runs(node.children, context);
+      if (!bookmark) return paragraph(content, { style: `Heading${node.depth}` }, context);
+      const id = context.nextId++;
+      return paragraph(`<w:bookmarkStart w:id="${id}" w:name="${bookmark}"/>${content}<w:bookmarkEnd w:id="${id}"/>`, { style: `Heading${node.depth}` }, context);
+    }
+    case 'thematicBreak':
+      return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="DFE1E6"/></w:pBdr></w:pPr></w:p>';
+    case 'blockquote':
+      return blockquote(node, context, depth);
+    case 'list':
+      return list(node, context, depth);
+    case 'code':
+      return code(node, context);
+    case 'table':
+      return table(node, context);
+    case 'html':
+      return htmlBlock(node.value, context);
+    case 'footnoteDefinition':
+      context.footnotes.push(node);
+      return '';
+    default:
+      return '';
+  }
+}
+
+function code(node: Code, context: Context): string {
+  const diagram = node.lang?.toLowerCase() === 'mermaid' ? context.diagrams.get(node.value) : undefined;
+  if (diagram) return paragraph(pictureRun(diagram, 'png', 'Diagram', context), { align: 'center' }, context);
+  const lines = node.value.replace(/\t/g, '    ').split('\n');
+  const content = lines.map(line => textRun(line) || '<w:r><w:t></w:t></w:r>').join('<w:r><w:br/></w:r>');
+  return paragraph(content, { style: 'Code' }, context);
+}
+
+function blockquote(node: Blockquote, context: Context, depth: number): string {
+  const callout = blockquoteCallout(node);
+  const outer = context.panel;
+  if (!callout) {
+    context.panel = { border: 'C1C7D0' };
+    const body = blocks(node.children, context, depth);
+    context.panel = outer;
+    return body;
+  }
+  const colours = PANEL_COLOURS[callout.kind];
+  context.panel = { border: colours.border, fill: colours.fill };
+  const body = paragraph(textRun(colours.title, { bold: true }), {}, context) + blocks(callout.children, context, depth);
+  context.panel = outer;
+  return body;
+}
+
+function orderedNumbering(context: Context, level: number, start: number): number {
+  const id = BULLET_NUMBERING + 1 + context.orderedLists.length;
+  context.orderedLists.push({ id, level, start });
+  return id;
+}
+
+function listItem(item: ListItem, numbering: number, context: Context, depth: number): string {
+  const level = Math.min(depth, 8);
+  const box = typeof item.checked === 'boolean' ? textRun(item.checked ? '☑ ' : '☐ ') : '';
+  let numbered = false;
+  const body = item.children.map(child => {
+    if (child.type === 'list') return list(child, context, depth + 1);
+    if (child.type === 'paragraph') {
+      const content = runs(child.children, context);
+      if (numbered) return paragraph(content, { style: 'ListParagraph', indent: 720 * (level + 1) }, context);
+      numbered = true;
+      return paragraph(box + content, { style: 'ListParagraph', numbering: { level, id: numbering } }, context);
+    }
+    return block(child, context, depth + 1);
+  }).join('');
+  // An empty item still gets its bullet
+  return numbered ? body : paragraph(box, { style: 'ListParagraph', numbering: { level, id: numbering } }, context) + body;
+}
+
+function list(node: List, context: Context, depth: number): string {
+  const numbering = node.ordered ? orderedNumbering(context, Math.min(depth, 8), node.start ?? 1) : BULLET_NUMBERING;
+  return node.children.map(item => listItem(item, numbering, context, depth)).join('');
+}
+
+// Cells are runs; the first row is the header
+function tableXml(rows: string[][], align: (string | null | undefined)[], context: Context): string {
+  const columns = Math.max(1, ...rows.map(row => row.length));
+  const width = Math.floor(TEXT_WIDTH / columns);
+  const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${width}"/>`).join('');
+  const outer = context.panel;
+  // Panels don't reach into tables
+  context.panel = null;
+  const body = rows.map((row, rowIndex) => {
+    const header = rowIndex === 0;
+    const cells = Array.from({ length: columns }, (_, index) => {
+      const alignment = align[index];
+      const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="DEEBFF"/>' : '';
+      const content = paragraph(row[index] ?? '', alignment && alignment !== 'left' ? { align: alignment as 'center' | 'right' } : {}, context);
+      return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>${content}</w:tc>`;
+    }).join('');
+    return `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+  }).join('');
+  context.panel = outer;
+  // The empty paragraph keeps two tables in a row from merging
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl><w:p/>`;
+}
+
+function table(node: Table, context: Context): string {
+  const rows = node.children.map((row, rowIndex) => row.children.map(cell => runs(cell.children, context, { bold: rowIndex === 0 })));
+  return tableXml(rows, node.align ?? [], context);
+}
+
+// Raw HTML: its tables are kept as tables, anything else as its text
+function htmlBlock(html: string, context: Context): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tables = Array.from(doc.querySelectorAll('table'));
+  if (tables.length) {
+    return tables.map(element => {
+      const rows = Array.from(element.rows).map((row, rowIndex) =>
+        Array.from(row.cells).map(cell => textRun((cell.textContent || '').trim(), { bold: rowIndex === 0 })));
+      return tableXml(rows, [], context);
+    }).join('');
+  }
+  const text = (doc.body.textContent || '').trim();
+  return text ? paragraph(textRun(text), {}, context) : '';
+}
+
+function detailsTable(details: [string, string][], context: Context): string {
+  if (!details.length) return '';
+  const rows = details.map(([label, value]) => `<w:tr>${[
+    `<w:tc><w:tcPr><w:tcW w:w="2400" w:type="dxa"/></w:tcPr>${paragraph(textRun(label, { bold: true }), {}, context)}</w:tc>`,
+    `<w:tc><w:tcPr><w:tcW w:w="${TEXT_WIDTH - 2400}" w:type="dxa"/></w:tcPr>${paragraph(textRun(value), {}, context)}</w:tc>`,
+  ].join('')}</w:tr>`).join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/></w:tblPr><w:tblGrid><w:gridCol w:w="2400"/><w:gridCol w:w="${TEXT_WIDTH - 2400}"/></w:tblGrid>${rows}</w:tbl><w:p/>`;
+}
+
+function footnotesXml(context: Context): string {
+  if (!context.footnotes.length) return '';
+  const notes = context.footnotes.map(footnote => {
+    const label = textRun(`[${footnote.label || footnote.identifier}] `, { superscript: true });
+    const [first, ...rest] = footnote.children;
+    const lead = first?.type === 'paragraph'
+      ? paragraph(label + runs(first.children, context), { style: 'FootnoteText' }, context)
+      : paragraph(label, { style: 'FootnoteText' }, context) + (first ? block(first, context, 0) : '');
+    return lead + blocks(rest, context);
+  });
+  return block({ type: 'thematicBreak' }, context, 0) + notes.join('');
+}
+
+const PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+// A TOC field whose entries are already filled in, so the contents show
+// without updating fields; updating it in Word adds the page numbers
+function contentsXml(entries: ContentsEntry[], context: Context): string {
+  if (!entries.length) return '';
+  const begin = '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  const end = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+  const lines = entries.map((entry, index) => {
+    const link = `<w:hyperlink w:anchor="${entry.id}" w:history="1">${textRun(entry.text)}</w:hyperlink>`;
+    return paragraph(`${index === 0 ? begin : ''}${link}${index === entries.length - 1 ? end : ''}`, { style: `TOC${entry.level}` }, context);
+  });
+  return paragraph(textRun('Contents'), { style: 'TOCHeading' }, context) + lines.join('') + PAGE_BREAK;
+}
+
+function headingStyle(level: number): string {
+  const sizes = [32, 28, 24, 22, 22, 22];
+  const colour = level <= 2 ? '0052CC' : '172B4D';
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>`
+    + `<w:pPr><w:keepNext/><w:spacing w:before="${level <= 2 ? 320 : 240}" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`
+    + `<w:rPr><w:b/>${level >= 5 ? '<w:i/>' : ''}<w:color w:val="${colour}"/><w:sz w:val="${sizes[level - 1]}"/><w:szCs w:val="${sizes[level - 1]}"/></w:rPr></w:style>`;
+}
+
+function stylesXml(): string {
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="C1C7D0"/>`;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS_W}">`
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="172B4D"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>'
+    + '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Brand"><w:name w:val="Brand"/><w:basedOn w:val="Normal"/><w:next w:val="Title"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="0052CC"/><w:spacing w:val="20"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Subtitle"/><w:qFormat/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:b/><w:color w:val="172B4D"/><w:sz w:val="48"/><w:szCs w:val="48"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="18" w:space="8" w:color="0052CC"/></w:pBdr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="5E6C84"/></w:rPr></w:style>'
+    + [1, 2, 3, 4, 5, 6].map(headingStyle).join('')
+    + '<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:before="120" w:after="60"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="TOC2"><w:name w:val="toc 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="40"/><w:ind w:left="360"/></w:pPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="DFE1E6"/><w:left w:val="single" w:sz="4" w:space="4" w:color="DFE1E6"/><w:bottom w:val="single" w:sz="4" w:space="4" w:color="DFE1E6"/><w:right w:val="single" w:sz="4" w:space="4" w:color="DFE1E6"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F4F5F7"/><w:spacing w:before="60" w:after="180" w:line="240" w:lineRule="auto"/><w:ind w:left="113" w:right="113"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>'
+    + '<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Inline Code"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:shd w:val="clear" w:color="auto" w:fill="F4F5F7"/></w:rPr></w:style>'
+    + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0052CC"/><w:u w:val="single"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:color w:val="5E6C84"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="6B778C"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>'
+    + `<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>`
+    + '</w:styles>';
+}
+
+function numberingXml(context: Context): string {
+  const abstract = (id: number, ordered: boolean) => {
+    const levels = Array.from({ length: 9 }, (_, level) => {
+      const format = ordered ? ['decimal', 'lowerLetter', 'lowerRoman'][level % 3] : 'bullet';
+      const text = ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level % 3];
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join('');
+    return `<w:abstractNum w:abstractNumId="${id}"><w:multiLevelType w:val="hybridMultilevel"/>${levels}</w:abstractNum>`;
+  };
+  const ordered = context.orderedLists.map(({ id, level, start }) =>
+    `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${NS_W}">${abstract(0, false)}${abstract(1, true)}<w:num w:numId="${BULLET_NUMBERING}"><w:abstractNumId w:val="0"/></w:num>${ordered}</w:numbering>`;
+}
+
+function footerXml(report: PreparedReport): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="${NS_W}" xmlns:r="${NS_R}"><w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr>`
+    + textRun(`Generated by Confluence AI Assistant · ${report.tool} · Page `)
+    + '<w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple></w:p></w:ftr>';
+}
+
+function coreXml(report: PreparedReport): string {
+  const created = report.generatedAt.toISOString().replace(/\.\d+Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+    + `<dc:title>${escapeXml(report.title)}</dc:title><dc:subject>${escapeXml(report.tool)}</dc:subject><dc:creator>Confluence AI Assistant</dc:creator>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>`
+    + '</cp:coreProperties>';
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Default Extension="png" ContentType="image/png"/>'
+  + '<Default Extension="jpeg" ContentType="image/jpeg"/>'
+  + '<Default Extension="gif" ContentType="image/gif"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+  + '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>'
+  + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+  + '</Types>';
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS_REL}">`
+  + `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>`
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+  + '</Relationships>';
+
+// The report as a .docx file. `diagrams` maps Mermaid sources to their PNGs.
+export function reportToDocx(report: PreparedReport, diagrams: Map<string, Uint8Array>): Blob {
+  const context: Context = {
+    definitions: collectDefinitions(report.body),
+    footnotes: [],
+    diagrams,
+    relationships: [
+      `<Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>`,
+      `<Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>`,
+      `<Relationship Id="rId3" Type="${REL_TYPE}/footer" Target="footer1.xml"/>`,
+    ],
+    media: [],
+    orderedLists: [],
+    nextId: 10,
+    panel: null,
+    bookmarks: new Map((report.contents || []).map(entry => [entry.heading, entry.id] as const)),
+  };
+
+  const header = [
+    paragraph(textRun('Confluence AI Assistant'), { style: 'Brand' }, context),
+    paragraph(textRun(report.title), { style: 'Title' }, context),
+    paragraph(textRun(`${report.tool} · ${report.generatedLabel}`), { style: 'Subtitle' }, context),
+    detailsTable(report.details, context),
+    // The title page, then the contents on a page of their own
+    report.contents ? PAGE_BREAK + contentsXml(report.contents, context) : '',
+  ].join('');
+  const body = blocks(report.body.children, context);
+  const footnotes = footnotesXml(context);
+  const section = '<w:sectPr><w:footerReference w:type="default" r:id="rId3"/><w:pgSz w:w="12240" w:h="15840"/>'
+    + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<w:body>${header}${body}${footnotes}${section}</w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+    { name: 'docProps/core.xml', data: coreXml(report) },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: stylesXml() },
+    { name: 'word/numbering.xml', data: numberingXml(context) },
+    { name: 'word/footer1.xml', data: footerXml(report) },
+    { name: 'word/_rels/document.xml.rels', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${NS_REL}">${context.relationships.join('')}</Relationships>` },
+    ...context.media,
+  ], DOCX_MIME);
+}
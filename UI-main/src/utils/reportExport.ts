@@ -0,0 +1,281 @@
+// The export engine behind every tool's Export button. A tool describes its
+// result as a markdown report, and the report is built here in the browser as
+// Markdown, styled HTML, PDF (the HTML printed through the browser's print
+// dialog, with print CSS), Word (DOCX) or JSON. PowerPoint (PPTX) is the one
+// format the backend builds: the report goes to `/export` as a slide outline.
+//
+// HTML, PDF and Word share one branded template: the assistant's name, the
+// report title, the tool and date, an optional details table, then the body
+// with its headings, tables, highlighted code, callouts and images. Mermaid
+// blocks are drawn as diagrams, and data: images (such as Chart Builder
+// charts) are embedded. Long reports, such as the combined report of the
+// report tray, can ask for a title page and a table of contents.
+
+import type { Heading, Nodes, Root, RootContent } from 'mdast';
+import { parseMarkdown, plainText } from './markdownTree';
+import { renderReportHtml } from './reportHtml';
+import { reportToDocx } from './reportDocx';
+import { reportSlides } from './reportSlides';
+import { blobToBase64, renderMermaid, standaloneSvg, svgToPng } from './mermaid';
+import { apiService, RequestOptions } from '../services/api';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'docx' | 'pptx' | 'json';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word Document' },
+  { value: 'pptx', label: 'PowerPoint' },
+  { value: 'json', label: 'JSON' },
+];
+
+export interface ReportDocument {
+  // Defaults to the markdown's leading H1, which is then not repeated in the body
+  title?: string;
+  // The tool that made it, e.g. "Impact Analyzer"
+  tool: string;
+  markdown: string;
+  // Shown as a small table under the title, e.g. the space and pages
+  details?: Record<string, string>;
+  // Puts the title and details on a page of their own, followed by a table of contents
+  contents?: boolean;
+}
+
+// A table of contents line: an H1 or H2 of the body
+export interface ContentsEntry {
+  // Anchor of the heading in the HTML, bookmark in Word
+  id: string;
+  level: number;
+  text: string;
+  heading: Heading;
+}
+
+export interface PreparedReport {
+  title: string;
+  tool: string;
+  generatedAt: Date;
+  // e.g. "March 3, 2025 at 4:05 PM", in the browser's locale
+  generatedLabel: string;
+  details: [string, string][];
+  body: Root;
+  // Null without a title page and table of contents
+  contents: ContentsEntry[] | null;
+}
+
+export interface ReportSection {
+  // Null for the text before the first heading
+  heading: string | null;
+  level: number;
+  markdown: string;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return EXPORT_FORMATS.some(format => format.value === value);
+}
+
+function leadingTitle(tree: Root): RootContent | null {
+  const first = tree.children[0];
+  return first?.type === 'heading' && first.depth === 1 ? first : null;
+}
+
+export function prepareReport(report: ReportDocument): PreparedReport {
+  const tree = parseMarkdown(report.markdown);
+  const lead = leadingTitle(tree);
+  const leadText = lead ? plainText(lead).trim() : '';
+  const dropLead = !!lead && (!report.title || leadText === report.title.trim());
+  const generatedAt = new Date();
+  const body = dropLead ? { ...tree, children: tree.children.slice(1) } : tree;
+  const headings = body.children.filter((node): node is Heading => node.type === 'heading' && node.depth <= 2);
+  return {
+    title: report.title || leadText || report.tool,
+    tool: report.tool,
+    generatedAt,
+    generatedLabel: generatedAt.toLocaleString(undefined, { dateStyle: 'long', timeStyle: 'short' }),
+    details: Object.entries(report.details || {}).filter(([, value]) => value),
+    body,
+    contents: report.contents
+      ? headings.map((heading, index) => ({ id: `section-${index + 1}`, level: heading.depth, text: plainText(heading).trim(), heading }))
+      : null,
+  };
+}
+
+// The markdown split at its headings
+export function reportSections(markdown: string): ReportSection[] {
+  const tree = parseMarkdown(markdown);
+  const sections: ReportSection[] = [];
+  let current: { heading: string | null; level: number; start: number } = { heading: null, level: 0, start: 0 };
+  const close = (end: number) => {
+    const text = markdown.slice(current.start, end).trim();
+    if (current.heading !== null || text) sections.push({ heading: current.heading, level: current.level, markdown: text });
+  };
+  tree.children.forEach(node => {
+    if (node.type !== 'heading' || !node.position) return;
+    close(node.position.start.offset ?? 0);
+    current = { heading: plainText(node).trim(), level: node.depth, start: node.position.end.offset ?? 0 };
+  });
+  close(markdown.length);
+  return sections;
+}
+
+// Heading anchors as GitHub makes them, for the markdown's table of contents
+function markdownAnchors(texts: string[]): string[] {
+  const seen = new Map<string, number>();
+  return texts.map(text => {
+    const slug = text.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-');
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+    return count ? `${slug}-${count}` : slug;
+  });
+}
+
+// The report as one markdown file: the title unless the markdown opens with it, the
+// details as a list, then a table of contents when asked for
+export function reportToMarkdown(report: ReportDocument): string {
+  const lead = leadingTitle(parseMarkdown(report.markdown));
+  const leadText = lead ? plainText(lead).trim() : '';
+  const title = report.title && leadText !== report.title.trim() ? `# ${report.title}\n\n` : '';
+  const details = Object.entries(report.details || {})
+    .filter(([, value]) => value)
+    .map(([label, value]) => `- **${label}**: ${value}`)
+    .join('\n');
+  let contents = '';
+  if (report.contents) {
+    const entries = prepareReport(report).contents || [];
+    const anchors = markdownAnchors(entries.map(entry => entry.text));
+    const lines = entries.map((entry, index) => `${'  '.repeat(entry.level - 1)}- [${entry.text}](#${anchors[index]})`);
+    if (lines.length) contents = `## Contents\n\n${lines.join('\n')}\n\n`;
+  }
+  return `${title}${details ? `${details}\n\n` : ''}${contents}${report.markdown.trim()}\n`;
+}
+
+function reportJson(report: ReportDocument): string {
+  const prepared = prepareReport(report);
+  return JSON.stringify({
+    title: prepared.title,
+    tool: prepared.tool,
+    generatedAt: prepared.generatedAt.toISOString(),
+    details: Object.fromEntries(prepared.details),
+    markdown: report.markdown,
+    sections: reportSections(report.markdown),
+  }, null, 2);
+}
+
+function mermaidSources(tree: Root): string[] {
+  const sources = new Set<string>();
+  const visit = (node: Nodes) => {
+    if (node.type === 'code' && node.lang?.toLowerCase() === 'mermaid' && node.value) sources.add(node.value);
+    if ('children' in node) (node.children as Nodes[]).forEach(visit);
+  };
+  visit(tree);
+  return [...sources];
+}
+
+// Each Mermaid block drawn with `draw`; blocks that don't render stay as code
+async function renderDiagrams<T>(tree: Root, draw: (svg: string) => Promise<T>): Promise<Map<string, T>> {
+  const diagrams = new Map<string, T>();
+  for (const source of mermaidSources(tree)) {
+    try {
+      diagrams.set(source, await draw(await renderMermaid(source)));
+    } catch {
+      // Exported as its source
+    }
+  }
+  return diagrams;
+}
+
+async function svgDataUrl(svg: string): Promise<string> {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(standaloneSvg(svg).svg)}`;
+}
+
+async function pngBytes(svg: string): Promise<Uint8Array> {
+  return new Uint8Array(await (await svgToPng(svg)).arrayBuffer());
+}
+
+async function pngBase64(svg: string): Promise<string> {
+  return blobToBase64(await svgToPng(svg));
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoked later: some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Prints the HTML from a hidden frame; the browser's dialog saves it as a PDF
+function printHtml(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+    frame.onload = () => {
+      const win = frame.contentWindow;
+      if (!win) {
+        frame.remove();
+        reject(new Error('Printing is not available in this browser'));
+        return;
+      }
+      const cleanup = () => setTimeout(() => frame.remove(), 500);
+      win.addEventListener('afterprint', cleanup, { once: true });
+      win.focus();
+      win.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
+
+function baseFilename(filename: string): string {
+  return filename.replace(/\.(md|markdown|html?|pdf|docx|pptx|json)$/i, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'report';
+}
+
+// Builds the report in `format` and downloads it as `filename` plus the
+// format's extension. PDF opens the print dialog instead, and PowerPoint
+// needs the backend, so `options` can cancel it.
+export async function exportReport(report: ReportDocument, format: ExportFormat, filename: string, options?: RequestOptions): Promise<void> {
+  const name = baseFilename(filename);
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([reportToMarkdown(report)], { type: 'text/markdown;charset=utf-8' }), `${name}.md`);
+      return;
+    case 'json':
+      downloadBlob(new Blob([reportJson(report)], { type: 'application/json' }), `${name}.json`);
+      return;
+    case 'html': {
+      const prepared = prepareReport(report);
+      const html = renderReportHtml(prepared, await renderDiagrams(prepared.body, svgDataUrl));
+      downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${name}.html`);
+      return;
+    }
+    case 'pdf': {
+      const prepared = prepareReport(report);
+      // The document title is the name the print dialog suggests for the PDF
+      await printHtml(renderReportHtml(prepared, await renderDiagrams(prepared.body, svgDataUrl), name));
+      return;
+    }
+    case 'docx': {
+      const prepared = prepareReport(report);
+      downloadBlob(reportToDocx(prepared, await renderDiagrams(prepared.body, pngBytes)), `${name}.docx`);
+      return;
+    }
+    case 'pptx': {
+      const prepared = prepareReport(report);
+      const deck = await apiService.exportContent({
+        content: report.markdown,
+        format: 'pptx',
+        filename: name,
+        title: prepared.title,
+        subtitle: `${prepared.tool} · ${prepared.generatedLabel}`,
+        details: Object.fromEntries(prepared.details),
+        slides: reportSlides(prepared, await renderDiagrams(prepared.body, pngBase64)),
+      }, options);
+      downloadBlob(deck, `${name}.pptx`);
+      return;
+    }
+  }
+}
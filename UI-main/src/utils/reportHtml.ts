@@ -0,0 +1,301 @@
+// A report as a standalone, styled HTML document: the HTML export, and what
+// the PDF export prints. Styles are inlined so the file looks the same
+// anywhere, and print CSS keeps code, tables and figures off page breaks.
+// Raw HTML in the markdown (such as Chart Builder tables) goes through the
+// sanitizer; links and images keep only safe URLs.
+
+import type {
+  Blockquote,
+  Code,
+  Definition,
+  FootnoteDefinition,
+  Heading,
+  List,
+  ListItem,
+  PhrasingContent,
+  RootContent,
+  Table,
+} from 'mdast';
+import type { ContentsEntry, PreparedReport } from './reportExport';
+import { highlightCode } from './highlight';
+import { CalloutKind, blockquoteCallout, collectDefinitions } from './markdownTree';
+import { isSafeUrl, sanitizeHtml } from './sanitizeHtml';
+
+interface Context {
+  definitions: Map<string, Definition>;
+  footnotes: FootnoteDefinition[];
+  // Mermaid source to the diagram's image URL
+  diagrams: Map<string, string>;
+  // Anchors of the headings in the table of contents
+  anchors: Map<Heading, string>;
+}
+
+const CALLOUT_TITLES: Record<CalloutKind, string> = {
+  info: 'Note',
+  tip: 'Tip',
+  note: 'Important',
+  warning: 'Warning',
+};
+
+const REPORT_CSS = `
+  :root { --blue: #0052cc; --text: #172b4d; --muted: #5e6c84; --border: #dfe1e6; --surface: #f4f5f7; }
+  * { box-sizing: border-box; }
+  body { margin: 0 auto; max-width: 900px; padding: 32px 40px; color: var(--text); font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; }
+  .report-header { border-bottom: 3px solid var(--blue); padding-bottom: 16px; margin-bottom: 24px; }
+  .brand { color: var(--blue); font-size: 12px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; }
+  .report-header h1 { margin: 6px 0 4px; font-size: 30px; line-height: 1.2; }
+  .meta { color: var(--muted); font-size: 13px; }
+  .details { margin: 0 0 24px; font-size: 13px; }
+  .details th { background: none; text-align: left; color: var(--muted); font-weight: 600; }
+  h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.4em 0 0.5em; }
+  h1 { font-size: 26px; } h2 { font-size: 22px; color: var(--blue); } h3 { font-size: 18px; } h4, h5, h6 { font-size: 15px; }
+  p, ul, ol, table, pre, blockquote, figure, .callout { margin: 0 0 14px; }
+  a { color: var(--blue); }
+  code { font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; font-size: 0.9em; background: var(--surface); padding: 1px 4px; border-radius: 3px; }
+  pre { background: var(--surface); border: 1px solid var(--border); border-radius: 6px; padding: 12px 14px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+  pre code { background: none; padding: 0; font-size: 13px; }
+  .code-language { display: block; color: var(--muted); font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; margin-bottom: 6px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { border: 1px solid var(--border); padding: 6px 10px; vertical-align: top; }
+  th { background: #deebff; text-align: left; }
+  tr:nth-child(even) td { background: #fafbfc; }
+  blockquote { border-left: 4px solid #c1c7d0; padding: 4px 14px; color: #42526e; }
+  .callout { border-left: 4px solid; border-radius: 4px; padding: 10px 14px; }
+  .callout-title { font-weight: 700; margin-bottom: 4px; }
+  .callout > :last-child, blockquote > :last-child { margin-bottom: 0; }
+  .callout-info { border-color: #0065ff; background: #deebff; }
+  .callout-tip { border-color: #00875a; background: #e3fcef; }
+  .callout-note { border-color: #6554c0; background: #eae6ff; }
+  .callout-warning { border-color: #ff991f; background: #fffae6; }
+  ul.tasks { list-style: none; padding-left: 4px; }
+  .task-box { display: inline-block; width: 1.2em; }
+  img { max-width: 100%; height: auto; }
+  figure { text-align: center; }
+  hr { border: 0; border-top: 1px solid var(--border); margin: 24px 0; }
+  .footnotes { font-size: 13px; color: var(--muted); }
+  .title-page { min-height: 60vh; display: flex; flex-direction: column; justify-content: center; }
+  .title-page .report-header h1 { font-size: 40px; }
+  .contents { margin: 0 0 32px; padding: 16px 20px; background: var(--surface); border-radius: 6px; }
+  .contents h2 { margin-top: 0; color: var(--text); }
+  .contents ol { margin: 0; padding-left: 20px; }
+  .contents ul { margin: 2px 0 6px; padding-left: 20px; list-style: circle; }
+  .report-footer { margin-top: 40px; padding-top: 12px; border-top: 1px solid var(--border); color: var(--muted); font-size: 12px; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag { color: #d73a49; }
+  .hljs-string, .hljs-regexp, .hljs-selector-attr { color: #032f62; }
+  .hljs-comment, .hljs-quote { color: #6a737d; font-style: italic; }
+  .hljs-number, .hljs-literal, .hljs-attr, .hljs-variable, .hljs-template-variable, .hljs-attribute { color: #005cc5; }
+  .hljs-title, .hljs-section, .hljs-title.function_ { color: #6f42c1; }
+  .hljs-built_in, .hljs-name, .hljs-tag, .hljs-selector-id, .hljs-selector-class { color: #22863a; }
+  .hljs-meta { color: #735c0f; }
+  .hljs-addition { color: #22863a; background: #f0fff4; }
+  .hljs-deletion { color: #b31d28; background: #ffeef0; }
+  @page { margin: 18mm 16mm; }
+  @media print {
+    body { max-width: none; padding: 0; font-size: 11pt; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    pre, table, figure, blockquote, .callout, img { break-inside: avoid; }
+    h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+    a { text-decoration: none; }
+    .title-page { min-height: 0; height: 240mm; break-after: page; }
+    .contents { background: none; padding: 0; break-after: page; }
+  }
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function linkHtml(url: string, body: string): string {
+  return url && isSafeUrl(url) ? `<a href="${escapeHtml(url)}">${body}</a>` : body;
+}
+
+function imageHtml(url: string, alt: string): string {
+  return isSafeUrl(url, true) ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}" />` : escapeHtml(alt);
+}
+
+function phrasing(nodes: PhrasingContent[], context: Context): string {
+  return nodes.map(node => inline(node, context)).join('');
+}
+
+function inline(node: PhrasingContent, context: Context): string {
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.value);
+    case 'emphasis':
+      return `<em>${phrasing(node.children, context)}</em>`;
+    case 'strong':
+      return `<strong>${phrasing(node.children, context)}</strong>`;
+    case 'delete':
+      return `<del>${phrasing(node.children, context)}</del>`;
+    case 'inlineCode':
+      return `<code>${escapeHtml(node.value)}</code>`;
+    case 'break':
+      return '<br />';
+    case 'link':
+      return linkHtml(node.url, phrasing(node.children, context));
+    case 'linkReference':
+      return linkHtml(context.definitions.get(node.identifier)?.url || '', phrasing(node.children, context));
+    case 'image':
+      return imageHtml(node.url, node.alt || '');
+    case 'imageReference': {
+      const definition = context.definitions.get(node.identifier);
+      return definition ? imageHtml(definition.url, node.alt || '') : escapeHtml(node.alt || '');
+    }
+    case 'footnoteReference': {
+      const label = escapeHtml(node.label || node.identifier);
+      return `<sup><a href="#footnote-${label}">[${label}]</a></sup>`;
+    }
+    default:
+      // Inline raw HTML is dropped
+      return '';
+  }
+}
+
+function blocks(nodes: RootContent[], context: Context): string {
+  return nodes.map(node => block(node, context)).filter(Boolean).join('\n');
+}
+
+function block(node: RootContent, context: Context): string {
+  switch (node.type) {
+    case 'paragraph':
+      return `<p>${phrasing(node.children, context)}</p>`;
+    case 'heading': {
+      const anchor = context.anchors.get(node);
+      return `<h${node.depth}${anchor ? ` id="${anchor}"` : ''}>${phrasing(node.children, context)}</h${node.depth}>`;
+    }
+    case 'thematicBreak':
+      return '<hr />';
+    case 'blockquote':
+      return blockquote(node, context);
+    case 'list':
+      return list(node, context);
+    case 'code':
+      return code(node, context);
+    case 'table':
+      return table(node, context);
+    case 'html':
+      return sanitizeHtml(node.value);
+    case 'footnoteDefinition':
+      context.footnotes.push(node);
+      return '';
+    default:
+      return '';
+  }
+}
+
+function code(node: Code, context: Context): string {
+  const diagram = node.lang?.toLowerCase() === 'mermaid' ? context.diagrams.get(node.value) : undefined;
+  if (diagram) return `<figure><img src="${escapeHtml(diagram)}" alt="Diagram" /></figure>`;
+  const language = node.lang || '';
+  const highlighted = highlightCode(node.value, language);
+  const label = language ? `<span class="code-language">${escapeHtml(language)}</span>` : '';
+  return `<pre>${label}<code class="hljs">${highlighted ?? escapeHtml(node.value)}</code></pre>`;
+}
+
+function blockquote(node: Blockquote, context: Context): string {
+  const callout = blockquoteCallout(node);
+  if (!callout) return `<blockquote>${blocks(node.children, context)}</blockquote>`;
+  return [
+    `<div class="callout callout-${callout.kind}">`,
+    `<div class="callout-title">${CALLOUT_TITLES[callout.kind]}</div>`,
+    blocks(callout.children, context),
+    '</div>',
+  ].join('');
+}
+
+function listItem(item: ListItem, spread: boolean, context: Context): string {
+  const body = item.children
+    .map(child => (child.type === 'paragraph' && !spread ? phrasing(child.children, context) : block(child, context)))
+    .join('');
+  if (typeof item.checked !== 'boolean') return `<li>${body}</li>`;
+  return `<li><span class="task-box">${item.checked ? '☑' : '☐'}</span>${body}</li>`;
+}
+
+function list(node: List, context: Context): string {
+  const spread = Boolean(node.spread || node.children.some(item => item.spread));
+  const items = node.children.map(item => listItem(item, spread, context)).join('');
+  const tasks = node.children.length > 0 && node.children.every(item => typeof item.checked === 'boolean');
+  if (!node.ordered) return `<ul${tasks ? ' class="tasks"' : ''}>${items}</ul>`;
+  const start = typeof node.start === 'number' && node.start !== 1 ? ` start="${node.start}"` : '';
+  return `<ol${start}>${items}</ol>`;
+}
+
+function table(node: Table, context: Context): string {
+  const rows = node.children.map((row, rowIndex) => {
+    const tag = rowIndex === 0 ? 'th' : 'td';
+    const cells = row.children.map((cell, cellIndex) => {
+      const align = node.align?.[cellIndex];
+      const style = align && align !== 'left' ? ` style="text-align: ${align};"` : '';
+      return `<${tag}${style}>${phrasing(cell.children, context)}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  const [head, ...body] = rows;
+  return `<table><thead>${head ?? ''}</thead><tbody>${body.join('')}</tbody></table>`;
+}
+
+function footnotesHtml(context: Context): string {
+  if (!context.footnotes.length) return '';
+  const items = context.footnotes.map(footnote => {
+    const label = escapeHtml(footnote.label || footnote.identifier);
+    return `<li id="footnote-${label}">${blocks(footnote.children, context)}</li>`;
+  });
+  return `<hr />\n<ol class="footnotes">${items.join('')}</ol>`;
+}
+
+// H1s numbered, with their H2s under them
+function contentsHtml(entries: ContentsEntry[]): string {
+  const link = (entry: ContentsEntry) => `<a href="#${entry.id}">${escapeHtml(entry.text)}</a>`;
+  const items: string[] = [];
+  let index = 0;
+  while (index < entries.length) {
+    const entry = entries[index++];
+    const children: ContentsEntry[] = [];
+    while (entry.level === 1 && index < entries.length && entries[index].level > 1) children.push(entries[index++]);
+    const sublist = children.length ? `<ul>${children.map(child => `<li>${link(child)}</li>`).join('')}</ul>` : '';
+    items.push(`<li>${link(entry)}${sublist}</li>`);
+  }
+  return `<ol>${items.join('')}</ol>`;
+}
+
+// The report as an HTML document. `diagrams` maps Mermaid sources to image
+// URLs; `documentTitle` is the page title, which defaults to the report's.
+export function renderReportHtml(report: PreparedReport, diagrams: Map<string, string>, documentTitle = report.title): string {
+  const anchors = new Map((report.contents || []).map(entry => [entry.heading, entry.id] as const));
+  const context: Context = { definitions: collectDefinitions(report.body), footnotes: [], diagrams, anchors };
+  const body = blocks(report.body.children, context);
+  const footnotes = footnotesHtml(context);
+  const date = report.generatedLabel;
+  const details = report.details.length
+    ? `<table class="details"><tbody>${report.details.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>`
+    : '';
+  const header = `<header class="report-header">
+<div class="brand">Confluence AI Assistant</div>
+<h1>${escapeHtml(report.title)}</h1>
+<div class="meta">${escapeHtml(report.tool)} · ${escapeHtml(date)}</div>
+</header>
+${details}`;
+  const contents = report.contents?.length
+    ? `<nav class="contents">\n<h2>Contents</h2>\n${contentsHtml(report.contents)}\n</nav>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="generator" content="Confluence AI Assistant" />
+<title>${escapeHtml(documentTitle)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+${report.contents ? `<section class="title-page">\n${header}\n</section>\n${contents}` : header}
+<main>
+${body}
+${footnotes}
+</main>
+<footer class="report-footer">Generated by Confluence AI Assistant · ${escapeHtml(report.tool)} · ${escapeHtml(date)}</footer>
+</body>
+</html>
+`;
+}
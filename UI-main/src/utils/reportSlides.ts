@@ -0,0 +1,186 @@
+// A report as the outline of a PowerPoint deck. The backend draws the deck
+// on its template (python-pptx), with a title slide from the report's title,
+// tool, date and details; this decides what goes on which slide.
+//
+// Every H1 and H2 starts a slide. Lists become bullets at their nesting
+// level, paragraphs and quotes a bullet each, and a deeper heading a bullet
+// with what follows it nested underneath. Tables become a bullet per row.
+// Images (data: URLs) and rendered Mermaid diagrams go beside the slide's
+// bullets. A slide that fills up continues on the next one. Code, and text
+// cut short to fit, go to the speaker notes.
+
+import type { List, ListItem, Nodes, PhrasingContent, RootContent, Table } from 'mdast';
+import type { ExportSlide } from '../services/api';
+import type { PreparedReport } from './reportExport';
+import { CalloutKind, blockquoteCallout, plainText } from './markdownTree';
+
+const MAX_BULLETS = 7;
+// Beside an image, the bullets get half the slide
+const MAX_BULLETS_WITH_IMAGE = 4;
+const MAX_BULLET_LENGTH = 220;
+const MAX_TABLE_ROWS = 6;
+const CALLOUT_LABELS: Record<CalloutKind, string> = { info: 'Note', tip: 'Tip', note: 'Important', warning: 'Warning' };
+const DATA_IMAGE = /^data:(image\/(?:png|jpe?g|gif));base64,([a-z0-9+/=\s]+)$/i;
+
+interface Context {
+  slides: ExportSlide[];
+  // The slide being filled, null until the section has content
+  current: ExportSlide | null;
+  // The last H1 or H2, which titles its slides
+  section: string;
+  // Slides the section has so far, for "(cont.)"
+  sectionSlides: number;
+  // Bullet level of a deeper heading's content
+  depth: number;
+  // Base64 PNGs of the Mermaid diagrams by source
+  diagrams: Map<string, string>;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function newSlide(context: Context): ExportSlide {
+  const title = context.sectionSlides > 0 ? `${context.section} (cont.)` : context.section;
+  const slide: ExportSlide = { title, bullets: [] };
+  context.slides.push(slide);
+  context.current = slide;
+  context.sectionSlides++;
+  return slide;
+}
+
+function addNote(slide: ExportSlide, text: string) {
+  slide.notes = slide.notes ? `${slide.notes}\n\n${text}` : text;
+}
+
+function addBullet(context: Context, text: string, level: number) {
+  const line = collapse(text);
+  if (!line) return;
+  let slide = context.current ?? newSlide(context);
+  if (slide.bullets.length >= (slide.image ? MAX_BULLETS_WITH_IMAGE : MAX_BULLETS)) slide = newSlide(context);
+  let shown = line;
+  if (line.length > MAX_BULLET_LENGTH) {
+    const cut = line.slice(0, MAX_BULLET_LENGTH);
+    shown = `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+    addNote(slide, line);
+  }
+  slide.bullets.push({ text: shown, level: Math.min(level, 2) });
+}
+
+function addImage(context: Context, data: string, contentType: string, caption?: string) {
+  let slide = context.current ?? newSlide(context);
+  if (slide.image || slide.bullets.length > MAX_BULLETS_WITH_IMAGE) slide = newSlide(context);
+  slide.image = { data, content_type: contentType, ...(caption ? { caption } : {}) };
+}
+
+// Images of a paragraph, which go on the slide; its text is the bullet
+function paragraphImages(nodes: PhrasingContent[], context: Context) {
+  nodes.forEach(node => {
+    if (node.type === 'image') {
+      const match = DATA_IMAGE.exec(node.url.trim());
+      if (match) addImage(context, match[2].replace(/\s+/g, ''), match[1].toLowerCase().replace('jpg', 'jpeg'), node.alt || undefined);
+    } else if ('children' in node) {
+      paragraphImages(node.children as PhrasingContent[], context);
+    }
+  });
+}
+
+function itemText(item: ListItem): string {
+  const first = item.children[0];
+  const text = first && first.type !== 'list' ? plainText(first) : '';
+  return item.checked === true ? `☑ ${text}` : item.checked === false ? `☐ ${text}` : text;
+}
+
+function list(node: List, level: number, context: Context) {
+  node.children.forEach(item => {
+    addBullet(context, itemText(item), level);
+    item.children.slice(1).forEach(child => {
+      if (child.type === 'list') list(child, level + 1, context);
+      else block(child, context, level + 1);
+    });
+  });
+}
+
+function rows(cells: string[][], level: number, context: Context) {
+  cells.slice(0, MAX_TABLE_ROWS).forEach(row => addBullet(context, row.filter(Boolean).join(' · '), level));
+  if (cells.length > MAX_TABLE_ROWS) {
+    addBullet(context, `… and ${cells.length - MAX_TABLE_ROWS} more rows`, level);
+    if (context.current) addNote(context.current, cells.map(row => row.join(' | ')).join('\n'));
+  }
+}
+
+function table(node: Table, level: number, context: Context) {
+  rows(node.children.map(row => row.children.map(cell => collapse(plainText(cell)))), level, context);
+}
+
+// Chart Builder's tables are HTML blocks: their rows, without the markup
+function htmlTableRows(html: string): string[][] {
+  return html.split(/<\/tr\s*>/i)
+    .map(row => [...row.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]\s*>/gi)].map(cell => collapse(
+      cell[1].replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&'),
+    )))
+    .filter(row => row.length > 0);
+}
+
+function block(node: RootContent, context: Context, level = context.depth) {
+  switch (node.type) {
+    case 'heading':
+      if (node.depth <= 2) {
+        context.section = collapse(plainText(node)) || context.section;
+        context.sectionSlides = 0;
+        context.current = null;
+        context.depth = 0;
+      } else {
+        addBullet(context, plainText(node), 0);
+        context.depth = 1;
+      }
+      return;
+    case 'paragraph':
+      paragraphImages(node.children, context);
+      addBullet(context, plainText({ ...node, children: node.children.filter(child => child.type !== 'image') }), level);
+      return;
+    case 'list':
+      list(node, level, context);
+      return;
+    case 'blockquote': {
+      const callout = blockquoteCallout(node);
+      const text = collapse((callout ? callout.children : node.children).map(child => plainText(child as Nodes)).join(' '));
+      addBullet(context, callout ? `${CALLOUT_LABELS[callout.kind]}: ${text}` : `“${text}”`, level);
+      return;
+    }
+    case 'table':
+      table(node, level, context);
+      return;
+    case 'code': {
+      const diagram = node.lang?.toLowerCase() === 'mermaid' ? context.diagrams.get(node.value) : undefined;
+      if (diagram) {
+        addImage(context, diagram, 'image/png');
+        return;
+      }
+      const lines = node.value.split('\n').length;
+      addBullet(context, `${node.lang ? `${node.lang} code` : 'Code'}, ${lines} line${lines === 1 ? '' : 's'} (in the speaker notes)`, level);
+      if (context.current) addNote(context.current, node.value);
+      return;
+    }
+    case 'html':
+      if (/<tr\b/i.test(node.value)) rows(htmlTableRows(node.value), level, context);
+      return;
+    default:
+      return;
+  }
+}
+
+// The slides after the title slide. `diagrams` are base64 PNGs of the Mermaid blocks by source.
+export function reportSlides(report: PreparedReport, diagrams: Map<string, string>): ExportSlide[] {
+  const context: Context = { slides: [], current: null, section: report.title, sectionSlides: 0, depth: 0, diagrams };
+  if (report.contents?.length) {
+    const top = Math.min(...report.contents.map(entry => entry.level));
+    context.section = 'Contents';
+    report.contents.forEach(entry => addBullet(context, entry.text, entry.level - top));
+    context.section = report.title;
+    context.sectionSlides = 0;
+    context.current = null;
+  }
+  report.body.children.forEach(node => block(node, context));
+  return context.slides;
+}
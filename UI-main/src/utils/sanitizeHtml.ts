@@ -0,0 +1,118 @@
+// Allow-list HTML sanitizer for content we didn't write ourselves: Confluence
+// page storage, and tables and answers that passed through the LLM.
+//
+// The input is parsed into a detached document (nothing in it runs or loads)
+// and copied node by node into a fresh one. Only the elements and attributes
+// listed here survive; event handlers, styles and scripts never do. Elements
+// that aren't allowed are unwrapped so their text is kept, except for the
+// ones in DROPPED_ELEMENTS, which go with everything inside them.
+
+const ALLOWED_ELEMENTS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup', 'dd', 'del', 'div', 'dl', 'dt',
+  'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark',
+  'ol', 'p', 'pre', 's', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'time', 'tr', 'u', 'ul',
+]);
+
+const DROPPED_ELEMENTS = new Set([
+  'base', 'button', 'embed', 'form', 'frame', 'frameset', 'head', 'iframe', 'input', 'link', 'math', 'meta',
+  'noscript', 'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title',
+]);
+
+const GLOBAL_ATTRIBUTES = ['title', 'lang', 'dir'];
+
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'name'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'type'],
+  time: ['datetime'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const SAFE_IMAGE_DATA = /^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=\s]+$/i;
+
+// Relative URLs and the schemes above; never javascript:, vbscript: or data: (except inline images)
+export function isSafeUrl(value: string, forImage = false): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme ("java\nscript:")
+  // eslint-disable-next-line no-control-regex
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (forImage && SAFE_IMAGE_DATA.test(value.trim())) return true;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase() + ':');
+}
+
+// Renders an element the sanitizer would otherwise unwrap or drop, e.g. a
+// Confluence macro. Returns the node to insert, null to drop the element, or
+// undefined to apply the default rules.
+export type ElementRenderer = (element: Element, context: SanitizeContext) => Node | null | undefined;
+
+export interface SanitizeContext {
+  doc: Document;
+  // Sanitizes `from`'s children into `into`, with the same renderer
+  renderChildren: (from: Node, into: Node) => void;
+}
+
+function copyAttributes(source: Element, target: Element) {
+  const tag = target.tagName.toLowerCase();
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(ELEMENT_ATTRIBUTES[tag] || [])];
+  for (const name of allowed) {
+    const value = source.getAttribute(name);
+    if (value === null) continue;
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, tag === 'img')) continue;
+    target.setAttribute(name, value);
+  }
+  if (tag === 'a' && target.hasAttribute('href')) {
+    // Links open outside the app, and can't reach back into it
+    target.setAttribute('target', '_blank');
+    target.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+}
+
+function sanitizeInto(source: Node, target: Node, context: SanitizeContext, render?: ElementRenderer) {
+  source.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      target.appendChild(context.doc.createTextNode(node.textContent || ''));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const custom = render?.(element, context);
+    if (custom !== undefined) {
+      if (custom) target.appendChild(custom);
+      return;
+    }
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_ELEMENTS.has(tag)) return;
+    if (!ALLOWED_ELEMENTS.has(tag)) {
+      sanitizeInto(element, target, context, render);
+      return;
+    }
+    const copy = context.doc.createElement(tag);
+    copyAttributes(element, copy);
+    sanitizeInto(element, copy, context, render);
+    target.appendChild(copy);
+  });
+}
+
+// Parses `html` and returns the sanitized copy as a detached element
+export function sanitizeToElement(html: string, render?: ElementRenderer): HTMLElement {
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const doc = document.implementation.createHTMLDocument('');
+  const root = doc.createElement('div');
+  const context: SanitizeContext = {
+    doc,
+    renderChildren: (from, into) => sanitizeInto(from, into, context, render),
+  };
+  sanitizeInto(source.body, root, context, render);
+  return root;
+}
+
+export function sanitizeHtml(html: string, render?: ElementRenderer): string {
+  if (!html) return '';
+  return sanitizeToElement(html, render).innerHTML;
+}
@@ -0,0 +1,63 @@
+// Runs Agent Mode plan steps concurrently. A step is independent unless it
+// takes an earlier step's output (`input_from`), in which case it starts once
+// that step has settled, whether it succeeded or not.
+
+import type { PlannedStep } from '../services/api';
+
+// Runs `runOne` for every step (or just those in `only`), at most `limit` at a
+// time. `runOne` is expected to handle a step's own failure; a rejection is
+// taken to mean the whole run is over, so no further steps start and the
+// returned promise rejects once the running ones settle.
+export function runStepGraph(
+  steps: PlannedStep[],
+  limit: number,
+  runOne: (index: number) => Promise<void>,
+  only?: Set<number>,
+): Promise<void> {
+  const pending = new Set(steps.map((_, index) => index).filter(index => !only || only.has(index)));
+  const settled = new Set(steps.map((_, index) => index).filter(index => !pending.has(index)));
+  const cap = Math.max(1, limit);
+  let running = 0;
+  let failure: { error: unknown } | null = null;
+
+  // An input from the step itself or a later one can never be satisfied, so it is ignored
+  const isReady = (index: number) => {
+    const source = steps[index].input_from;
+    return !source || source > index || settled.has(source - 1);
+  };
+
+  return new Promise((resolve, reject) => {
+    const pump = () => {
+      if (failure) {
+        if (running === 0) reject(failure.error);
+        return;
+      }
+      for (const index of [...pending]) {
+        if (running >= cap) break;
+        if (!isReady(index)) continue;
+        pending.delete(index);
+        running++;
+        runOne(index)
+          .catch(error => {
+            if (!failure) failure = { error };
+          })
+          .finally(() => {
+            running--;
+            settled.add(index);
+            pump();
+          });
+      }
+      if (pending.size === 0 && running === 0) resolve();
+    };
+    pump();
+  });
+}
+
+// The step at `index` plus every step that reads its output, directly or through another step
+export function withDependents(steps: PlannedStep[], index: number): Set<number> {
+  const indices = new Set([index]);
+  steps.forEach((step, i) => {
+    if (i > index && step.input_from && indices.has(step.input_from - 1)) indices.add(i);
+  });
+  return indices;
+}
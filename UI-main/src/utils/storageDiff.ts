@@ -0,0 +1,322 @@
+// Structural diff of two Confluence storage-format bodies, for the preview
+// shown before saving.
+//
+// Both bodies are split into top-level blocks (paragraphs, headings, tables,
+// lists, code, macros...), layouts are looked through, and the block lists
+// are compared with a longest-common-subsequence match. A removed and an
+// added block of the same kind that share most of their words count as one
+// changed block, with a word-level diff of its text.
+
+import { closeStorageTags } from './storageFormat';
+
+export type BlockKind =
+  | 'paragraph' | 'heading' | 'table' | 'list' | 'tasks' | 'code' | 'macro' | 'image' | 'quote' | 'rule' | 'other';
+
+export interface StorageBlock {
+  kind: BlockKind;
+  // e.g. `Heading "Setup"`, `Table (4 rows)`, `info macro`
+  label: string;
+  // The block's storage format
+  html: string;
+  // Its text, with whitespace collapsed
+  text: string;
+  // What "the same block" means: kind plus normalized markup
+  signature: string;
+}
+
+export interface WordChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface BlockChange {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  old?: StorageBlock;
+  new?: StorageBlock;
+  // For changed blocks
+  words?: WordChange[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  // Blocks the page loses, removed outright or replaced by a changed version
+  lost: StorageBlock[];
+}
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const BLOCK_KINDS: Record<string, BlockKind> = {
+  p: 'paragraph',
+  table: 'table',
+  ul: 'list',
+  ol: 'list',
+  pre: 'code',
+  blockquote: 'quote',
+  hr: 'rule',
+  'ac:task-list': 'tasks',
+  'ac:image': 'image',
+  'ac:structured-macro': 'macro',
+  'ac:macro': 'macro',
+  ...Object.fromEntries(HEADINGS.map(tag => [tag, 'heading' as const])),
+};
+// Looked through: their children are the blocks
+const CONTAINERS = new Set(['ac:layout', 'ac:layout-section', 'ac:layout-cell', 'div', 'section']);
+const CODE_MACROS = new Set(['code', 'noformat']);
+
+// Pairs of blocks (or words) beyond this are compared as wholes instead
+const MAX_COMPARISONS = 1_000_000;
+// Share of words a removed and an added block need in common to be one changed block
+const CHANGED_SIMILARITY = 0.4;
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length = 40): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function describe(element: Element, kind: BlockKind, text: string): { kind: BlockKind; label: string } {
+  const tag = element.tagName.toLowerCase();
+  switch (kind) {
+    case 'heading':
+      return { kind, label: `Heading "${truncate(text)}"` };
+    case 'table':
+      return { kind, label: `Table (${element.querySelectorAll('tr').length} rows)` };
+    case 'list':
+      return { kind, label: `${tag === 'ol' ? 'Numbered list' : 'List'} (${element.children.length} items)` };
+    case 'macro': {
+      const name = (element.getAttribute('ac:name') || 'unknown').toLowerCase();
+      return CODE_MACROS.has(name) ? { kind: 'code', label: 'Code block' } : { kind, label: `${name} macro` };
+    }
+    case 'code':
+      return { kind, label: 'Code block' };
+    case 'tasks':
+      return { kind, label: 'Task list' };
+    case 'image':
+      return { kind, label: 'Image' };
+    case 'quote':
+      return { kind, label: 'Quote' };
+    case 'rule':
+      return { kind, label: 'Divider' };
+    default:
+      return { kind, label: text ? 'Paragraph' : 'Empty paragraph' };
+  }
+}
+
+function makeBlock(element: Element, kind: BlockKind, html: string): StorageBlock {
+  const text = collapse(element.textContent || '');
+  const described = describe(element, kind, text);
+  return { ...described, html, text, signature: `${described.kind}:${collapse(html)}` };
+}
+
+function collectBlocks(parent: Element, doc: Document, blocks: StorageBlock[]) {
+  // Text and inline markup between blocks make up an implied paragraph
+  let inline: Node[] = [];
+  const flushInline = () => {
+    const wrapper = doc.createElement('p');
+    inline.forEach(node => wrapper.appendChild(node.cloneNode(true)));
+    inline = [];
+    if (collapse(wrapper.textContent || '') || wrapper.querySelector('*')) {
+      blocks.push(makeBlock(wrapper, 'paragraph', wrapper.innerHTML));
+    }
+  };
+
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      if (node.nodeType === Node.TEXT_NODE) inline.push(node);
+      return;
+    }
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (CONTAINERS.has(tag)) {
+      flushInline();
+      collectBlocks(element, doc, blocks);
+    } else if (BLOCK_KINDS[tag]) {
+      flushInline();
+      blocks.push(makeBlock(element, BLOCK_KINDS[tag], element.outerHTML));
+    } else {
+      inline.push(element);
+    }
+  });
+  flushInline();
+}
+
+export function splitBlocks(storage: string): StorageBlock[] {
+  if (!storage.trim()) return [];
+  const doc = new DOMParser().parseFromString(closeStorageTags(storage), 'text/html');
+  const blocks: StorageBlock[] = [];
+  collectBlocks(doc.body, doc, blocks);
+  return blocks;
+}
+
+// Longest common subsequence of two lists, as index pairs in order
+function matchSequences<T>(a: T[], b: T[], same: (x: T, y: T) => boolean): Array<[number, number]> {
+  if (a.length * b.length > MAX_COMPARISONS) return [];
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\w+|[^\s\w]/g) || [];
+}
+
+export function diffWords(oldText: string, newText: string): WordChange[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  if (a.length * b.length > MAX_COMPARISONS) {
+    return [{ type: 'removed', text: oldText }, { type: 'added', text: newText }];
+  }
+  const changes: WordChange[] = [];
+  const push = (type: WordChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) last.text += text;
+    else changes.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of [...matchSequences(a, b, (x, y) => x === y), [a.length, b.length] as [number, number]]) {
+    while (i < matchA) push('removed', a[i++]);
+    while (j < matchB) push('added', b[j++]);
+    if (matchA < a.length) {
+      push('same', a[matchA]);
+      i = matchA + 1;
+      j = matchB + 1;
+    }
+  }
+  return changes;
+}
+
+function similarity(a: StorageBlock, b: StorageBlock): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/\w+/g) || []);
+  const wordsA = words(a.text);
+  const wordsB = words(b.text);
+  if (wordsA.size === 0 && wordsB.size === 0) return a.kind === b.kind ? 1 : 0;
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+function isChange(a: StorageBlock, b: StorageBlock): boolean {
+  return a.kind === b.kind && similarity(a, b) >= CHANGED_SIMILARITY;
+}
+
+// Lines up the blocks between two matches: similar pairs become changed
+// blocks, the rest are removed or added in page order
+function alignGap(removed: StorageBlock[], added: StorageBlock[], changes: BlockChange[]) {
+  let i = 0;
+  let j = 0;
+  while (i < removed.length || j < added.length) {
+    const oldBlock = removed[i];
+    const newBlock = added[j];
+    if (oldBlock && newBlock && isChange(oldBlock, newBlock)) {
+      changes.push({ type: 'changed', old: oldBlock, new: newBlock, words: diffWords(oldBlock.text, newBlock.text) });
+      i++;
+      j++;
+    } else if (newBlock && (!oldBlock || added.slice(j + 1).some(later => isChange(oldBlock, later)))) {
+      // The old block changes into a later one, so this one is new
+      changes.push({ type: 'added', new: newBlock });
+      j++;
+    } else {
+      changes.push({ type: 'removed', old: oldBlock });
+      i++;
+    }
+  }
+}
+
+export function diffBlocks(oldBlocks: StorageBlock[], newBlocks: StorageBlock[]): BlockChange[] {
+  const changes: BlockChange[] = [];
+  let i = 0;
+  let j = 0;
+  const matches = matchSequences(oldBlocks, newBlocks, (a, b) => a.signature === b.signature);
+  for (const [matchOld, matchNew] of [...matches, [oldBlocks.length, newBlocks.length] as [number, number]]) {
+    alignGap(oldBlocks.slice(i, matchOld), newBlocks.slice(j, matchNew), changes);
+    if (matchOld < oldBlocks.length) {
+      changes.push({ type: 'unchanged', old: oldBlocks[matchOld], new: newBlocks[matchNew] });
+    }
+    i = matchOld + 1;
+    j = matchNew + 1;
+  }
+  return changes;
+}
+
+export function diffStorage(oldStorage: string, newStorage: string): BlockChange[] {
+  return diffBlocks(splitBlocks(oldStorage), splitBlocks(newStorage));
+}
+
+export function summarizeDiff(changes: BlockChange[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0, unchanged: 0, lost: [] };
+  changes.forEach(change => {
+    summary[change.type]++;
+    if ((change.type === 'removed' || change.type === 'changed') && change.old) summary.lost.push(change.old);
+  });
+  return summary;
+}
+
+const KIND_NAMES: Record<BlockKind, [string, string]> = {
+  paragraph: ['paragraph', 'paragraphs'],
+  heading: ['heading', 'headings'],
+  table: ['table', 'tables'],
+  list: ['list', 'lists'],
+  tasks: ['task list', 'task lists'],
+  code: ['code block', 'code blocks'],
+  macro: ['macro', 'macros'],
+  image: ['image', 'images'],
+  quote: ['quote', 'quotes'],
+  rule: ['divider', 'dividers'],
+  other: ['block', 'blocks'],
+};
+
+// e.g. `2 headings ("Setup", "Usage"), 1 table, 1 info macro, 5 paragraphs`
+export function describeBlocks(blocks: StorageBlock[]): string {
+  const byKind = new Map<BlockKind, StorageBlock[]>();
+  blocks.forEach(block => byKind.set(block.kind, [...(byKind.get(block.kind) || []), block]));
+  return Array.from(byKind.entries())
+    .map(([kind, group]) => {
+      if (kind === 'macro') {
+        const names = Array.from(new Set(group.map(block => block.label.replace(/ macro$/, ''))));
+        return `${group.length} ${group.length === 1 ? 'macro' : 'macros'} (${names.join(', ')})`;
+      }
+      const [singular, plural] = KIND_NAMES[kind];
+      const count = `${group.length} ${group.length === 1 ? singular : plural}`;
+      if (kind !== 'heading') return count;
+      const titles = group.slice(0, 3).map(block => `"${truncate(block.text, 30)}"`);
+      return `${count} (${titles.join(', ')}${group.length > 3 ? ', …' : ''})`;
+    })
+    .join(', ');
+}
+
+export interface PageHeading {
+  level: number;
+  text: string;
+}
+
+// The page's headings, for picking where saved content goes
+export function pageOutline(storage: string): PageHeading[] {
+  return splitBlocks(storage)
+    .filter(block => block.kind === 'heading' && block.text)
+    .map(block => ({ level: Number(block.html.match(/^<h([1-6])/i)?.[1] || 1), text: block.text }));
+}
@@ -0,0 +1,190 @@
+// Renders Confluence storage format (XHTML plus `ac:` macros and `ri:`
+// resource identifiers) as safe, readable HTML for previews.
+//
+// Everything goes through the allow-list sanitizer. Macros become readable
+// stand-ins: code blocks stay code, info/note/warning/tip panels become
+// panels, status lozenges become badges, and anything we can't show
+// (attachments, Jira issues, tables of contents...) becomes a labelled
+// placeholder instead of disappearing.
+
+import { ElementRenderer, SanitizeContext, isSafeUrl, sanitizeHtml } from './sanitizeHtml';
+
+const PANEL_STYLES: Record<string, { label: string; className: string }> = {
+  info: { label: 'Info', className: 'border-blue-400 bg-blue-50' },
+  note: { label: 'Note', className: 'border-yellow-400 bg-yellow-50' },
+  warning: { label: 'Warning', className: 'border-red-400 bg-red-50' },
+  tip: { label: 'Tip', className: 'border-green-400 bg-green-50' },
+  panel: { label: '', className: 'border-gray-300 bg-gray-50' },
+};
+
+const STATUS_COLOURS: Record<string, string> = {
+  green: 'bg-green-100 text-green-800',
+  red: 'bg-red-100 text-red-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  blue: 'bg-blue-100 text-blue-800',
+  purple: 'bg-purple-100 text-purple-800',
+};
+
+const PLACEHOLDER_CLASS = 'inline-block px-2 py-0.5 my-0.5 rounded border border-dashed border-gray-400 bg-gray-50 text-xs text-gray-600';
+
+// The HTML parser doesn't know `<ri:page ... />` is self-closing and would
+// nest the following siblings inside it, so close those tags explicitly.
+export function closeStorageTags(storage: string): string {
+  return storage.replace(/<((?:ac|ri):[\w-]+)((?:\s+[^>]*?)?)\s*\/>/g, '<$1$2></$1>');
+}
+
+function childrenNamed(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.tagName.toLowerCase() === name);
+}
+
+function macroParameters(macro: Element): Record<string, string> {
+  return Object.fromEntries(
+    childrenNamed(macro, 'ac:parameter').map(param => [param.getAttribute('ac:name') || '', param.textContent || ''])
+  );
+}
+
+// Plain-text bodies hold CDATA, which the HTML parser turns into a comment
+function plainTextBody(macro: Element): string {
+  const body = childrenNamed(macro, 'ac:plain-text-body')[0];
+  if (!body) return '';
+  return Array.from(body.childNodes)
+    .map(node => {
+      if (node.nodeType === Node.COMMENT_NODE) {
+        return (node.textContent || '').replace(/^\[CDATA\[/, '').replace(/\]\]$/, '');
+      }
+      return node.textContent || '';
+    })
+    .join('');
+}
+
+function element(context: SanitizeContext, tag: string, className: string, text?: string): HTMLElement {
+  const el = context.doc.createElement(tag);
+  if (className) el.className = className;
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function placeholder(context: SanitizeContext, text: string): HTMLElement {
+  return element(context, 'span', PLACEHOLDER_CLASS, text);
+}
+
+function renderMacro(macro: Element, context: SanitizeContext): Node {
+  const name = (macro.getAttribute('ac:name') || '').toLowerCase();
+  const params = macroParameters(macro);
+  const richBody = childrenNamed(macro, 'ac:rich-text-body')[0];
+
+  if (name === 'code' || name === 'noformat') {
+    const block = element(context, 'div', 'my-2');
+    const label = [params.title, params.language].filter(Boolean).join(' · ');
+    if (label) block.appendChild(element(context, 'div', 'text-xs text-gray-500 mb-1', label));
+    const pre = element(context, 'pre', 'bg-gray-900 text-gray-100 rounded p-3 overflow-x-auto text-sm');
+    pre.appendChild(element(context, 'code', '', plainTextBody(macro)));
+    block.appendChild(pre);
+    return block;
+  }
+
+  if (PANEL_STYLES[name]) {
+    const style = PANEL_STYLES[name];
+    const panel = element(context, 'div', `my-2 p-3 border-l-4 rounded ${style.className}`);
+    const title = params.title || style.label;
+    if (title) panel.appendChild(element(context, 'div', 'font-semibold mb-1', title));
+    if (richBody) context.renderChildren(richBody, panel);
+    return panel;
+  }
+
+  if (name === 'expand') {
+    const section = element(context, 'div', 'my-2 p-3 border border-gray-200 rounded');
+    section.appendChild(element(context, 'div', 'font-semibold mb-1', `▸ ${params.title || 'Click to expand...'}`));
+    if (richBody) context.renderChildren(richBody, section);
+    return section;
+  }
+
+  if (name === 'status') {
+    const colour = STATUS_COLOURS[(params.colour || params.color || '').toLowerCase()] || 'bg-gray-100 text-gray-800';
+    return element(context, 'span', `inline-block px-2 py-0.5 rounded text-xs font-semibold uppercase ${colour}`, params.title || 'Status');
+  }
+
+  if (name === 'jira') {
+    return placeholder(context, `Jira: ${params.key || params.jqlQuery || 'issues'}`);
+  }
+
+  // Anything else: say which macro it was, and keep its body if it has one
+  const label = placeholder(context, `${name || 'Unknown'} macro`);
+  if (!richBody) return label;
+  const wrapper = element(context, 'div', 'my-2');
+  wrapper.appendChild(label);
+  context.renderChildren(richBody, wrapper);
+  return wrapper;
+}
+
+function renderImage(image: Element, context: SanitizeContext): Node {
+  const url = image.querySelector('ri\\:url');
+  const src = url?.getAttribute('ri:value') || '';
+  if (src && isSafeUrl(src, true)) {
+    const img = context.doc.createElement('img');
+    img.setAttribute('src', src);
+    img.setAttribute('alt', image.getAttribute('ac:alt') || '');
+    img.className = 'max-w-full';
+    return img;
+  }
+  const attachment = image.querySelector('ri\\:attachment');
+  return placeholder(context, `Image: ${attachment?.getAttribute('ri:filename') || image.getAttribute('ac:alt') || 'attachment'}`);
+}
+
+function renderLink(link: Element, context: SanitizeContext): Node {
+  const page = link.querySelector('ri\\:page');
+  const attachment = link.querySelector('ri\\:attachment');
+  const user = link.querySelector('ri\\:user');
+  const body = childrenNamed(link, 'ac:link-body')[0] || childrenNamed(link, 'ac:plain-text-link-body')[0];
+  const text = body?.textContent?.trim();
+  if (attachment) return placeholder(context, `Attachment: ${text || attachment.getAttribute('ri:filename') || 'file'}`);
+  if (user) return element(context, 'span', 'text-confluence-blue', `@${text || 'user'}`);
+  const title = page?.getAttribute('ri:content-title') || '';
+  return element(context, 'span', 'text-confluence-blue underline', text || title || link.getAttribute('ac:anchor') || 'link');
+}
+
+function renderTask(task: Element, context: SanitizeContext): Node {
+  const status = task.querySelector('ac\\:task-status')?.textContent?.trim();
+  const item = element(context, 'li', 'list-none');
+  item.appendChild(context.doc.createTextNode(status === 'complete' ? '☑ ' : '☐ '));
+  const body = task.querySelector('ac\\:task-body');
+  if (body) context.renderChildren(body, item);
+  return item;
+}
+
+const renderStorageElement: ElementRenderer = (el, context) => {
+  const tag = el.tagName.toLowerCase();
+  if (!tag.startsWith('ac:') && !tag.startsWith('ri:')) return undefined;
+  switch (tag) {
+    case 'ac:structured-macro':
+    case 'ac:macro':
+      return renderMacro(el, context);
+    case 'ac:image':
+      return renderImage(el, context);
+    case 'ac:link':
+      return renderLink(el, context);
+    case 'ac:task-list': {
+      const list = element(context, 'ul', 'pl-2');
+      childrenNamed(el, 'ac:task').forEach(task => list.appendChild(renderTask(task, context)));
+      return list;
+    }
+    case 'ac:emoticon':
+      return context.doc.createTextNode(`(${el.getAttribute('ac:name') || 'emoticon'})`);
+    case 'ac:layout':
+    case 'ac:layout-section':
+    case 'ac:layout-cell':
+    case 'ac:rich-text-body': {
+      const wrapper = element(context, 'div', '');
+      context.renderChildren(el, wrapper);
+      return wrapper;
+    }
+    default:
+      // Parameters and identifiers only mean something inside the elements above
+      return null;
+  }
+};
+
+export function renderStorageFormat(storage: string): string {
+  if (!storage) return '';
+  return sanitizeHtml(closeStorageTags(storage), renderStorageElement);
+}
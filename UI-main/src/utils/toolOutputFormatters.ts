@@ -49,12 +49,15 @@ export function formatImageInsightsOutput(images: { name: string, summary?: stri
   return images.map(img => `### ${img.name}\n${img.summary || ''}\n` + (img.qa && img.qa.length > 0 ? '\n#### Q&A\n' + img.qa.map(qa => `**Q:** ${qa.question}\n**A:** ${qa.answer}`).join('\n\n') : '')).join('\n---\n');
 }
 
-export function formatVideoSummarizerOutput(video: { name: string, summary?: string, quotes?: string[], timestamps?: string[], qa?: { question: string, answer: string }[] }): string {
+export function formatVideoSummarizerOutput(video: { name: string, summary?: string, quotes?: string[], actionItems?: string[], timestamps?: string[], qa?: { question: string, answer: string }[] }): string {
   let out = `### ${video.name}\n`;
   if (video.summary) out += `\n**AI Summary:**\n${video.summary}\n`;
   if (video.quotes && video.quotes.length > 0) {
     out += '\n**Key Quotes:**\n' + video.quotes.map(q => `- "${q}"`).join('\n');
   }
+  if (video.actionItems && video.actionItems.length > 0) {
+    out += '\n**Action Items:**\n' + video.actionItems.map(item => `- [ ] ${item}`).join('\n');
+  }
   if (video.timestamps && video.timestamps.length > 0) {
     out += '\n**Timestamps:**\n' + video.timestamps.map(ts => `- ${ts}`).join('\n');
   }